@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+
+/**
+ * Batch evaluation runner
+ * Runs a JSONL dataset through in-process collaborations and reports accuracy.
+ * Requires Redis and the configured models (local GGUF or OPENAI_COMPAT_* endpoints).
+ *
+ * Usage: npm run eval -- --dataset evals/math-basic.jsonl --models a,b [--workflow id] [--out report.json]
+ */
+
+/* eslint-disable no-console */
+
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+
+import { ModelService } from '../services/modelService.js';
+import { RedisService } from '../services/redisService.js';
+import { WorkflowRegistry } from '../services/workflowRegistry.js';
+import { EvaluationRunner } from '../services/evaluationRunner.js';
+import { EvaluationReport } from '../models/evaluationTypes.js';
+
+const DEFAULT_ITEM_TIMEOUT_MS = 15 * 60 * 1000;
+
+const USAGE = `Usage: npm run eval -- --dataset <file.jsonl> --models <a,b[,c...]> [options]
+
+Options:
+  --dataset, -d    JSONL file with {"id", "question", "expected", "tolerance"?} per line (required)
+  --models, -m     Comma-separated model IDs in turn order (required)
+  --workflow, -w   Workflow ID (default: built-in workflow)
+  --limit, -n      Only evaluate the first N items
+  --timeout, -t    Per-item timeout in ms (default: ${DEFAULT_ITEM_TIMEOUT_MS})
+  --out, -o        Write the full report JSON to this file
+  --help, -h       Show this help`;
+
+function printSummary(report: EvaluationReport): void {
+  console.log('\n📊 Evaluation summary');
+  console.table(report.items.map(item => ({
+    id: item.id,
+    expected: item.expected,
+    actual: item.actual ?? '-',
+    correct: item.correct ? '✅' : '❌',
+    status: item.status,
+    phases: item.phasesUsed.join(' → '),
+    turns: item.turns,
+    tokens: item.tokens,
+    seconds: Math.round(item.durationMs / 100) / 10
+  })));
+
+  const { summary } = report;
+  console.log(`Accuracy: ${summary.correct}/${summary.total} (${(summary.accuracy * 100).toFixed(1)}%)`);
+  console.log(`Errors: ${summary.errors} | avg turns ${summary.averageTurns.toFixed(1)} | ` +
+    `avg tokens ${Math.round(summary.averageTokens)} | avg time ${(summary.averageDurationMs / 1000).toFixed(1)}s`);
+}
+
+async function main(): Promise<number> {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: process.argv.slice(2),
+      options: {
+        dataset: { type: 'string', short: 'd' },
+        models: { type: 'string', short: 'm' },
+        workflow: { type: 'string', short: 'w' },
+        limit: { type: 'string', short: 'n' },
+        timeout: { type: 'string', short: 't' },
+        out: { type: 'string', short: 'o' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    }));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const models = (values.models ?? '').split(',').map(model => model.trim()).filter(Boolean);
+  if (!values.dataset || models.length < 2) {
+    console.error(`--dataset and at least two --models are required\n\n${USAGE}`);
+    return 2;
+  }
+
+  const redisService = new RedisService();
+  const modelService = new ModelService();
+  const workflowRegistry = new WorkflowRegistry();
+
+  try {
+    let items = await EvaluationRunner.loadDataset(values.dataset);
+    if (values.limit) {
+      items = items.slice(0, parseInt(values.limit, 10));
+    }
+
+    await redisService.connect();
+    await modelService.initialize();
+    await workflowRegistry.initialize();
+
+    const workflow = workflowRegistry.resolve(values.workflow);
+    const runner = new EvaluationRunner(modelService, redisService);
+
+    const report = await runner.run(values.dataset, items, {
+      models,
+      workflow,
+      itemTimeoutMs: values.timeout ? parseInt(values.timeout, 10) : DEFAULT_ITEM_TIMEOUT_MS,
+      onItemComplete: (result, index, total) => {
+        console.log(`[${index + 1}/${total}] ${result.correct ? '✅' : '❌'} ${result.id}: ` +
+          `expected ${result.expected}, got ${result.actual ?? 'no answer'} (${result.status})`);
+      }
+    });
+
+    printSummary(report);
+
+    if (values.out) {
+      await writeFile(values.out, JSON.stringify(report, null, 2), 'utf-8');
+      console.log(`Report written to ${values.out}`);
+    }
+
+    return 0;
+  } catch (error) {
+    console.error(`❌ Evaluation failed: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  } finally {
+    await modelService.shutdown().catch(() => undefined);
+    await redisService.disconnect().catch(() => undefined);
+  }
+}
+
+main().then(code => process.exit(code));
@@ -0,0 +1,359 @@
+#!/usr/bin/env node
+
+/**
+ * Headless Synergize client
+ * Starts a collaboration on a running server, renders the SSE stream in the
+ * terminal and writes the result to a JSON file.
+ *
+ * Usage: npm run cli -- run "prompt" --models a,b [--workflow id] [--out result.json]
+ */
+
+/* eslint-disable no-console */
+
+import { randomUUID } from 'crypto';
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+
+import { CollaborationPhase, SSEMessage, SSEMessageType, TokenChunk } from '../models/types.js';
+import { AgreementAnalysisResult } from '../models/agreementAnalysisTypes.js';
+import { config } from '../config.js';
+
+const EXIT_OK = 0;
+const EXIT_COLLABORATION_ERROR = 1;
+const EXIT_USAGE = 2;
+
+const MAX_RECONNECT_ATTEMPTS = 3;
+
+const USAGE = `Usage: synergize run "<prompt>" --models <a,b[,c...]> [options]
+
+Options:
+  --models, -m     Comma-separated model IDs in turn order (required)
+  --workflow, -w   Workflow ID (default: built-in workflow)
+  --out, -o        Write the result JSON to this file
+  --server, -s     Server URL (default: $SYNERGIZE_URL or http://localhost:${config.server.port})
+  --quiet, -q      Do not stream tokens to the terminal
+  --help, -h       Show this help`;
+
+interface CliOptions {
+  prompt: string;
+  models: string[];
+  workflowId?: string;
+  outFile?: string;
+  serverUrl: string;
+  quiet: boolean;
+}
+
+interface CollaborationResult {
+  sessionId: string;
+  prompt: string;
+  models: string[];
+  workflowId?: string;
+  status: 'completed' | 'error';
+  error?: string;
+  finalSynthesis: string;
+  finalOutput: string;
+  responses: Array<{ modelId: string; phase: CollaborationPhase; content: string }>;
+  agreementAnalyses: Array<{ phase: CollaborationPhase; analysis: AgreementAnalysisResult }>;
+  startedAt: string;
+  completedAt: string;
+}
+
+function parseCliArgs(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      models: { type: 'string', short: 'm' },
+      workflow: { type: 'string', short: 'w' },
+      out: { type: 'string', short: 'o' },
+      server: { type: 'string', short: 's' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    return null;
+  }
+
+  const [command, ...promptParts] = positionals;
+  if (command !== 'run') {
+    throw new Error(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+
+  const prompt = promptParts.join(' ').trim();
+  if (!prompt) {
+    throw new Error('Missing prompt');
+  }
+
+  const models = (values.models ?? '').split(',').map(model => model.trim()).filter(Boolean);
+  if (models.length < 2) {
+    throw new Error('--models requires at least two comma-separated model IDs');
+  }
+
+  return {
+    prompt,
+    models,
+    workflowId: values.workflow,
+    outFile: values.out,
+    serverUrl: (values.server ?? process.env.SYNERGIZE_URL ?? `http://localhost:${config.server.port}`).replace(/\/+$/, ''),
+    quiet: values.quiet ?? false
+  };
+}
+
+/**
+ * Renders the stream: one header per model/phase run, tokens written inline
+ */
+class TerminalRenderer {
+  private currentStream: string | null = null;
+
+  constructor(private readonly quiet: boolean) {}
+
+  token(chunk: TokenChunk): void {
+    if (this.quiet) return;
+
+    const streamKey = `${chunk.modelId}:${chunk.phase}`;
+    if (streamKey !== this.currentStream && chunk.tokens.length > 0) {
+      const label = chunk.modelId === 'synthesis' ? 'SYNTHESIS'
+        : chunk.modelId === 'curator' ? `${chunk.phase} · CURATOR`
+          : `${chunk.phase} · ${chunk.modelId}`;
+      process.stdout.write(`\n\n── ${label} ──\n`);
+      this.currentStream = streamKey;
+    }
+    process.stdout.write(chunk.tokens.join(''));
+    if (chunk.isComplete) {
+      this.currentStream = null;
+    }
+  }
+
+  status(text: string): void {
+    if (this.quiet) return;
+    process.stderr.write(`\n⚙️  ${text}\n`);
+  }
+}
+
+async function initiate(options: CliOptions, sessionId: string): Promise<void> {
+  const response = await fetch(`${options.serverUrl}/api/synergize/initiate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      prompt: options.prompt,
+      models: options.models,
+      sessionId,
+      createdAt: new Date().toISOString(),
+      workflowId: options.workflowId
+    })
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({})) as { error?: string };
+    throw new Error(body.error || `Initiate failed with ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Consume the SSE stream until the collaboration completes or fails,
+ * resuming from the last event ID if the connection drops
+ */
+async function consumeStream(
+  options: CliOptions,
+  sessionId: string,
+  onMessage: (message: SSEMessage) => boolean
+): Promise<void> {
+  let lastEventId: string | null = null;
+  let attempts = 0;
+
+  while (attempts <= MAX_RECONNECT_ATTEMPTS) {
+    const controller = new AbortController();
+    const response = await fetch(`${options.serverUrl}/api/synergize/stream/${sessionId}`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {})
+      },
+      signal: controller.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({})) as { error?: string };
+      throw new Error(body.error || `Stream failed with ${response.status} ${response.statusText}`);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventId: string | null = null;
+    let data: string[] = [];
+
+    try {
+      for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk as Uint8Array, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (line === '' || line === '\r') {
+            // Blank line dispatches the event
+            if (data.length > 0) {
+              if (eventId) lastEventId = eventId;
+              attempts = 0;
+              const finished = onMessage(JSON.parse(data.join('\n')) as SSEMessage);
+              if (finished) {
+                controller.abort();
+                return;
+              }
+            }
+            eventId = null;
+            data = [];
+          } else if (line.startsWith('id:')) {
+            eventId = line.slice(3).trim();
+          } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).trimStart());
+          }
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      process.stderr.write(`\n⚠️  Stream interrupted: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+
+    attempts++;
+    process.stderr.write(`\n🔄 Reconnecting (attempt ${attempts}/${MAX_RECONNECT_ATTEMPTS}) from event ${lastEventId ?? 0}...\n`);
+    await new Promise(resolve => setTimeout(resolve, config.sse.reconnectInterval));
+  }
+
+  throw new Error('Stream closed before the collaboration finished');
+}
+
+async function run(options: CliOptions): Promise<number> {
+  const sessionId = randomUUID();
+  const renderer = new TerminalRenderer(options.quiet);
+  // Responses still streaming, keyed by model and phase
+  const openResponses = new Map<string, CollaborationResult['responses'][number]>();
+
+  const result: CollaborationResult = {
+    sessionId,
+    prompt: options.prompt,
+    models: options.models,
+    workflowId: options.workflowId,
+    status: 'completed',
+    finalSynthesis: '',
+    finalOutput: '',
+    responses: [],
+    agreementAnalyses: [],
+    startedAt: new Date().toISOString(),
+    completedAt: ''
+  };
+
+  await initiate(options, sessionId);
+  renderer.status(`Session ${sessionId}: ${options.models.join(' → ')}`);
+
+  try {
+    await consumeStream(options, sessionId, (message) => {
+      switch (message.type) {
+      case SSEMessageType.TOKEN_CHUNK: {
+        const chunk = message.payload as TokenChunk;
+        renderer.token(chunk);
+        if (chunk.modelId === 'synthesis') {
+          result.finalSynthesis += chunk.tokens.join('');
+        } else if (chunk.modelId !== 'curator') {
+          const key = `${chunk.modelId}:${chunk.phase}`;
+          let response = openResponses.get(key);
+          if (!response) {
+            response = { modelId: chunk.modelId, phase: chunk.phase, content: '' };
+            openResponses.set(key, response);
+            result.responses.push(response);
+          }
+          response.content += chunk.tokens.join('');
+          if (chunk.isComplete) {
+            openResponses.delete(key);
+          }
+        }
+        return false;
+      }
+
+      case SSEMessageType.PHASE_UPDATE:
+        if (typeof message.payload.message === 'string') {
+          renderer.status(message.payload.message);
+        } else if (message.payload.status === 'started') {
+          renderer.status(`Phase ${String(message.payload.phase)} started`);
+        }
+        return false;
+
+      case SSEMessageType.SYNTHESIS_UPDATE:
+        if (message.payload.agreementAnalysis) {
+          const analysis = message.payload.agreementAnalysis as AgreementAnalysisResult;
+          result.agreementAnalyses.push({ phase: message.payload.phase as CollaborationPhase, analysis });
+          renderer.status(`Agreement: ${analysis.agreementLevel} → ${analysis.finalRecommendation?.nextPhase ?? 'n/a'}`);
+        }
+        return false;
+
+      case SSEMessageType.COLLABORATION_COMPLETE:
+        result.finalOutput = String(message.payload.finalOutput ?? '');
+        return true;
+
+      case SSEMessageType.SESSION_STATUS:
+        if (message.payload.status === 'cancelled') {
+          result.status = 'error';
+          result.error = 'Collaboration was cancelled';
+          return true;
+        }
+        renderer.status(String(message.payload.message ?? `Session ${String(message.payload.status)}`));
+        return false;
+
+      case SSEMessageType.BUDGET_EXCEEDED:
+        renderer.status(String(message.payload.message));
+        return false;
+
+      case SSEMessageType.ERROR:
+        result.status = 'error';
+        result.error = String(message.payload.error ?? 'Unknown error');
+        return true;
+
+      default:
+        return false;
+      }
+    });
+  } catch (error) {
+    result.status = 'error';
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  result.completedAt = new Date().toISOString();
+
+  if (options.outFile) {
+    await writeFile(options.outFile, JSON.stringify(result, null, 2), 'utf-8');
+    renderer.status(`Result written to ${options.outFile}`);
+  }
+
+  if (result.status === 'error') {
+    console.error(`\n❌ Collaboration failed: ${result.error}`);
+    return EXIT_COLLABORATION_ERROR;
+  }
+
+  if (!options.quiet) process.stdout.write('\n');
+  console.error('\n✅ Collaboration complete');
+  return EXIT_OK;
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    return await run(options);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_COLLABORATION_ERROR;
+  }
+}
+
+main().then(code => process.exit(code));
@@ -7,14 +7,44 @@ export const config = {
 
   // Model Configuration
   model: {
-    contextSize: parseInt(process.env.MODEL_CONTEXT_SIZE || '8192'),
+    contextSize: parseInt(process.env.MODEL_CONTEXT_SIZE || '8192'), // For GGUFs without context_length metadata
+    contextMemoryMB: parseInt(process.env.MODEL_CONTEXT_MEMORY_MB || '0'), // Memory one model's context pool may use, 0 = its share of what is free
     batchSize: parseInt(process.env.MODEL_BATCH_SIZE || '256'), // Reduced from 512 to prevent KV slot errors
     threads: parseInt(process.env.MODEL_THREADS || '4'),
     gpuLayers: parseInt(process.env.MODEL_GPU_LAYERS || '-1'),
-    contextsPerModel: parseInt(process.env.CONTEXTS_PER_MODEL || '4'),
+    contextsPerModel: parseInt(process.env.CONTEXTS_PER_MODEL || '4'), // Most contexts a model's pool grows to
+    minContextsPerModel: parseInt(process.env.MIN_CONTEXTS_PER_MODEL || '1'), // Created at load and never evicted when idle
+    contextIdleTimeout: parseInt(process.env.CONTEXT_IDLE_TIMEOUT_MS || '600000'), // Idle contexts above the minimum are disposed after this, 0 = never
+    poolMemoryMB: parseInt(process.env.CONTEXT_POOL_MEMORY_MB || '0'), // Memory all context pools together may use, 0 = unlimited
+    reusePrefixes: process.env.KV_PREFIX_REUSE !== 'false', // Keep evaluated prompt prefixes in the KV cache between turns
+    drainTimeout: parseInt(process.env.MODEL_DRAIN_TIMEOUT_MS || '300000'), // Wait for busy contexts before an unload is called off
     // maxTokens removed - now calculated dynamically by ContextAllocator
   },
 
+  // OpenAI-compatible HTTP backend (llama-server, vLLM, ...)
+  openAICompatible: {
+    baseUrl: process.env.OPENAI_COMPAT_BASE_URL || '',
+    apiKey: process.env.OPENAI_COMPAT_API_KEY || '',
+    models: (process.env.OPENAI_COMPAT_MODELS || '').split(',').map(model => model.trim()).filter(Boolean),
+    contextSize: parseInt(process.env.OPENAI_COMPAT_CONTEXT_SIZE || '8192'),
+    requestTimeout: parseInt(process.env.OPENAI_COMPAT_TIMEOUT || '300000'), // 5 minutes
+  },
+
+  // Scripted mock models for end-to-end tests (no GGUF files or endpoints needed)
+  mockModels: {
+    enabled: process.env.MOCK_MODELS === 'true',
+    models: (process.env.MOCK_MODEL_IDS || 'mock-alpha,mock-beta').split(',').map(model => model.trim()).filter(Boolean),
+    scriptPath: process.env.MOCK_MODELS_SCRIPT || '', // JSON file of response rules keyed by model, phase and prompt pattern
+    latencyMs: parseInt(process.env.MOCK_LATENCY_MS || '0'),       // Delay before the first token
+    tokenDelayMs: parseInt(process.env.MOCK_TOKEN_DELAY_MS || '0'), // Delay between streamed tokens
+    contextSize: 8192,
+  },
+
+  // Admin API (model load/unload) - requests must send `Authorization: Bearer <token>` when set, otherwise only localhost may call it
+  admin: {
+    token: process.env.ADMIN_TOKEN || '',
+  },
+
   // Redis Configuration
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
@@ -25,7 +55,10 @@ export const config = {
   // SSE Configuration
   sse: {
     heartbeatInterval: 30000, // 30 seconds
-    reconnectInterval: 5000,  // 5 seconds
+    reconnectInterval: 5000,  // 5 seconds - sent to clients as the `retry:` hint
+    disconnectGracePeriod: parseInt(process.env.SSE_DISCONNECT_GRACE_MS || '30000'), // Keep collaborating while the client reconnects
+    pausedTimeout: parseInt(process.env.SSE_PAUSED_TIMEOUT_MS || '1800000'), // Cancel a paused collaboration nobody is connected to after this, 0 = never
+    replayBufferSize: parseInt(process.env.SSE_REPLAY_BUFFER_SIZE || '20000'), // Events kept per session for Last-Event-ID replay
   },
 
   // Logging Configuration
@@ -37,6 +70,8 @@ export const config = {
   // Path Configuration
   paths: {
     modelsDirectory: '../../../models',
+    modelsManifest: process.env.MODELS_MANIFEST || 'models.json', // Relative to the models directory
+    workflowsDirectory: '../../../workflows',
   },
 
   // CORS Configuration
@@ -49,6 +84,23 @@ export const config = {
   session: {
     maxConcurrentSessions: parseInt(process.env.MAX_CONCURRENT_SESSIONS || '10'),
     sessionTimeout: parseInt(process.env.SESSION_TIMEOUT || '3600000'), // 1 hour in ms
+    minParticipants: 2,
+    maxParticipants: parseInt(process.env.MAX_PARTICIPANTS || '4'), // Models taking turns per session
+  },
+
+  // Per-session budgets (0 = unlimited) - a request may pass its own `budget` instead
+  budget: {
+    maxTurns: parseInt(process.env.SESSION_MAX_TURNS || '0'),                  // Model turns per run
+    maxTokens: parseInt(process.env.SESSION_MAX_TOKENS || '0'),                // Tokens generated by turns and helper calls alike
+    maxPhaseRevisits: parseInt(process.env.SESSION_MAX_PHASE_REVISITS || '0'), // Returns to an already executed phase
+    maxDurationMs: parseInt(process.env.SESSION_MAX_DURATION_MS || '0'),       // Wall-clock time, paused time excluded
+  },
+
+  // Curation between participant turns - workflow phases may also set their own curationTask
+  curation: {
+    enabled: process.env.CURATION_ENABLED === 'true',
+    modelId: process.env.CURATOR_MODEL || '',                  // Defaults to the lead participant
+    defaultTask: process.env.CURATION_TASK || 'PREPARE_CONTEXT', // Applied to phases without a curationTask
   },
 
   // Performance Configuration
@@ -59,6 +111,8 @@ export const config = {
 
   // Vector Store Configuration
   vectorStore: {
+    backend: process.env.VECTOR_STORE || 'auto', // auto = RediSearch when Redis has it, in-memory otherwise; or redis / memory
+    persistPath: process.env.VECTOR_STORE_PATH || '', // JSON file the in-memory store is saved to, empty = not persisted
     embeddingModel: 'Xenova/bge-large-en-v1.5',
     embeddingDimension: 1024,
     maxSearchResults: 20,
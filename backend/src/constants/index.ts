@@ -18,11 +18,13 @@ export const ERROR_MESSAGES = {
   MODEL_LOAD_FAILED: 'Failed to load model',
   CONTEXT_NOT_AVAILABLE: 'No context available for model',
   CONTEXT_TIMEOUT: 'Timeout waiting for available context',
+  CONTEXT_MEMORY_EXHAUSTED: 'Context memory budget exhausted',
   
   // Conversation errors
   CONVERSATION_NOT_FOUND: 'Conversation not found',
   INVALID_PHASE: 'Invalid collaboration phase',
   PHASE_TRANSITION_FAILED: 'Failed to transition phase',
+  COLLABORATION_CANCELLED: 'Collaboration was cancelled',
   
   // Token errors
   TOKEN_LIMIT_EXCEEDED: 'Token limit exceeded',
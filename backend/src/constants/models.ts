@@ -8,7 +8,9 @@
 export const MODEL_IDS = {
   GEMMA: 'gemma',
   QWEN: 'qwen',
-  SYNTHESIS: 'synthesis' // Special ID for synthesis output routing
+  SYNTHESIS: 'synthesis', // Special ID for synthesis output routing
+  CURATOR: 'curator',     // Stream ID for curation output between turns
+  USER: 'user'            // Author of human interjections in the conversation
 } as const;
 
 /**
@@ -17,6 +19,9 @@ export const MODEL_IDS = {
 export const MODEL_DEFAULTS = {
   // Context window settings
   CONTEXT_SIZE: 4096,
+  MIN_CONTEXT_SIZE: 2048,       // Smallest context a GGUF default is reduced to
+  CONTEXT_SIZE_STEP: 1024,      // Granularity when fitting a context to the memory budget
+  CONTEXT_MEMORY_HEADROOM: 0.8, // Share of free memory the pools being loaded may take when no budget is configured
   BATCH_SIZE: 512,
   
   // Generation settings
@@ -36,13 +41,27 @@ export const MODEL_DEFAULTS = {
   
   // Timeout settings
   CONTEXT_WAIT_TIMEOUT: 30000, // 30 seconds
-  CONTEXT_CHECK_INTERVAL: 100, // 100ms
   
   // Token buffer settings
   TOKEN_BUFFER_SIZE: 100, // For CircularBuffer in streaming
   TOKEN_CONTEXT_SIZE: 10  // Tokens to keep for detokenization context
 } as const;
 
+/**
+ * Sampling settings for models registered without declared defaults
+ */
+export const DEFAULT_MODEL_SETTINGS = {
+  temperature: MODEL_DEFAULTS.TEMPERATURE,
+  topP: MODEL_DEFAULTS.TOP_P,
+  topK: MODEL_DEFAULTS.TOP_K,
+  repeatPenalty: MODEL_DEFAULTS.REPEAT_PENALTY
+} as const;
+
+/**
+ * Sampling settings a model declaration or session override may set
+ */
+export const MODEL_SETTING_KEYS = ['temperature', 'topP', 'topK', 'minP', 'repeatPenalty'] as const;
+
 /**
  * Token allocation percentages by phase
  * These control how much of the context window is allocated for each phase
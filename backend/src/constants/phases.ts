@@ -2,6 +2,7 @@
  * Phase-related constants for the collaboration system
  */
 import { CollaborationPhase } from '../models/types.js';
+import { WorkflowDefinition } from '../models/workflowTypes.js';
 
 /**
  * Phase instructions for model behavior during collaboration
@@ -17,6 +18,28 @@ export const PHASE_INSTRUCTIONS: Record<CollaborationPhase, string> = {
   [CollaborationPhase.COMPLETE]: 'Complete.'
 };
 
+/**
+ * Built-in workflow reproducing the original collaboration flow
+ * Used when a session does not request a specific workflow
+ */
+export const DEFAULT_WORKFLOW_ID = 'default';
+
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  id: DEFAULT_WORKFLOW_ID,
+  name: 'Collaborative Problem Solving',
+  description: 'Brainstorm, critique, revise and synthesize until the participants reach consensus.',
+  phases: [
+    { phase: CollaborationPhase.BRAINSTORM, instruction: PHASE_INSTRUCTIONS[CollaborationPhase.BRAINSTORM] },
+    { phase: CollaborationPhase.CRITIQUE, instruction: PHASE_INSTRUCTIONS[CollaborationPhase.CRITIQUE] },
+    { phase: CollaborationPhase.REVISE, instruction: PHASE_INSTRUCTIONS[CollaborationPhase.REVISE] },
+    { phase: CollaborationPhase.SYNTHESIZE, instruction: PHASE_INSTRUCTIONS[CollaborationPhase.SYNTHESIZE] },
+    { phase: CollaborationPhase.CONSENSUS, instruction: PHASE_INSTRUCTIONS[CollaborationPhase.CONSENSUS] }
+  ],
+  terminal: {
+    phases: [CollaborationPhase.CONSENSUS, CollaborationPhase.COMPLETE] // COMPLETE allows a direct jump to the final answer
+  }
+};
+
 /**
  * Verification reminder text for system prompts
  */
@@ -16,6 +16,16 @@ export const REDIS_KEYS = {
   SESSION_ACTIVE: 'session:active:',
   SESSION_METADATA: 'session:metadata:',
   
+  // Archived collaborations (no TTL - kept until deleted)
+  HISTORY_SESSION: 'history:session:',
+  HISTORY_SUMMARIES: 'history:summaries',
+  HISTORY_INDEX: 'history:index',
+  HISTORY_FORKS: 'history:forks:',             // Set of fork session IDs per parent session
+  HISTORY_FORK_ORIGINS: 'history:fork-origins', // Hash of fork session ID → ForkOrigin
+  
+  // SSE replay buffer for resumable streams
+  SSE_EVENTS: 'sse:events:',
+  
   // Vector storage for embeddings
   EMBEDDING_VECTOR: 'embedding:vector:',
   EMBEDDING_METADATA: 'embedding:metadata:',
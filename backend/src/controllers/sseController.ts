@@ -3,26 +3,75 @@ import { Request, Response } from 'express';
 import { ModelService } from '../services/modelService.js';
 import { RedisService } from '../services/redisService.js';
 import { CollaborationOrchestrator } from '../services/collaborationOrchestrator.js';
+import { SessionScheduler } from '../services/sessionScheduler.js';
 
-import { SSEMessage, SSEMessageType } from '../models/types.js';
+import { ModelConfig, SessionControlStatus, SSEEvent, SSEMessage, SSEMessageType } from '../models/types.js';
+import { ConversationTurn } from '../models/conversationTypes.js';
 import { config } from '../config.js';
 import { createLogger } from '../utils/logger.js';
 
+/**
+ * Live state of a running collaboration stream
+ * The orchestrator outlives individual connections so a client can reconnect
+ * within the grace period and resume from its Last-Event-ID.
+ */
+interface StreamSession {
+  sessionId: string;
+  orchestrator: CollaborationOrchestrator;
+  connection: Response | null;
+  heartbeat: NodeJS.Timeout | null;
+  graceTimer: NodeJS.Timeout | null;
+  nextEventId: number;
+  replayQueue: SSEEvent[] | null; // Live events held back while a reconnecting client is replayed
+  admitted: boolean;
+  finished: boolean;
+}
+
 export class SSEController {
-  private readonly activeConnections = new Map<string, Response>();
-  private readonly heartbeatIntervals = new Map<string, NodeJS.Timeout>();
+  private readonly sessions = new Map<string, StreamSession>();
+  private readonly regenerating = new Set<string>();
   private readonly logger = createLogger('SSEController');
-  
+
   constructor(
     private readonly modelService: ModelService,
-    private readonly redisService: RedisService
+    private readonly redisService: RedisService,
+    private readonly scheduler: SessionScheduler
   ) {}
 
   async handleStream(req: Request, res: Response): Promise<void> {
     const { sessionId } = req.params;
     const clientIp = req.ip || req.connection.remoteAddress;
     const startTime = Date.now();
-    
+    const lastEventId = this.parseLastEventId(req);
+
+    // Reconnect to a collaboration that is still running
+    const existing = this.sessions.get(sessionId);
+    if (existing && !existing.finished) {
+      await this.resumeStream(existing, req, res, lastEventId ?? 0, startTime);
+      return;
+    }
+
+    // Reconnect to a finished run that is still tracked - replay what was missed and close
+    if (existing && lastEventId !== null) {
+      if (!await this.replayFinishedStream(sessionId, res, lastEventId)) {
+        res.status(204).end();
+      }
+      return;
+    }
+
+    // A fresh connection to a finished session starts its follow-up run
+    if (existing) {
+      const staleConnection = existing.connection;
+      existing.connection = null;
+      this.cleanup(existing);
+      staleConnection?.end();
+    }
+
+    // Reconnect after the collaboration finished - replay whatever was missed
+    if (lastEventId !== null && await this.replayFinishedStream(sessionId, res, lastEventId)) {
+      return;
+    }
+
     // Validate session with strict timestamp checking
     const isValidSession = await this.validateSession(sessionId);
     if (!isValidSession) {
@@ -31,76 +80,315 @@ export class SSEController {
         clientIp,
         reason: 'session_validation_failed'
       });
-      res.status(410).json({ 
+      res.status(410).json({
         error: 'Session invalid or expired. Please start a new collaboration.',
-        sessionId 
+        sessionId
       });
       return;
     }
-    
+
     this.logger.info('SSE connection initiated', {
       sessionId,
       clientIp,
       userAgent: req.headers['user-agent'],
-      activeConnections: this.activeConnections.size
-    });
-    
-    // Set SSE headers
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache, no-transform',
-      'Connection': 'keep-alive',
-      'X-Accel-Buffering': 'no', // Disable Nginx buffering
-      'Access-Control-Allow-Origin': config.cors.origin,
+      activeSessions: this.sessions.size
     });
 
-    // Store connection
-    this.activeConnections.set(sessionId, res);
-    
+    // Event ids continue after the buffered events of earlier runs on this session
+    let lastBufferedEventId = 0;
+    try {
+      lastBufferedEventId = await this.redisService.getLastStreamEventId(sessionId);
+    } catch (error) {
+      this.logger.error('Failed to read stream buffer', error, { sessionId });
+    }
+
+    // Initialize collaboration
+    const session: StreamSession = {
+      sessionId,
+      orchestrator: new CollaborationOrchestrator(
+        this.modelService,
+        this.redisService,
+        (message: SSEMessage) => this.sendEvent(session, message),
+      ),
+      connection: null,
+      heartbeat: null,
+      graceTimer: null,
+      nextEventId: lastBufferedEventId + 1,
+      replayQueue: null,
+      admitted: false,
+      finished: false
+    };
+    this.sessions.set(sessionId, session);
+
+    this.attachConnection(session, req, res, startTime);
+
     this.logger.info('SSE connection established', {
       sessionId,
-      totalActiveConnections: this.activeConnections.size,
+      activeSessions: this.sessions.size,
       connectionDuration: Date.now() - startTime
     });
 
     // Send initial connection message
-    this.sendMessage(res, {
+    this.sendEvent(session, {
       type: SSEMessageType.CONNECTION,
       payload: { status: 'connected', sessionId },
     });
 
-    // Set up heartbeat
-    const heartbeatInterval = setInterval(() => {
-      res.write(':heartbeat\n\n');
-    }, config.sse.heartbeatInterval);
-    
-    this.heartbeatIntervals.set(sessionId, heartbeatInterval);
+    // Wait for a free session slot, then start collaboration
+    this.scheduler.admit(sessionId, (position) => {
+      this.sendEvent(session, {
+        type: SSEMessageType.QUEUE_UPDATE,
+        payload: { ...position },
+      });
+    })
+      .then(() => {
+        session.admitted = true;
+        this.logger.info('Starting collaboration', {
+          sessionId,
+          orchestratorInitialized: true
+        });
+        return session.orchestrator.startCollaboration(sessionId);
+      })
+      .catch((error: Error) => {
+        // Cancelled while still queued
+        if (session.orchestrator.getControlStatus() === 'cancelled') {
+          this.sendEvent(session, {
+            type: SSEMessageType.SESSION_STATUS,
+            payload: { sessionId, status: 'cancelled', message: '🛑 Collaboration cancelled' },
+          });
+          return;
+        }
 
-    // Initialize collaboration
-    const orchestrator = new CollaborationOrchestrator(
-      this.modelService,
-      this.redisService,
-      (message: SSEMessage) => this.sendMessage(res, message),
-    );
-
-    // Start collaboration
-    this.logger.info('Starting collaboration', {
+        this.logger.error('Collaboration failed', error, {
+          sessionId,
+          connectionDuration: Date.now() - startTime
+        });
+
+        this.sendEvent(session, {
+          type: SSEMessageType.ERROR,
+          payload: { error: error.message },
+        });
+      })
+      .finally(() => {
+        // Only now are the run's contexts free - the next queued session may start
+        this.scheduler.release(sessionId);
+        session.finished = true;
+        // Nobody is listening - the replay buffer in Redis covers a late reconnect
+        if (!session.connection) {
+          this.cleanup(session);
+        }
+      });
+  }
+
+  /**
+   * True while a collaboration is queued or running for the session
+   */
+  isRunning(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    return session !== undefined && !session.finished;
+  }
+
+  /**
+   * Forward a user message to a running collaboration
+   * Returns the number of queued messages, or null when the session is not running
+   */
+  interject(sessionId: string, content: string): number | null {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.finished) {
+      return null;
+    }
+    return session.orchestrator.interject(content);
+  }
+
+  /**
+   * Hold a running collaboration at its next turn boundary
+   * A paused session outlives its client for SSE_PAUSED_TIMEOUT_MS instead of the grace period
+   * Returns the resulting status, or null when the session is not running
+   */
+  async pause(sessionId: string): Promise<SessionControlStatus | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.finished) {
+      return null;
+    }
+
+    await session.orchestrator.pause();
+    this.restartGraceTimer(session);
+    return session.orchestrator.getControlStatus();
+  }
+
+  async resume(sessionId: string): Promise<SessionControlStatus | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.finished) {
+      return null;
+    }
+
+    await session.orchestrator.resume();
+    // Resumed from another client (or the API) - the usual grace period applies again
+    this.restartGraceTimer(session);
+    return session.orchestrator.getControlStatus();
+  }
+
+  /**
+   * Cancel mid-generation; a session still waiting for admission leaves the queue
+   */
+  cancel(sessionId: string): SessionControlStatus | null {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.finished) {
+      return null;
+    }
+
+    session.orchestrator.cancel();
+    if (!session.admitted) {
+      this.scheduler.release(sessionId);
+    }
+    return session.orchestrator.getControlStatus();
+  }
+
+  /**
+   * True while turns of the session must not change: the collaboration is generating
+   * (running and not paused) or a turn is already being regenerated
+   */
+  isGenerating(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    const isActive = session !== undefined && !session.finished &&
+      session.orchestrator.getControlStatus() !== 'paused';
+    return isActive || this.regenerating.has(sessionId);
+  }
+
+  /**
+   * Regenerate a model turn of a paused or finished session
+   * A separate orchestrator does the work; its tokens reach the session's
+   * stream while a client is still connected to it
+   */
+  async regenerateTurn(
+    sessionId: string,
+    turnId: string,
+    settings?: ModelConfig['settings']
+  ): Promise<ConversationTurn> {
+    this.regenerating.add(sessionId);
+    try {
+      const orchestrator = new CollaborationOrchestrator(
+        this.modelService,
+        this.redisService,
+        (message: SSEMessage) => {
+          const session = this.sessions.get(sessionId);
+          if (session) {
+            this.sendEvent(session, message);
+          }
+        }
+      );
+      return await orchestrator.regenerateTurn(sessionId, turnId, settings);
+    } finally {
+      this.regenerating.delete(sessionId);
+    }
+  }
+
+  /**
+   * Attach a reconnecting client: replay buffered events after lastEventId, then continue live
+   */
+  private async resumeStream(
+    session: StreamSession,
+    req: Request,
+    res: Response,
+    lastEventId: number,
+    startTime: number
+  ): Promise<void> {
+    const { sessionId } = session;
+
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
+    }
+
+    // A newer connection supersedes the old one
+    if (session.connection) {
+      session.connection.end();
+    }
+
+    this.logger.info('🔄 SSE client reconnected', {
       sessionId,
-      orchestratorInitialized: true
+      lastEventId,
+      latestEventId: session.nextEventId - 1
     });
-    
-    orchestrator.startCollaboration(sessionId).catch((error: Error) => {
-      this.logger.error('Collaboration failed', error, {
-        sessionId,
-        connectionDuration: Date.now() - startTime
-      });
-      
-      this.sendMessage(res, {
-        type: SSEMessageType.ERROR,
-        payload: { error: error.message },
-      });
+
+    session.replayQueue = [];
+    this.attachConnection(session, req, res, startTime);
+
+    let lastSentId = lastEventId;
+    try {
+      const missed = await this.redisService.getStreamEvents(sessionId, lastEventId);
+      for (const event of missed) {
+        this.writeEvent(res, event);
+        lastSentId = event.id;
+      }
+    } catch (error) {
+      this.logger.error('Failed to replay stream events', error, { sessionId, lastEventId });
+    }
+
+    // Flush events that arrived while replaying, skipping any already replayed
+    const queued = session.replayQueue ?? [];
+    session.replayQueue = null;
+    if (session.connection === res) {
+      for (const event of queued) {
+        if (event.id > lastSentId) {
+          this.writeEvent(res, event);
+        }
+      }
+    }
+  }
+
+  /**
+   * Replay the buffer of a collaboration that is no longer running and close the stream
+   * Answers 204 once the client has everything, which stops EventSource from reconnecting
+   * Returns false when nothing is buffered for the session
+   */
+  private async replayFinishedStream(sessionId: string, res: Response, lastEventId: number): Promise<boolean> {
+    let missed: SSEEvent[];
+    try {
+      missed = await this.redisService.getStreamEvents(sessionId, 0);
+    } catch (error) {
+      this.logger.error('Failed to read stream buffer', error, { sessionId });
+      return false;
+    }
+
+    if (missed.length === 0) {
+      return false;
+    }
+
+    const newer = missed.filter(event => event.id > lastEventId);
+    if (newer.length === 0) {
+      res.status(204).end();
+      return true;
+    }
+
+    this.logger.info('📼 Replaying finished collaboration stream', {
+      sessionId,
+      lastEventId,
+      replayedEvents: newer.length
     });
 
+    this.writeHeaders(res);
+    for (const event of newer) {
+      this.writeEvent(res, event);
+    }
+    res.end();
+    return true;
+  }
+
+  private attachConnection(session: StreamSession, req: Request, res: Response, startTime: number): void {
+    const { sessionId } = session;
+
+    this.writeHeaders(res);
+    session.connection = res;
+
+    // Set up heartbeat
+    if (session.heartbeat) {
+      clearInterval(session.heartbeat);
+    }
+    session.heartbeat = setInterval(() => {
+      res.write(':heartbeat\n\n');
+    }, config.sse.heartbeatInterval);
+
     // Handle client disconnect
     req.on('close', () => {
       this.logger.info('SSE connection closed by client', {
@@ -108,8 +396,7 @@ export class SSEController {
         connectionDuration: Date.now() - startTime,
         reason: 'client_disconnect'
       });
-      this.cleanup(sessionId);
-      orchestrator.cancel();
+      this.detachConnection(session, res);
     });
 
     req.on('error', (error) => {
@@ -118,9 +405,90 @@ export class SSEController {
         connectionDuration: Date.now() - startTime,
         reason: 'connection_error'
       });
-      this.cleanup(sessionId);
-      orchestrator.cancel();
+      this.detachConnection(session, res);
+    });
+  }
+
+  /**
+   * Drop a closed connection; the collaboration keeps running for the grace period
+   */
+  private detachConnection(session: StreamSession, res: Response): void {
+    // Ignore stale connections that were already superseded
+    if (session.connection !== res) {
+      return;
+    }
+
+    session.connection = null;
+    if (session.heartbeat) {
+      clearInterval(session.heartbeat);
+      session.heartbeat = null;
+    }
+
+    if (session.finished) {
+      this.cleanup(session);
+      return;
+    }
+
+    this.startGraceTimer(session);
+  }
+
+  /**
+   * Swap the grace timer of a session without a client after its run state changed
+   */
+  private restartGraceTimer(session: StreamSession): void {
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
+    }
+    if (!session.connection) {
+      this.startGraceTimer(session);
+    }
+  }
+
+  /**
+   * Cancel the collaboration unless a client reconnects in time - a paused one waits
+   * longer so the tab can be closed, but not forever, since it holds a session slot
+   */
+  private startGraceTimer(session: StreamSession): void {
+    const paused = session.orchestrator.getControlStatus() === 'paused';
+    const gracePeriodMs = paused ? config.sse.pausedTimeout : config.sse.disconnectGracePeriod;
+
+    if (paused && gracePeriodMs <= 0) {
+      this.logger.info('⏸️ Client left a paused collaboration - keeping it alive', {
+        sessionId: session.sessionId
+      });
+      return;
+    }
+
+    this.logger.info(paused ? '⏸️ Client left a paused collaboration' : '⏳ Waiting for client to reconnect', {
+      sessionId: session.sessionId,
+      gracePeriodMs
     });
+
+    session.graceTimer = setTimeout(() => {
+      this.logger.warn('Client did not reconnect - cancelling collaboration', {
+        sessionId: session.sessionId,
+        paused,
+        gracePeriodMs
+      });
+      session.orchestrator.cancel();
+      // A queued session leaves the queue now; a running one frees its slot when it stops
+      if (!session.admitted) {
+        this.scheduler.release(session.sessionId);
+      }
+      this.cleanup(session);
+    }, gracePeriodMs);
+  }
+
+  private parseLastEventId(req: Request): number | null {
+    const header = req.headers['last-event-id'];
+    const raw = typeof header === 'string' ? header : req.query.lastEventId;
+    if (typeof raw !== 'string') {
+      return null;
+    }
+
+    const id = parseInt(raw, 10);
+    return Number.isFinite(id) && id >= 0 ? id : null;
   }
 
   /**
@@ -129,7 +497,7 @@ export class SSEController {
   private async validateSession(sessionId: string): Promise<boolean> {
     try {
       const sessionData = await this.redisService.getSession(sessionId);
-      
+
       if (!sessionData || typeof sessionData !== 'object') {
         this.logger.debug('Session validation failed: no session data', { sessionId });
         return false;
@@ -143,11 +511,11 @@ export class SSEController {
 
       const session = sessionData as { createdAt: string };
       const sessionAge = Date.now() - new Date(session.createdAt).getTime();
-      
+
       // Strict age limits: 1 minute in development, 5 minutes in production
       const maxAge = process.env.NODE_ENV === 'development' ? 60000 : 300000; // 1 min dev, 5 min prod
       const isValid = sessionAge <= maxAge;
-      
+
       this.logger.info('Session validation completed', {
         sessionId,
         sessionAgeMs: sessionAge,
@@ -155,7 +523,7 @@ export class SSEController {
         isValid,
         environment: process.env.NODE_ENV || 'development'
       });
-      
+
       return isValid;
     } catch (error) {
       this.logger.error('Session validation error', error, { sessionId });
@@ -163,28 +531,69 @@ export class SSEController {
     }
   }
 
-  private sendMessage(res: Response, message: SSEMessage): void {
-    const data = JSON.stringify(message);
-    res.write(`data: ${data}\n\n`);
+  private writeHeaders(res: Response): void {
+    // Set SSE headers
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable Nginx buffering
+      'Access-Control-Allow-Origin': config.cors.origin,
+    });
+    res.write(`retry: ${config.sse.reconnectInterval}\n\n`);
+  }
+
+  /**
+   * Number the message, buffer it for replay and deliver it to the live connection
+   */
+  private sendEvent(session: StreamSession, message: SSEMessage): void {
+    const event: SSEEvent = { id: session.nextEventId++, message };
+
+    this.redisService.appendStreamEvent(session.sessionId, event).catch((error) => {
+      this.logger.error('Failed to buffer stream event', error, {
+        sessionId: session.sessionId,
+        eventId: event.id
+      });
+    });
+
+    if (session.replayQueue) {
+      session.replayQueue.push(event);
+    } else if (session.connection) {
+      this.writeEvent(session.connection, event);
+    }
+  }
+
+  private writeEvent(res: Response, event: SSEEvent): void {
+    const data = JSON.stringify(event.message);
+    res.write(`id: ${event.id}\ndata: ${data}\n\n`);
   }
 
-  private cleanup(sessionId: string): void {
-    // Clear heartbeat
-    const interval = this.heartbeatIntervals.get(sessionId);
-    if (interval) {
-      clearInterval(interval);
-      this.heartbeatIntervals.delete(sessionId);
+  /**
+   * Forget the stream - the scheduler slot is released by the run itself once it
+   * has stopped, so a cancelled run never overlaps the session admitted after it
+   */
+  private cleanup(session: StreamSession): void {
+    if (session.heartbeat) {
+      clearInterval(session.heartbeat);
+      session.heartbeat = null;
+    }
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
     }
 
-    // Remove connection
-    const wasActive = this.activeConnections.has(sessionId);
-    this.activeConnections.delete(sessionId);
-    
-    this.logger.info('SSE connection cleanup completed', {
-      sessionId,
+    // Only remove our own entry
+    const wasActive = this.sessions.get(session.sessionId) === session;
+    if (wasActive) {
+      this.sessions.delete(session.sessionId);
+    }
+
+    this.logger.info('SSE session cleanup completed', {
+      sessionId: session.sessionId,
       wasActive,
-      remainingConnections: this.activeConnections.size,
-      hadHeartbeat: interval !== undefined
+      finished: session.finished,
+      remainingSessions: this.sessions.size,
+      lastEventId: session.nextEventId - 1
     });
   }
-}
\ No newline at end of file
+}
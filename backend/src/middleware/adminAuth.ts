@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+import { config } from '../config.js';
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+/**
+ * Guard for /api/admin routes - without ADMIN_TOKEN only loopback clients are let through
+ */
+export function adminAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!config.admin.token) {
+    // The socket address, not req.ip, so a forwarded-for header cannot pass as local
+    if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? '')) {
+      res.status(403).json({ error: 'Admin API is only available from localhost unless ADMIN_TOKEN is set' });
+      return;
+    }
+    next();
+    return;
+  }
+
+  const expected = Buffer.from(`Bearer ${config.admin.token}`);
+  const received = Buffer.from(req.headers.authorization ?? '');
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    res.status(401).json({ error: 'Admin token required' });
+    return;
+  }
+
+  next();
+}
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 
 import { RedisService } from '../services/redisService.js';
 import { ModelService } from '../services/modelService.js';
+import { ContextPoolsStatus } from '../models/queueTypes.js';
 import { getErrorMessage } from '../utils/typeGuards.js';
 
 interface HealthCheckUsage {
@@ -14,6 +15,7 @@ interface HealthCheck {
   status: string;
   usage?: HealthCheckUsage;
   message?: string;
+  pools?: ContextPoolsStatus;
 }
 
 export function createHealthCheck(modelService: ModelService) {
@@ -26,6 +28,7 @@ export function createHealthCheck(modelService: ModelService) {
         memory: checkMemory(),
         redis: await checkRedis(),
         models: await checkModels(modelService),
+        pools: checkPools(modelService),
       },
     };
 
@@ -62,6 +65,22 @@ function checkRedis(): HealthCheck {
   }
 }
 
+/**
+ * Context pool occupancy is reported, never failed on - a full pool queues rather than breaks
+ */
+function checkPools(modelService: ModelService): HealthCheck {
+  const pools = modelService.getContextPoolsStatus();
+  const contexts = pools.pools.reduce((sum, pool) => sum + pool.totalContexts, 0);
+  const busy = pools.pools.reduce((sum, pool) => sum + pool.busyContexts, 0);
+  const budget = pools.memory.budgetMB > 0 ? `${pools.memory.usedMB}/${pools.memory.budgetMB}MB` : `${pools.memory.usedMB}MB`;
+
+  return {
+    status: 'ok',
+    message: `Contexts busy: ${busy}/${contexts}, memory: ${budget}`,
+    pools,
+  };
+}
+
 async function checkModels(modelService: ModelService): Promise<HealthCheck> {
   try {
     const models = await modelService.getAvailableModels();
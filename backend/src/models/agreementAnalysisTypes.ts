@@ -7,21 +7,23 @@
 
 import { CollaborationPhase } from './types.js';
 
+/**
+ * A single participant response submitted for agreement analysis
+ */
+export interface ParticipantResponse {
+  modelId: string;
+  content: string;
+}
+
 /**
  * Input structure for agreement analysis
+ * Responses are listed in turn order (2..N participants)
  */
 export interface AgreementAnalysisInput {
   sessionId: string;
   currentPhase: CollaborationPhase;
   originalQuery: string;
-  responseA: {
-    modelId: string;
-    content: string;
-  };
-  responseB: {
-    modelId: string;
-    content: string;
-  };
+  responses: ParticipantResponse[];
 }
 
 /**
@@ -37,6 +39,14 @@ export interface ExtractedData {
   answerLocation: string; // Where in text the answer was found
 }
 
+/**
+ * Extracted data attributed to the participant it came from
+ */
+export interface ParticipantExtraction {
+  modelId: string;
+  extraction: ExtractedData;
+}
+
 /**
  * Semantic analysis results (Stage 2)
  */
@@ -86,10 +96,10 @@ export interface AgreementAnalysisResult {
   sessionId: string;
   analysisTimestamp: number;
   processingTimeMs: number;
+  generatedTokens: number; // Analyst output across every LLM call of this analysis
   
-  // Stage 1: Structured extraction
-  extractionA: ExtractedData;
-  extractionB: ExtractedData;
+  // Stage 1: Structured extraction (one entry per participant, in turn order)
+  extractions: ParticipantExtraction[];
   
   // Stage 2: Semantic analysis
   semanticAnalysis: SemanticAnalysisResult;
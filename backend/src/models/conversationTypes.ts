@@ -1,5 +1,6 @@
-import { CollaborationPhase } from './types.js';
+import { BudgetUsage, CollaborationPhase, ModelConfig, SessionBudget } from './types.js';
 import { TokenAllocation } from '../services/contextAllocator.js';
+import { WorkflowDefinition } from './workflowTypes.js';
 
 /**
  * Structured solution format for final answers
@@ -30,6 +31,8 @@ export interface ConversationTurn {
   timestamp: number;
   turnNumber: number;
   responseToTurn?: string; // ID of the turn this is responding to
+  versions?: TurnVersion[]; // Set once the turn is regenerated; content mirrors the selected version
+  selectedVersion?: number; // Index into versions the conversation continues from
   metadata: {
     tokenCount: number;
     processingTime: number;
@@ -37,6 +40,8 @@ export interface ConversationTurn {
     // Phase 2 additions for better state management
     isFinalAnswer?: boolean;       // Marks conclusive turns
     isVerification?: boolean;      // Marks verification turns
+    isUserInterjection?: boolean;  // Marks messages injected by the user mid-collaboration
+    isCarriedForward?: boolean;    // Prior answer and shared context handed to a follow-up question
     structuredSolution?: StructuredSolution; // Extracted solution data
     // History optimization metadata
     isCompressed?: boolean;        // Marks compressed turns
@@ -50,11 +55,65 @@ export interface ConversationTurn {
   };
 }
 
+/**
+ * One generated response of a turn - regenerating keeps the earlier ones as alternates
+ */
+export interface TurnVersion {
+  content: string;
+  timestamp: number;
+  tokenCount: number;
+  processingTime: number;
+  settings?: ModelConfig['settings']; // Sampling overrides the version was generated with
+  structuredSolution?: StructuredSolution;
+}
+
+/**
+ * A question answered earlier in the same conversation, before a follow-up
+ */
+export interface QueryHistoryEntry {
+  query: string;
+  finalAnswer: string;
+  turnCount: number;   // Turns in the conversation when this question was closed
+  completedAt: number;
+}
+
+/**
+ * Per-session sampling overrides, keyed by model ID
+ */
+export type ModelSettingsOverrides = Record<string, ModelConfig['settings']>;
+
+/**
+ * Where a forked conversation branched off its parent
+ */
+export interface ForkOrigin {
+  sessionId: string;   // Parent session
+  turnId: string;      // Last parent turn carried into the fork
+  turnNumber: number;
+  phase: CollaborationPhase;
+  createdAt: number;
+}
+
+/**
+ * Changes applied to a fork before it resumes
+ */
+export interface ForkOverrides {
+  prompt?: string;
+  phase?: CollaborationPhase;
+  models?: string[];
+  modelSettings?: ModelSettingsOverrides;
+  budget?: SessionBudget; // Replaces the source session's budget
+}
+
 export interface ConversationState {
   sessionId: string;
-  originalQuery: string;
+  originalQuery: string; // The question currently being worked on
+  queryHistory?: QueryHistoryEntry[]; // Earlier questions of a follow-up conversation, oldest first
   currentPhase: CollaborationPhase;
   participants: string[]; // model IDs
+  workflow?: WorkflowDefinition; // Phase pipeline driving this conversation
+  forkedFrom?: ForkOrigin; // Set when this conversation was branched from another session
+  modelSettings?: ModelSettingsOverrides; // Sampling overrides for this session only
+  budgetUsage?: BudgetUsage; // Spent by every run so far - follow-ups and regenerations included
   turns: ConversationTurn[];
   sharedContext: {
     keyPoints: string[];
@@ -85,7 +144,7 @@ export interface ConversationState {
     phase: CollaborationPhase;
   };
   lastUpdate: number;
-  status: 'active' | 'paused' | 'completed' | 'error';
+  status: 'active' | 'paused' | 'completed' | 'cancelled' | 'error';
 }
 
 export interface ConversationPrompt {
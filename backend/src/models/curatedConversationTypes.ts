@@ -43,7 +43,9 @@ export interface SynthesisResult {
 export enum ModelRole {
   PARTICIPANT = 'PARTICIPANT',        // Normal conversation participant
   CURATOR = 'CURATOR',               // Enhances conversation data between turns
-  SYNTHESIZER = 'SYNTHESIZER'        // Creates final synthesis
+  SYNTHESIZER = 'SYNTHESIZER',       // Creates final synthesis
+  VERIFIER = 'VERIFIER',             // Checks the solution before synthesis
+  ANALYST = 'ANALYST'                // Runs agreement analysis between phases
 }
 
 export interface CurationTask {
@@ -52,6 +54,7 @@ export interface CurationTask {
   curatorModelId: string;
   task: CurationTaskType;
   context: {
+    originalQuery: string;
     conversationSoFar: ConversationTurn[];
     sharedContext: ConversationState['sharedContext'];
     currentPhase: CollaborationPhase;
@@ -81,6 +84,7 @@ export interface CurationResult {
   recommendedNextSteps: string[];
   curationNotes: string;              // Curator's notes about the enhancement
   confidence: number;                 // 0-1, how confident curator is in improvements
+  generatedTokens: number;            // Curator output, charged to the session's token budget
 }
 
 export interface DualRoleModel {
@@ -0,0 +1,47 @@
+import { CollaborationPhase } from './types.js';
+import { StructuredSolution } from './conversationTypes.js';
+
+/**
+ * Batch evaluation
+ * A dataset is JSONL with one EvaluationItem per line; each item runs through a
+ * full collaboration and its final StructuredSolution is scored against the expected answer.
+ */
+
+export interface EvaluationItem {
+  id: string;
+  question: string;
+  expected: string | number;
+  tolerance?: number;                 // Absolute tolerance for numeric answers (default 1e-6)
+}
+
+export interface EvaluationItemResult {
+  id: string;
+  question: string;
+  expected: string | number;
+  actual: StructuredSolution['value'] | null;
+  correct: boolean;
+  status: 'completed' | 'error' | 'timeout';
+  error?: string;
+  phasesUsed: CollaborationPhase[];
+  turns: number;
+  tokens: number;
+  durationMs: number;
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  models: string[];
+  workflowId: string;
+  startedAt: string;
+  completedAt: string;
+  summary: {
+    total: number;
+    correct: number;
+    accuracy: number;                 // 0-1 over all items, errors count as incorrect
+    errors: number;
+    averageTurns: number;
+    averageTokens: number;
+    averageDurationMs: number;
+  };
+  items: EvaluationItemResult[];
+}
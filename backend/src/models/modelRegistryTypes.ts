@@ -0,0 +1,67 @@
+import { ModelConfig, ModelEndpoint } from './types.js';
+
+/**
+ * Model registry (models/models.json)
+ * Declares the models the server offers and how each one is prompted.
+ */
+
+/**
+ * One manifest entry - path is relative to the models directory, and missing settings
+ * fall back to the configured defaults. A GGUF model without a context size gets the
+ * file's own context length, reduced to fit the context memory budget.
+ */
+export interface ModelManifestEntry extends Omit<ModelConfig, 'path' | 'contextSize' | 'autoContextSize' | 'settings'> {
+  path?: string;                        // GGUF file, required for llama-cpp models
+  contextSize?: number;
+  settings?: ModelConfig['settings'];
+}
+
+export interface ModelManifest {
+  models: ModelManifestEntry[];
+}
+
+/**
+ * Where a registered model came from
+ */
+export type ModelSource = 'manifest' | 'scan' | 'remote' | 'mock';
+
+/**
+ * Lifecycle of a local model - remote and mock models are always loaded
+ */
+export type ModelState = 'unloaded' | 'loading' | 'loaded' | 'draining';
+
+/**
+ * A registered model as reported by GET /api/models - endpoint credentials are never included
+ */
+export interface ModelDetails extends Omit<ModelConfig, 'endpoint'> {
+  endpoint?: Omit<ModelEndpoint, 'apiKey'>;
+  source: ModelSource;
+  embeddedTemplate: boolean;          // Prompts use the GGUF's own tokenizer.chat_template
+  loaded: boolean;
+  state: ModelState;
+}
+
+/**
+ * Process and GPU memory after an admin load, unload or rescan
+ */
+export interface ModelMemoryUsage {
+  rssMB: number;
+  heapUsedMB: number;
+  externalMB: number;
+  vram?: {
+    totalMB: number;
+    usedMB: number;
+    freeMB: number;
+  };
+  loadedModels: string[];
+}
+
+/**
+ * Registry changes made by POST /api/admin/models/rescan
+ * Rescanned models are registered but not loaded
+ */
+export interface ModelRescanResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
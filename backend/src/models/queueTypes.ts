@@ -0,0 +1,88 @@
+/**
+ * Session admission and context pool scheduling
+ * Reported over SSE (QUEUE_UPDATE) and by GET /api/queue.
+ */
+
+export interface RunningSessionInfo {
+  sessionId: string;
+  admittedAt: number;
+  waitedMs: number;
+}
+
+export interface WaitingSessionInfo {
+  sessionId: string;
+  position: number; // 1-based
+  enqueuedAt: number;
+}
+
+/**
+ * KV-cache prefix reuse for a model's collaboration turns
+ */
+export interface PrefixCacheStats {
+  leases: number;               // Turns served from the pool
+  sessionHits: number;          // Sequence last used by the same session with the same system prompt
+  prefixHits: number;           // Sequence last used by another session with the same system prompt
+  freshSequences: number;       // No matching prefix - evaluated from scratch
+  promptTokens: number;         // Prompt tokens across all turns
+  reusedTokens: number;         // Prompt tokens served from the KV cache instead of evaluated
+  savedPercent: number;
+}
+
+/**
+ * Growth, eviction and waiting in a model's elastic context pool
+ */
+export interface ContextPoolStats {
+  minContexts: number;          // Created at load and kept when idle
+  maxContexts: number;
+  creatingContexts: number;
+  created: number;              // Contexts created since the model was loaded
+  evicted: number;              // Idle contexts disposed after the idle timeout or for another pool's memory
+  refused: number;              // Acquisitions refused by the memory budget
+  waits: number;                // Acquisitions that queued for a busy context
+  totalWaitMs: number;
+  avgWaitMs: number;
+  maxWaitMs: number;
+  contextMB: number;            // Estimated memory of one context
+}
+
+export interface ContextPoolStatus {
+  modelId: string;
+  totalContexts: number;
+  availableContexts: number;
+  busyContexts: number;
+  waitingRequests: number;
+  sessions: number;             // Sessions holding busy contexts
+  contextsBySession?: Record<string, number>; // Busy contexts per session ID - GET /api/admin/pools only
+  retainedSequences: number;    // Idle contexts still holding an evaluated prefix
+  prefixCache: PrefixCacheStats;
+  pool: ContextPoolStats;
+}
+
+/**
+ * Context memory across every model's pool
+ */
+export interface ContextMemoryStatus {
+  budgetMB: number;             // 0 = unlimited
+  usedMB: number;               // Estimated memory of live and creating contexts
+}
+
+/**
+ * Reported by GET /api/admin/pools and the pools check of /api/health
+ */
+export interface ContextPoolsStatus {
+  memory: ContextMemoryStatus;
+  pools: ContextPoolStatus[];
+}
+
+export interface QueueStatus {
+  maxConcurrentSessions: number;
+  running: RunningSessionInfo[];
+  waiting: WaitingSessionInfo[];
+  contextPools: ContextPoolStatus[];
+}
+
+export interface QueuePosition {
+  status: 'queued' | 'admitted';
+  position: number;    // 0 once admitted
+  queueLength: number;
+}
@@ -0,0 +1,57 @@
+import { BudgetExceeded, CollaborationPhase } from './types.js';
+import { ConversationState, ConversationTurn, ForkOrigin } from './conversationTypes.js';
+import { AgreementAnalysisResult } from './agreementAnalysisTypes.js';
+
+/**
+ * Archived collaborations
+ * Written once a collaboration ends so sessions survive restarts and can be re-read later.
+ */
+
+export interface SessionAgreementRecord {
+  phase: CollaborationPhase;
+  analysis: AgreementAnalysisResult;
+  timestamp: number;
+}
+
+export interface SessionRecord {
+  sessionId: string;
+  originalQuery: string;
+  queryHistory?: ConversationState['queryHistory'];
+  forkedFrom?: ForkOrigin;
+  participants: string[];
+  workflow?: { id: string; name: string };
+  status: ConversationState['status'];
+  error?: string;
+  budgetExceeded?: BudgetExceeded; // Set when a session budget cut the collaboration short
+  startedAt: number;
+  completedAt: number;
+  turns: ConversationTurn[];
+  phaseHistory: ConversationState['phaseHistory'];
+  agreementAnalyses: SessionAgreementRecord[];
+  finalSynthesis: string;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  originalQuery: string;
+  participants: string[];
+  workflowName?: string;
+  forkedFrom?: string; // Parent session ID
+  status: ConversationState['status'];
+  startedAt: number;
+  completedAt: number;
+  turnCount: number;
+}
+
+/**
+ * A session and the forks branched from it
+ * Forks that have not been archived yet only carry their origin
+ */
+export interface ForkTreeNode {
+  sessionId: string;
+  summary?: SessionSummary;
+  forkedFrom?: ForkOrigin;
+  children: ForkTreeNode[];
+}
+
+export type TranscriptFormat = 'md' | 'json' | 'html';
@@ -1,3 +1,5 @@
+import { ModelRole } from './curatedConversationTypes.js';
+
 export enum CollaborationPhase {
   IDLE = 'IDLE',
   BRAINSTORM = 'BRAINSTORM',
@@ -16,6 +18,10 @@ export enum SSEMessageType {
   SYNTHESIS_UPDATE = 'SYNTHESIS_UPDATE',
   AGREEMENT_ANALYSIS = 'AGREEMENT_ANALYSIS',
   COLLABORATION_COMPLETE = 'COLLABORATION_COMPLETE',
+  QUEUE_UPDATE = 'QUEUE_UPDATE',
+  SESSION_STATUS = 'SESSION_STATUS',
+  CURATION_UPDATE = 'CURATION_UPDATE',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
   ERROR = 'ERROR'
 }
 
@@ -24,6 +30,46 @@ export interface SSEMessage {
   payload: Record<string, unknown>;
 }
 
+/**
+ * Run state of a live collaboration as controlled through the pause/resume/cancel API
+ */
+export type SessionControlStatus = 'running' | 'paused' | 'cancelled';
+
+/**
+ * Per-session limits - a missing or zero limit is not enforced
+ */
+export interface SessionBudget {
+  maxTurns?: number;
+  maxTokens?: number;
+  maxPhaseRevisits?: number;
+  maxDurationMs?: number;
+}
+
+export type SessionBudgetLimit = keyof SessionBudget;
+
+/**
+ * What a session has spent against its budget, across all of its runs
+ */
+export interface BudgetUsage {
+  turns: number;
+  tokens: number;
+  phaseRevisits: number;
+}
+
+/**
+ * The budget that ended a collaboration early
+ */
+export interface BudgetExceeded extends Record<string, unknown> {
+  budget: SessionBudgetLimit;
+  limit: number;
+  used: number;
+}
+
+export interface SSEEvent {
+  id: number;          // Monotonic per session, sent as the SSE `id:` field
+  message: SSEMessage;
+}
+
 export interface TokenChunk extends Record<string, unknown> {
   modelId: string;
   phase: CollaborationPhase;
@@ -31,11 +77,28 @@ export interface TokenChunk extends Record<string, unknown> {
   isComplete: boolean;
 }
 
+export type ModelProviderType = 'llama-cpp' | 'openai-compatible' | 'mock';
+
+export interface ModelEndpoint {
+  baseUrl: string;   // e.g. http://localhost:8080 (without /v1)
+  model: string;     // Model name sent in the request body
+  apiKey?: string;
+}
+
+export type ChatTemplateName = 'chatml' | 'gemma' | 'generic';
+
 export interface ModelConfig {
   id: string;
   name: string;
   path: string;
   contextSize: number;
+  autoContextSize?: boolean;    // contextSize follows the GGUF's context_length, within the memory budget, once loaded
+  provider?: ModelProviderType; // Defaults to local llama-cpp
+  endpoint?: ModelEndpoint;     // Required for openai-compatible models
+  chatTemplate?: ChatTemplateName; // Prompt format for local generation, generic when unset
+  stopTokens?: string[];        // Replaces the chat template's stop sequences
+  supportsThinking?: boolean;   // Thinking mode is switched off per prompt with /no_think
+  roles?: ModelRole[];          // Roles the model may take, every role when unset
   settings: {
     temperature?: number;
     topP?: number;
@@ -0,0 +1,64 @@
+/**
+ * Semantic history store for conversation turns
+ * Backed by RediSearch when Redis has the search and JSON modules, in process otherwise.
+ */
+
+export type VectorStoreBackend = 'auto' | 'redis' | 'memory';
+
+export interface VectorDocumentMetadata {
+  sessionId: string;
+  phase: string;
+  modelId: string;
+  timestamp: number;
+  tokens: number;
+}
+
+export interface VectorDocument {
+  id: string;
+  content: string;
+  vector: number[];
+  metadata: VectorDocumentMetadata;
+}
+
+/**
+ * Exact-match filters, like RediSearch TAG fields
+ */
+export interface VectorSearchFilters {
+  sessionId?: string;
+  phase?: string;
+  modelId?: string;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  content: string;
+  score: number;                        // 1 = identical, 0 = opposite
+  metadata: Record<string, unknown>;
+}
+
+export interface RelevantExchange {
+  phase: string;
+  modelId: string;
+  content: string;
+}
+
+export interface VectorStore {
+  initialize(): Promise<void>;
+  storeDocument(id: string, content: string, metadata: VectorDocumentMetadata): Promise<void>;
+  updateDocument(id: string, content: string, additionalMetadata: Record<string, unknown>): Promise<void>;
+  /**
+   * Copy a stored document under a new ID and session, reusing its embedding
+   * Returns false when the source document does not exist
+   */
+  copyDocument(sourceId: string, targetId: string, sessionId: string): Promise<boolean>;
+  search(query: string, filters?: VectorSearchFilters, topK?: number): Promise<VectorSearchResult[]>;
+  getRelevantExchanges(
+    sessionId: string,
+    currentPhase: string,
+    modelId: string,
+    query: string,
+    limit?: number
+  ): Promise<RelevantExchange[]>;
+  deleteSession(sessionId: string): Promise<void>;
+  clear(): Promise<void>;
+}
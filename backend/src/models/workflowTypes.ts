@@ -0,0 +1,38 @@
+import { CollaborationPhase } from './types.js';
+import { CurationTaskType } from './curatedConversationTypes.js';
+
+/**
+ * Declarative workflow definitions
+ * A workflow describes which phases a collaboration runs through, what the
+ * participants are told in each phase and where the agreement analysis may jump.
+ */
+
+export interface WorkflowPhaseDefinition {
+  phase: CollaborationPhase;          // Underlying collaboration phase (unique per workflow)
+  name?: string;                      // Display label, e.g. "Rebuttal"
+  instruction: string;                // Replaces the static PHASE_INSTRUCTIONS entry
+  transitions?: CollaborationPhase[]; // Allowed jump targets - omit to allow any phase in the workflow
+  minTurns?: number;                  // Minimum turns per participant before leaving the phase (default 1)
+  maxTurns?: number;                  // Maximum turns per participant before moving on (default 1)
+  curationTask?: CurationTaskType;    // Curator task run between participant turns in this phase
+}
+
+export interface WorkflowTerminalConditions {
+  phases: CollaborationPhase[];       // Reaching any of these ends the phase loop
+  maxTotalTurns?: number;             // Hard cap on turns across all phases
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  phases: WorkflowPhaseDefinition[];  // Executed in order unless the analysis jumps
+  terminal: WorkflowTerminalConditions;
+}
+
+export interface WorkflowSummary {
+  id: string;
+  name: string;
+  description?: string;
+  phases: Array<{ phase: CollaborationPhase; name?: string }>;
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import { createServer } from 'http';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -7,12 +8,24 @@ import express from 'express';
 
 import { SSEController } from './controllers/sseController.js';
 import { corsMiddleware } from './middleware/cors.js';
+import { adminAuth } from './middleware/adminAuth.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { createHealthCheck } from './middleware/healthCheck.js';
 import { ModelService } from './services/modelService.js';
 import { RedisService } from './services/redisService.js';
+import { WorkflowRegistry } from './services/workflowRegistry.js';
+import { SessionHistoryService } from './services/sessionHistoryService.js';
+import { SessionScheduler } from './services/sessionScheduler.js';
+import { TranscriptExporter } from './services/transcriptExporter.js';
+import { ConversationStateManager } from './services/conversationStateManager.js';
+import { WorkflowDefinition } from './models/workflowTypes.js';
+import { ForkOverrides, ModelSettingsOverrides } from './models/conversationTypes.js';
+import { ModelConfig, SessionBudget } from './models/types.js';
+import { ModelRole } from './models/curatedConversationTypes.js';
 import { createLogger } from './utils/logger.js';
+import { getErrorMessage } from './utils/typeGuards.js';
 import { config } from './config.js';
+import { DEFAULT_WORKFLOW, MODEL_SETTING_KEYS } from './constants/index.js';
 
 dotenv.config();
 
@@ -26,7 +39,46 @@ const server = createServer(app);
 // Initialize services
 const redisService = new RedisService();
 const modelService = new ModelService();
-const sseController = new SSEController(modelService, redisService);
+const workflowRegistry = new WorkflowRegistry();
+const sessionHistory = new SessionHistoryService(redisService);
+const transcriptExporter = new TranscriptExporter();
+const sessionScheduler = new SessionScheduler(modelService, config.session.maxConcurrentSessions);
+const sseController = new SSEController(modelService, redisService, sessionScheduler);
+
+// Created on first use - its constructor needs the connected Redis client
+let conversationManager: ConversationStateManager | null = null;
+function getConversationManager(): ConversationStateManager {
+  conversationManager ??= new ConversationStateManager(redisService);
+  return conversationManager;
+}
+
+const SETTING_KEYS = new Set<string>(MODEL_SETTING_KEYS);
+
+/**
+ * Sampling settings must be an object of known numeric settings
+ */
+function isModelSettings(value: unknown): value is ModelConfig['settings'] {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.entries(value).every(([key, setting]) => SETTING_KEYS.has(key) && Number.isFinite(setting));
+}
+
+/**
+ * modelSettings must map model IDs to objects of numeric sampling settings
+ */
+function isModelSettingsOverrides(value: unknown): value is ModelSettingsOverrides {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.values(value).every(isModelSettings);
+}
+
+const BUDGET_KEYS = new Set(['maxTurns', 'maxTokens', 'maxPhaseRevisits', 'maxDurationMs']);
+
+/**
+ * budget must be an object of non-negative whole-number limits (0 = unlimited)
+ */
+function isSessionBudget(value: unknown): value is SessionBudget {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.entries(value).every(([key, limit]) => BUDGET_KEYS.has(key) && Number.isInteger(limit) && limit >= 0);
+}
 
 // Middleware
 app.use(corsMiddleware);
@@ -43,17 +95,56 @@ app.post('/api/synergize/initiate', (req, res, next) => {
   logger.info('[POST /api/synergize/initiate] Headers:', req.headers);
   logger.info('[POST /api/synergize/initiate] Body:', req.body);
   
-  const { prompt, models, sessionId, createdAt } = req.body as { 
+  const { prompt, models, sessionId, createdAt, workflowId, workflow: inlineWorkflow, budget } = req.body as { 
     prompt?: string; 
     models?: string[]; 
     sessionId?: string;
     createdAt?: string;
+    workflowId?: string;
+    workflow?: unknown;
+    budget?: unknown;
   };
   
-  if (!prompt || !models || models.length !== 2) {
+  const { minParticipants, maxParticipants } = config.session;
+  if (!prompt || !models || models.length < minParticipants || models.length > maxParticipants) {
     logger.error('[POST /api/synergize/initiate] Validation failed - missing prompt or models');
     res.status(400).json({ 
-      error: 'Invalid request. Requires prompt and exactly 2 models.',
+      error: `Invalid request. Requires prompt and ${minParticipants}-${maxParticipants} models.`,
+    });
+    return;
+  }
+
+  if (new Set(models).size !== models.length) {
+    logger.error('[POST /api/synergize/initiate] Validation failed - duplicate models');
+    res.status(400).json({ 
+      error: 'Invalid request. Each model may only participate once.',
+    });
+    return;
+  }
+
+  const unknownModels = models.filter(modelId => !modelService.getModelConfig(modelId));
+  if (unknownModels.length > 0) {
+    logger.error('[POST /api/synergize/initiate] Validation failed - unknown models', undefined, { unknownModels });
+    res.status(400).json({ 
+      error: `Invalid request. Unknown models: ${unknownModels.join(', ')}`,
+    });
+    return;
+  }
+
+  const nonParticipants = models.filter(modelId => !modelService.hasRole(modelId, ModelRole.PARTICIPANT));
+  if (nonParticipants.length > 0) {
+    logger.error('[POST /api/synergize/initiate] Validation failed - models not allowed to participate', undefined, { nonParticipants });
+    res.status(400).json({ 
+      error: `Invalid request. Models not declared as participants: ${nonParticipants.join(', ')}`,
+    });
+    return;
+  }
+
+  const unloadedModels = models.filter(modelId => modelService.getModelState(modelId) !== 'loaded');
+  if (unloadedModels.length > 0) {
+    logger.error('[POST /api/synergize/initiate] Models not loaded', undefined, { unloadedModels });
+    res.status(409).json({ 
+      error: `Models not loaded: ${unloadedModels.join(', ')}`,
     });
     return;
   }
@@ -66,11 +157,32 @@ app.post('/api/synergize/initiate', (req, res, next) => {
     return;
   }
 
+  if (budget !== undefined && !isSessionBudget(budget)) {
+    logger.error('[POST /api/synergize/initiate] Validation failed - invalid budget');
+    res.status(400).json({ 
+      error: 'Invalid request. budget may set maxTurns, maxTokens, maxPhaseRevisits and maxDurationMs to non-negative integers.',
+    });
+    return;
+  }
+
+  let workflow: WorkflowDefinition;
+  try {
+    workflow = workflowRegistry.resolve(workflowId, inlineWorkflow);
+  } catch (error) {
+    logger.error('[POST /api/synergize/initiate] Validation failed - invalid workflow', error);
+    res.status(400).json({ 
+      error: `Invalid request. ${getErrorMessage(error)}`,
+    });
+    return;
+  }
+
   logger.info(`[POST /api/synergize/initiate] Storing session ${sessionId} in Redis`);
   // Store session in Redis with timestamp for validation
   const sessionData = { 
     prompt, 
     models, 
+    workflow,
+    budget,
     status: 'initiated',
     createdAt: createdAt || new Date().toISOString() // Use provided timestamp or create new one
   };
@@ -89,6 +201,245 @@ app.post('/api/synergize/initiate', (req, res, next) => {
     });
 });
 
+// Ask a follow-up question in a finished session - connect to the same stream to run it
+app.post('/api/sessions/:sessionId/follow-up', (req, res, next) => {
+  const { sessionId } = req.params;
+  const { prompt, createdAt } = req.body as { prompt?: string; createdAt?: string };
+  logger.info(`[POST /api/sessions/${sessionId}/follow-up] Request received`);
+
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    res.status(400).json({ error: 'prompt is required' });
+    return;
+  }
+
+  if (sseController.isRunning(sessionId)) {
+    logger.warn(`[POST /api/sessions/${sessionId}/follow-up] Session is still running`);
+    res.status(409).json({ error: 'Session is still running' });
+    return;
+  }
+
+  redisService.getSession(sessionId)
+    .then(async (stored) => {
+      if (!stored) {
+        res.status(404).json({ error: 'Session not found or expired', sessionId });
+        return;
+      }
+
+      // Same participants, workflow and budget as the original question
+      const { models, workflow, budget } = stored as {
+        models: string[];
+        workflow?: WorkflowDefinition;
+        budget?: SessionBudget;
+      };
+      await redisService.storeSession(sessionId, {
+        prompt: prompt.trim(),
+        models,
+        workflow,
+        budget,
+        followUp: true,
+        status: 'initiated',
+        createdAt: createdAt || new Date().toISOString()
+      });
+
+      logger.info(`[POST /api/sessions/${sessionId}/follow-up] Follow-up stored`);
+      res.json({
+        sessionId,
+        message: 'Follow-up initiated. Connect to SSE endpoint for streaming.',
+      });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/sessions/${sessionId}/follow-up] Failed to store follow-up:`, error);
+      next(error);
+    });
+});
+
+// Branch a session at one of its turns - connect to the returned session's stream to run the fork
+app.post('/api/sessions/:sessionId/fork', (req, res, next) => {
+  const { sessionId } = req.params;
+  const { fromTurnId, overrides = {}, createdAt } = req.body as {
+    fromTurnId?: string;
+    overrides?: ForkOverrides;
+    createdAt?: string;
+  };
+  logger.info(`[POST /api/sessions/${sessionId}/fork] Request received`, { fromTurnId });
+
+  if (typeof fromTurnId !== 'string' || !fromTurnId) {
+    res.status(400).json({ error: 'fromTurnId is required' });
+    return;
+  }
+
+  const { prompt, phase, models, modelSettings, budget } = overrides;
+  const { minParticipants, maxParticipants } = config.session;
+  let validationError: string | null = null;
+  if (prompt !== undefined && (typeof prompt !== 'string' || !prompt.trim())) {
+    validationError = 'overrides.prompt must be a non-empty string';
+  } else if (models !== undefined && (!Array.isArray(models) || models.length < minParticipants ||
+    models.length > maxParticipants || new Set(models).size !== models.length)) {
+    validationError = `overrides.models must list ${minParticipants}-${maxParticipants} distinct models`;
+  } else if (models?.some(modelId => !modelService.getModelConfig(modelId))) {
+    validationError = `Unknown models: ${models.filter(modelId => !modelService.getModelConfig(modelId)).join(', ')}`;
+  } else if (models?.some(modelId => !modelService.hasRole(modelId, ModelRole.PARTICIPANT))) {
+    validationError = `Models not declared as participants: ${models.filter(modelId => !modelService.hasRole(modelId, ModelRole.PARTICIPANT)).join(', ')}`;
+  } else if (modelSettings !== undefined && !isModelSettingsOverrides(modelSettings)) {
+    validationError = 'overrides.modelSettings must map model IDs to numeric sampling settings';
+  } else if (budget !== undefined && !isSessionBudget(budget)) {
+    validationError = 'overrides.budget may set maxTurns, maxTokens, maxPhaseRevisits and maxDurationMs to non-negative integers';
+  }
+  if (validationError) {
+    logger.warn(`[POST /api/sessions/${sessionId}/fork] Validation failed - ${validationError}`);
+    res.status(400).json({ error: validationError });
+    return;
+  }
+
+  const manager = getConversationManager();
+  manager.getConversationState(sessionId)
+    .then(async (source) => {
+      // Once the live state has expired the fork is rebuilt from the archived session
+      const archived = source ? null : await sessionHistory.getSession(sessionId);
+      const turns = source?.turns ?? archived?.turns;
+      if (!turns?.some(turn => turn.id === fromTurnId)) {
+        res.status(404).json({
+          error: turns ? 'Turn not found in session' : 'Session not found',
+          sessionId,
+          fromTurnId
+        });
+        return;
+      }
+
+      const archivedWorkflowId = archived?.workflow?.id;
+      const workflow = source?.workflow
+        ?? (archivedWorkflowId ? workflowRegistry.get(archivedWorkflowId) : undefined)
+        ?? DEFAULT_WORKFLOW;
+      if (archivedWorkflowId && workflow.id !== archivedWorkflowId) {
+        logger.warn(`[POST /api/sessions/${sessionId}/fork] Archived workflow ${archivedWorkflowId} is not registered - forking with ${workflow.id}`);
+      }
+      if (phase !== undefined && !workflow.phases.some(definition => definition.phase === phase)) {
+        res.status(400).json({ error: `overrides.phase must be one of: ${workflow.phases.map(definition => definition.phase).join(', ')}` });
+        return;
+      }
+
+      const forkSessionId = randomUUID();
+      const forkOverrides = { prompt: prompt?.trim(), phase, models, modelSettings };
+      const fork = archived
+        ? await manager.forkArchivedConversation(archived, workflow, forkSessionId, fromTurnId, forkOverrides)
+        : await manager.forkConversation(sessionId, forkSessionId, fromTurnId, forkOverrides);
+      if (!fork?.forkedFrom) {
+        res.status(404).json({ error: 'Conversation not found or expired', sessionId });
+        return;
+      }
+
+      // The fork keeps the source session's budget unless the request replaces it
+      const stored = await redisService.getSession(sessionId) as { budget?: SessionBudget } | null;
+
+      await sessionHistory.recordFork(forkSessionId, fork.forkedFrom);
+      await redisService.storeSession(forkSessionId, {
+        prompt: fork.originalQuery,
+        models: fork.participants,
+        workflow,
+        budget: budget ?? stored?.budget,
+        forked: true,
+        status: 'initiated',
+        createdAt: createdAt || new Date().toISOString()
+      });
+
+      logger.info(`[POST /api/sessions/${sessionId}/fork] Fork ${forkSessionId} created`, {
+        copiedTurns: fork.turns.length,
+        phase: fork.currentPhase
+      });
+      res.status(201).json({
+        sessionId: forkSessionId,
+        forkedFrom: fork.forkedFrom,
+        message: 'Fork created. Connect to SSE endpoint for streaming.',
+      });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/sessions/${sessionId}/fork] Failed to fork session:`, error);
+      next(error);
+    });
+});
+
+// Regenerate one model turn in place - the new response becomes the selected version
+app.post('/api/sessions/:sessionId/turns/:turnId/regenerate', (req, res, next) => {
+  const { sessionId, turnId } = req.params;
+  const { settings } = req.body as { settings?: ModelConfig['settings'] };
+  logger.info(`[POST /api/sessions/${sessionId}/turns/${turnId}/regenerate] Request received`, { settings });
+
+  if (settings !== undefined && !isModelSettings(settings)) {
+    res.status(400).json({ error: 'settings must be an object of numeric sampling settings' });
+    return;
+  }
+
+  if (sseController.isGenerating(sessionId)) {
+    logger.warn(`[POST /api/sessions/${sessionId}/turns/${turnId}/regenerate] Session is generating`);
+    res.status(409).json({ error: 'Session is still generating - pause it or wait for it to finish' });
+    return;
+  }
+
+  getConversationManager().getConversationState(sessionId)
+    .then(async (state) => {
+      const target = state?.turns.find(turn => turn.id === turnId);
+      if (!target) {
+        res.status(404).json({
+          error: state ? 'Turn not found in session' : 'Conversation not found or expired',
+          sessionId,
+          turnId
+        });
+        return;
+      }
+
+      const { isUserInterjection, isCarriedForward, isVerification } = target.metadata;
+      if (isUserInterjection || isCarriedForward || isVerification || !state?.participants.includes(target.modelId)) {
+        res.status(400).json({ error: 'Only participant model turns can be regenerated' });
+        return;
+      }
+
+      const turn = await sseController.regenerateTurn(sessionId, turnId, settings);
+      await sessionHistory.updateTurn(turn);
+
+      logger.info(`[POST /api/sessions/${sessionId}/turns/${turnId}/regenerate] Turn regenerated`, {
+        versions: turn.versions?.length
+      });
+      res.json({ turn });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/sessions/${sessionId}/turns/${turnId}/regenerate] Failed to regenerate turn:`, error);
+      next(error);
+    });
+});
+
+// Choose which version of a regenerated turn the conversation continues from
+app.post('/api/sessions/:sessionId/turns/:turnId/versions/:version/select', (req, res, next) => {
+  const { sessionId, turnId } = req.params;
+  const version = parseInt(req.params.version, 10);
+  logger.info(`[POST /api/sessions/${sessionId}/turns/${turnId}/versions/${req.params.version}/select] Request received`);
+
+  if (!Number.isInteger(version) || version < 0) {
+    res.status(400).json({ error: 'version must be a non-negative integer' });
+    return;
+  }
+
+  if (sseController.isGenerating(sessionId)) {
+    logger.warn(`[POST /api/sessions/${sessionId}/turns/${turnId}/versions/${version}/select] Session is generating`);
+    res.status(409).json({ error: 'Session is still generating - pause it or wait for it to finish' });
+    return;
+  }
+
+  getConversationManager().selectTurnVersion(sessionId, turnId, version)
+    .then(async (turn) => {
+      if (!turn) {
+        res.status(404).json({ error: 'Turn version not found', sessionId, turnId, version });
+        return;
+      }
+
+      await sessionHistory.updateTurn(turn);
+      res.json({ turn });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/sessions/${sessionId}/turns/${turnId}/versions/${version}/select] Failed to select version:`, error);
+      next(error);
+    });
+});
+
 // SSE streaming endpoint
 app.get('/api/synergize/stream/:sessionId', (req, res) => {
   const { sessionId } = req.params;
@@ -101,16 +452,276 @@ app.get('/api/synergize/stream/:sessionId', (req, res) => {
 });
 
 // Model management endpoints
-app.get('/api/models', (_req, res, next) => {
+app.get('/api/models', (_req, res) => {
   logger.info('[GET /api/models] Request received');
-  
-  modelService.getAvailableModels()
-    .then((models) => {
-      logger.info(`[GET /api/models] Returning ${models.length} models:`, { models });
-      res.json({ models });
+
+  const models = modelService.getModelDetails();
+  logger.info(`[GET /api/models] Returning ${models.length} models:`, { models: models.map(model => model.id) });
+  res.json({ models });
+});
+
+// Workflow definitions available for sessions
+app.get('/api/workflows', (_req, res) => {
+  logger.info('[GET /api/workflows] Request received');
+  res.json({ workflows: workflowRegistry.list() });
+});
+
+// Steer a running collaboration - the message is inserted before the next model turn
+app.post('/api/sessions/:sessionId/interject', (req, res) => {
+  const { sessionId } = req.params;
+  const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+  logger.info(`[POST /api/sessions/${sessionId}/interject] Request received`, { messageLength: message.length });
+
+  if (!message) {
+    res.status(400).json({ error: 'message is required' });
+    return;
+  }
+
+  const pending = sseController.interject(sessionId, message);
+  if (pending === null) {
+    logger.warn(`[POST /api/sessions/${sessionId}/interject] Session is not running`);
+    res.status(404).json({ error: 'Session is not running' });
+    return;
+  }
+
+  res.status(202).json({ sessionId, pending });
+});
+
+// Run control - pause and resume take effect at the next turn boundary, cancel immediately
+app.post('/api/sessions/:sessionId/pause', (req, res, next) => {
+  const { sessionId } = req.params;
+  logger.info(`[POST /api/sessions/${sessionId}/pause] Request received`);
+
+  sseController.pause(sessionId)
+    .then((status) => {
+      if (status === null) {
+        logger.warn(`[POST /api/sessions/${sessionId}/pause] Session is not running`);
+        res.status(404).json({ error: 'Session is not running' });
+        return;
+      }
+      res.json({ sessionId, status });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/sessions/${sessionId}/pause] Failed to pause session:`, error);
+      next(error);
+    });
+});
+
+app.post('/api/sessions/:sessionId/resume', (req, res, next) => {
+  const { sessionId } = req.params;
+  logger.info(`[POST /api/sessions/${sessionId}/resume] Request received`);
+
+  sseController.resume(sessionId)
+    .then((status) => {
+      if (status === null) {
+        logger.warn(`[POST /api/sessions/${sessionId}/resume] Session is not running`);
+        res.status(404).json({ error: 'Session is not running' });
+        return;
+      }
+      res.json({ sessionId, status });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/sessions/${sessionId}/resume] Failed to resume session:`, error);
+      next(error);
+    });
+});
+
+app.post('/api/sessions/:sessionId/cancel', (req, res) => {
+  const { sessionId } = req.params;
+  logger.info(`[POST /api/sessions/${sessionId}/cancel] Request received`);
+
+  const status = sseController.cancel(sessionId);
+  if (status === null) {
+    logger.warn(`[POST /api/sessions/${sessionId}/cancel] Session is not running`);
+    res.status(404).json({ error: 'Session is not running' });
+    return;
+  }
+
+  res.json({ sessionId, status });
+});
+
+// Admin - hot load, unload and rescan models without restarting
+app.use('/api/admin', adminAuth);
+
+app.post('/api/admin/models/rescan', (_req, res, next) => {
+  logger.info('[POST /api/admin/models/rescan] Request received');
+
+  modelService.rescan()
+    .then(async (result) => {
+      res.json({ ...result, memory: await modelService.getMemoryUsage() });
+    })
+    .catch((error: Error) => {
+      logger.error('[POST /api/admin/models/rescan] Failed to rescan models:', error);
+      next(error);
+    });
+});
+
+app.post('/api/admin/models/:modelId/load', (req, res, next) => {
+  const { modelId } = req.params;
+  logger.info(`[POST /api/admin/models/${modelId}/load] Request received`);
+
+  if (!modelService.getModelConfig(modelId)) {
+    res.status(404).json({ error: `Unknown model: ${modelId}` });
+    return;
+  }
+  if (modelService.isRemoteModel(modelId)) {
+    res.status(400).json({ error: `Model ${modelId} is not a local model` });
+    return;
+  }
+  const state = modelService.getModelState(modelId);
+  if (state !== 'unloaded') {
+    res.status(409).json({ error: `Model ${modelId} is ${state}` });
+    return;
+  }
+
+  modelService.loadRegisteredModel(modelId)
+    .then(async () => {
+      res.json({ modelId, state: modelService.getModelState(modelId), memory: await modelService.getMemoryUsage() });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/admin/models/${modelId}/load] Failed to load model:`, error);
+      next(error);
+    });
+});
+
+app.post('/api/admin/models/:modelId/unload', (req, res, next) => {
+  const { modelId } = req.params;
+  const timeoutMs = req.body?.timeoutMs;
+  logger.info(`[POST /api/admin/models/${modelId}/unload] Request received`, { timeoutMs });
+
+  if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs < 0)) {
+    res.status(400).json({ error: 'timeoutMs must be a non-negative integer' });
+    return;
+  }
+  if (!modelService.getModelConfig(modelId)) {
+    res.status(404).json({ error: `Unknown model: ${modelId}` });
+    return;
+  }
+  if (modelService.isRemoteModel(modelId)) {
+    res.status(400).json({ error: `Model ${modelId} is not a local model` });
+    return;
+  }
+  const state = modelService.getModelState(modelId);
+  if (state !== 'loaded') {
+    res.status(409).json({ error: `Model ${modelId} is ${state}` });
+    return;
+  }
+
+  modelService.unloadModel(modelId, timeoutMs)
+    .then(async (unloaded) => {
+      if (!unloaded) {
+        res.status(409).json({ error: `Model ${modelId} is still in use - unload called off` });
+        return;
+      }
+      res.json({ modelId, state: modelService.getModelState(modelId), memory: await modelService.getMemoryUsage() });
+    })
+    .catch((error: Error) => {
+      logger.error(`[POST /api/admin/models/${modelId}/unload] Failed to unload model:`, error);
+      next(error);
+    });
+});
+
+app.get('/api/admin/pools', (_req, res) => {
+  logger.info('[GET /api/admin/pools] Request received');
+  res.json(modelService.getContextPoolsStatus(true));
+});
+
+// Running and waiting collaborations with context pool occupancy
+app.get('/api/queue', (_req, res) => {
+  logger.info('[GET /api/queue] Request received');
+  res.json(sessionScheduler.getStatus());
+});
+
+// Session history - archived collaborations
+app.get('/api/sessions', (req, res, next) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 200);
+  const offset = Math.max(parseInt(String(req.query.offset ?? '0'), 10) || 0, 0);
+  logger.info('[GET /api/sessions] Request received', { limit, offset });
+
+  sessionHistory.listSessions(limit, offset)
+    .then(({ sessions, total }) => {
+      res.json({ sessions, total, limit, offset });
+    })
+    .catch((error: Error) => {
+      logger.error('[GET /api/sessions] Failed to list sessions:', error);
+      next(error);
+    });
+});
+
+app.get('/api/sessions/:sessionId', (req, res, next) => {
+  const { sessionId } = req.params;
+  logger.info(`[GET /api/sessions/${sessionId}] Request received`);
+
+  sessionHistory.getSession(sessionId)
+    .then((session) => {
+      if (!session) {
+        res.status(404).json({ error: 'Session not found', sessionId });
+        return;
+      }
+      res.json({ session });
+    })
+    .catch((error: Error) => {
+      logger.error(`[GET /api/sessions/${sessionId}] Failed to load session:`, error);
+      next(error);
+    });
+});
+
+// Fork tree the session belongs to, from its root session down
+app.get('/api/sessions/:sessionId/forks', (req, res, next) => {
+  const { sessionId } = req.params;
+  logger.info(`[GET /api/sessions/${sessionId}/forks] Request received`);
+
+  sessionHistory.getForkTree(sessionId)
+    .then((tree) => {
+      res.json({ tree });
+    })
+    .catch((error: Error) => {
+      logger.error(`[GET /api/sessions/${sessionId}/forks] Failed to load fork tree:`, error);
+      next(error);
+    });
+});
+
+app.get('/api/sessions/:sessionId/export', (req, res, next) => {
+  const { sessionId } = req.params;
+  const format = String(req.query.format ?? 'md');
+  logger.info(`[GET /api/sessions/${sessionId}/export] Request received`, { format });
+
+  if (!TranscriptExporter.isFormat(format)) {
+    res.status(400).json({ error: 'Invalid format. Use md, json or html.' });
+    return;
+  }
+
+  sessionHistory.getSession(sessionId)
+    .then((session) => {
+      if (!session) {
+        res.status(404).json({ error: 'Session not found', sessionId });
+        return;
+      }
+      const transcript = transcriptExporter.export(session, format);
+      res.setHeader('Content-Type', transcript.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${transcript.filename}"`);
+      res.send(transcript.content);
+    })
+    .catch((error: Error) => {
+      logger.error(`[GET /api/sessions/${sessionId}/export] Failed to export session:`, error);
+      next(error);
+    });
+});
+
+app.delete('/api/sessions/:sessionId', (req, res, next) => {
+  const { sessionId } = req.params;
+  logger.info(`[DELETE /api/sessions/${sessionId}] Request received`);
+
+  sessionHistory.deleteSession(sessionId)
+    .then((deleted) => {
+      if (!deleted) {
+        res.status(404).json({ error: 'Session not found', sessionId });
+        return;
+      }
+      res.status(204).end();
     })
     .catch((error: Error) => {
-      logger.error('[GET /api/models] Failed to get models:', error);
+      logger.error(`[DELETE /api/sessions/${sessionId}] Failed to delete session:`, error);
       next(error);
     });
 });
@@ -134,11 +745,12 @@ async function startServer(): Promise<void> {
     // Initialize services
     await redisService.connect();
     
-    // Clear all previous session data to ensure clean startup
+    // Clear stale pending sessions; archived collaborations live under separate keys and survive restarts
     logger.info('Clearing previous session data for clean startup...');
     await redisService.clearAllSessions();
     
     await modelService.initialize();
+    await workflowRegistry.initialize();
     
     server.listen(PORT, () => {
       logger.info(`✨ Synergize server running on port ${PORT}`);
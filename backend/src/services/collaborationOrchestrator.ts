@@ -1,4 +1,4 @@
-import { ModelService } from './modelService.js';
+import { ModelService, SequenceLease } from './modelService.js';
 import { RedisService } from './redisService.js';
 import { StreamingService } from './streamingService.js';
 import { PromptFormatter } from './promptFormatter.js';
@@ -8,14 +8,32 @@ import { TokenCounter } from './tokenCounter.js';
 import { FinalAnswerService } from './finalAnswerService.js';
 import { QwenThinkingService } from './qwenThinkingService.js';
 import { ReActAgreementAnalysisService } from './reactAgreementAnalysisService.js';
+import { SessionHistoryService } from './sessionHistoryService.js';
+import { CurationService } from './curationService.js';
 import { 
+  BudgetExceeded,
+  BudgetUsage,
   CollaborationPhase, 
   SSEMessage, 
-  SSEMessageType
+  SSEMessageType,
+  ModelConfig,
+  SessionBudget,
+  SessionBudgetLimit,
+  SessionControlStatus,
+  TokenChunk
 } from '../models/types.js';
-import { ConversationState, ConversationTurn } from '../models/conversationTypes.js';
-import { ModelRole, AgreementAnalysis, ConsensusLevel } from '../models/curatedConversationTypes.js';
-import { LlamaContext, LlamaChatSession, Token } from 'node-llama-cpp';
+import { ConversationState, ConversationTurn, ModelSettingsOverrides } from '../models/conversationTypes.js';
+import {
+  ModelRole,
+  AgreementAnalysis,
+  ConsensusLevel,
+  CurationResult,
+  CurationTaskType
+} from '../models/curatedConversationTypes.js';
+import { AgreementAnalysisResult } from '../models/agreementAnalysisTypes.js';
+import { WorkflowDefinition, WorkflowPhaseDefinition } from '../models/workflowTypes.js';
+import { SessionAgreementRecord } from '../models/sessionHistoryTypes.js';
+import { LlamaChatSession, Token } from 'node-llama-cpp';
 import { config } from '../config.js';
 import { createLogger } from '../utils/logger.js';
 import { CircularBuffer } from '../utils/CircularBuffer.js';
@@ -23,14 +41,24 @@ import { getErrorMessage } from '../utils/typeGuards.js';
 import { 
   PHASE_INSTRUCTIONS, 
   VERIFICATION_REMINDER, 
-  MODEL_DEFAULTS 
+  MODEL_DEFAULTS,
+  DEFAULT_WORKFLOW,
+  ERROR_MESSAGES
 } from '../constants/index.js';
 
+const BUDGET_LABELS: Record<SessionBudgetLimit, string> = {
+  maxTurns: 'Turn',
+  maxTokens: 'Token',
+  maxPhaseRevisits: 'Phase revisit',
+  maxDurationMs: 'Time'
+};
+
 /**
  * WORLD-CLASS CONVERSATIONAL COLLABORATION ORCHESTRATOR
  * 
  * Implements state-of-the-art AI collaboration with:
- * - Gemma as dual-role participant with agreement analysis
+ * - 2..N pluggable participants taking turns in selection order
+ * - Lead participant driving agreement analysis and synthesis
  * - Persistent conversation state with Redis
  * - Real-time context enhancement between turns
  * - Intelligent synthesis generation
@@ -38,6 +66,10 @@ import {
 export class CollaborationOrchestrator {
   private conversationState: ConversationState | null = null;
   private cancelled = false;
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+  // Aborts the in-flight local generation on cancel
+  private readonly abortController = new AbortController();
   private streamingService: StreamingService;
   private conversationManager: ConversationStateManager;
   private contextAllocator: ContextAllocator;
@@ -45,24 +77,55 @@ export class CollaborationOrchestrator {
   private finalAnswerService: FinalAnswerService;
   private qwenThinkingService: QwenThinkingService;
   private agreementAnalysisService: ReActAgreementAnalysisService;
+  private sessionHistory: SessionHistoryService;
+  private curationService: CurationService;
   private logger = createLogger('CollaborationOrchestrator');
   private verificationAttempts = 0;
   private readonly MAX_VERIFICATION_ATTEMPTS = 2;
   
-  // Gemma-Qwen collaboration configuration
-  private readonly GEMMA_MODEL_ID = 'gemma-3-12b-it-q4-0';
-  private readonly QWEN_MODEL_ID = 'qwen3-14b-ud-q4-k-xl';
+  // Participants in turn order, taken from the session's selected models
+  private participants: string[] = [];
+  
+  // Phase pipeline for this session (built-in workflow unless the session requested another)
+  private workflow: WorkflowDefinition = DEFAULT_WORKFLOW;
+  
+  // Recorded for the session archive
+  private startedAt = 0;
+  private agreementAnalyses: SessionAgreementRecord[] = [];
+  private finalSynthesis = '';
+  private synthesisStreamComplete = false;
+  
+  // Sampling overrides carried by the conversation (set when a fork changes model settings)
+  private modelSettings: ModelSettingsOverrides = {};
+  
+  // User messages waiting to be inserted before the next model turn
+  private pendingInterjections: string[] = [];
+  
+  // Session budget and what the session has spent against it - kept in the conversation state across runs
+  private budget: SessionBudget = {};
+  private budgetUsage: BudgetUsage = { turns: 0, tokens: 0, phaseRevisits: 0 };
+  private runStartedAt = 0;
+  private pausedMs = 0;
+  private budgetExceeded: BudgetExceeded | null = null;
+
+  private sendMessage: (message: SSEMessage) => void;
 
   constructor(
     private modelService: ModelService,
     private redisService: RedisService,
-    private sendMessage: (message: SSEMessage) => void
+    sendMessage: (message: SSEMessage) => void
   ) {
-    this.streamingService = new StreamingService(sendMessage);
+    // Tap the outgoing stream so the synthesis text can be archived
+    this.sendMessage = (message: SSEMessage): void => {
+      this.recordSynthesisTokens(message);
+      sendMessage(message);
+    };
+    
+    this.streamingService = new StreamingService(this.sendMessage);
     
     // Initialize token counting and context allocation
     this.tokenCounter = new TokenCounter();
-    this.contextAllocator = new ContextAllocator(this.tokenCounter);
+    this.contextAllocator = new ContextAllocator(this.tokenCounter, modelService);
     
     // Initialize state-of-the-art conversation management with intelligent compression
     // Compression now happens asynchronously at phase transitions
@@ -70,16 +133,21 @@ export class CollaborationOrchestrator {
     this.conversationManager = new ConversationStateManager(this.redisService, this.modelService, enableCompression);
     
     // Initialize final answer service
-    this.finalAnswerService = new FinalAnswerService(modelService, this.streamingService, sendMessage);
+    this.finalAnswerService = new FinalAnswerService(modelService, this.streamingService, this.sendMessage, this.abortController.signal);
     
     // Initialize Qwen thinking service with optimal settings
-    this.qwenThinkingService = new QwenThinkingService(modelService, this.streamingService, sendMessage);
+    this.qwenThinkingService = new QwenThinkingService(modelService, this.streamingService, this.sendMessage, this.abortController.signal);
     
     // Initialize revolutionary ReAct Agreement Analysis Service
-    this.agreementAnalysisService = new ReActAgreementAnalysisService(modelService, sendMessage);
+    this.agreementAnalysisService = new ReActAgreementAnalysisService(modelService, this.sendMessage, this.abortController.signal);
+    
+    this.sessionHistory = new SessionHistoryService(redisService);
+    
+    // Curator runs between participant turns when the phase or config asks for it
+    this.curationService = new CurationService(modelService, this.sendMessage, this.abortController.signal);
     
     this.logger.info('🧮 CollaborationOrchestrator initialized with professional token management:');
-    this.logger.info('   ✅ TokenCounter with tiktoken precision');
+    this.logger.info('   ✅ TokenCounter with per-model tokenizers');
     this.logger.info('   ✅ ContextAllocator with Gemini\'s algorithm');
     this.logger.info('   ✅ Dynamic phase-based allocation');
     this.logger.info('   ✅ QwenThinkingService with optimal thinking mode settings');
@@ -89,12 +157,13 @@ export class CollaborationOrchestrator {
   /**
    * START WORLD-CLASS CONVERSATIONAL COLLABORATION
    * 
-   * Flow: Gemma → Qwen → Agreement Analysis → Phase Decision → repeat
+   * Flow: Participant 1 → ... → Participant N → Agreement Analysis → Phase Decision → repeat
    */
   async startCollaboration(sessionId: string): Promise<void> {
     try {
       // Reset verification attempts for new collaboration
       this.verificationAttempts = 0;
+      this.startedAt = Date.now();
       
       // Initialize conversation management systems
       await this.conversationManager.initialize();
@@ -103,32 +172,67 @@ export class CollaborationOrchestrator {
       await this.agreementAnalysisService.initialize();
       
       // Load session data
-      const sessionData = await this.redisService.getSession(sessionId) as { prompt: string; models: string[] } | null;
+      const sessionData = await this.redisService.getSession(sessionId) as { 
+        prompt: string; 
+        models: string[]; 
+        workflow?: WorkflowDefinition;
+        followUp?: boolean;
+        forked?: boolean;
+        budget?: SessionBudget;
+      } | null;
       if (!sessionData) {
         throw new Error('Session not found');
       }
 
-      // Create conversation state with Gemma and Qwen
+      if (!Array.isArray(sessionData.models) || sessionData.models.length < config.session.minParticipants) {
+        throw new Error(`Session requires at least ${config.session.minParticipants} participant models`);
+      }
+      this.participants = [...sessionData.models];
+      this.workflow = sessionData.workflow ?? DEFAULT_WORKFLOW;
+      this.budget = { ...config.budget, ...sessionData.budget };
+      this.runStartedAt = Date.now();
+
+      // Create conversation state with the selected participants
       this.logger.info(`🚀 Starting collaboration for session ${sessionId}`);
       this.logger.info(`📝 Original query: "${sessionData.prompt}"`);
-      this.logger.info(`🤝 Participants: ${this.GEMMA_MODEL_ID}, ${this.QWEN_MODEL_ID}`);
-      this.logger.info(`⚙️ Context window: ${config.model.contextSize} tokens`);
+      this.logger.info(`🤝 Participants (turn order): ${this.participants.join(' → ')}`);
+      this.logger.info(`🗺️ Workflow: ${this.workflow.name} (${this.workflow.phases.map(p => p.phase).join(' → ')})`);
+      this.logger.info(`⚙️ Context windows: ${this.participants.map(id => `${id} ${this.modelService.getContextSize(id)}`).join(', ')} tokens`);
       
-      this.conversationState = await this.conversationManager.createConversation(
-        sessionId,
-        sessionData.prompt,
-        [this.GEMMA_MODEL_ID, this.QWEN_MODEL_ID]
-      );
+      if (sessionData.forked) {
+        this.conversationState = await this.resumeFork(sessionId);
+      } else {
+        this.conversationState = sessionData.followUp
+          ? await this.continueConversation(sessionId, sessionData.prompt)
+          : await this.conversationManager.createConversation(
+            sessionId,
+            sessionData.prompt,
+            this.participants,
+            this.workflow
+          );
+      }
+      this.modelSettings = this.conversationState.modelSettings ?? {};
+      this.budgetUsage = this.conversationState.budgetUsage ?? this.budgetUsage;
+
+      // Paused while still waiting for admission
+      if (this.paused) {
+        await this.persistStatus('paused');
+      }
 
       // Send model status
-      const availableModels = await this.modelService.getAvailableModels();
       this.sendMessage({
         type: SSEMessageType.MODEL_STATUS,
         payload: { 
-          models: availableModels.map(m => ({ id: m.id, name: m.name })),
+          models: this.modelService.getModelDetails(),
           conversation: {
-            participants: [this.GEMMA_MODEL_ID, this.QWEN_MODEL_ID],
-            mode: 'curated_collaboration'
+            participants: this.participants,
+            mode: 'curated_collaboration',
+            forkedFrom: this.conversationState.forkedFrom,
+            workflow: {
+              id: this.workflow.id,
+              name: this.workflow.name,
+              phases: this.workflow.phases.map(({ phase, name }) => ({ phase, name }))
+            }
           }
         }
       });
@@ -136,6 +240,11 @@ export class CollaborationOrchestrator {
       // Execute all collaboration phases with curated conversation
       await this.executeConversationalPhases();
 
+      if (this.cancelled) {
+        await this.finishCancelled(sessionId);
+        return;
+      }
+
       // Mark conversation as complete
       this.sendMessage({
         type: SSEMessageType.COLLABORATION_COMPLETE,
@@ -146,38 +255,236 @@ export class CollaborationOrchestrator {
         }
       });
 
+      await this.archiveSession('completed');
+
     } catch (error) {
+      if (this.cancelled) {
+        await this.finishCancelled(sessionId);
+        return;
+      }
+
       this.logger.error('Conversational collaboration error:', error);
       this.sendMessage({
         type: SSEMessageType.ERROR,
         payload: { error: getErrorMessage(error) }
       });
+      await this.archiveSession('error', getErrorMessage(error));
+    }
+  }
+
+  /**
+   * REGENERATE ONE MODEL TURN IN PLACE
+   * 
+   * Re-runs the turn against the context it originally saw, with optional sampling
+   * overrides for its model. The new response becomes the selected version; earlier
+   * versions stay on the turn as alternates.
+   */
+  async regenerateTurn(
+    sessionId: string,
+    turnId: string,
+    settings: ModelConfig['settings'] = {}
+  ): Promise<ConversationTurn> {
+    await this.conversationManager.initialize();
+
+    const state = await this.conversationManager.getConversationState(sessionId);
+    if (!state) {
+      throw new Error(`${ERROR_MESSAGES.CONVERSATION_NOT_FOUND}: session ${sessionId} has expired`);
+    }
+    const target = state.turns.find(turn => turn.id === turnId);
+    if (!target) {
+      throw new Error(`Turn ${turnId} not found in session ${sessionId}`);
+    }
+
+    this.conversationState = state;
+    this.participants = [...state.participants];
+    this.workflow = state.workflow ?? DEFAULT_WORKFLOW;
+    this.budgetUsage = state.budgetUsage ?? this.budgetUsage;
+    this.modelSettings = {
+      ...state.modelSettings,
+      [target.modelId]: { ...state.modelSettings?.[target.modelId], ...settings }
+    };
+
+    this.logger.info(`🔁 Regenerating turn ${target.turnNumber} of ${target.modelId}`, {
+      sessionId,
+      turnId,
+      phase: target.phase,
+      settings
+    });
+
+    const turn = await this.executeModelTurn(
+      target.modelId,
+      ModelRole.PARTICIPANT,
+      target.phase,
+      target.responseToTurn,
+      undefined,
+      target
+    );
+
+    this.sendMessage({
+      type: SSEMessageType.PHASE_UPDATE,
+      payload: {
+        phase: state.currentPhase,
+        status: 'turn_regenerated',
+        turnId: turn.id,
+        modelId: turn.modelId,
+        version: turn.selectedVersion,
+        message: `🔁 ${turn.modelId} regenerated turn ${turn.turnNumber}`
+      }
+    });
+
+    return turn;
+  }
+
+  /**
+   * Reopen a finished conversation for a follow-up question
+   * The archive supplies the previous final answer and keeps its analyses in the record
+   */
+  private async continueConversation(sessionId: string, query: string): Promise<ConversationState> {
+    const previous = await this.sessionHistory.getSession(sessionId);
+    const state = await this.conversationManager.getConversationState(sessionId);
+    if (!state) {
+      throw new Error(`${ERROR_MESSAGES.CONVERSATION_NOT_FOUND}: session ${sessionId} has expired, start a new collaboration`);
+    }
+
+    if (previous) {
+      this.startedAt = previous.startedAt;
+      this.agreementAnalyses = [...previous.agreementAnalyses];
+    }
+    const previousAnswer = previous?.finalSynthesis || state.turns[state.turns.length - 1]?.content || '';
+
+    this.logger.info(`🔁 Continuing session ${sessionId} with a follow-up question`, {
+      previousQuery: state.originalQuery.substring(0, 100),
+      carriedTurns: state.turns.length,
+      hasArchivedAnswer: Boolean(previous?.finalSynthesis)
+    });
+
+    return this.conversationManager.startFollowUp(sessionId, query, previousAnswer);
+  }
+
+  /**
+   * Pick up a fork created by the fork endpoint - its state already holds the copied turns
+   */
+  private async resumeFork(sessionId: string): Promise<ConversationState> {
+    const state = await this.conversationManager.getConversationState(sessionId);
+    if (!state) {
+      throw new Error(`${ERROR_MESSAGES.CONVERSATION_NOT_FOUND}: fork ${sessionId} has expired, fork the session again`);
+    }
+
+    this.logger.info(`🌿 Resuming fork ${sessionId} in ${state.currentPhase}`, {
+      parentSessionId: state.forkedFrom?.sessionId,
+      fromTurnId: state.forkedFrom?.turnId,
+      carriedTurns: state.turns.length
+    });
+
+    return state;
+  }
+
+  /**
+   * Report the cancellation, persist it and archive the partial conversation
+   */
+  private async finishCancelled(sessionId: string): Promise<void> {
+    this.logger.info(`🛑 Collaboration cancelled`, {
+      sessionId,
+      conversationTurns: this.conversationState?.turns.length ?? 0
+    });
+
+    this.sendMessage({
+      type: SSEMessageType.SESSION_STATUS,
+      payload: { sessionId, status: 'cancelled', message: '🛑 Collaboration cancelled' }
+    });
+
+    await this.persistStatus('cancelled');
+    await this.archiveSession('cancelled');
+  }
+
+  /**
+   * ARCHIVE THE FINISHED COLLABORATION TO SESSION HISTORY
+   * Failures are logged only - the live session already reached the client
+   */
+  private async archiveSession(status: 'completed' | 'cancelled' | 'error', error?: string): Promise<void> {
+    if (!this.conversationState) return;
+
+    try {
+      const state = await this.conversationManager.getConversationState(this.conversationState.sessionId)
+        ?? this.conversationState;
+
+      await this.sessionHistory.saveSession({
+        sessionId: state.sessionId,
+        originalQuery: state.originalQuery,
+        queryHistory: state.queryHistory,
+        forkedFrom: state.forkedFrom,
+        participants: state.participants,
+        workflow: { id: this.workflow.id, name: this.workflow.name },
+        status,
+        error,
+        budgetExceeded: this.budgetExceeded ?? undefined,
+        startedAt: this.startedAt,
+        completedAt: Date.now(),
+        turns: state.turns,
+        phaseHistory: state.phaseHistory,
+        agreementAnalyses: this.agreementAnalyses,
+        finalSynthesis: this.finalSynthesis
+      });
+    } catch (archiveError) {
+      this.logger.error('Failed to archive session:', archiveError, {
+        sessionId: this.conversationState.sessionId
+      });
+    }
+  }
+
+  /**
+   * Collect synthesis tokens; a new synthesis stream replaces the previous one
+   */
+  private recordSynthesisTokens(message: SSEMessage): void {
+    if (message.type !== SSEMessageType.TOKEN_CHUNK) return;
+
+    const chunk = message.payload as TokenChunk;
+    if (chunk.modelId !== 'synthesis') return;
+
+    if (this.synthesisStreamComplete && chunk.tokens.length > 0) {
+      this.finalSynthesis = '';
+      this.synthesisStreamComplete = false;
+    }
+    this.finalSynthesis += chunk.tokens.join('');
+    if (chunk.isComplete) {
+      this.synthesisStreamComplete = true;
     }
   }
 
   /**
-   * EXECUTE CONVERSATIONAL PHASES WITH GEMMA CURATION
+   * EXECUTE CONVERSATIONAL PHASES WITH LEAD PARTICIPANT CURATION
    * 
    * Revolutionary approach: Each phase is a living conversation where
-   * Gemma curates context between every exchange
+   * the lead participant curates context between every exchange
    */
   private async executeConversationalPhases(): Promise<void> {
     if (!this.conversationState) return;
 
-    const phases = [
-      CollaborationPhase.BRAINSTORM,
-      CollaborationPhase.CRITIQUE, 
-      CollaborationPhase.REVISE,
-      CollaborationPhase.SYNTHESIZE,
-      CollaborationPhase.CONSENSUS,
-      CollaborationPhase.COMPLETE  // CRITICAL: Allow direct jump to final answer!
-    ];
+    const phases = this.workflow.phases.map(definition => definition.phase);
 
-    let currentPhaseIndex = 0;
+    // New conversations start at the first phase, forks at the phase they branched in
+    let currentPhaseIndex = Math.max(0, phases.indexOf(this.conversationState.currentPhase));
+    const executedPhases = new Set<CollaborationPhase>();
     while (currentPhaseIndex < phases.length) {
       if (this.cancelled) return;
       
+      if (this.hasReachedTurnLimit()) {
+        this.logger.info(`🛑 Workflow turn limit reached (${this.workflow.terminal.maxTotalTurns}) - ending phase loop`);
+        break;
+      }
+      
       const currentPhase = phases[currentPhaseIndex];
+      
+      // Backward jumps are allowed, so returning to a phase spends the revisit budget
+      if (executedPhases.has(currentPhase)) {
+        await this.chargeBudget({ phaseRevisits: 1 });
+      }
+      executedPhases.add(currentPhase);
+      
+      if (this.isOverBudget()) {
+        this.logger.info(`🛑 Session budget exhausted - ending phase loop before ${currentPhase}`);
+        break;
+      }
       this.logger.info(`🔍 PHASE LOOP: Executing phase ${currentPhaseIndex + 1}/${phases.length}: ${currentPhase}`, {
         sessionId: this.conversationState?.sessionId,
         phaseIndex: currentPhaseIndex,
@@ -191,8 +498,8 @@ export class CollaborationOrchestrator {
         const beforePhase = this.conversationState.currentPhase;
         
         // RESPECT INTELLIGENT PHASE JUMPS - Don't override agreement analysis decisions!
-        if (beforePhase === CollaborationPhase.COMPLETE || beforePhase === CollaborationPhase.CONSENSUS) {
-          this.logger.info(`🧠 RESPECTING INTELLIGENT PHASE JUMP: Agreement analysis jumped to ${beforePhase} - BREAKING OUT of sequential loop`, {
+        if (this.isTerminalPhase(beforePhase)) {
+          this.logger.info(`🧠 RESPECTING INTELLIGENT PHASE JUMP: Agreement analysis jumped to terminal phase ${beforePhase} - BREAKING OUT of sequential loop`, {
             sessionId: this.conversationState.sessionId,
             jumpedTo: beforePhase,
             skippedPhase: currentPhase,
@@ -201,16 +508,6 @@ export class CollaborationOrchestrator {
           break; // Exit the entire phase loop - agreement analysis made the decision!
         }
         
-        // If it's any other terminal phase, also respect it
-        const terminalPhases = [CollaborationPhase.COMPLETE, CollaborationPhase.CONSENSUS];
-        if (terminalPhases.includes(beforePhase)) {
-          this.logger.info(`🎯 RESPECTING TERMINAL PHASE: Already in ${beforePhase} - collaboration complete`, {
-            sessionId: this.conversationState.sessionId,
-            terminalPhase: beforePhase
-          });
-          break;
-        }
-        
         // Otherwise, this is normal sequential progression
         this.logger.info(`🔄 Phase transition needed`, {
           sessionId: this.conversationState.sessionId,
@@ -287,20 +584,19 @@ export class CollaborationOrchestrator {
         this.logger.info(`🔍 PHASE LOOP: Phase changed during execution from ${currentPhase} to ${this.conversationState.currentPhase} (index ${newIndex})`);
         
         // ULTRA-INTELLIGENT: Check if LLMs jumped directly to terminal phases
-        if (this.conversationState.currentPhase === CollaborationPhase.CONSENSUS) {
-          this.logger.info(`🚀 ULTRA-INTELLIGENT JUMP: LLMs reached CONSENSUS early! Skipping intermediate phases.`);
-          // Execute CONSENSUS phase to finalize
-          await this.executeConversationalPhase(CollaborationPhase.CONSENSUS);
+        const jumpedPhase = this.conversationState.currentPhase;
+        if (this.isTerminalPhase(jumpedPhase)) {
+          // A terminal phase the workflow declares still runs once to finalize (e.g. CONSENSUS);
+          // undeclared terminal phases such as COMPLETE mean we're done
+          if (newIndex >= 0) {
+            this.logger.info(`🚀 ULTRA-INTELLIGENT JUMP: LLMs reached ${jumpedPhase} early! Skipping intermediate phases.`);
+            await this.executeConversationalPhase(jumpedPhase);
+          } else {
+            this.logger.info(`🎯 ULTRA-INTELLIGENT JUMP: Agreement analysis determined ${jumpedPhase}! All models provided confident answers.`);
+          }
           break; // Exit loop and go to synthesis
         }
         
-        // CRITICAL FIX: Also handle COMPLETE phase jumps from agreement analysis
-        if (this.conversationState.currentPhase === CollaborationPhase.COMPLETE) {
-          this.logger.info(`🎯 ULTRA-INTELLIGENT JUMP: Agreement analysis determined COMPLETE! Both models provided confident answers.`);
-          // COMPLETE means we're done - no need to execute anything more
-          break; // Exit loop - collaboration is finished
-        }
-        
         if (newIndex >= 0 && newIndex !== currentPhaseIndex) {
           // Allow LLMs to jump to ANY valid phase (forward OR backward)
           const direction = newIndex > currentPhaseIndex ? 'forward' : 'backward';
@@ -310,9 +606,9 @@ export class CollaborationOrchestrator {
         }
       }
       
-      // ULTRA-INTELLIGENT: Also check if we're already at CONSENSUS
-      if (currentPhase === CollaborationPhase.CONSENSUS) {
-        this.logger.info(`🏁 CONSENSUS reached - ready for final synthesis!`);
+      // ULTRA-INTELLIGENT: Also check if we're already at a terminal phase
+      if (this.isTerminalPhase(currentPhase)) {
+        this.logger.info(`🏁 ${currentPhase} reached - ready for final synthesis!`);
         break; // Exit loop and generate synthesis
       }
       
@@ -334,7 +630,7 @@ export class CollaborationOrchestrator {
   /**
    * SINGLE PHASE WITH SIMPLIFIED CONVERSATION FLOW
    * 
-   * Flow: Gemma(initial) → Qwen(response) → Gemma(summary/curation)
+   * Flow: Participant 1(initial) → Participant 2..N(responses) → agreement analysis
    */
   private async executeConversationalPhase(phase: CollaborationPhase): Promise<void> {
     if (!this.conversationState) return;
@@ -359,79 +655,51 @@ export class CollaborationOrchestrator {
     });
 
     // CRITICAL FIX: If CONSENSUS was reached via phase jump, skip dual model execution
-    if (phase === CollaborationPhase.CONSENSUS && this.conversationState && this.conversationState.turns.length >= 2) {
+    if (phase === CollaborationPhase.CONSENSUS && this.conversationState && this.conversationState.turns.length >= this.participants.length) {
       this.logger.info(`🚀 CONSENSUS reached via phase jump - skipping redundant model turns`);
       // CONSENSUS phase after phase jump should go directly to synthesis
       // The models already agreed, no need for additional turns
       return;
     }
 
-    // Step 1: Gemma starts the conversation
-    const gemmaInitialTurn = await this.executeModelTurn(
-      this.GEMMA_MODEL_ID, 
-      ModelRole.PARTICIPANT,
-      phase
-    );
-
-    // Step 2: Qwen responds to Gemma
-    const qwenResponseTurn = await this.executeModelTurn(
-      this.QWEN_MODEL_ID,
-      ModelRole.PARTICIPANT, 
-      phase,
-      gemmaInitialTurn.id
-    );
-
-    // Step 3: Alert user about sophisticated AI orchestration happening behind the scenes
-    this.sendMessage({
-      type: SSEMessageType.MODEL_STATUS,
-      payload: {
-        sessionId: this.conversationState?.sessionId || '',
-        status: 'ANALYZING_AGREEMENT',
-        message: '🤖 AI Orchestrator analyzing model agreement using sophisticated ReAct reasoning...',
-        timestamp: Date.now()
-      }
-    });
-
-    // Step 4: Perform sophisticated agreement analysis between both models
-    const agreementAnalysis = await this.agreementAnalysisService.analyze({
-      sessionId: this.conversationState?.sessionId || '',
-      currentPhase: phase,
-      originalQuery: this.conversationState?.originalQuery || '',
-      responseA: {
-        modelId: this.GEMMA_MODEL_ID,
-        content: gemmaInitialTurn.content
-      },
-      responseB: {
-        modelId: this.QWEN_MODEL_ID,
-        content: qwenResponseTurn.content
-      }
-    });
-
-    // Send agreement analysis to frontend
-    this.sendMessage({
-      type: SSEMessageType.SYNTHESIS_UPDATE,
-      payload: { 
-        agreementAnalysis,
-        phase,
-        analyzedTurns: [gemmaInitialTurn.id, qwenResponseTurn.id]
+    // Run rounds until the workflow's turn bounds and the agreement analysis allow leaving the phase
+    const { minTurns, maxTurns } = this.getPhaseTurnBounds(phase);
+    let round = 0;
+    let agreementAnalysis: AgreementAnalysisResult | null = null;
+    do {
+      round++;
+      agreementAnalysis = await this.executePhaseRound(phase);
+      if (!agreementAnalysis) return;
+      
+      if (round < maxTurns) {
+        this.logger.info(`🔁 Phase ${phase} round ${round}/${maxTurns} complete`, {
+          minTurns,
+          recommendedPhase: agreementAnalysis.finalRecommendation?.nextPhase
+        });
       }
-    });
+    } while (
+      round < maxTurns &&
+      !this.hasReachedTurnLimit() &&
+      !this.isOverBudget() &&
+      (round < minTurns || agreementAnalysis.finalRecommendation?.nextPhase === phase)
+    );
 
-    // INTELLIGENT PHASE DECISION: Let Gemma decide the flow
+    // INTELLIGENT PHASE DECISION: Let the agreement analysis decide the flow
     if (this.conversationState) {
       this.logger.info(`🔍 PHASE DEBUG: Current phase is ${phase}, conversation state phase is ${this.conversationState.currentPhase}`);
       
-      // Don't make phase decisions if already in final CONSENSUS phase
-      if (phase === CollaborationPhase.CONSENSUS) {
-        this.logger.info(`🏁 In CONSENSUS phase - ready for synthesis`);
+      // Don't make phase decisions if already in a terminal phase
+      if (this.isTerminalPhase(phase)) {
+        this.logger.info(`🏁 In terminal ${phase} phase - ready for synthesis`);
         return;
       }
       
       // Log phase decision context for ULTRA-INTELLIGENT jumping
       this.logger.info(`🧠 ULTRA-INTELLIGENT PHASE DECISION POINT`, {
         currentPhase: phase,
-        availablePhases: Object.values(CollaborationPhase),
-        canJumpTo: 'ANY phase including CONSENSUS if models agree 100%',
+        workflow: this.workflow.id,
+        availablePhases: this.workflow.phases.map(definition => definition.phase),
+        canJumpTo: this.getPhaseDefinition(phase)?.transitions ?? 'ANY workflow phase including terminal phases if models agree 100%',
         turnsSoFar: this.conversationState.turns.length
       });
 
@@ -440,10 +708,11 @@ export class CollaborationOrchestrator {
 
       // Validate finalRecommendation exists (critical fix!)
       if (!agreementAnalysis.finalRecommendation) {
-        this.logger.error(`❌ Agreement analysis missing finalRecommendation - using fallback to CONSENSUS`);
+        const fallbackPhase = this.workflow.terminal.phases[0];
+        this.logger.error(`❌ Agreement analysis missing finalRecommendation - using fallback to ${fallbackPhase}`);
         await this.conversationManager.manualPhaseTransition(
           this.conversationState.sessionId, 
-          CollaborationPhase.CONSENSUS
+          fallbackPhase
         );
         this.conversationState = await this.conversationManager.getConversationState(this.conversationState.sessionId);
         return;
@@ -457,8 +726,8 @@ export class CollaborationOrchestrator {
         stageUsed: agreementAnalysis.analysisQuality.stageUsed
       });
 
-      // Handle critical issues by forcing CRITIQUE phase
-      if (agreementAnalysis.keyFindings.criticalIssues.length > 0) {
+      // Handle critical issues by forcing CRITIQUE phase (when the workflow allows it)
+      if (agreementAnalysis.keyFindings.criticalIssues.length > 0 && this.canTransition(phase, CollaborationPhase.CRITIQUE)) {
         this.logger.warn(`⚠️ Critical issues detected - forcing CRITIQUE phase`, {
           issues: agreementAnalysis.keyFindings.criticalIssues
         });
@@ -471,8 +740,13 @@ export class CollaborationOrchestrator {
         return; // Exit early due to forced critique
       }
 
-      // Handle intelligent phase transitions
-      if (agreementAnalysis.finalRecommendation.nextPhase !== phase) {
+      // Handle intelligent phase transitions within the workflow's allowed transitions
+      const recommendedPhase = agreementAnalysis.finalRecommendation.nextPhase;
+      if (recommendedPhase !== phase && !this.canTransition(phase, recommendedPhase)) {
+        this.logger.warn(`🚧 Workflow "${this.workflow.id}" does not allow ${phase} → ${recommendedPhase} - continuing sequentially`, {
+          allowedTransitions: this.getPhaseDefinition(phase)?.transitions
+        });
+      } else if (recommendedPhase !== phase) {
         this.logger.info(`🔄 Executing intelligent transition from ${phase} to ${agreementAnalysis.finalRecommendation.nextPhase}`, {
           reasoning: agreementAnalysis.finalRecommendation.reasoning,
           jumpReason: agreementAnalysis.finalRecommendation.jumpReason,
@@ -514,26 +788,98 @@ export class CollaborationOrchestrator {
     });
   }
 
+  /**
+   * SINGLE ROUND: every participant takes one turn, then agreement is analyzed
+   * Returns null when the collaboration was cancelled or ran out of budget mid-round
+   */
+  private async executePhaseRound(phase: CollaborationPhase): Promise<AgreementAnalysisResult | null> {
+    // Step 1: Each participant takes a turn in order, responding to the previous turn
+    // A curator may prepare each turn for the participant that follows it
+    const phaseTurns: ConversationTurn[] = [];
+    let curationResult: CurationResult | undefined;
+    for (const [index, modelId] of this.participants.entries()) {
+      if (this.cancelled || this.isOverBudget()) return null;
+      
+      const turn = await this.executeModelTurn(
+        modelId,
+        ModelRole.PARTICIPANT,
+        phase,
+        phaseTurns[phaseTurns.length - 1]?.id,
+        curationResult
+      );
+      phaseTurns.push(turn);
+
+      curationResult = index < this.participants.length - 1
+        ? await this.curateTurn(turn, phase)
+        : undefined;
+    }
+
+    // Step 2: Alert user about sophisticated AI orchestration happening behind the scenes
+    this.sendMessage({
+      type: SSEMessageType.MODEL_STATUS,
+      payload: {
+        sessionId: this.conversationState?.sessionId || '',
+        status: 'ANALYZING_AGREEMENT',
+        message: '🤖 AI Orchestrator analyzing model agreement using sophisticated ReAct reasoning...',
+        timestamp: Date.now()
+      }
+    });
+
+    // Step 3: Perform sophisticated agreement analysis across all participants
+    const agreementAnalysis = await this.agreementAnalysisService.analyze({
+      sessionId: this.conversationState?.sessionId || '',
+      currentPhase: phase,
+      originalQuery: this.conversationState?.originalQuery || '',
+      responses: phaseTurns.map(turn => ({
+        modelId: turn.modelId,
+        content: turn.content
+      }))
+    });
+
+    await this.chargeBudget({ tokens: agreementAnalysis.generatedTokens });
+    this.agreementAnalyses.push({ phase, analysis: agreementAnalysis, timestamp: Date.now() });
+
+    // Send agreement analysis to frontend
+    this.sendMessage({
+      type: SSEMessageType.SYNTHESIS_UPDATE,
+      payload: { 
+        agreementAnalysis,
+        phase,
+        analyzedTurns: phaseTurns.map(turn => turn.id)
+      }
+    });
+    
+    return agreementAnalysis;
+  }
+
   /**
    * EXECUTE A SINGLE MODEL TURN WITH FULL CONVERSATION CONTEXT
    * 
-   * This is where the magic happens - each model gets the full curated context
+   * This is where the magic happens - each model gets the full curated context.
+   * Given an existing turn, the context is rebuilt as of that turn and the
+   * response is stored as a new version of it instead of a new turn.
    */
   private async executeModelTurn(
     modelId: string,
     role: ModelRole,
     phase: CollaborationPhase,
     responseToTurnId?: string,
-    curationResult?: { curationNotes: string; extractedInsights: string[] }
+    curationResult?: CurationResult,
+    regeneratedTurn?: ConversationTurn
   ): Promise<ConversationTurn> {
     if (!this.conversationState) throw new Error('No conversation state');
 
+    await this.waitAtTurnBoundary();
+    await this.applyPendingInterjections();
+
     const startTime = Date.now();
 
     // Build conversation prompt with full context
     const conversationPrompt = await this.conversationManager.buildConversationPrompt(
       this.conversationState.sessionId,
-      modelId
+      modelId,
+      undefined,
+      regeneratedTurn?.id
     );
     
     // Log the token allocation being used
@@ -546,8 +892,8 @@ export class CollaborationOrchestrator {
         maxGenerationTokens: allocation.maxGenerationTokens,
         historyTokenBudget: allocation.historyTokenBudget,
         totalAllocated: allocation.totalAllocated,
-        contextSize: config.model.contextSize,
-        utilizationPercent: Math.round((allocation.totalAllocated / config.model.contextSize) * 100)
+        contextSize: allocation.debugInfo.totalContextSize,
+        utilizationPercent: Math.round((allocation.totalAllocated / allocation.debugInfo.totalContextSize) * 100)
       },
       reasoning: `Phase ${phase} requires ${allocation.maxGenerationTokens} tokens for detailed response`
     });
@@ -555,11 +901,20 @@ export class CollaborationOrchestrator {
     // Enhance prompt with curation if available
     let enhancedPrompt = conversationPrompt.currentTurn;
     if (curationResult && role === ModelRole.PARTICIPANT) {
-      enhancedPrompt = `${conversationPrompt.currentTurn}\n\n## Enhanced Context from Curation:\n${curationResult.curationNotes}\n\n## Key Insights to Consider:\n${curationResult.extractedInsights.join('\n')}\n\nRespond with this enhanced understanding:`;
+      const bullets = (items: string[]): string => items.map(item => `- ${item}`).join('\n');
+      const openQuestions = [...curationResult.contextUpdates.identifiedGaps, ...curationResult.recommendedNextSteps];
+      enhancedPrompt = `${conversationPrompt.currentTurn}\n\n## Enhanced Context from Curation:\n${curationResult.curationNotes}`;
+      if (curationResult.extractedInsights.length > 0) {
+        enhancedPrompt += `\n\n## Key Insights to Consider:\n${bullets(curationResult.extractedInsights)}`;
+      }
+      if (openQuestions.length > 0) {
+        enhancedPrompt += `\n\n## Gaps and Next Steps:\n${bullets(openQuestions)}`;
+      }
+      enhancedPrompt += '\n\nRespond with this enhanced understanding:';
     }
     
     // Now calculate prompt tokens after we have the enhanced prompt
-    const promptTokenCount = this.tokenCounter.countTokens(enhancedPrompt);
+    const promptTokenCount = this.modelService.getTokenCounter(modelId).countTokens(enhancedPrompt);
     
     this.logger.info(`🎯 Starting model turn`, {
       sessionId: this.conversationState.sessionId,
@@ -572,64 +927,153 @@ export class CollaborationOrchestrator {
     });
 
     // Generate response using the model
-    const context = await this.modelService.acquireContext(modelId);
-    try {
-      this.logger.info(`🎯 Generating with ${modelId} for phase ${phase}`);
-      const response = await this.generateWithModel(
-        modelId,
-        context,
-        enhancedPrompt,
-        phase,
-        conversationPrompt.conversationContext,
-        conversationPrompt.metadata.tokenAllocation
-      );
+    this.logger.info(`🎯 Generating with ${modelId} for phase ${phase}`);
+    const response = await this.generateWithModel(
+      modelId,
+      enhancedPrompt,
+      phase,
+      conversationPrompt.conversationContext,
+      conversationPrompt.metadata.tokenAllocation
+    );
 
-      const duration = Date.now() - startTime;
-      const responseTokens = this.tokenCounter.countTokens(response);
-      
-      this.logger.info(`📝 Model turn completed`, {
-        sessionId: this.conversationState.sessionId,
-        modelId,
-        phase,
-        responseMetrics: {
-          responseLength: response.length,
-          responseTokens,
-          promptTokens: promptTokenCount,
-          totalTokens: promptTokenCount + responseTokens,
-          durationMs: duration,
-          tokensPerSecond: Math.round((responseTokens / duration) * 1000)
-        },
-        quality: {
-          isShort: response.length < 50,
-          isPotentiallyIncomplete: response.endsWith('...') || response.length === 0,
-          shortResponseContent: response.length < 50 ? response : undefined
-        }
-      });
+    // Don't record the partial response of a cancelled generation
+    if (this.cancelled) throw new Error(ERROR_MESSAGES.COLLABORATION_CANCELLED);
 
-      // Store the turn in conversation state
-      const turn = await this.conversationManager.addTurn(
+    const duration = Date.now() - startTime;
+    const responseTokens = this.modelService.getTokenCounter(modelId).countTokens(response);
+    
+    this.logger.info(`📝 Model turn completed`, {
+      sessionId: this.conversationState.sessionId,
+      modelId,
+      phase,
+      responseMetrics: {
+        responseLength: response.length,
+        responseTokens,
+        promptTokens: promptTokenCount,
+        totalTokens: promptTokenCount + responseTokens,
+        durationMs: duration,
+        tokensPerSecond: Math.round((responseTokens / duration) * 1000)
+      },
+      quality: {
+        isShort: response.length < 50,
+        isPotentiallyIncomplete: response.endsWith('...') || response.length === 0,
+        shortResponseContent: response.length < 50 ? response : undefined
+      }
+    });
+
+    // Every generation spends the token budget, a new version of a turn included
+    await this.chargeBudget({ tokens: responseTokens, turns: regeneratedTurn ? 0 : 1 });
+
+    if (regeneratedTurn) {
+      return this.conversationManager.addTurnVersion(
         this.conversationState.sessionId,
-        modelId,
+        regeneratedTurn.id,
         response,
-        Date.now() - startTime,
-        responseToTurnId
+        duration,
+        this.modelSettings[modelId]
       );
+    }
 
-      return turn;
+    // Store the turn in conversation state
+    const turn = await this.conversationManager.addTurn(
+      this.conversationState.sessionId,
+      modelId,
+      response,
+      Date.now() - startTime,
+      responseToTurnId
+    );
 
-    } finally {
-      this.modelService.releaseContext(modelId, context);
+    return turn;
+  }
+
+  /**
+   * CURATE A TURN FOR THE NEXT PARTICIPANT
+   *
+   * Runs the phase's curation task (or the configured default) against the turn,
+   * merges the result into the shared context and returns it for the next prompt
+   */
+  private async curateTurn(turn: ConversationTurn, phase: CollaborationPhase): Promise<CurationResult | undefined> {
+    if (!this.conversationState) return undefined;
+
+    const task = this.getCurationTask(phase);
+    if (!task) return undefined;
+
+    await this.waitAtTurnBoundary();
+
+    // The turn was just saved - read the state it was saved into
+    const sessionId = this.conversationState.sessionId;
+    const state = await this.conversationManager.getConversationState(sessionId);
+    if (!state) return undefined;
+
+    const curatorModelId = this.getCuratorModelId();
+    this.sendMessage({
+      type: SSEMessageType.MODEL_STATUS,
+      payload: {
+        sessionId,
+        status: 'CURATING',
+        message: `🧹 ${curatorModelId} curating ${turn.modelId}'s response (${task})...`,
+        timestamp: Date.now()
+      }
+    });
+
+    const result = await this.curationService.curate({
+      sessionId,
+      targetTurnId: turn.id,
+      curatorModelId,
+      task,
+      context: {
+        originalQuery: state.originalQuery,
+        conversationSoFar: state.turns,
+        sharedContext: state.sharedContext,
+        currentPhase: phase
+      }
+    });
+
+    if (this.cancelled) throw new Error(ERROR_MESSAGES.COLLABORATION_CANCELLED);
+    if (!result) return undefined;
+
+    await this.chargeBudget({ tokens: result.generatedTokens });
+    this.conversationState = await this.conversationManager.applyCuration(sessionId, result);
+    return result;
+  }
+
+  /**
+   * A phase's own curationTask wins; otherwise CURATION_ENABLED applies the default task
+   */
+  private getCurationTask(phase: CollaborationPhase): CurationTaskType | undefined {
+    const phaseTask = this.getPhaseDefinition(phase)?.curationTask;
+    if (phaseTask) return phaseTask;
+    if (!config.curation.enabled) return undefined;
+
+    const defaultTask = config.curation.defaultTask as CurationTaskType;
+    if (!Object.values(CurationTaskType).includes(defaultTask)) {
+      this.logger.warn(`Unknown CURATION_TASK "${config.curation.defaultTask}" - curation skipped`);
+      return undefined;
     }
+    return defaultTask;
   }
 
   /**
-   * PERFORM QWEN FINAL VERIFICATION BEFORE SYNTHESIS
-   * Uses QwenThinkingService with optimal settings for thinking mode
+   * Configured curator when it is available and allowed to curate,
+   * otherwise the first participant declared as a curator, otherwise the lead participant
    */
-  private async performQwenFinalVerification(): Promise<{ hasErrors: boolean; errorDetails?: string }> {
+  private getCuratorModelId(): string {
+    const configured = config.curation.modelId;
+    if (configured && this.modelService.getModelConfig(configured) && this.modelService.hasRole(configured, ModelRole.CURATOR)) {
+      return configured;
+    }
+    return this.participants.find(modelId => this.modelService.hasRole(modelId, ModelRole.CURATOR)) ?? this.getLeadModelId();
+  }
+
+  /**
+   * PERFORM FINAL VERIFICATION BEFORE SYNTHESIS
+   * The verifier (last participant) runs through QwenThinkingService with optimal thinking mode settings
+   */
+  private async performFinalVerification(): Promise<{ hasErrors: boolean; errorDetails?: string }> {
     if (!this.conversationState) return { hasErrors: false };
     
-    this.logger.info('🔍 Running Qwen3 final verification with optimized thinking mode settings');
+    const verifierModelId = this.getVerifierModelId();
+    this.logger.info(`🔍 Running ${verifierModelId} final verification with optimized thinking mode settings`);
     
     // Send status update to inform user about verification
     this.sendMessage({
@@ -637,7 +1081,7 @@ export class CollaborationOrchestrator {
       payload: { 
         phase: CollaborationPhase.CONSENSUS, 
         status: 'verification_started',
-        message: '🔍 Running final verification with Qwen3 (thinking mode enabled with optimal settings)...\nSettings: Temperature 0.6, TopP 0.95, TopK 20\nThis may take a moment as the model thoroughly checks for errors.'
+        message: `🔍 Running final verification with ${verifierModelId} (thinking mode enabled with optimal settings)...\nSettings: Temperature 0.6, TopP 0.95, TopK 20\nThis may take a moment as the model thoroughly checks for errors.`
       }
     });
     
@@ -645,7 +1089,7 @@ export class CollaborationOrchestrator {
       // Get conversation context for verification
       const conversationPrompt = await this.conversationManager.buildConversationPrompt(
         this.conversationState.sessionId,
-        this.QWEN_MODEL_ID,
+        verifierModelId,
         ''
       );
       const conversationContext = conversationPrompt.conversationContext;
@@ -657,7 +1101,8 @@ export class CollaborationOrchestrator {
       const verificationResult = await this.qwenThinkingService.performFinalVerification(
         this.conversationState.sessionId,
         synthesisContent,
-        conversationContext
+        conversationContext,
+        verifierModelId
       );
       
       this.logger.info('🧠 Qwen thinking mode completed', {
@@ -668,6 +1113,8 @@ export class CollaborationOrchestrator {
         tokensPerSecond: verificationResult.tokenMetrics.tokensPerSecond
       });
       
+      await this.chargeBudget({ tokens: verificationResult.tokenMetrics.generatedTokens });
+
       if (!verificationResult.success) {
         throw new Error('Verification execution failed');
       }
@@ -675,7 +1122,7 @@ export class CollaborationOrchestrator {
       // Store the verification turn with isVerification flag
       await this.conversationManager.addTurn(
         this.conversationState.sessionId,
-        this.QWEN_MODEL_ID,
+        verifierModelId,
         verificationResult.content,
         verificationResult.tokenMetrics.generationTimeMs,
         undefined,
@@ -689,7 +1136,7 @@ export class CollaborationOrchestrator {
         : undefined;
       
       if (hasErrors) {
-        this.logger.warn('⚠️ Qwen3 detected errors', { errorDetails });
+        this.logger.warn(`⚠️ ${verifierModelId} detected errors`, { errorDetails });
         // Send status update about errors found
         this.sendMessage({
           type: SSEMessageType.PHASE_UPDATE,
@@ -700,7 +1147,7 @@ export class CollaborationOrchestrator {
           }
         });
       } else {
-        this.logger.info('✅ Qwen3 verification passed - no errors found');
+        this.logger.info(`✅ ${verifierModelId} verification passed - no errors found`);
         // Send status update about successful verification
         this.sendMessage({
           type: SSEMessageType.PHASE_UPDATE,
@@ -718,7 +1165,8 @@ export class CollaborationOrchestrator {
       };
       
     } catch (error) {
-      this.logger.error('Qwen verification failed:', error);
+      if (this.cancelled) throw error;
+      this.logger.error(`${verifierModelId} verification failed:`, error);
       // Send status update about verification failure
       this.sendMessage({
         type: SSEMessageType.PHASE_UPDATE,
@@ -780,7 +1228,14 @@ export class CollaborationOrchestrator {
       return;
     }
     
-    this.logger.info(`🔧 Handling verification errors detected by Qwen3 (attempt ${this.verificationAttempts}/${this.MAX_VERIFICATION_ATTEMPTS})`);
+    // No budget left for a correction round
+    if (this.isOverBudget()) {
+      this.logger.warn(`⚠️ Session budget exhausted - skipping error correction. Proceeding with caution notice.`);
+      await this.generateSynthesisWithErrors(errorDetails);
+      return;
+    }
+    
+    this.logger.info(`🔧 Handling verification errors detected by ${this.getVerifierModelId()} (attempt ${this.verificationAttempts}/${this.MAX_VERIFICATION_ATTEMPTS})`);
     
     // Update phase back to REVISE to fix the errors
     await this.conversationManager.manualPhaseTransition(
@@ -788,10 +1243,11 @@ export class CollaborationOrchestrator {
       CollaborationPhase.REVISE
     );
     
-    // Create error correction prompt for Gemma
+    // Create error correction prompt for the lead participant
+    const leadModelId = this.getLeadModelId();
     const errorCorrectionPrompt = `CRITICAL ERROR DETECTED IN PREVIOUS SOLUTION!
 
-Qwen3's verification found the following errors:
+${this.getVerifierModelId()}'s verification found the following errors:
 ${errorDetails}
 
 Original Problem:
@@ -806,49 +1262,43 @@ YOUR TASK:
 
 This is a critical correction - ensure accuracy!`;
     
-    // Have Gemma provide a corrected solution
-    const context = await this.modelService.acquireContext(this.GEMMA_MODEL_ID);
-    try {
-      const correctedResponse = await this.generateWithModel(
-        this.GEMMA_MODEL_ID,
-        context,
-        errorCorrectionPrompt,
-        CollaborationPhase.REVISE
-      );
-      
-      // Store the correction turn
-      await this.conversationManager.addTurn(
-        this.conversationState.sessionId,
-        this.GEMMA_MODEL_ID,
-        correctedResponse,
-        Date.now(),
-        undefined
-      );
-      
-      // The revision is complete. Re-attempt the final synthesis, which will trigger verification again.
-      this.logger.info('♻️ Revision complete, re-attempting final synthesis.');
-      await this.generateFinalSynthesis();
-      
-    } finally {
-      this.modelService.releaseContext(this.GEMMA_MODEL_ID, context);
-    }
+    // Have the lead participant provide a corrected solution
+    const correctedResponse = await this.generateWithModel(
+      leadModelId,
+      errorCorrectionPrompt,
+      CollaborationPhase.REVISE
+    );
+    
+    // Store the correction turn
+    await this.conversationManager.addTurn(
+      this.conversationState.sessionId,
+      leadModelId,
+      correctedResponse,
+      Date.now(),
+      undefined
+    );
+    
+    // The revision is complete. Re-attempt the final synthesis, which will trigger verification again.
+    this.logger.info('♻️ Revision complete, re-attempting final synthesis.');
+    await this.generateFinalSynthesis();
   }
 
   /**
-   * GENERATE FINAL SYNTHESIS WITH QWEN VERIFICATION
+   * GENERATE FINAL SYNTHESIS WITH VERIFIER CHECK
    */
   private async generateFinalSynthesis(): Promise<void> {
     if (!this.conversationState) return;
+    const state = this.conversationState;
 
     try {
       this.logger.info(`🔍 SYNTHESIS DEBUG: Starting synthesis with ${this.conversationState.turns.length} total turns`);
       
-      // NEW: First run Qwen3 final verification before Gemma's synthesis
-      const verificationResult = await this.performQwenFinalVerification();
+      // NEW: First run final verification before the lead participant's synthesis
+      const verificationResult = await this.performFinalVerification();
       
       // If errors were detected, handle them
       if (verificationResult.hasErrors) {
-        this.logger.warn('❌ Qwen3 verification detected errors - initiating error correction flow');
+        this.logger.warn('❌ Verification detected errors - initiating error correction flow');
         
         // Check if we've already exceeded max attempts
         if (this.verificationAttempts >= this.MAX_VERIFICATION_ATTEMPTS) {
@@ -867,25 +1317,24 @@ This is a critical correction - ensure accuracy!`;
       });
 
       // Check if we have enough responses for synthesis
-      const gemmaResponses = this.conversationState.turns.filter(t => t.modelId === this.GEMMA_MODEL_ID);
-      const qwenResponses = this.conversationState.turns.filter(t => t.modelId === this.QWEN_MODEL_ID);
+      const responseCounts = Object.fromEntries(
+        this.participants.map(modelId => [modelId, state.turns.filter(t => t.modelId === modelId).length])
+      );
       
-      this.logger.info(`🔍 SYNTHESIS DEBUG: Found ${gemmaResponses.length} Gemma responses, ${qwenResponses.length} Qwen responses`);
-      this.logger.info(`🔍 SYNTHESIS DEBUG: Looking for Gemma ID: "${this.GEMMA_MODEL_ID}"`);
-      this.logger.info(`🔍 SYNTHESIS DEBUG: Looking for Qwen ID: "${this.QWEN_MODEL_ID}"`);
+      this.logger.info(`🔍 SYNTHESIS DEBUG: Responses per participant`, responseCounts);
       
       // Log actual model IDs found
       const uniqueModelIds = [...new Set(this.conversationState.turns.map(t => t.modelId))];
       this.logger.info(`🔍 SYNTHESIS DEBUG: Actual model IDs in turns: ${uniqueModelIds.join(', ')}`);
       
-      if (gemmaResponses.length === 0 || qwenResponses.length === 0) {
-        this.logger.error(`❌ SYNTHESIS FAILED: Insufficient responses for synthesis (Gemma: ${gemmaResponses.length}, Qwen: ${qwenResponses.length})`);
+      if (Object.values(responseCounts).some(count => count === 0)) {
+        this.logger.error(`❌ SYNTHESIS FAILED: Insufficient responses for synthesis`, undefined, responseCounts);
         // Generate a simple summary instead
         await this.generateSimpleSummary();
         return;
       }
 
-      // Use Gemma to create the final synthesis with timeout protection
+      // Use the lead participant to create the final synthesis with timeout protection
       let synthesisInstruction: string;
       let analysis: AgreementAnalysis;
       
@@ -893,7 +1342,7 @@ This is a critical correction - ensure accuracy!`;
         // Add timeout protection to prevent hanging on context extraction
         const synthesisPromise = this.conversationManager.generateSynthesis(
           this.conversationState.sessionId,
-          this.GEMMA_MODEL_ID
+          this.getLeadModelId()
         );
         
         const timeoutPromise = new Promise<never>((_, reject) => {
@@ -908,84 +1357,59 @@ This is a critical correction - ensure accuracy!`;
         this.logger.warn('⚠️ Synthesis generation timed out, creating intelligent fallback');
         
         // ULTRA-INTELLIGENT FALLBACK: Analyze the actual conversation content
-        const gemmaFinalTurns = this.conversationState.turns
-          .filter(t => t.modelId === this.GEMMA_MODEL_ID)
-          .slice(-3); // Last 3 Gemma turns
-        
-        const qwenFinalTurns = this.conversationState.turns
-          .filter(t => t.modelId === this.QWEN_MODEL_ID)
-          .slice(-3); // Last 3 Qwen turns
-        
-        // Extract actual answers from the conversation
         const answerPattern = /answer\s*(?:is|=|:)\s*([0-9.,\s\w]+)|result\s*(?:is|=|:)\s*([0-9.,\s\w]+)|therefore\s*(?:.*?)\s*([0-9.,\s\w]+)|final\s*(?:answer|value|result)\s*(?:is|=|:)?\s*([0-9.,\s\w]+)/gi;
         const methodPattern = /using\s+([\w\s]+(?:method|approach|formula|technique))|applied\s+([\w\s]+(?:method|approach|formula|technique))|through\s+([\w\s]+(?:method|approach|formula|technique))/gi;
         const confidencePattern = /confident|certain|sure|verified|correct|accurate|precise/gi;
         
-        // Analyze Gemma's responses
-        const gemmaAnswers: string[] = [];
-        const gemmaMethods: string[] = [];
-        let gemmaConfidenceScore = 0;
-        
-        for (const turn of gemmaFinalTurns) {
-          const answerMatches = [...turn.content.matchAll(answerPattern)];
-          answerMatches.forEach(match => {
-            const answer = (match[1] || match[2] || match[3] || match[4] || '').trim();
-            if (answer && !gemmaAnswers.includes(answer)) {
-              gemmaAnswers.push(answer);
-            }
-          });
+        // Analyze each participant's final responses
+        const profiles = this.participants.map(modelId => {
+          const finalTurns = state.turns
+            .filter(t => t.modelId === modelId)
+            .slice(-3); // Last 3 turns per participant
           
-          const methodMatches = [...turn.content.matchAll(methodPattern)];
-          methodMatches.forEach(match => {
-            const method = (match[1] || match[2] || match[3] || '').trim();
-            if (method && !gemmaMethods.includes(method)) {
-              gemmaMethods.push(method);
-            }
-          });
+          const answers: string[] = [];
+          const methods: string[] = [];
+          let confidenceScore = 0;
           
-          const confidenceMatches = turn.content.match(confidencePattern);
-          if (confidenceMatches) {
-            gemmaConfidenceScore += confidenceMatches.length;
-          }
-        }
-        
-        // Analyze Qwen's responses
-        const qwenAnswers: string[] = [];
-        const qwenMethods: string[] = [];
-        let qwenConfidenceScore = 0;
-        
-        for (const turn of qwenFinalTurns) {
-          const answerMatches = [...turn.content.matchAll(answerPattern)];
-          answerMatches.forEach(match => {
-            const answer = (match[1] || match[2] || match[3] || match[4] || '').trim();
-            if (answer && !qwenAnswers.includes(answer)) {
-              qwenAnswers.push(answer);
-            }
-          });
-          
-          const methodMatches = [...turn.content.matchAll(methodPattern)];
-          methodMatches.forEach(match => {
-            const method = (match[1] || match[2] || match[3] || '').trim();
-            if (method && !qwenMethods.includes(method)) {
-              qwenMethods.push(method);
+          for (const turn of finalTurns) {
+            const answerMatches = [...turn.content.matchAll(answerPattern)];
+            answerMatches.forEach(match => {
+              const answer = (match[1] || match[2] || match[3] || match[4] || '').trim();
+              if (answer && !answers.includes(answer)) {
+                answers.push(answer);
+              }
+            });
+            
+            const methodMatches = [...turn.content.matchAll(methodPattern)];
+            methodMatches.forEach(match => {
+              const method = (match[1] || match[2] || match[3] || '').trim();
+              if (method && !methods.includes(method)) {
+                methods.push(method);
+              }
+            });
+            
+            const confidenceMatches = turn.content.match(confidencePattern);
+            if (confidenceMatches) {
+              confidenceScore += confidenceMatches.length;
             }
-          });
-          
-          const confidenceMatches = turn.content.match(confidencePattern);
-          if (confidenceMatches) {
-            qwenConfidenceScore += confidenceMatches.length;
           }
-        }
+          
+          return { modelId, finalTurns, answers, methods, confidenceScore };
+        });
         
-        // Calculate actual consensus
-        const sharedAnswers = gemmaAnswers.filter(a => qwenAnswers.includes(a));
-        const sharedMethods = gemmaMethods.filter(m => qwenMethods.includes(m));
-        const answerSimilarity = sharedAnswers.length > 0 ? sharedAnswers.length / Math.max(gemmaAnswers.length, qwenAnswers.length) : 0;
-        const methodSimilarity = sharedMethods.length > 0 ? sharedMethods.length / Math.max(gemmaMethods.length, qwenMethods.length) : 0;
+        // Calculate actual consensus - shared means every participant reached it
+        const [leadProfile, ...otherProfiles] = profiles;
+        const sharedAnswers = leadProfile.answers.filter(a => otherProfiles.every(p => p.answers.includes(a)));
+        const sharedMethods = leadProfile.methods.filter(m => otherProfiles.every(p => p.methods.includes(m)));
+        const maxAnswers = Math.max(...profiles.map(p => p.answers.length));
+        const maxMethods = Math.max(...profiles.map(p => p.methods.length));
+        const answerSimilarity = sharedAnswers.length > 0 ? sharedAnswers.length / maxAnswers : 0;
+        const methodSimilarity = sharedMethods.length > 0 ? sharedMethods.length / maxMethods : 0;
         
-        // Calculate confidence based on both models' confidence indicators
-        const totalConfidenceIndicators = gemmaConfidenceScore + qwenConfidenceScore;
-        const maxPossibleConfidence = (gemmaFinalTurns.length + qwenFinalTurns.length) * 5; // Assume max 5 confidence words per turn
+        // Calculate confidence based on every participant's confidence indicators
+        const totalConfidenceIndicators = profiles.reduce((sum, p) => sum + p.confidenceScore, 0);
+        const totalFinalTurns = profiles.reduce((sum, p) => sum + p.finalTurns.length, 0);
+        const maxPossibleConfidence = totalFinalTurns * 5; // Assume max 5 confidence words per turn
         const confidenceRatio = totalConfidenceIndicators > 0 ? Math.min(totalConfidenceIndicators / maxPossibleConfidence, 1) : 0.5;
         
         // Weighted calculation including confidence
@@ -997,7 +1421,7 @@ This is a critical correction - ensure accuracy!`;
           consensusLevel = ConsensusLevel.HIGH_CONSENSUS;
         } else if (overallSimilarity > 0.5) {
           consensusLevel = ConsensusLevel.MIXED_VIEWS;
-        } else if (gemmaAnswers.length > 0 && qwenAnswers.length > 0) {
+        } else if (profiles.every(p => p.answers.length > 0)) {
           consensusLevel = ConsensusLevel.CREATIVE_TENSION;
         } else {
           consensusLevel = ConsensusLevel.NO_CONSENSUS;
@@ -1006,39 +1430,46 @@ This is a critical correction - ensure accuracy!`;
         // Extract key insights from actual content
         const agreements: string[] = [];
         if (sharedAnswers.length > 0) {
-          agreements.push(`Both models arrived at: ${sharedAnswers.join(', ')}`);
+          agreements.push(`All models arrived at: ${sharedAnswers.join(', ')}`);
         }
         if (sharedMethods.length > 0) {
           agreements.push(`Shared approach: ${sharedMethods.join(', ')}`);
         }
         
-        const conflicts: string[] = [];
-        const uniqueGemmaAnswers = gemmaAnswers.filter(a => !qwenAnswers.includes(a));
-        const uniqueQwenAnswers = qwenAnswers.filter(a => !gemmaAnswers.includes(a));
+        // Answers only one participant proposed
+        const uniqueAnswersByModel = profiles.map(p => ({
+          modelId: p.modelId,
+          answers: p.answers.filter(a => profiles.every(other => other === p || !other.answers.includes(a)))
+        }));
+        const modelsWithUniqueAnswers = uniqueAnswersByModel.filter(u => u.answers.length > 0);
         
-        if (uniqueGemmaAnswers.length > 0 && uniqueQwenAnswers.length > 0) {
-          conflicts.push(`${this.GEMMA_MODEL_ID} proposed ${uniqueGemmaAnswers.join(', ')} while ${this.QWEN_MODEL_ID} proposed ${uniqueQwenAnswers.join(', ')}`);
+        const conflicts: string[] = [];
+        if (modelsWithUniqueAnswers.length > 1) {
+          conflicts.push(modelsWithUniqueAnswers.map(u => `${u.modelId} proposed ${u.answers.join(', ')}`).join(' while '));
         }
         
+        const mostConfident = profiles.reduce((best, p) => p.confidenceScore > best.confidenceScore ? p : best);
+        
         // Build intelligent synthesis instruction with actual content
-        const latestGemmaContent = gemmaFinalTurns[gemmaFinalTurns.length - 1]?.content || '';
-        const latestQwenContent = qwenFinalTurns[qwenFinalTurns.length - 1]?.content || '';
+        const finalAnalyses = profiles.map(p => {
+          const latestContent = p.finalTurns[p.finalTurns.length - 1]?.content || '';
+          return `### ${p.modelId} Final Analysis:\n${this.tokenCounter.truncateToTokenLimit(latestContent, 300)}`;
+        }).join('\n\n');
+        
+        const extractedAnswers = profiles.map(p =>
+          `- ${p.modelId} answers: ${p.answers.length > 0 ? p.answers.join(', ') : 'No explicit answers found'}`
+        ).join('\n');
         
-        synthesisInstruction = `Generate a comprehensive synthesis for: "${this.conversationState.originalQuery}"
+        synthesisInstruction = `Generate a comprehensive synthesis for: "${state.originalQuery}"
 
 ## Key Findings from Collaboration:
 
-### ${this.GEMMA_MODEL_ID} Final Analysis:
-${this.tokenCounter.truncateToTokenLimit(latestGemmaContent, 300)}
-
-### ${this.QWEN_MODEL_ID} Final Analysis:
-${this.tokenCounter.truncateToTokenLimit(latestQwenContent, 300)}
+${finalAnalyses}
 
 ## Extracted Results:
-- Gemma answers: ${gemmaAnswers.length > 0 ? gemmaAnswers.join(', ') : 'No explicit answers found'}
-- Qwen answers: ${qwenAnswers.length > 0 ? qwenAnswers.join(', ') : 'No explicit answers found'}
+${extractedAnswers}
 - Consensus: ${sharedAnswers.length > 0 ? sharedAnswers.join(', ') : 'No shared answers found'}
-- Methods used: ${[...new Set([...gemmaMethods, ...qwenMethods])].join(', ') || 'Various approaches'}
+- Methods used: ${[...new Set(profiles.flatMap(p => p.methods))].join(', ') || 'Various approaches'}
 
 ## Your Synthesis Task:
 1. Provide the definitive answer based on the collaboration
@@ -1051,32 +1482,26 @@ Make the synthesis authoritative and actionable.`;
         
         // Create intelligent analysis based on actual content
         analysis = {
-          sessionId: this.conversationState.sessionId,
+          sessionId: state.sessionId,
           phase: CollaborationPhase.CONSENSUS,
           consensusLevel,
           overallSimilarity,
-          modelA: this.GEMMA_MODEL_ID,
-          modelB: this.QWEN_MODEL_ID,
+          modelA: this.participants[0],
+          modelB: this.participants[1],
           confidenceScore: confidenceRatio,
           keyPoints: {
-            agreements: agreements.length > 0 ? agreements : ['Both models engaged with the problem'],
+            agreements: agreements.length > 0 ? agreements : ['All models engaged with the problem'],
             conflicts: conflicts.length > 0 ? conflicts : [],
-            complementaryIdeas: [
-              ...uniqueGemmaAnswers.map(a => `${this.GEMMA_MODEL_ID}: ${a}`),
-              ...uniqueQwenAnswers.map(a => `${this.QWEN_MODEL_ID}: ${a}`)
-            ],
+            complementaryIdeas: uniqueAnswersByModel.flatMap(u => u.answers.map(a => `${u.modelId}: ${a}`)),
             novelInsights: [
-              ...(gemmaConfidenceScore > qwenConfidenceScore ? 
-                [`${this.GEMMA_MODEL_ID} showed higher confidence (${gemmaConfidenceScore} indicators)`] : 
-                [`${this.QWEN_MODEL_ID} showed higher confidence (${qwenConfidenceScore} indicators)`]),
+              `${mostConfident.modelId} showed highest confidence (${mostConfident.confidenceScore} indicators)`,
               ...(sharedMethods.length > 0 ? [`Converged on methodology: ${sharedMethods.join(', ')}`] : [])
             ]
           }
         } as AgreementAnalysis;
         
         this.logger.info('🧠 Intelligent fallback created', {
-          gemmaAnswers: gemmaAnswers.length,
-          qwenAnswers: qwenAnswers.length,
+          answersByModel: Object.fromEntries(profiles.map(p => [p.modelId, p.answers.length])),
           sharedAnswers: sharedAnswers.length,
           overallSimilarity: Math.round(overallSimilarity * 100) + '%',
           consensusLevel
@@ -1088,15 +1513,15 @@ Make the synthesis authoritative and actionable.`;
       // We just need to ensure we don't exceed token limits when generating
       
       // Calculate token allocation for SYNTHESIZE phase
-      const totalContextSize = config.model.contextSize || 4096;
-      const promptTokens = this.tokenCounter.countTokens(synthesisInstruction);
+      const totalContextSize = this.modelService.getContextSize(this.getLeadModelId());
+      const promptTokens = this.modelService.getTokenCounter(this.getLeadModelId()).countTokens(synthesisInstruction);
       
       // Create a minimal allocation focused on generation space
       const allocation = this.contextAllocator.calculateAllocation(
         CollaborationPhase.SYNTHESIZE,
         totalContextSize,
         '', // Empty history as prompt already contains what's needed
-        this.GEMMA_MODEL_ID,
+        this.getLeadModelId(),
         'synthesis',
         this.conversationState.turns.length
       );
@@ -1106,12 +1531,13 @@ Make the synthesis authoritative and actionable.`;
       // Use the dedicated FinalAnswerService for reliable synthesis generation
       const synthesisResult = await this.finalAnswerService.generateFinalAnswer({
         sessionId: this.conversationState.sessionId,
-        modelId: this.GEMMA_MODEL_ID,
+        modelId: this.getLeadModelId(),
         prompt: synthesisInstruction,
         phase: CollaborationPhase.SYNTHESIZE,
         tokenAllocation: allocation,
         routeToSynthesis: true
       });
+      await this.chargeBudget({ tokens: synthesisResult.tokenMetrics.generatedTokens });
 
       if (synthesisResult.success) {
         this.logger.info('✅ Synthesis generated successfully', {
@@ -1134,7 +1560,7 @@ Make the synthesis authoritative and actionable.`;
         // Attempt fallback generation
         await this.finalAnswerService.generateFallbackAnswer({
           sessionId: this.conversationState.sessionId,
-          modelId: this.GEMMA_MODEL_ID,
+          modelId: this.getLeadModelId(),
           prompt: synthesisInstruction,
           phase: CollaborationPhase.SYNTHESIZE,
           routeToSynthesis: true
@@ -1142,6 +1568,7 @@ Make the synthesis authoritative and actionable.`;
       }
       
     } catch (error) {
+      if (this.cancelled) throw error;
       this.logger.error('Synthesis generation failed:', error);
       // Check if it's a memory/context issue
       if (error instanceof Error && 
@@ -1191,7 +1618,7 @@ Make the synthesis authoritative and actionable.`;
       const uniqueAnswers = [...new Set(allAnswers)];
       
       if (uniqueAnswers.length === 1) {
-        synthesisContent += `Both models independently arrived at the same answer: ${uniqueAnswers[0]}\n\n`;
+        synthesisContent += `All models independently arrived at the same answer: ${uniqueAnswers[0]}\n\n`;
       } else {
         synthesisContent += `The models provided these answers:\n`;
         for (const [modelId, solution] of structuredSolutions) {
@@ -1200,17 +1627,16 @@ Make the synthesis authoritative and actionable.`;
         synthesisContent += `\n`;
       }
     } else {
-      // Fallback to using recent turns
-      const recentTurns = this.conversationState.turns.slice(-4);
-      const gemmaContent = recentTurns.filter(t => t.modelId === this.GEMMA_MODEL_ID)
-        .map(t => t.content).join(' ').substring(0, 200);
-      const qwenContent = recentTurns.filter(t => t.modelId === this.QWEN_MODEL_ID)
-        .map(t => t.content).join(' ').substring(0, 200);
+      // Fallback to using recent turns (two rounds)
+      const recentTurns = this.conversationState.turns.slice(-2 * this.participants.length);
       
-      synthesisContent += `Both models have completed analysis through ${this.conversationState.turns.length} exchanges.\n\n`;
+      synthesisContent += `All ${this.participants.length} models have completed analysis through ${this.conversationState.turns.length} exchanges.\n\n`;
       synthesisContent += `## Key Insights:\n\n`;
-      synthesisContent += `From ${this.GEMMA_MODEL_ID}:\n${gemmaContent || 'Analysis focused on systematic approach'}\n\n`;
-      synthesisContent += `From ${this.QWEN_MODEL_ID}:\n${qwenContent || 'Analysis emphasized comprehensive evaluation'}\n\n`;
+      for (const modelId of this.participants) {
+        const modelContent = recentTurns.filter(t => t.modelId === modelId)
+          .map(t => t.content).join(' ').substring(0, 200);
+        synthesisContent += `From ${modelId}:\n${modelContent || 'Analysis focused on systematic approach'}\n\n`;
+      }
     }
 
     synthesisContent += `## Summary\n\n`;
@@ -1221,15 +1647,15 @@ Make the synthesis authoritative and actionable.`;
       { 
         consensusLevel: ConsensusLevel.HIGH_CONSENSUS, 
         overallSimilarity: 0.9,
-        modelA: this.GEMMA_MODEL_ID,
-        modelB: this.QWEN_MODEL_ID
+        modelA: this.participants[0],
+        modelB: this.participants[1]
       } as AgreementAnalysis
     );
 
     // Use FinalAnswerService to reliably stream the minimal synthesis
     await this.finalAnswerService.generateFallbackAnswer({
       sessionId: this.conversationState.sessionId,
-      modelId: this.GEMMA_MODEL_ID,
+      modelId: this.getLeadModelId(),
       prompt: minimalSynthesis,
       phase: CollaborationPhase.SYNTHESIZE,
       routeToSynthesis: true
@@ -1238,7 +1664,7 @@ Make the synthesis authoritative and actionable.`;
     // Store the minimal synthesis
     await this.conversationManager.addTurn(
       this.conversationState.sessionId,
-      this.GEMMA_MODEL_ID,
+      this.getLeadModelId(),
       minimalSynthesis,
       0,
       undefined
@@ -1270,7 +1696,7 @@ Make the synthesis authoritative and actionable.`;
     // Use FinalAnswerService to reliably stream the summary
     await this.finalAnswerService.generateFallbackAnswer({
       sessionId: this.conversationState.sessionId,
-      modelId: this.GEMMA_MODEL_ID,
+      modelId: this.getLeadModelId(),
       prompt: summary,
       phase: CollaborationPhase.SYNTHESIZE,
       routeToSynthesis: true
@@ -1290,6 +1716,115 @@ Make the synthesis authoritative and actionable.`;
    * HELPER METHODS
    */
 
+  /**
+   * Lead participant opens each phase and drives synthesis and error correction
+   * The first participant allowed to synthesize leads, falling back to the first in turn order
+   */
+  private getLeadModelId(): string {
+    return this.participants.find(modelId => this.modelService.hasRole(modelId, ModelRole.SYNTHESIZER)) ?? this.participants[0];
+  }
+
+  /**
+   * Verifier is the last participant in turn order that is allowed to verify
+   */
+  private getVerifierModelId(): string {
+    const verifiers = this.participants.filter(modelId => this.modelService.hasRole(modelId, ModelRole.VERIFIER));
+    return verifiers[verifiers.length - 1] ?? this.participants[this.participants.length - 1];
+  }
+
+  /**
+   * Model defaults with this session's overrides applied
+   */
+  private getModelSettings(modelConfig: ModelConfig): ModelConfig['settings'] {
+    return { ...modelConfig.settings, ...this.modelSettings[modelConfig.id] };
+  }
+
+  private getPhaseDefinition(phase: CollaborationPhase): WorkflowPhaseDefinition | undefined {
+    return this.workflow.phases.find(definition => definition.phase === phase);
+  }
+
+  private getPhaseTurnBounds(phase: CollaborationPhase): { minTurns: number; maxTurns: number } {
+    const definition = this.getPhaseDefinition(phase);
+    const minTurns = definition?.minTurns ?? 1;
+    return { minTurns, maxTurns: Math.max(minTurns, definition?.maxTurns ?? 1) };
+  }
+
+  private isTerminalPhase(phase: CollaborationPhase): boolean {
+    return this.workflow.terminal.phases.includes(phase);
+  }
+
+  /**
+   * Jumps must target a workflow or terminal phase, and respect the phase's transition list if it has one
+   */
+  private canTransition(from: CollaborationPhase, to: CollaborationPhase): boolean {
+    if (!this.getPhaseDefinition(to) && !this.isTerminalPhase(to)) return false;
+    const transitions = this.getPhaseDefinition(from)?.transitions;
+    return !transitions || transitions.includes(to);
+  }
+
+  private hasReachedTurnLimit(): boolean {
+    const { maxTotalTurns } = this.workflow.terminal;
+    // The workflow turn limit is per question - a follow-up gets it again, unlike the session budget
+    const queryHistory = this.conversationState?.queryHistory ?? [];
+    const questionStart = queryHistory[queryHistory.length - 1]?.turnCount ?? 0;
+    const modelTurns = this.conversationState?.turns
+      .slice(questionStart)
+      .filter(turn => !turn.metadata.isUserInterjection).length ?? 0;
+    return maxTotalTurns !== undefined && modelTurns >= maxTotalTurns;
+  }
+
+  /**
+   * True once any session budget is spent; the first time, the client is told which one
+   * Checked at turn and phase boundaries - a generation in progress is never cut off
+   */
+  private isOverBudget(): boolean {
+    if (this.budgetExceeded) return true;
+
+    const used: Record<SessionBudgetLimit, number> = {
+      maxTurns: this.budgetUsage.turns,
+      maxTokens: this.budgetUsage.tokens,
+      maxPhaseRevisits: this.budgetUsage.phaseRevisits,
+      maxDurationMs: Date.now() - this.runStartedAt - this.pausedMs
+    };
+
+    for (const budget of Object.keys(used) as SessionBudgetLimit[]) {
+      const limit = this.budget[budget];
+      if (!limit) continue;
+
+      // Revisits are counted as they happen, so only going past the limit is over budget
+      const exhausted = budget === 'maxPhaseRevisits' ? used[budget] > limit : used[budget] >= limit;
+      if (!exhausted) continue;
+
+      this.budgetExceeded = { budget, limit, used: used[budget] };
+      this.logger.warn(`💸 ${BUDGET_LABELS[budget]} budget reached - wrapping up`, {
+        sessionId: this.conversationState?.sessionId,
+        ...this.budgetExceeded
+      });
+      this.sendMessage({
+        type: SSEMessageType.BUDGET_EXCEEDED,
+        payload: {
+          ...this.budgetExceeded,
+          message: `💸 ${BUDGET_LABELS[budget]} budget reached (${this.formatBudget(budget, used[budget])} of ${this.formatBudget(budget, limit)}) - wrapping up with the final synthesis`
+        }
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record spending in the conversation state, where later runs of the session pick it up
+   */
+  private async chargeBudget(spent: Partial<BudgetUsage>): Promise<void> {
+    if (!this.conversationState) return;
+    this.budgetUsage = await this.conversationManager.chargeBudget(this.conversationState.sessionId, spent);
+  }
+
+  private formatBudget(budget: SessionBudgetLimit, value: number): string {
+    return budget === 'maxDurationMs' ? `${Math.round(value / 1000)}s` : String(value);
+  }
+
   private async getFinalOutput(): Promise<string> {
     if (!this.conversationState) return '';
     
@@ -1299,10 +1834,147 @@ Make the synthesis authoritative and actionable.`;
 
   /**
    * GENERATE MODEL RESPONSE WITH CONVERSATIONAL CONTEXT
+   * 
+   * Dispatches to the model's provider: a pooled local context or an OpenAI-compatible endpoint
    */
   private async generateWithModel(
     modelId: string, 
-    context: LlamaContext, 
+    prompt: string,
+    phase: CollaborationPhase,
+    conversationContext?: string,
+    tokenAllocation?: TokenAllocation,
+    skipNoThink?: boolean
+  ): Promise<string> {
+    await this.waitAtTurnBoundary();
+
+    if (this.modelService.isRemoteModel(modelId)) {
+      return this.generateWithRemoteModel(modelId, prompt, phase, conversationContext, tokenAllocation);
+    }
+
+    // Turns with the same system prompt share an evaluated prefix - keep it in the KV cache
+    const lease = await this.modelService.acquireSequence(
+      modelId,
+      this.conversationState?.sessionId,
+      this.getSystemPrompt(phase, modelId)
+    );
+    let completed = false;
+    try {
+      const response = await this.generateWithLocalModel(
+        modelId,
+        lease,
+        prompt,
+        phase,
+        conversationContext,
+        tokenAllocation,
+        skipNoThink
+      );
+      completed = true;
+      return response;
+    } finally {
+      this.modelService.releaseSequence(modelId, lease, completed);
+    }
+  }
+
+  /**
+   * GENERATE WITH AN OPENAI-COMPATIBLE ENDPOINT
+   * 
+   * The server applies its own chat template, so the prompt goes out as system/user messages
+   */
+  private async generateWithRemoteModel(
+    modelId: string,
+    prompt: string,
+    phase: CollaborationPhase,
+    conversationContext?: string,
+    tokenAllocation?: TokenAllocation
+  ): Promise<string> {
+    const startTime = Date.now();
+    const modelConfig = this.modelService.getModelConfig(modelId);
+    if (!modelConfig) throw new Error(`Model config not found for ${modelId}`);
+    const settings = this.getModelSettings(modelConfig);
+
+    const fullPrompt = conversationContext ? `${conversationContext}\n\n---\n\n${prompt}` : prompt;
+    const maxTokens = this.resolveMaxTokens(modelId, phase, conversationContext, tokenAllocation);
+
+    const response = await this.modelService.generateRemote(
+      modelId,
+      {
+        systemPrompt: this.getSystemPrompt(phase, modelId),
+        prompt: fullPrompt,
+        maxTokens,
+        temperature: settings.temperature,
+        topP: settings.topP,
+        topK: settings.topK,
+        minP: settings.minP,
+        repeatPenalty: settings.repeatPenalty,
+        phase
+      },
+      (text) => {
+        if (!this.cancelled) {
+          this.streamingService.addToken(modelId, phase, text);
+        }
+      },
+      () => this.cancelled
+    );
+
+    if (this.cancelled) return '';
+
+    this.logger.info(`📊 Remote generation completed`, {
+      sessionId: this.conversationState?.sessionId,
+      modelId,
+      phase,
+      generatedTokens: this.tokenCounter.countTokens(response),
+      maxTokensAllowed: maxTokens,
+      generationTimeMs: Date.now() - startTime
+    });
+
+    this.streamingService.completeStream(modelId, phase);
+    return response.trim();
+  }
+
+  /**
+   * Use the allocation from ConversationStateManager when available, otherwise calculate one
+   */
+  private resolveMaxTokens(
+    modelId: string,
+    phase: CollaborationPhase,
+    conversationContext?: string,
+    tokenAllocation?: TokenAllocation
+  ): number {
+    if (tokenAllocation) {
+      // Use the allocation from ConversationStateManager (already validated)
+      this.logger.info(`📋 Using pre-calculated token allocation: ${tokenAllocation.maxGenerationTokens} generation tokens`);
+      return tokenAllocation.maxGenerationTokens;
+    }
+
+    // Only calculate for synthesis or standalone calls
+    const allocation = this.contextAllocator.calculateAllocation(
+      phase,
+      this.modelService.getContextSize(modelId),
+      conversationContext || '',  // CRITICAL FIX: Use actual conversation history, not the formatted prompt!
+      modelId,
+      this.participants.filter(id => id !== modelId).join(', ') || 'partner',
+      this.conversationState?.turns.length || 0
+    );
+    
+    const validation = this.contextAllocator.validateAllocation(allocation);
+    if (!validation.isValid) {
+      this.logger.error(`❌ Invalid token allocation: ${validation.issues.join(', ')}`);
+      throw new Error(`Token allocation validation failed: ${validation.issues.join(', ')}`);
+    }
+    
+    this.logger.info(`🎯 Calculated token allocation for synthesis: ${allocation.maxGenerationTokens} generation tokens`);
+    return allocation.maxGenerationTokens;
+  }
+
+  /**
+   * GENERATE WITH A POOLED LOCAL LLAMA CONTEXT
+   * 
+   * The leased sequence may still hold an earlier turn's tokens; the chat session
+   * only evaluates what follows the longest matching prefix
+   */
+  private async generateWithLocalModel(
+    modelId: string, 
+    lease: SequenceLease, 
     prompt: string,
     phase: CollaborationPhase,
     conversationContext?: string,
@@ -1312,6 +1984,8 @@ Make the synthesis authoritative and actionable.`;
     const startTime = Date.now();
     const modelConfig = this.modelService.getModelConfig(modelId);
     if (!modelConfig) throw new Error(`Model config not found for ${modelId}`);
+    const settings = this.getModelSettings(modelConfig);
+    const tokenCounter = this.modelService.getTokenCounter(modelId);
 
     // Build the full prompt - trust the context from ConversationStateManager
     // which already uses ContextAllocator with proper token budgeting
@@ -1320,8 +1994,8 @@ Make the synthesis authoritative and actionable.`;
       fullPrompt = `${conversationContext}\n\n---\n\n${prompt}`;
       
       // Log token usage for monitoring
-      const contextTokens = this.tokenCounter.countTokens(conversationContext);
-      const promptTokens = this.tokenCounter.countTokens(prompt);
+      const contextTokens = tokenCounter.countTokens(conversationContext);
+      const promptTokens = tokenCounter.countTokens(prompt);
       const totalTokens = contextTokens + promptTokens;
       
       this.logger.debug(`📋 Prompt composition:`);
@@ -1334,72 +2008,37 @@ Make the synthesis authoritative and actionable.`;
     const systemPrompt = this.getSystemPrompt(phase, modelId);
     const formatted = PromptFormatter.formatPrompt(modelConfig, systemPrompt, fullPrompt, skipNoThink);
 
-    // Get a sequence for this generation
-    let sequence;
-    try {
-      sequence = context.getSequence();
-    } catch (error) {
-      this.logger.error(`Failed to get sequence from context for ${modelId}:`, {
-        error: error instanceof Error ? error.message : String(error),
-        contextInfo: {
-          modelId,
-          phase,
-          contextPoolSize: config.model.contextsPerModel
-        }
-      });
-      throw new Error(`Context sequence error for ${modelId}: ${error instanceof Error ? error.message : String(error)}`);
-    }
-    
-    try {
-      const session = new LlamaChatSession({
-        contextSequence: sequence,
-        systemPrompt: '' // We handle system prompt in the formatted prompt
-      });
+    const { sequence } = lease;
+    const session = new LlamaChatSession({
+      contextSequence: sequence,
+      systemPrompt: '', // We handle system prompt in the formatted prompt
+      autoDisposeSequence: false
+    });
 
+    try {
       let fullResponse = '';
+      let generatedTokens = 0;
       // Use CircularBuffer to prevent memory accumulation with large token streams
       // Size provides sufficient context for detokenization
       const tokenBuffer = new CircularBuffer<Token>(MODEL_DEFAULTS.TOKEN_BUFFER_SIZE);
       
-      let maxTokens: number;
-      
       // Use passed tokenAllocation if available, otherwise calculate for synthesis
-      if (tokenAllocation) {
-        // Use the allocation from ConversationStateManager (already validated)
-        maxTokens = tokenAllocation.maxGenerationTokens;
-        this.logger.info(`📋 Using pre-calculated token allocation: ${maxTokens} generation tokens`);
-      } else {
-        // Only calculate for synthesis or standalone calls
-        const allocation = this.contextAllocator.calculateAllocation(
-          phase,
-          config.model.contextSize,
-          conversationContext || '',  // CRITICAL FIX: Use actual conversation history, not the formatted prompt!
-          modelId,
-          modelId === this.GEMMA_MODEL_ID ? this.QWEN_MODEL_ID : this.GEMMA_MODEL_ID,
-          this.conversationState?.turns.length || 0
-        );
-        
-        const validation = this.contextAllocator.validateAllocation(allocation);
-        if (!validation.isValid) {
-          this.logger.error(`❌ Invalid token allocation: ${validation.issues.join(', ')}`);
-          throw new Error(`Token allocation validation failed: ${validation.issues.join(', ')}`);
-        }
-        
-        maxTokens = allocation.maxGenerationTokens;
-        this.logger.info(`🎯 Calculated token allocation for synthesis: ${maxTokens} generation tokens`);
-      }
+      const maxTokens = this.resolveMaxTokens(modelId, phase, conversationContext, tokenAllocation);
         
       const generationOptions: Parameters<typeof session.prompt>[1] = {
-        temperature: modelConfig.settings.temperature,
-        topP: modelConfig.settings.topP,
-        topK: modelConfig.settings.topK,
-        minP: modelConfig.settings.minP,
+        temperature: settings.temperature,
+        topP: settings.topP,
+        topK: settings.topK,
+        minP: settings.minP,
         maxTokens: maxTokens,
         customStopTriggers: formatted.stopTokens,  // Array of strings is valid
+        signal: this.abortController.signal,
+        stopOnAbortSignal: true, // Resolve with the partial response instead of throwing
         onToken: (tokens: Token[]) => {
           if (this.cancelled) return;
           
           // Add tokens to circular buffer (old tokens automatically removed)
+          generatedTokens += tokens.length;
           tokenBuffer.push(...tokens);
           
           // Get recent tokens for context
@@ -1411,7 +2050,7 @@ Make the synthesis authoritative and actionable.`;
           const contextTokens = contextSize > 0 ? recentTokens.slice(0, contextSize) : undefined;
           
           // Detokenize with proper context for spacing
-          const tokenText = context.model.detokenize(tokens, false, contextTokens);
+          const tokenText = sequence.model.detokenize(tokens, false, contextTokens);
           
           if (tokenText) {
             // CRITICAL: Filter out stop tokens to prevent HTML rendering issues
@@ -1431,9 +2070,9 @@ Make the synthesis authoritative and actionable.`;
       };
       
       // Only add repeatPenalty if it's defined and valid
-      if (modelConfig.settings.repeatPenalty !== undefined && generationOptions) {
+      if (settings.repeatPenalty !== undefined && generationOptions) {
         generationOptions.repeatPenalty = {
-          penalty: modelConfig.settings.repeatPenalty,
+          penalty: settings.repeatPenalty,
           frequencyPenalty: 0.0,
           presencePenalty: 0.0
         };
@@ -1441,18 +2080,19 @@ Make the synthesis authoritative and actionable.`;
       
       // Generate response with formatted prompt
       const response = await session.prompt(formatted.prompt, generationOptions);
+      const sequenceUsage = this.modelService.recordSequenceUsage(modelId, lease, generatedTokens);
 
       if (this.cancelled) return '';
       
       fullResponse = response;
 
       // Calculate actual tokens used and log performance metrics
-      const actualGeneratedTokens = this.tokenCounter.countTokens(fullResponse);
-      const promptTokens = this.tokenCounter.countTokens(formatted.prompt);
+      const actualGeneratedTokens = tokenCounter.countTokens(fullResponse);
+      const promptTokens = tokenCounter.countTokens(formatted.prompt);
       const totalUsed = actualGeneratedTokens + promptTokens;
       
       const turnNumber = this.conversationState ? this.conversationState.turns.length + 1 : 1;
-      const contextPercentage = Math.round(totalUsed/config.model.contextSize*100);
+      const contextPercentage = Math.round(totalUsed/modelConfig.contextSize*100);
       
       const generationTime = Date.now() - startTime;
       const tokensPerSecond = Math.round((actualGeneratedTokens / generationTime) * 1000);
@@ -1468,11 +2108,16 @@ Make the synthesis authoritative and actionable.`;
           maxTokensAllowed: maxTokens,
           tokenUtilization: Math.round(actualGeneratedTokens/maxTokens*100),
           totalTokensUsed: totalUsed,
-          contextSize: config.model.contextSize,
+          contextSize: modelConfig.contextSize,
           contextUtilization: contextPercentage,
           generationTimeMs: generationTime,
           tokensPerSecond
         },
+        kvCache: {
+          reuse: lease.reuse,
+          evaluatedPromptTokens: sequenceUsage.promptTokens - sequenceUsage.reusedTokens,
+          reusedPromptTokens: sequenceUsage.reusedTokens
+        },
         warnings: contextPercentage > 80 ? [`High context usage: ${contextPercentage}%`] : [],
         performance: {
           tokenBuffer: tokenBuffer.getSize(),
@@ -1486,7 +2131,8 @@ Make the synthesis authoritative and actionable.`;
       return PromptFormatter.extractResponse(modelConfig, fullResponse);
       
     } finally {
-      sequence.dispose();
+      // The sequence outlives the chat session so its tokens can serve the next turn
+      session.dispose({ disposeSequence: false });
     }
   }
 
@@ -1494,11 +2140,125 @@ Make the synthesis authoritative and actionable.`;
    * GET SYSTEM PROMPT FOR CONVERSATIONAL COLLABORATION
    */
   private getSystemPrompt(phase: CollaborationPhase, _modelId: string): string {
-    return `${PHASE_INSTRUCTIONS[phase]}${VERIFICATION_REMINDER}`;
+    const instruction = this.getPhaseDefinition(phase)?.instruction ?? PHASE_INSTRUCTIONS[phase];
+    return `${instruction}${VERIFICATION_REMINDER}`;
   }
 
+  /**
+   * Stop the collaboration: running generations - participant turns, curation,
+   * agreement analysis, verification and synthesis - are aborted and their
+   * contexts released, otherwise it stops at the next turn boundary
+   */
   cancel(): void {
+    if (this.cancelled) return;
+
     this.cancelled = true;
+    this.paused = false;
+    this.abortController.abort();
+    this.wakeResumeWaiters();
+  }
+
+  /**
+   * Hold the collaboration at the next turn boundary until resume() or cancel()
+   */
+  async pause(): Promise<void> {
+    if (this.cancelled || this.paused) return;
+
+    this.paused = true;
+    this.logger.info(`⏸️ Pause requested`, { sessionId: this.conversationState?.sessionId });
+    this.sendMessage({
+      type: SSEMessageType.SESSION_STATUS,
+      payload: { status: 'paused', message: '⏸️ Paused - the collaboration stops after the current turn' }
+    });
+    await this.persistStatus('paused');
+  }
+
+  async resume(): Promise<void> {
+    if (this.cancelled || !this.paused) return;
+
+    this.paused = false;
+    this.logger.info(`▶️ Resumed`, { sessionId: this.conversationState?.sessionId });
+    this.sendMessage({
+      type: SSEMessageType.SESSION_STATUS,
+      payload: { status: 'running', message: '▶️ Resumed' }
+    });
+    await this.persistStatus('active');
+    this.wakeResumeWaiters();
+  }
+
+  getControlStatus(): SessionControlStatus {
+    if (this.cancelled) return 'cancelled';
+    return this.paused ? 'paused' : 'running';
+  }
+
+  /**
+   * Turn boundary: wait out a pause, and stop here once cancelled
+   */
+  private async waitAtTurnBoundary(): Promise<void> {
+    if (this.paused) {
+      this.logger.info(`⏸️ Collaboration paused at turn boundary`, { sessionId: this.conversationState?.sessionId });
+      const pausedAt = Date.now();
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+      this.pausedMs += Date.now() - pausedAt;
+    }
+
+    if (this.cancelled) {
+      throw new Error(ERROR_MESSAGES.COLLABORATION_CANCELLED);
+    }
+  }
+
+  private wakeResumeWaiters(): void {
+    const waiters = this.resumeWaiters.splice(0);
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Failures are logged only - the in-memory flags stay authoritative
+   */
+  private async persistStatus(status: ConversationState['status']): Promise<void> {
+    if (!this.conversationState) return;
+
+    try {
+      await this.conversationManager.setStatus(this.conversationState.sessionId, status);
+    } catch (error) {
+      this.logger.error('Failed to persist collaboration status:', error, {
+        sessionId: this.conversationState.sessionId,
+        status
+      });
+    }
+  }
+
+  /**
+   * Queue a user message; it becomes a turn right before the next model turn
+   * Returns the number of messages waiting to be inserted
+   */
+  interject(content: string): number {
+    this.pendingInterjections.push(content);
+    this.logger.info(`💬 User interjection queued`, {
+      sessionId: this.conversationState?.sessionId,
+      pending: this.pendingInterjections.length
+    });
+    return this.pendingInterjections.length;
+  }
+
+  private async applyPendingInterjections(): Promise<void> {
+    if (!this.conversationState || this.pendingInterjections.length === 0) return;
+
+    const messages = this.pendingInterjections.splice(0);
+    for (const content of messages) {
+      const turn = await this.conversationManager.addUserInterjection(this.conversationState.sessionId, content);
+      this.sendMessage({
+        type: SSEMessageType.PHASE_UPDATE,
+        payload: {
+          phase: turn.phase,
+          status: 'user_interjection',
+          turnId: turn.id,
+          message: `💬 Your message was added to the conversation: "${content}"`
+        }
+      });
+    }
+
+    this.conversationState = await this.conversationManager.getConversationState(this.conversationState.sessionId);
   }
 
   /**
@@ -1508,12 +2268,13 @@ Make the synthesis authoritative and actionable.`;
     const consensusBadge = this.getConsensusBadge(analysis.consensusLevel);
     
     // Get model names for attribution
-    const gemmaModelName = 'Gemma 3 12B IT (Q4_0)';
-    const qwenModelName = 'Qwen3 14B UD (Q4_K_XL)';
+    const participantNames = this.participants.map(
+      modelId => this.modelService.getModelConfig(modelId)?.name || modelId
+    );
     
     const header = `🎯 **Final Synthesis** ${consensusBadge}
 
-*Synthesized from the collaborative efforts of: ${gemmaModelName}, ${qwenModelName}*
+*Synthesized from the collaborative efforts of: ${participantNames.join(', ')}*
 
 ---
 
@@ -1561,19 +2322,19 @@ Despite these errors, here is the best synthesis we can provide:
     // Get the synthesis instruction from conversation manager
     const { synthesis: synthesisInstruction, analysis } = await this.conversationManager.generateSynthesis(
       this.conversationState.sessionId,
-      this.GEMMA_MODEL_ID
+      this.getLeadModelId()
     );
 
     // Prepend the error warning to the synthesis instruction
     const fullPrompt = errorWarning + synthesisInstruction;
 
     // Calculate token allocation
-    const totalContextSize = config.model.contextSize || 4096;
+    const totalContextSize = this.modelService.getContextSize(this.getLeadModelId());
     const allocation = this.contextAllocator.calculateAllocation(
       CollaborationPhase.SYNTHESIZE,
       totalContextSize,
       '',
-      this.GEMMA_MODEL_ID,
+      this.getLeadModelId(),
       'synthesis',
       this.conversationState.turns.length
     );
@@ -1587,12 +2348,13 @@ Despite these errors, here is the best synthesis we can provide:
     // Use FinalAnswerService to ensure proper streaming to synthesis panel
     const synthesisResult = await this.finalAnswerService.generateFinalAnswer({
       sessionId: this.conversationState.sessionId,
-      modelId: this.GEMMA_MODEL_ID,
+      modelId: this.getLeadModelId(),
       prompt: fullPrompt,
       phase: CollaborationPhase.SYNTHESIZE,
       tokenAllocation: allocation,
       routeToSynthesis: true  // CRITICAL: Route to synthesis panel
     });
+    await this.chargeBudget({ tokens: synthesisResult.tokenMetrics.generatedTokens });
 
     if (synthesisResult.success) {
       this.logger.info('✅ Synthesis with errors generated successfully', {
@@ -1603,7 +2365,7 @@ Despite these errors, here is the best synthesis we can provide:
       // Store the synthesis with verification warning
       await this.conversationManager.addTurn(
         this.conversationState.sessionId,
-        this.GEMMA_MODEL_ID,
+        this.getLeadModelId(),
         synthesisResult.content,
         synthesisResult.tokenMetrics.generationTimeMs,
         undefined
@@ -1630,7 +2392,7 @@ The collaborative analysis completed but encountered errors during verification.
       
       await this.finalAnswerService.generateFallbackAnswer({
         sessionId: this.conversationState.sessionId,
-        modelId: this.GEMMA_MODEL_ID,
+        modelId: this.getLeadModelId(),
         prompt: fallbackContent,
         phase: CollaborationPhase.SYNTHESIZE,
         routeToSynthesis: true
@@ -1,4 +1,4 @@
-import { TokenCounter } from './tokenCounter.js';
+import { TokenCounter, TokenCounterSource } from './tokenCounter.js';
 import { CollaborationPhase } from '../models/types.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -39,6 +39,7 @@ interface PhaseConfig {
 export class ContextAllocator {
   private readonly logger = createLogger('ContextAllocator');
   private readonly tokenCounter: TokenCounter;
+  private readonly tokenCounters?: TokenCounterSource;
 
   /**
    * PHASE-SPECIFIC ALLOCATION CONFIGURATIONS
@@ -101,8 +102,13 @@ export class ContextAllocator {
 
 {currentTurn}`;
 
-  constructor(tokenCounter: TokenCounter) {
+  /**
+   * @param tokenCounter Used when no per-model counters are available
+   * @param tokenCounters Per-model counters, so each participant is budgeted with its own tokenizer
+   */
+  constructor(tokenCounter: TokenCounter, tokenCounters?: TokenCounterSource) {
     this.tokenCounter = tokenCounter;
+    this.tokenCounters = tokenCounters;
     this.logger.info('🧮 ContextAllocator initialized with Gemini\'s budget-based algorithm');
   }
 
@@ -122,9 +128,11 @@ export class ContextAllocator {
   ): TokenAllocation {
     const calculationSteps: string[] = [];
     const phaseConfig = ContextAllocator.PHASE_CONFIG[phase];
+    const tokenCounter = this.getTokenCounter(modelId);
     
     calculationSteps.push(`Starting allocation for ${phase} phase`);
     calculationSteps.push(`Total context size: ${totalContextSize} tokens`);
+    calculationSteps.push(`Token counting: ${tokenCounter.isExact() ? `${modelId} tokenizer` : 'estimated'}`);
     calculationSteps.push(`Phase config: ${phaseConfig.description}`);
 
     // Step 1: Calculate safety margin
@@ -132,7 +140,7 @@ export class ContextAllocator {
     calculationSteps.push(`Safety margin (5%): ${safetyMarginTokens} tokens`);
 
     // Step 2: Calculate prompt template token overhead
-    const promptTemplateTokens = this.calculatePromptTemplateTokens(modelId, otherModelId, phase, turnNumber);
+    const promptTemplateTokens = this.calculatePromptTemplateTokens(tokenCounter, modelId, otherModelId, phase, turnNumber);
     calculationSteps.push(`Prompt template overhead: ${promptTemplateTokens} tokens`);
 
     // Step 3: Calculate available space for history and generation
@@ -156,7 +164,7 @@ export class ContextAllocator {
     calculationSteps.push(`Final history budget: ${historyTokenBudget} tokens`);
 
     // Step 6: Calculate actual history tokens used
-    const actualHistoryTokens = this.calculateActualHistoryTokens(conversationHistory, historyTokenBudget);
+    const actualHistoryTokens = this.calculateActualHistoryTokens(tokenCounter, conversationHistory, historyTokenBudget);
     calculationSteps.push(`Actual history tokens: ${actualHistoryTokens} tokens`);
 
     // Step 7: Calculate final generation limit using Gemini's master formula
@@ -225,6 +233,7 @@ export class ContextAllocator {
    * CALCULATE PROMPT TEMPLATE TOKEN OVERHEAD
    */
   private calculatePromptTemplateTokens(
+    tokenCounter: TokenCounter,
     modelId: string,
     otherModelId: string,
     phase: CollaborationPhase,
@@ -239,18 +248,18 @@ export class ContextAllocator {
       .replace('{conversationContext}', '') // Empty for template measurement
       .replace('{currentTurn}', ''); // Empty for template measurement
 
-    return this.tokenCounter.countTokens(samplePrompt);
+    return tokenCounter.countTokens(samplePrompt);
   }
 
   /**
    * CALCULATE ACTUAL HISTORY TOKENS WITHIN BUDGET
    */
-  private calculateActualHistoryTokens(conversationHistory: string, historyTokenBudget: number): number {
+  private calculateActualHistoryTokens(tokenCounter: TokenCounter, conversationHistory: string, historyTokenBudget: number): number {
     if (!conversationHistory || conversationHistory.length === 0) {
       return 0;
     }
 
-    const totalHistoryTokens = this.tokenCounter.countTokens(conversationHistory);
+    const totalHistoryTokens = tokenCounter.countTokens(conversationHistory);
     
     if (totalHistoryTokens <= historyTokenBudget) {
       return totalHistoryTokens;
@@ -264,18 +273,26 @@ export class ContextAllocator {
   /**
    * TRUNCATE HISTORY TO FIT WITHIN TOKEN BUDGET
    */
-  truncateHistoryToBudget(conversationHistory: string, historyTokenBudget: number): string {
+  truncateHistoryToBudget(conversationHistory: string, historyTokenBudget: number, modelId?: string): string {
     if (!conversationHistory || historyTokenBudget <= 0) {
       return '';
     }
 
-    const currentTokens = this.tokenCounter.countTokens(conversationHistory);
+    const tokenCounter = this.getTokenCounter(modelId);
+    const currentTokens = tokenCounter.countTokens(conversationHistory);
     if (currentTokens <= historyTokenBudget) {
       return conversationHistory;
     }
 
-    // Use tiktoken's precise truncation
-    return this.tokenCounter.truncateToTokenLimit(conversationHistory, historyTokenBudget);
+    // Truncate on the model's own token boundaries
+    return tokenCounter.truncateToTokenLimit(conversationHistory, historyTokenBudget);
+  }
+
+  /**
+   * Counter for the model being budgeted, or the shared counter
+   */
+  private getTokenCounter(modelId?: string): TokenCounter {
+    return modelId && this.tokenCounters ? this.tokenCounters.getTokenCounter(modelId) : this.tokenCounter;
   }
 
   /**
@@ -1,20 +1,19 @@
 import { ModelService } from './modelService.js';
-import { TokenCounter } from './tokenCounter.js';
 import { CollaborationPhase } from '../models/types.js';
+import { ModelRole } from '../models/curatedConversationTypes.js';
 import { createLogger } from '../utils/logger.js';
 import { LlamaChatSession } from 'node-llama-cpp';
 
 /**
  * INTELLIGENT CONVERSATION COMPRESSION SERVICE
  * 
- * Uses Gemma to intelligently compress conversation turns before storage,
- * preserving semantic meaning while reducing token usage.
+ * Uses a CURATOR model - preferably the turn's own author - to intelligently compress
+ * conversation turns before storage, preserving semantic meaning while reducing token usage.
  */
 export class ConversationCompressor {
   private readonly logger = createLogger('ConversationCompressor');
-  private readonly tokenCounter: TokenCounter;
   private readonly modelService: ModelService;
-  private readonly COMPRESSION_MODEL_ID = 'gemma-3-12b-it-q4-0';
+  private readonly PROMPT_OVERHEAD_TOKENS = 300; // Instructions around the turn being compressed
   
   // Target compression ratios by phase
   private readonly COMPRESSION_TARGETS: Record<CollaborationPhase, number> = {
@@ -27,9 +26,8 @@ export class ConversationCompressor {
     [CollaborationPhase.COMPLETE]: 0.3        // Maximum compression
   };
 
-  constructor(modelService: ModelService, tokenCounter: TokenCounter) {
+  constructor(modelService: ModelService) {
     this.modelService = modelService;
-    this.tokenCounter = tokenCounter;
   }
 
   /**
@@ -46,9 +44,27 @@ export class ConversationCompressor {
     compressionRatio: number;
     preservedKeyPoints: string[];
   }> {
-    const originalTokens = this.tokenCounter.countTokens(content);
+    const compressionModelId = this.modelService.resolveRoleModel(ModelRole.CURATOR, [modelId]);
+    if (!compressionModelId) {
+      this.logger.warn(`No model available for the ${ModelRole.CURATOR} role - turn ${turnNumber} stays uncompressed`);
+      return {
+        compressed: content,
+        original: content,
+        compressionRatio: 1.0,
+        preservedKeyPoints: []
+      };
+    }
+
+    // Targets are measured in the compression model's own tokens
+    const tokenCounter = this.modelService.getTokenCounter(compressionModelId);
+    const originalTokens = tokenCounter.countTokens(content);
     const targetRatio = this.COMPRESSION_TARGETS[phase];
-    const targetTokens = Math.floor(originalTokens * targetRatio);
+
+    // A turn from a larger-context participant may not fit the compression model's window:
+    // the summary gets at most a quarter of it and the turn is cut to what remains
+    const contextSize = this.modelService.getContextSize(compressionModelId);
+    const targetTokens = Math.min(Math.floor(originalTokens * targetRatio), Math.floor(contextSize / 4));
+    const contentBudget = contextSize - targetTokens - this.PROMPT_OVERHEAD_TOKENS;
     
     // Don't compress if already small
     if (originalTokens < 200) {
@@ -62,48 +78,29 @@ export class ConversationCompressor {
     }
 
     try {
-      const context = await this.modelService.acquireContext(this.COMPRESSION_MODEL_ID);
-      
-      const sequence = context.getSequence();
-      
-      try {
-        const compressionPrompt = this.buildCompressionPrompt(
-          content,
-          modelId,
-          phase,
-          targetTokens
-        );
-
-        const session = new LlamaChatSession({
-          contextSequence: sequence,
-          systemPrompt: ''
-        });
+      const compressionPrompt = this.buildCompressionPrompt(
+        originalTokens > contentBudget ? tokenCounter.truncateToTokenLimit(content, contentBudget) : content,
+        modelId,
+        phase,
+        targetTokens
+      );
 
-        const compressed = await session.prompt(compressionPrompt, {
-          temperature: 0.3,  // Low temperature for consistent compression
-          maxTokens: targetTokens + 50,  // Allow slight overrun
-          topP: 0.9
-        });
+      const compressed = await this.generate(compressionModelId, compressionPrompt, targetTokens + 50); // Allow slight overrun
 
-        // Extract key points from the compression
-        const keyPoints = this.extractKeyPoints(compressed);
-        
-        const compressedTokens = this.tokenCounter.countTokens(compressed);
-        const compressionRatio = compressedTokens / originalTokens;
-        
-        this.logger.info(`✨ Compressed turn ${turnNumber} from ${originalTokens} to ${compressedTokens} tokens (${Math.round(compressionRatio * 100)}%)`);
-        
-        return {
-          compressed,
-          original: content,
-          compressionRatio,
-          preservedKeyPoints: keyPoints
-        };
-      } finally {
-        // Properly dispose of the sequence before releasing context
-        sequence.dispose();
-        await this.modelService.releaseContext(this.COMPRESSION_MODEL_ID, context);
-      }
+      // Extract key points from the compression
+      const keyPoints = this.extractKeyPoints(compressed);
+      
+      const compressedTokens = tokenCounter.countTokens(compressed);
+      const compressionRatio = compressedTokens / originalTokens;
+      
+      this.logger.info(`✨ Compressed turn ${turnNumber} with ${compressionModelId} from ${originalTokens} to ${compressedTokens} tokens (${Math.round(compressionRatio * 100)}%)`);
+      
+      return {
+        compressed,
+        original: content,
+        compressionRatio,
+        preservedKeyPoints: keyPoints
+      };
     } catch (error) {
       this.logger.error('Compression failed, using original:', error);
       return {
@@ -115,6 +112,39 @@ export class ConversationCompressor {
     }
   }
 
+  /**
+   * Run the compression prompt on a local context, or over HTTP for remote models
+   */
+  private async generate(modelId: string, prompt: string, maxTokens: number): Promise<string> {
+    if (this.modelService.isRemoteModel(modelId)) {
+      return this.modelService.generateRemote(
+        modelId,
+        { prompt, maxTokens, temperature: 0.3, topP: 0.9 },
+        () => undefined
+      );
+    }
+
+    const context = await this.modelService.acquireContext(modelId);
+    const sequence = context.getSequence();
+    
+    try {
+      const session = new LlamaChatSession({
+        contextSequence: sequence,
+        systemPrompt: ''
+      });
+
+      return await session.prompt(prompt, {
+        temperature: 0.3,  // Low temperature for consistent compression
+        maxTokens,
+        topP: 0.9
+      });
+    } finally {
+      // Properly dispose of the sequence before releasing context
+      sequence.dispose();
+      await this.modelService.releaseContext(modelId, context);
+    }
+  }
+
   /**
    * Build the compression prompt for the LLM
    */
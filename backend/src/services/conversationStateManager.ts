@@ -1,5 +1,7 @@
+import { randomUUID } from 'crypto';
+
 import { RedisService } from './redisService.js';
-import { RedisVectorStore } from './redisVectorStore.js';
+import { getVectorStore } from './vectorStore.js';
 import { SynthesisService } from './synthesisService.js';
 import { TokenCounter } from './tokenCounter.js';
 import { ContextAllocator } from './contextAllocator.js';
@@ -8,29 +10,37 @@ import { ModelService } from './modelService.js';
 import { SolutionExtractionService } from './solutionExtractionService.js';
 import { LLMAnalyticsService } from './llmAnalyticsService.js';
 import { createLogger } from '../utils/logger.js';
+import { isDefined } from '../utils/typeGuards.js';
 import { config } from '../config.js';
-import { CollaborationPhase } from '../models/types.js';
+import { BudgetUsage, CollaborationPhase } from '../models/types.js';
 import { 
   ConversationState, 
   ConversationTurn, 
   ConversationPrompt,
-  StructuredSolution
+  StructuredSolution,
+  ForkOverrides,
+  TurnVersion
 } from '../models/conversationTypes.js';
-import { AgreementAnalysis } from '../models/curatedConversationTypes.js';
+import { AgreementAnalysis, CurationResult } from '../models/curatedConversationTypes.js';
+import { SessionRecord } from '../models/sessionHistoryTypes.js';
+import { WorkflowDefinition } from '../models/workflowTypes.js';
+import { VectorStore } from '../models/vectorStoreTypes.js';
 import { 
   REDIS_KEYS, 
-  PHASE_INSTRUCTIONS
+  PHASE_INSTRUCTIONS,
+  MODEL_IDS
 } from '../constants/index.js';
 
 /**
- * Manages the evolving conversation state between two LLMs
+ * Manages the evolving conversation state between the participating LLMs
  * All data persisted in Redis, conversation builds iteratively
  */
 export class ConversationStateManager {
   private redisService: RedisService;
-  private vectorStore: RedisVectorStore;
+  private vectorStore: VectorStore;
   private synthesisService: SynthesisService;
   private tokenCounter: TokenCounter;
+  private modelService: ModelService | undefined;
   private contextAllocator: ContextAllocator;
   private conversationCompressor: ConversationCompressor | null = null;
   private solutionExtractor: SolutionExtractionService | null = null;
@@ -43,14 +53,15 @@ export class ConversationStateManager {
   constructor(redisService: RedisService, modelService?: ModelService, enableCompression: boolean = false) {
     this.redisService = redisService;
     const redisClient = redisService.getClient();
-    this.vectorStore = new RedisVectorStore(redisClient);
+    this.vectorStore = getVectorStore(redisClient);
     this.synthesisService = new SynthesisService();
     this.tokenCounter = new TokenCounter();
-    this.contextAllocator = new ContextAllocator(this.tokenCounter);
+    this.modelService = modelService;
+    this.contextAllocator = new ContextAllocator(this.tokenCounter, modelService);
     
     // Initialize compression if model service provided and enabled
     if (modelService && enableCompression) {
-      this.conversationCompressor = new ConversationCompressor(modelService, this.tokenCounter);
+      this.conversationCompressor = new ConversationCompressor(modelService);
       this.logger.info('🗜️ Conversation compression enabled');
     } else {
       this.logger.info('📦 Conversation compression disabled');
@@ -78,13 +89,16 @@ export class ConversationStateManager {
   async createConversation(
     sessionId: string,
     originalQuery: string,
-    modelIds: string[]
+    modelIds: string[],
+    workflow?: WorkflowDefinition
   ): Promise<ConversationState> {
+    const initialPhase = workflow?.phases[0]?.phase ?? CollaborationPhase.BRAINSTORM;
     const state: ConversationState = {
       sessionId,
       originalQuery,
-      currentPhase: CollaborationPhase.BRAINSTORM,
+      currentPhase: initialPhase,
       participants: modelIds,
+      workflow,
       turns: [],
       sharedContext: {
         keyPoints: [],
@@ -99,7 +113,7 @@ export class ConversationStateManager {
         percentage: 0,
         turnNumber: 0,
         tokenCount: 0,
-        phase: CollaborationPhase.BRAINSTORM
+        phase: initialPhase
       },
       lastUpdate: Date.now(),
       status: 'active'
@@ -111,8 +125,9 @@ export class ConversationStateManager {
       sessionId,
       originalQuery: originalQuery.substring(0, 100),
       participants: modelIds,
+      workflowId: workflow?.id,
       initialPhase: state.currentPhase,
-      contextWindowSize: config.model.contextSize,
+      contextWindowSizes: Object.fromEntries(modelIds.map(id => [id, this.getContextSize(id)])),
       compressionEnabled: this.conversationCompressor !== null
     });
     
@@ -134,7 +149,7 @@ export class ConversationStateManager {
     if (!state) throw new Error(`Conversation ${sessionId} not found`);
 
     const turn: ConversationTurn = {
-      id: `${sessionId}-turn-${Date.now()}-${modelId}`,
+      id: this.createTurnId(sessionId, modelId),
       sessionId,
       modelId,
       phase: state.currentPhase,
@@ -145,23 +160,12 @@ export class ConversationStateManager {
       metadata: {
         tokenCount: this.tokenCounter.countTokens(content),
         processingTime,
-        contextUsed: await this.calculateContextUsage(sessionId, content)
+        contextUsed: await this.calculateContextUsage(sessionId, modelId, content)
       }
     };
 
     // Phase 2: Extract structured solution if in final phases
-    if (this.solutionExtractor && 
-        (state.currentPhase === CollaborationPhase.SYNTHESIZE || 
-         state.currentPhase === CollaborationPhase.CONSENSUS ||
-         state.currentPhase === CollaborationPhase.REVISE)) {
-      
-      const extractedSolution = await this.solutionExtractor.extractSolution(turn);
-      if (extractedSolution) {
-        turn.metadata.structuredSolution = extractedSolution;
-        turn.metadata.isFinalAnswer = extractedSolution.status === 'conclusive';
-        this.logger.info(`🎯 Extracted solution from ${modelId}: ${JSON.stringify(extractedSolution)}`);
-      }
-    }
+    await this.extractTurnSolution(turn);
     
     // Mark verification turns
     if (isVerification) {
@@ -210,7 +214,7 @@ export class ConversationStateManager {
       state.peakContextUsage = {
         percentage: contextPercentage,
         turnNumber: turn.turnNumber,
-        tokenCount: Math.round(turn.metadata.contextUsed * config.model.contextSize),
+        tokenCount: Math.round(turn.metadata.contextUsed * this.getContextSize(turn.modelId)),
         phase: turn.phase
       };
     }
@@ -226,23 +230,471 @@ export class ConversationStateManager {
     return turn;
   }
 
+  /**
+   * Phase 2: Attach the structured solution of a turn in the final phases
+   */
+  private async extractTurnSolution(turn: ConversationTurn): Promise<void> {
+    if (this.solutionExtractor && 
+        (turn.phase === CollaborationPhase.SYNTHESIZE || 
+         turn.phase === CollaborationPhase.CONSENSUS ||
+         turn.phase === CollaborationPhase.REVISE)) {
+      
+      const extractedSolution = await this.solutionExtractor.extractSolution(turn);
+      if (extractedSolution) {
+        turn.metadata.structuredSolution = extractedSolution;
+        turn.metadata.isFinalAnswer = extractedSolution.status === 'conclusive';
+        this.logger.info(`🎯 Extracted solution from ${turn.modelId}: ${JSON.stringify(extractedSolution)}`);
+      }
+    }
+  }
+
+  /**
+   * Turn IDs key the stored turn and its vector document - the random suffix keeps
+   * turns created in the same millisecond (drained interjections) apart
+   */
+  private createTurnId(sessionId: string, authorId: string): string {
+    return `${sessionId}-turn-${Date.now()}-${authorId}-${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Record a user interjection as a turn so the next prompts include the steer
+   */
+  async addUserInterjection(sessionId: string, content: string): Promise<ConversationTurn> {
+    const state = await this.getConversationState(sessionId);
+    if (!state) throw new Error(`Conversation ${sessionId} not found`);
+
+    const turn: ConversationTurn = {
+      id: this.createTurnId(sessionId, MODEL_IDS.USER),
+      sessionId,
+      modelId: MODEL_IDS.USER,
+      phase: state.currentPhase,
+      content,
+      timestamp: Date.now(),
+      turnNumber: state.turns.length + 1,
+      metadata: {
+        tokenCount: this.tokenCounter.countTokens(content),
+        processingTime: 0,
+        contextUsed: 0,
+        isUserInterjection: true
+      }
+    };
+
+    await this.saveTurn(turn);
+    await this.vectorStore.storeDocument(turn.id, content, {
+      sessionId,
+      phase: state.currentPhase,
+      modelId: MODEL_IDS.USER,
+      timestamp: turn.timestamp,
+      tokens: turn.metadata.tokenCount
+    });
+
+    state.turns.push(turn);
+    state.lastUpdate = Date.now();
+    await this.saveConversationState(state);
+
+    this.logger.info(`💬 User interjection added as turn ${turn.turnNumber} in ${state.currentPhase}`);
+    return turn;
+  }
+
+  /**
+   * Continue a finished conversation with a follow-up question
+   * The previous question moves to queryHistory and its final answer plus the shared
+   * understanding are stored as a retrievable turn; a fresh phase cycle starts from the first phase
+   */
+  async startFollowUp(sessionId: string, query: string, previousAnswer: string): Promise<ConversationState> {
+    const state = await this.getConversationState(sessionId);
+    if (!state) throw new Error(`Conversation ${sessionId} not found`);
+
+    const sharedSummary = this.summarizeSharedContext(state.sharedContext);
+    const content = [
+      `Answer to the earlier question "${state.originalQuery}":`,
+      previousAnswer,
+      ...(sharedSummary ? ['', `Shared understanding:`, sharedSummary] : [])
+    ].join('\n');
+
+    // Kept out of state.turns - it only reaches prompts through vector retrieval
+    const carried: ConversationTurn = {
+      id: this.createTurnId(sessionId, MODEL_IDS.SYNTHESIS),
+      sessionId,
+      modelId: MODEL_IDS.SYNTHESIS,
+      phase: state.currentPhase,
+      content,
+      timestamp: Date.now(),
+      turnNumber: state.turns.length,
+      metadata: {
+        tokenCount: this.tokenCounter.countTokens(content),
+        processingTime: 0,
+        contextUsed: 0,
+        isCarriedForward: true
+      }
+    };
+
+    await this.saveTurn(carried);
+    await this.vectorStore.storeDocument(carried.id, content, {
+      sessionId,
+      phase: state.currentPhase,
+      modelId: MODEL_IDS.SYNTHESIS,
+      timestamp: carried.timestamp,
+      tokens: carried.metadata.tokenCount
+    });
+
+    const initialPhase = state.workflow?.phases[0]?.phase ?? CollaborationPhase.BRAINSTORM;
+    state.queryHistory = [
+      ...(state.queryHistory ?? []),
+      { query: state.originalQuery, finalAnswer: previousAnswer, turnCount: state.turns.length, completedAt: state.lastUpdate }
+    ];
+    state.originalQuery = query;
+    state.currentPhase = initialPhase;
+    state.phaseProgress = {};
+    state.status = 'active';
+    state.lastUpdate = Date.now();
+    await this.saveConversationState(state);
+
+    this.logger.info(`🔁 Follow-up question started`, {
+      sessionId,
+      query: query.substring(0, 100),
+      previousQuestions: state.queryHistory.length,
+      carriedTurns: state.turns.length,
+      initialPhase
+    });
+
+    return state;
+  }
+
+  /**
+   * Branch a conversation at one of its turns into a new session
+   * Turns up to and including fromTurnId are copied with their vector documents;
+   * returns null when the source conversation or turn does not exist
+   */
+  async forkConversation(
+    sourceSessionId: string,
+    sessionId: string,
+    fromTurnId: string,
+    overrides: ForkOverrides = {}
+  ): Promise<ConversationState | null> {
+    const source = await this.getConversationState(sourceSessionId);
+    if (!source) return null;
+
+    return this.forkState(source, sessionId, fromTurnId, overrides);
+  }
+
+  /**
+   * Branch an archived session whose live state has expired
+   * The archive keeps the turns but not the shared context or phase progress, so the fork starts without them
+   */
+  async forkArchivedConversation(
+    record: SessionRecord,
+    workflow: WorkflowDefinition,
+    sessionId: string,
+    fromTurnId: string,
+    overrides: ForkOverrides = {}
+  ): Promise<ConversationState | null> {
+    const lastTurn = record.turns[record.turns.length - 1];
+    const source: ConversationState = {
+      sessionId: record.sessionId,
+      originalQuery: record.originalQuery,
+      queryHistory: record.queryHistory,
+      currentPhase: lastTurn?.phase ?? workflow.phases[0]?.phase ?? CollaborationPhase.BRAINSTORM,
+      participants: record.participants,
+      workflow,
+      forkedFrom: record.forkedFrom,
+      turns: record.turns,
+      sharedContext: { keyPoints: [], agreements: [], disagreements: [], workingHypotheses: [], nextSteps: [] },
+      phaseProgress: {},
+      phaseHistory: record.phaseHistory,
+      peakContextUsage: { percentage: 0, turnNumber: 0, tokenCount: 0, phase: lastTurn?.phase ?? CollaborationPhase.BRAINSTORM },
+      lastUpdate: record.completedAt,
+      status: record.status
+    };
+
+    this.logger.info(`📚 Forking archived session ${record.sessionId} - its live state has expired`, {
+      archivedTurns: record.turns.length,
+      workflowId: workflow.id
+    });
+
+    return this.forkState(source, sessionId, fromTurnId, overrides);
+  }
+
+  private async forkState(
+    source: ConversationState,
+    sessionId: string,
+    fromTurnId: string,
+    overrides: ForkOverrides
+  ): Promise<ConversationState | null> {
+    const sourceSessionId = source.sessionId;
+    const forkIndex = source.turns.findIndex(turn => turn.id === fromTurnId);
+    if (forkIndex === -1) return null;
+
+    const forkTurn = source.turns[forkIndex];
+    // Source turn ID → fork turn ID
+    const turnIds = new Map<string, string>();
+    for (const turn of source.turns.slice(0, forkIndex + 1)) {
+      turnIds.set(turn.id, turn.id.startsWith(sourceSessionId)
+        ? `${sessionId}${turn.id.slice(sourceSessionId.length)}`
+        : `${sessionId}-${turn.id}`);
+    }
+
+    const turns: ConversationTurn[] = [];
+    for (const [sourceId, id] of turnIds) {
+      const sourceTurn = source.turns[turns.length];
+      const turn: ConversationTurn = {
+        ...sourceTurn,
+        id,
+        sessionId,
+        responseToTurn: sourceTurn.responseToTurn ? turnIds.get(sourceTurn.responseToTurn) : undefined
+      };
+      turns.push(turn);
+
+      await this.saveTurn(turn);
+      // Vector documents expire with the source session - embed the turn again when its document is gone
+      if (!await this.vectorStore.copyDocument(sourceId, turn.id, sessionId)) {
+        await this.vectorStore.storeDocument(turn.id, turn.content, {
+          sessionId,
+          phase: turn.phase,
+          modelId: turn.modelId,
+          timestamp: turn.timestamp,
+          tokens: turn.metadata.tokenCount
+        });
+      }
+
+      const compressed = await this.redisService.getClient().get(`${this.compressedKeyPrefix}${sourceId}`);
+      if (compressed) {
+        await this.redisService.getClient().setex(`${this.compressedKeyPrefix}${turn.id}`, config.redis.ttl, compressed);
+      }
+    }
+
+    // Shared context can't be rewound - keep it only when nothing after the fork point is dropped
+    const isLatestTurn = forkIndex === source.turns.length - 1;
+    const phase = overrides.phase ?? forkTurn.phase;
+    const state: ConversationState = {
+      ...source,
+      sessionId,
+      originalQuery: overrides.prompt ?? source.originalQuery,
+      queryHistory: source.queryHistory?.filter(entry => entry.turnCount <= turns.length),
+      currentPhase: phase,
+      participants: overrides.models ?? source.participants,
+      turns,
+      sharedContext: isLatestTurn
+        ? structuredClone(source.sharedContext)
+        : { keyPoints: [], agreements: [], disagreements: [], workingHypotheses: [], nextSteps: [] },
+      phaseProgress: Object.fromEntries(
+        Object.entries(source.phaseProgress).filter(([, progress]) => progress && progress.timestamp <= forkTurn.timestamp)
+      ),
+      phaseHistory: source.phaseHistory.filter(entry => entry.timestamp <= forkTurn.timestamp),
+      peakContextUsage: source.peakContextUsage.turnNumber <= forkTurn.turnNumber
+        ? source.peakContextUsage
+        : { percentage: 0, turnNumber: 0, tokenCount: 0, phase },
+      forkedFrom: {
+        sessionId: sourceSessionId,
+        turnId: fromTurnId,
+        turnNumber: forkTurn.turnNumber,
+        phase: forkTurn.phase,
+        createdAt: Date.now()
+      },
+      modelSettings: { ...source.modelSettings, ...overrides.modelSettings },
+      budgetUsage: undefined, // The fork is a new session and spends its own budget
+      lastUpdate: Date.now(),
+      status: 'active'
+    };
+    await this.saveConversationState(state);
+
+    this.logger.info(`🌿 Conversation forked`, {
+      sourceSessionId,
+      sessionId,
+      fromTurnId,
+      copiedTurns: turns.length,
+      phase,
+      promptChanged: overrides.prompt !== undefined,
+      participants: state.participants
+    });
+
+    return state;
+  }
+
+  /**
+   * Store a regenerated response as a new version of the turn and select it
+   * The first regeneration keeps the original response as version 0
+   */
+  async addTurnVersion(
+    sessionId: string,
+    turnId: string,
+    content: string,
+    processingTime: number,
+    settings?: TurnVersion['settings']
+  ): Promise<ConversationTurn> {
+    const state = await this.getConversationState(sessionId);
+    if (!state) throw new Error(`Conversation ${sessionId} not found`);
+
+    const turn = state.turns.find(candidate => candidate.id === turnId);
+    if (!turn) throw new Error(`Turn ${turnId} not found in conversation ${sessionId}`);
+
+    turn.versions ??= [{
+      content: turn.content,
+      timestamp: turn.timestamp,
+      tokenCount: turn.metadata.tokenCount,
+      processingTime: turn.metadata.processingTime,
+      structuredSolution: turn.metadata.structuredSolution
+    }];
+
+    // Extract against the new content once; selecting a version later reuses the result
+    const regenerated: ConversationTurn = { ...turn, content, metadata: { ...turn.metadata, structuredSolution: undefined } };
+    await this.extractTurnSolution(regenerated);
+    turn.versions.push({
+      content,
+      timestamp: Date.now(),
+      tokenCount: this.tokenCounter.countTokens(content),
+      processingTime,
+      settings,
+      structuredSolution: regenerated.metadata.structuredSolution
+    });
+
+    await this.applyTurnVersion(state, turn, turn.versions.length - 1);
+
+    this.logger.info(`🔁 Turn ${turn.turnNumber} regenerated by ${turn.modelId}`, {
+      sessionId,
+      turnId,
+      versions: turn.versions.length
+    });
+    return turn;
+  }
+
+  /**
+   * Choose which version of a regenerated turn the conversation continues from
+   * Returns null when the turn or version does not exist
+   */
+  async selectTurnVersion(sessionId: string, turnId: string, version: number): Promise<ConversationTurn | null> {
+    const state = await this.getConversationState(sessionId);
+    const turn = state?.turns.find(candidate => candidate.id === turnId);
+    if (!state || !turn?.versions?.[version]) return null;
+
+    await this.applyTurnVersion(state, turn, version);
+
+    this.logger.info(`🔀 Turn ${turn.turnNumber} switched to version ${version}`, { sessionId, turnId });
+    return turn;
+  }
+
+  /**
+   * Make a version the turn's content - prompts and retrieval only ever see the selected one
+   */
+  private async applyTurnVersion(state: ConversationState, turn: ConversationTurn, index: number): Promise<void> {
+    const version = turn.versions?.[index];
+    if (!version) throw new Error(`Version ${index} not found for turn ${turn.id}`);
+
+    turn.content = version.content;
+    turn.selectedVersion = index;
+    // Compression data described the previous content
+    turn.metadata = {
+      tokenCount: version.tokenCount,
+      processingTime: version.processingTime,
+      contextUsed: turn.metadata.contextUsed,
+      isVerification: turn.metadata.isVerification,
+      structuredSolution: version.structuredSolution,
+      isFinalAnswer: version.structuredSolution ? version.structuredSolution.status === 'conclusive' : undefined
+    };
+
+    await this.redisService.getClient().del(`${this.compressedKeyPrefix}${turn.id}`);
+    if (version.content.trim().length > 0) {
+      await this.vectorStore.storeDocument(turn.id, version.content, {
+        sessionId: state.sessionId,
+        phase: turn.phase,
+        modelId: turn.modelId,
+        timestamp: turn.timestamp,
+        tokens: version.tokenCount
+      });
+    }
+
+    await this.saveTurn(turn);
+    state.lastUpdate = Date.now();
+    await this.saveConversationState(state);
+  }
+
+  /**
+   * Persist the run status (paused, cancelled, ...) so it outlives the client connection
+   */
+  async setStatus(sessionId: string, status: ConversationState['status']): Promise<void> {
+    const state = await this.getConversationState(sessionId);
+    if (!state) throw new Error(`Conversation ${sessionId} not found`);
+
+    state.status = status;
+    state.lastUpdate = Date.now();
+    await this.saveConversationState(state);
+  }
+
+  /**
+   * Add spending to the session's budget usage and return the new total
+   * Stored with the state so each run, follow-up and regeneration counts against the same budget
+   */
+  async chargeBudget(sessionId: string, spent: Partial<BudgetUsage>): Promise<BudgetUsage> {
+    const state = await this.getConversationState(sessionId);
+    if (!state) throw new Error(`Conversation ${sessionId} not found`);
+
+    const usage = state.budgetUsage ?? { turns: 0, tokens: 0, phaseRevisits: 0 };
+    state.budgetUsage = {
+      turns: usage.turns + (spent.turns ?? 0),
+      tokens: usage.tokens + (spent.tokens ?? 0),
+      phaseRevisits: usage.phaseRevisits + (spent.phaseRevisits ?? 0)
+    };
+    await this.saveConversationState(state);
+    return state.budgetUsage;
+  }
+
+  /**
+   * Merge a curator's findings into the shared context the next prompts are built from
+   */
+  async applyCuration(sessionId: string, result: CurationResult): Promise<ConversationState> {
+    const state = await this.getConversationState(sessionId);
+    if (!state) throw new Error(`Conversation ${sessionId} not found`);
+
+    const { contextUpdates } = result;
+    state.sharedContext.keyPoints.push(...contextUpdates.newKeyPoints);
+    state.sharedContext.agreements.push(...contextUpdates.clarifiedAgreements);
+    state.sharedContext.workingHypotheses.push(...contextUpdates.strengthenedArguments);
+    state.sharedContext.nextSteps.push(...contextUpdates.identifiedGaps, ...result.recommendedNextSteps);
+
+    // Same limits as the per-turn extraction
+    state.sharedContext.keyPoints = [...new Set(state.sharedContext.keyPoints)].slice(-15);
+    state.sharedContext.agreements = [...new Set(state.sharedContext.agreements)].slice(-15);
+    state.sharedContext.workingHypotheses = [...new Set(state.sharedContext.workingHypotheses)].slice(-10);
+    state.sharedContext.nextSteps = [...new Set(state.sharedContext.nextSteps)].slice(-5);
+
+    state.lastUpdate = Date.now();
+    await this.saveConversationState(state);
+    return state;
+  }
+
   /**
    * Build conversation prompt for the next LLM turn with optimal token allocation
+   * With beforeTurnId the prompt is rebuilt as it stood when that turn was generated
    */
   async buildConversationPrompt(
     sessionId: string,
     modelId: string,
-    newPrompt?: string
+    newPrompt?: string,
+    beforeTurnId?: string
   ): Promise<ConversationPrompt> {
-    const state = await this.getConversationState(sessionId);
-    if (!state) throw new Error(`Conversation ${sessionId} not found`);
-
-    const otherModelId = state.participants.find(id => id !== modelId);
-    const otherModelLastTurn = this.getLastTurnByModel(state, otherModelId || '');
+    const storedState = await this.getConversationState(sessionId);
+    if (!storedState) throw new Error(`Conversation ${sessionId} not found`);
+
+    const state = beforeTurnId ? this.rewindState(storedState, beforeTurnId) : storedState;
+
+    // Every other participant is a partner; their latest turns are ordered oldest → newest
+    const partnerIds = state.participants.filter(id => id !== modelId);
+    const partnerLastTurns = partnerIds
+      .map(id => this.getLastTurnByModel(state, id))
+      .filter(isDefined)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const otherModelLastTurn = partnerLastTurns[partnerLastTurns.length - 1];
+    const partnerLabel = partnerIds.join(', ');
     const myLastTurn = this.getLastTurnByModel(state, modelId);
+    const userInterjections = state.turns.filter(turn => turn.metadata.isUserInterjection);
 
     // First, build the prompt components to know their sizes
-    const systemPrompt = this.buildSystemPrompt(state.currentPhase, modelId, otherModelId || '');
+    const systemPrompt = this.buildSystemPrompt(
+      state.currentPhase,
+      modelId,
+      partnerLabel,
+      this.getPhaseInstruction(state, state.currentPhase)
+    );
     const currentTurn = newPrompt || this.buildCurrentTurnPrompt(state, modelId);
     
     // Get a sample of existing conversation history for size estimation
@@ -251,26 +703,31 @@ export class ConversationStateManager {
       `**${turn.modelId} (${turn.phase}):** ${turn.content}`
     ).join('\n\n');
     
-    // Calculate optimal token allocation for this phase
+    // Calculate optimal token allocation for this phase, against this model's own window
     // Pass existing history (not the new prompt) for accurate allocation
+    const contextSize = this.getContextSize(modelId);
     const allocation = this.contextAllocator.calculateAllocation(
       state.currentPhase,
-      config.model.contextSize,
+      contextSize,
       sampleHistory, // Pass actual history, not the prompt
       modelId,
-      otherModelId || 'partner',
+      partnerLabel || 'partner',
       state.turns.length + 1
     );
 
-    this.logger.info(`🧮 Token allocation for ${state.currentPhase}: ${allocation.actualHistoryTokens}h + ${allocation.maxGenerationTokens}g = ${allocation.totalAllocated}/${config.model.contextSize}`);
+    this.logger.info(`🧮 Token allocation for ${state.currentPhase}: ${allocation.actualHistoryTokens}h + ${allocation.maxGenerationTokens}g = ${allocation.totalAllocated}/${contextSize}`);
 
     // Get relevant conversation history using vector search within budget
-    const relevantHistory = await this.getRelevantTurnsWithinBudget(
+    const retrievedHistory = await this.getRelevantTurnsWithinBudget(
       sessionId,
       newPrompt || state.originalQuery,
       state.currentPhase,
       allocation.historyTokenBudget
     );
+    // Retrieval searches the whole session - a rewound prompt must not see later turns
+    const relevantHistory = beforeTurnId
+      ? retrievedHistory.filter(turn => state.turns.some(earlier => earlier.id === turn.id))
+      : retrievedHistory;
 
     // Build the conversation context within token limits
     const conversationContext = this.buildConversationContextWithinBudget(
@@ -278,17 +735,19 @@ export class ConversationStateManager {
       relevantHistory,
       allocation.historyTokenBudget,
       myLastTurn,
-      otherModelLastTurn
+      partnerLastTurns,
+      userInterjections
     );
 
-    // Calculate actual tokens used in final context
-    const actualContextTokens = this.tokenCounter.countTokens(conversationContext);
-    const promptTokens = this.tokenCounter.countTokens(currentTurn);
-    const systemTokens = this.tokenCounter.countTokens(systemPrompt);
+    // Calculate actual tokens used in final context, in the prompted model's tokens
+    const modelTokenCounter = this.modelService?.getTokenCounter(modelId) ?? this.tokenCounter;
+    const actualContextTokens = modelTokenCounter.countTokens(conversationContext);
+    const promptTokens = modelTokenCounter.countTokens(currentTurn);
+    const systemTokens = modelTokenCounter.countTokens(systemPrompt);
     const totalPromptTokens = actualContextTokens + promptTokens + systemTokens;
     
     // Recalculate generation tokens based on actual prompt size
-    const actualGenerationTokens = config.model.contextSize - totalPromptTokens - allocation.safetyMarginTokens;
+    const actualGenerationTokens = contextSize - totalPromptTokens - allocation.safetyMarginTokens;
     
     this.logger.info(`📊 Context allocation finalized`, {
       sessionId: state.sessionId,
@@ -301,7 +760,7 @@ export class ConversationStateManager {
         systemTokens,
         totalPromptTokens,
         generationTokensAvailable: actualGenerationTokens,
-        contextUtilization: Math.round((totalPromptTokens / config.model.contextSize) * 100)
+        contextUtilization: Math.round((totalPromptTokens / contextSize) * 100)
       },
       turnsIncluded: relevantHistory.length,
       totalTurns: state.turns.length
@@ -317,7 +776,7 @@ export class ConversationStateManager {
     };
     
     // Safety check - ensure we're within allocated limits
-    if (updatedAllocation.totalAllocated > config.model.contextSize) {
+    if (updatedAllocation.totalAllocated > contextSize) {
       this.logger.warn(`⚠️ Adjusted generation tokens to fit: ${updatedAllocation.maxGenerationTokens} tokens`);
     }
 
@@ -335,6 +794,24 @@ export class ConversationStateManager {
     };
   }
 
+  /**
+   * The conversation as it was right before a turn: earlier turns only, in that turn's phase
+   */
+  private rewindState(state: ConversationState, turnId: string): ConversationState {
+    const index = state.turns.findIndex(turn => turn.id === turnId);
+    if (index === -1) throw new Error(`Turn ${turnId} not found in conversation ${state.sessionId}`);
+
+    // A turn of an earlier question is rebuilt against that question
+    const laterQuestion = state.queryHistory?.find(entry => entry.turnCount > index);
+    return {
+      ...state,
+      originalQuery: laterQuestion?.query ?? state.originalQuery,
+      queryHistory: state.queryHistory?.filter(entry => entry.turnCount <= index),
+      currentPhase: state.turns[index].phase,
+      turns: state.turns.slice(0, index)
+    };
+  }
+
   /**
    * Compress conversation history for a session
    * Called at phase transitions to optimize context usage
@@ -738,7 +1215,8 @@ export class ConversationStateManager {
         const enhancedQuery = await this.llmAnalytics.generateHypotheticalDocument(
           query,
           lastTurnContent,
-          currentPhase
+          currentPhase,
+          state?.participants
         );
         
         // Step 2: Retrieve more candidates than needed
@@ -767,7 +1245,8 @@ export class ConversationStateManager {
         const rankedDocs = await this.llmAnalytics.rerankDocuments(
           query,
           candidateTurns.map(t => ({ id: t.id, content: t.content })),
-          15 // Keep top 15 after re-ranking
+          15, // Keep top 15 after re-ranking
+          state?.participants
         );
         
         // Step 4: Select best turns within token budget
@@ -859,7 +1338,8 @@ export class ConversationStateManager {
     relevantHistory: ConversationTurn[],
     tokenBudget: number,
     myLastTurn?: ConversationTurn,
-    otherModelLastTurn?: ConversationTurn
+    partnerLastTurns: ConversationTurn[] = [],
+    userInterjections: ConversationTurn[] = []
   ): string {
     // Build context sections with priority order
     const sections: { content: string; priority: number }[] = [];
@@ -874,33 +1354,54 @@ export class ConversationStateManager {
     ];
     sections.push({ content: overviewParts.join('\n'), priority: 1 });
 
-    // Priority 2: Immediate context (partner's last response)
-    if (otherModelLastTurn) {
-      const partnerResponse = `## Partner's Last Response\n${otherModelLastTurn.modelId}: ${otherModelLastTurn.content}\n\n`;
-      sections.push({ content: partnerResponse, priority: 2 });
+    // Priority 2: Questions already answered in this conversation (follow-ups only)
+    if (state.queryHistory && state.queryHistory.length > 0) {
+      const answered = state.queryHistory.slice(-3).map(entry =>
+        `Q: ${entry.query}\nA: ${entry.finalAnswer.substring(0, 600)}`
+      );
+      sections.push({
+        content: `## Earlier Questions (the original query is a follow-up)\n${answered.join('\n\n')}\n\n`,
+        priority: 2
+      });
+    }
+
+    // Priority 2: User interjections - steers the user sent mid-collaboration, new ones flagged
+    if (userInterjections.length > 0) {
+      const messages = userInterjections.slice(-3).map(turn => {
+        const isNew = !myLastTurn || turn.timestamp > myLastTurn.timestamp;
+        return `${isNew ? '[NEW - address this] ' : ''}User (${turn.phase}): ${turn.content}`;
+      });
+      sections.push({ content: `## User Interjections\n${messages.join('\n\n')}\n\n`, priority: 2 });
+    }
+
+    // Priority 3: Immediate context (partners' last responses)
+    if (partnerLastTurns.length > 0) {
+      const heading = partnerLastTurns.length === 1 ? `## Partner's Last Response` : `## Partners' Last Responses`;
+      const responses = partnerLastTurns.map(turn => `${turn.modelId}: ${turn.content}`).join('\n\n');
+      sections.push({ content: `${heading}\n${responses}\n\n`, priority: 3 });
     }
 
-    // Priority 3: Own last response
+    // Priority 4: Own last response
     if (myLastTurn) {
       const myResponse = `## Your Last Response\nYou: ${myLastTurn.content}\n\n`;
-      sections.push({ content: myResponse, priority: 3 });
+      sections.push({ content: myResponse, priority: 4 });
     }
 
-    // Priority 4: Shared understanding
+    // Priority 5: Shared understanding
     const sharedSummary = this.summarizeSharedContext(state.sharedContext);
     if (sharedSummary) {
       const sharedContext = `## Shared Understanding\n${sharedSummary}\n\n`;
-      sections.push({ content: sharedContext, priority: 4 });
+      sections.push({ content: sharedContext, priority: 5 });
     }
 
-    // Priority 5: Relevant history
+    // Priority 6: Relevant history
     if (relevantHistory.length > 0) {
       const historyParts = [`## Relevant Previous Discussion`];
       for (const turn of relevantHistory) {
         historyParts.push(`${turn.modelId} (${turn.phase}): ${turn.content}`);
         historyParts.push(``); // Empty line between turns
       }
-      sections.push({ content: historyParts.join('\n'), priority: 5 });
+      sections.push({ content: historyParts.join('\n'), priority: 6 });
     }
 
     // Build context within precise token limits using accurate counting
@@ -944,7 +1445,19 @@ export class ConversationStateManager {
 
 
 
-  private buildSystemPrompt(phase: CollaborationPhase, modelId: string, otherModelId: string): string {
+  /**
+   * Phase instruction from the conversation's workflow, falling back to the built-in instructions
+   */
+  private getPhaseInstruction(state: ConversationState, phase: CollaborationPhase): string {
+    return state.workflow?.phases.find(p => p.phase === phase)?.instruction ?? PHASE_INSTRUCTIONS[phase];
+  }
+
+  private buildSystemPrompt(
+    phase: CollaborationPhase,
+    modelId: string,
+    otherModelId: string,
+    instruction: string
+  ): string {
     if (phase === CollaborationPhase.CONSENSUS) {
       return `SYSTEM: Final Verification Protocol
 
@@ -963,13 +1476,15 @@ YOUR PROCESS:
 
 PRIORITY: Objective Truth > Previous Statements > Agreement.`;
     }
-    return `${modelId} working with ${otherModelId}: ${PHASE_INSTRUCTIONS[phase]} 
+    return `${modelId} working with ${otherModelId}: ${instruction} 
 
 CRITICAL: Trust your verified calculations! If both models reach the same answer through valid reasoning, that's SUCCESS - advocate for jumping to CONSENSUS immediately. Don't manufacture doubt where none exists.`;
   }
 
   private buildCurrentTurnPrompt(state: ConversationState, modelId: string): string {
-    const turnCount = state.turns.filter(t => t.modelId === modelId).length;
+    // Only turns on the current question count - a follow-up starts each model afresh
+    const questionStart = state.queryHistory?.[state.queryHistory.length - 1]?.turnCount ?? 0;
+    const turnCount = state.turns.slice(questionStart).filter(t => t.modelId === modelId).length;
     
     if (state.currentPhase === CollaborationPhase.CONSENSUS) {
       if (turnCount === 0) {
@@ -1021,7 +1536,7 @@ Final format: "My final verified answer is [X]. Justification: [proof]"`;
     return `Completed with ${phaseTurns.length} turns`;
   }
 
-  private async calculateContextUsage(sessionId: string, newContent: string): Promise<number> {
+  private async calculateContextUsage(sessionId: string, modelId: string, newContent: string): Promise<number> {
     // Calculate context usage for this specific turn
     // This should reflect the actual context window usage for generating this turn
     // In reality, this would be the prompt tokens + generated tokens for this turn
@@ -1036,7 +1551,14 @@ Final format: "My final verified answer is [X]. Justification: [proof]"`;
     const newTokens = this.tokenCounter.countTokens(newContent);
     const totalTokensForTurn = contextTokens + newTokens;
     
-    return totalTokensForTurn / config.model.contextSize;
+    return totalTokensForTurn / this.getContextSize(modelId);
+  }
+
+  /**
+   * A participant's context window - the configured size when models are not managed here
+   */
+  private getContextSize(modelId: string): number {
+    return this.modelService?.getContextSize(modelId) ?? config.model.contextSize;
   }
 
   private async extractKeyPoints(content: string): Promise<string[]> {
@@ -1124,7 +1646,8 @@ Final format: "My final verified answer is [X]. Justification: [proof]"`;
         const enhancedQuery = await this.llmAnalytics.generateHypotheticalDocument(
           originalQuery,
           undefined,
-          CollaborationPhase.SYNTHESIZE
+          CollaborationPhase.SYNTHESIZE,
+          state.participants
         );
         
         const contextualTurns = await this.vectorStore.search(enhancedQuery, { sessionId }, 3);
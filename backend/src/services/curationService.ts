@@ -0,0 +1,224 @@
+/**
+ * CURATION SERVICE
+ *
+ * Runs a curator model against the latest turn between participant turns.
+ * The curator's output is streamed to the UI under the curator stream ID and
+ * parsed into a CurationResult that feeds the shared context and the next
+ * participant's prompt.
+ */
+
+import { ModelService } from './modelService.js';
+import { StreamingService } from './streamingService.js';
+import { FinalAnswerService } from './finalAnswerService.js';
+import { SSEMessage, SSEMessageType, TokenChunk } from '../models/types.js';
+import { CurationResult, CurationTask, CurationTaskType } from '../models/curatedConversationTypes.js';
+import { MODEL_IDS } from '../constants/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const TASK_INSTRUCTIONS: Record<CurationTaskType, string> = {
+  [CurationTaskType.ENHANCE_CLARITY]: 'Restate the response so it is clearer and more focused. Put the rewrite under "## Enhanced Response".',
+  [CurationTaskType.EXTRACT_KEY_POINTS]: 'Pull out the main insights and conclusions of the response.',
+  [CurationTaskType.IDENTIFY_GAPS]: 'Find missing information, unchecked assumptions and gaps in the reasoning.',
+  [CurationTaskType.STRENGTHEN_ARGUMENTS]: 'Identify the strongest arguments and say what evidence or reasoning would make them stronger.',
+  [CurationTaskType.SIMPLIFY_COMPLEXITY]: 'Break the complex ideas down into simple steps. Put the simplified version under "## Enhanced Response".',
+  [CurationTaskType.CONNECT_IDEAS]: 'Link the response to earlier points in the conversation and note where participants agree.',
+  [CurationTaskType.PREPARE_CONTEXT]: 'Summarize what the next participant needs to know: settled points, open questions and what to do next.'
+};
+
+// Tasks whose rewrite of the turn is returned as enhancedContent
+const REWRITE_TASKS = new Set([CurationTaskType.ENHANCE_CLARITY, CurationTaskType.SIMPLIFY_COMPLEXITY]);
+
+// Output headings mapped to the CurationResult list they fill
+const SECTION_KEYS = {
+  'key insights': 'insights',
+  'agreements': 'agreements',
+  'gaps': 'gaps',
+  'arguments': 'arguments',
+  'next steps': 'nextSteps'
+} as const;
+
+type SectionKey = typeof SECTION_KEYS[keyof typeof SECTION_KEYS];
+
+const MAX_TURN_CHARS = 4000;
+const MAX_ITEMS_PER_SECTION = 8;
+
+export class CurationService {
+  private readonly logger = createLogger('CurationService');
+  private readonly finalAnswerService: FinalAnswerService;
+
+  /**
+   * @param signal Aborted when the collaboration is cancelled - the curator stops with what it has
+   */
+  constructor(
+    modelService: ModelService,
+    private readonly sendMessage: (message: SSEMessage) => void,
+    signal?: AbortSignal
+  ) {
+    // Curator tokens go out under the curator stream ID whichever model does the work
+    const curatorStreaming = new StreamingService((message: SSEMessage): void => {
+      if (message.type === SSEMessageType.TOKEN_CHUNK) {
+        const chunk = message.payload as TokenChunk;
+        this.sendMessage({ ...message, payload: { ...chunk, modelId: MODEL_IDS.CURATOR } });
+        return;
+      }
+      this.sendMessage(message);
+    });
+    this.finalAnswerService = new FinalAnswerService(modelService, curatorStreaming, this.sendMessage, signal);
+  }
+
+  /**
+   * Run one curation task against its target turn
+   * Returns null when the curator failed - the conversation carries on uncurated
+   */
+  async curate(task: CurationTask): Promise<CurationResult | null> {
+    const targetTurn = task.context.conversationSoFar.find(turn => turn.id === task.targetTurnId);
+    if (!targetTurn) {
+      this.logger.warn('Curation target turn not found', { sessionId: task.sessionId, targetTurnId: task.targetTurnId });
+      return null;
+    }
+
+    const startTime = Date.now();
+    this.logger.info(`🧹 Curating ${targetTurn.modelId}'s turn with ${task.curatorModelId}`, {
+      sessionId: task.sessionId,
+      task: task.task,
+      phase: task.context.currentPhase
+    });
+
+    const generation = await this.finalAnswerService.generateFinalAnswer({
+      sessionId: task.sessionId,
+      modelId: task.curatorModelId,
+      prompt: this.buildPrompt(task, targetTurn.modelId, targetTurn.content),
+      phase: task.context.currentPhase
+    });
+
+    if (!generation.success || !generation.content.trim()) {
+      this.logger.warn('Curation produced no output', { sessionId: task.sessionId, task: task.task });
+      return null;
+    }
+
+    const result = this.parseResult(task.targetTurnId, generation.content, generation.tokenMetrics.generatedTokens);
+
+    this.logger.info('✅ Curation completed', {
+      sessionId: task.sessionId,
+      task: task.task,
+      insights: result.extractedInsights.length,
+      gaps: result.contextUpdates.identifiedGaps.length,
+      confidence: result.confidence,
+      durationMs: Date.now() - startTime
+    });
+
+    this.sendMessage({
+      type: SSEMessageType.CURATION_UPDATE,
+      payload: {
+        phase: task.context.currentPhase,
+        task: task.task,
+        curatorModelId: task.curatorModelId,
+        targetTurnId: task.targetTurnId,
+        result
+      }
+    });
+
+    return result;
+  }
+
+  private buildPrompt(task: CurationTask, authorId: string, content: string): string {
+    const { sharedContext } = task.context;
+    const list = (items: string[]): string => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- (none yet)';
+    const turnText = content.length > MAX_TURN_CHARS ? `${content.substring(0, MAX_TURN_CHARS)}...` : content;
+    const rewriteSection = REWRITE_TASKS.has(task.task)
+      ? '## Enhanced Response\nThe complete rewritten response.\n\n'
+      : '';
+
+    return `You are the curator of a multi-model collaboration. You do not answer the question yourself; you prepare the conversation for the next participant.
+
+## Original Question
+${task.context.originalQuery}
+
+## Current Phase
+${task.context.currentPhase}
+
+## Shared Context
+Key points:
+${list(sharedContext.keyPoints)}
+Agreements:
+${list(sharedContext.agreements)}
+Open next steps:
+${list(sharedContext.nextSteps)}
+
+## Latest Response (${authorId})
+${turnText}
+
+## Your Task: ${task.task}
+${TASK_INSTRUCTIONS[task.task]}
+
+Reply in exactly this format, with short bullet points under each heading (write "- none" when a section is empty):
+
+## Curation Notes
+One or two sentences for the next participant.
+
+${rewriteSection}## Key Insights
+## Agreements
+## Gaps
+## Arguments
+## Next Steps
+
+Confidence: a number between 0 and 1`;
+  }
+
+  private parseResult(targetTurnId: string, raw: string, generatedTokens: number): CurationResult {
+    const text = raw.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+    const sections: Record<SectionKey, string[]> = { insights: [], agreements: [], gaps: [], arguments: [], nextSteps: [] };
+    let notes = '';
+    let enhancedContent = '';
+
+    const confidenceMatch = text.match(/confidence:\s*\**\s*([\d.]+)/i);
+    const confidence = confidenceMatch ? Math.min(1, Math.max(0, Number(confidenceMatch[1]) || 0)) : 0.5;
+
+    const blocks = text.split(/^##\s+/m).slice(1);
+    for (const block of blocks) {
+      const newline = block.indexOf('\n');
+      const heading = (newline === -1 ? block : block.substring(0, newline)).trim().toLowerCase();
+      const body = (newline === -1 ? '' : block.substring(newline + 1))
+        .replace(/^\s*\**confidence:.*$/gim, '')
+        .trim();
+
+      if (heading.startsWith('curation notes')) {
+        notes = body;
+      } else if (heading.startsWith('enhanced response')) {
+        enhancedContent = body;
+      } else {
+        const match = Object.entries(SECTION_KEYS).find(([label]) => heading.startsWith(label));
+        if (match) sections[match[1]] = this.parseBullets(body);
+      }
+    }
+
+    // A curator that ignored the format still leaves useful notes
+    if (blocks.length === 0) {
+      notes = text.replace(/^\s*\**confidence:.*$/gim, '').trim();
+    }
+
+    return {
+      originalTurnId: targetTurnId,
+      enhancedContent,
+      extractedInsights: sections.insights,
+      contextUpdates: {
+        newKeyPoints: sections.insights,
+        clarifiedAgreements: sections.agreements,
+        identifiedGaps: sections.gaps,
+        strengthenedArguments: sections.arguments
+      },
+      recommendedNextSteps: sections.nextSteps,
+      curationNotes: notes,
+      confidence,
+      generatedTokens
+    };
+  }
+
+  private parseBullets(body: string): string[] {
+    return body
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(line => line.length > 0 && !/^(none|n\/a)\.?$/i.test(line))
+      .slice(0, MAX_ITEMS_PER_SECTION);
+  }
+}
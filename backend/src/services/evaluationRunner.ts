@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+
+import { ModelService } from './modelService.js';
+import { RedisService } from './redisService.js';
+import { CollaborationOrchestrator } from './collaborationOrchestrator.js';
+import { ConversationStateManager } from './conversationStateManager.js';
+import { CollaborationPhase, SSEMessage, SSEMessageType, TokenChunk } from '../models/types.js';
+import { ConversationTurn, StructuredSolution } from '../models/conversationTypes.js';
+import { WorkflowDefinition } from '../models/workflowTypes.js';
+import {
+  EvaluationItem,
+  EvaluationItemResult,
+  EvaluationReport
+} from '../models/evaluationTypes.js';
+import { createLogger } from '../utils/logger.js';
+
+const DEFAULT_TOLERANCE = 1e-6;
+const CANCEL_WAIT_MS = 30000; // How long a timed-out item may take to release its contexts
+
+export interface EvaluationOptions {
+  models: string[];
+  workflow: WorkflowDefinition;
+  itemTimeoutMs: number;
+  onItemComplete?: (result: EvaluationItemResult, index: number, total: number) => void;
+}
+
+/**
+ * EVALUATION RUNNER
+ *
+ * Runs every dataset item through a full in-process collaboration and scores
+ * the final StructuredSolution. The ModelService is injected, so the same
+ * runner works against local GGUF models, remote endpoints or a fake provider.
+ */
+export class EvaluationRunner {
+  private readonly logger = createLogger('EvaluationRunner');
+  private readonly conversationManager: ConversationStateManager;
+
+  constructor(
+    private readonly modelService: ModelService,
+    private readonly redisService: RedisService
+  ) {
+    this.conversationManager = new ConversationStateManager(redisService);
+  }
+
+  /**
+   * Load a JSONL dataset, skipping blank lines and `//` comments
+   */
+  static async loadDataset(datasetPath: string): Promise<EvaluationItem[]> {
+    const raw = await fs.readFile(datasetPath, 'utf-8');
+    const items: EvaluationItem[] = [];
+
+    raw.split('\n').forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('//')) return;
+
+      const item = JSON.parse(trimmed) as Partial<EvaluationItem>;
+      if (typeof item.question !== 'string' || (typeof item.expected !== 'string' && typeof item.expected !== 'number')) {
+        throw new Error(`Invalid dataset line ${index + 1}: question and expected are required`);
+      }
+      items.push({
+        id: item.id ?? `item-${items.length + 1}`,
+        question: item.question,
+        expected: item.expected,
+        tolerance: item.tolerance
+      });
+    });
+
+    return items;
+  }
+
+  async run(dataset: string, items: EvaluationItem[], options: EvaluationOptions): Promise<EvaluationReport> {
+    const startedAt = new Date().toISOString();
+    const results: EvaluationItemResult[] = [];
+
+    this.logger.info(`🧪 Starting evaluation of ${items.length} items`, {
+      dataset,
+      models: options.models,
+      workflowId: options.workflow.id
+    });
+
+    for (const [index, item] of items.entries()) {
+      const result = await this.runItem(item, options);
+      results.push(result);
+      options.onItemComplete?.(result, index, items.length);
+    }
+
+    const completed = results.length || 1;
+    const correct = results.filter(result => result.correct).length;
+    const report: EvaluationReport = {
+      dataset,
+      models: options.models,
+      workflowId: options.workflow.id,
+      startedAt,
+      completedAt: new Date().toISOString(),
+      summary: {
+        total: results.length,
+        correct,
+        accuracy: results.length > 0 ? correct / results.length : 0,
+        errors: results.filter(result => result.status !== 'completed').length,
+        averageTurns: results.reduce((sum, result) => sum + result.turns, 0) / completed,
+        averageTokens: results.reduce((sum, result) => sum + result.tokens, 0) / completed,
+        averageDurationMs: results.reduce((sum, result) => sum + result.durationMs, 0) / completed
+      },
+      items: results
+    };
+
+    this.logger.info(`📊 Evaluation finished: ${correct}/${results.length} correct`, report.summary);
+    return report;
+  }
+
+  private async runItem(item: EvaluationItem, options: EvaluationOptions): Promise<EvaluationItemResult> {
+    const sessionId = `eval-${randomUUID()}`;
+    const startTime = Date.now();
+    let tokens = 0;
+    let error: string | undefined;
+
+    const onMessage = (message: SSEMessage): void => {
+      if (message.type === SSEMessageType.TOKEN_CHUNK) {
+        tokens += (message.payload as TokenChunk).tokens.length;
+      } else if (message.type === SSEMessageType.ERROR) {
+        error = String(message.payload.error ?? 'Unknown error');
+      }
+    };
+
+    await this.redisService.storeSession(sessionId, {
+      prompt: item.question,
+      models: options.models,
+      workflow: options.workflow,
+      status: 'initiated',
+      createdAt: new Date().toISOString()
+    });
+
+    const orchestrator = new CollaborationOrchestrator(this.modelService, this.redisService, onMessage);
+
+    let timedOut = false;
+    let timeout: NodeJS.Timeout | undefined;
+    const collaboration = orchestrator.startCollaboration(sessionId);
+    await Promise.race([
+      collaboration,
+      new Promise<void>(resolve => {
+        timeout = setTimeout(() => {
+          timedOut = true;
+          orchestrator.cancel();
+          resolve();
+        }, options.itemTimeoutMs);
+      })
+    ]);
+    clearTimeout(timeout);
+
+    // The cancelled run stops at its next check - let it release its contexts before the next item starts
+    if (timedOut) {
+      await this.waitForCancelledRun(collaboration, item.id);
+    }
+
+    const state = await this.conversationManager.getConversationState(sessionId);
+    const solution = state ? this.getFinalSolution(state.turns) : null;
+    const actual = solution?.value ?? null;
+
+    const result: EvaluationItemResult = {
+      id: item.id,
+      question: item.question,
+      expected: item.expected,
+      actual,
+      correct: !timedOut && !error && actual !== null && EvaluationRunner.isCorrect(actual, item.expected, item.tolerance),
+      status: timedOut ? 'timeout' : error ? 'error' : 'completed',
+      error: timedOut ? `Timed out after ${options.itemTimeoutMs}ms` : error,
+      phasesUsed: state ? this.getPhasesUsed(state.turns.map(turn => turn.phase)) : [],
+      turns: state?.turns.length ?? 0,
+      tokens,
+      durationMs: Date.now() - startTime
+    };
+
+    this.logger.info(`${result.correct ? '✅' : '❌'} Evaluated ${item.id}`, {
+      expected: item.expected,
+      actual,
+      status: result.status,
+      turns: result.turns,
+      durationMs: result.durationMs
+    });
+
+    return result;
+  }
+
+  private async waitForCancelledRun(collaboration: Promise<void>, itemId: string): Promise<void> {
+    let timeout: NodeJS.Timeout | undefined;
+    const stopped = await Promise.race([
+      collaboration.then(() => true, () => true),
+      new Promise<boolean>(resolve => {
+        timeout = setTimeout(() => resolve(false), CANCEL_WAIT_MS);
+      })
+    ]);
+    clearTimeout(timeout);
+
+    if (!stopped) {
+      this.logger.warn(`⚠️ Cancelled run of ${itemId} still busy after ${CANCEL_WAIT_MS}ms - moving on`);
+    }
+  }
+
+  /**
+   * The most recent turn carrying a structured solution holds the final answer
+   */
+  private getFinalSolution(turns: ConversationTurn[]): StructuredSolution | null {
+    const withSolution = turns
+      .filter(turn => turn.metadata.structuredSolution)
+      .sort((a, b) => b.timestamp - a.timestamp);
+    return withSolution[0]?.metadata.structuredSolution ?? null;
+  }
+
+  private getPhasesUsed(phases: CollaborationPhase[]): CollaborationPhase[] {
+    return phases.filter((phase, index) => phases[index - 1] !== phase);
+  }
+
+  /**
+   * Compare answers numerically when both sides parse as numbers, otherwise as normalised strings
+   */
+  static isCorrect(actual: string | number, expected: string | number, tolerance: number = DEFAULT_TOLERANCE): boolean {
+    const actualNumber = EvaluationRunner.parseNumber(actual);
+    const expectedNumber = EvaluationRunner.parseNumber(expected);
+
+    if (actualNumber !== null && expectedNumber !== null) {
+      return Math.abs(actualNumber - expectedNumber) <= tolerance;
+    }
+
+    return EvaluationRunner.normalizeAnswer(actual) === EvaluationRunner.normalizeAnswer(expected);
+  }
+
+  private static parseNumber(value: string | number): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+    const cleaned = EvaluationRunner.normalizeAnswer(value).replace(/[,$%\s]/g, '');
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+    return Number(cleaned);
+  }
+
+  private static normalizeAnswer(value: string | number): string {
+    return String(value)
+      .toLowerCase()
+      .replace(/\\boxed\{([^}]*)\}/g, '$1')
+      .replace(/\\text\{([^}]*)\}/g, '$1')
+      .replace(/[$\\]/g, '')
+      .replace(/[.。]+$/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -16,7 +16,6 @@ import {
 } from '../models/types.js';
 import { LlamaContext, Token } from 'node-llama-cpp';
 import { createLogger } from '../utils/logger.js';
-import { config } from '../config.js';
 import { PromptFormatter } from './promptFormatter.js';
 
 export interface FinalAnswerOptions {
@@ -49,13 +48,17 @@ export class FinalAnswerService {
   private contextAllocator: ContextAllocator;
   private tokenCounter: TokenCounter;
 
+  /**
+   * @param signal Aborted when the collaboration is cancelled - generation stops with what it has
+   */
   constructor(
     private modelService: ModelService,
     private streamingService: StreamingService,
-    private sendMessage: (message: SSEMessage) => void
+    private sendMessage: (message: SSEMessage) => void,
+    private signal?: AbortSignal
   ) {
     this.tokenCounter = new TokenCounter();
-    this.contextAllocator = new ContextAllocator(this.tokenCounter);
+    this.contextAllocator = new ContextAllocator(this.tokenCounter, modelService);
     
     this.logger.info('📝 FinalAnswerService initialized');
   }
@@ -65,6 +68,7 @@ export class FinalAnswerService {
    */
   async generateFinalAnswer(options: FinalAnswerOptions): Promise<FinalAnswerResult> {
     const startTime = Date.now();
+    const tokenCounter = this.modelService.getTokenCounter(options.modelId);
     let context: LlamaContext | null = null;
     
     try {
@@ -75,17 +79,19 @@ export class FinalAnswerService {
         routeToSynthesis: options.routeToSynthesis
       });
 
-      // Acquire model context
-      context = await this.modelService.acquireContext(options.modelId);
-      this.logger.info('📤 Model context acquired for final answer generation');
+      // Acquire model context (remote models stream over HTTP instead)
+      if (!this.modelService.isRemoteModel(options.modelId)) {
+        context = await this.modelService.acquireContext(options.modelId);
+        this.logger.info('📤 Model context acquired for final answer generation');
+      }
 
       // Calculate token allocation if not provided
       let allocation = options.tokenAllocation;
       if (!allocation) {
-        const promptTokens = this.tokenCounter.countTokens(options.prompt);
+        const promptTokens = tokenCounter.countTokens(options.prompt);
         allocation = this.contextAllocator.calculateAllocation(
           options.phase,
-          config.model.contextSize || 4096,
+          this.modelService.getContextSize(options.modelId),
           '',
           options.modelId,
           'synthesis',
@@ -113,13 +119,20 @@ export class FinalAnswerService {
         // Frontend will now activate synthesis panel on first actual token
 
         // Generate the final answer
-        finalAnswer = await this.generateWithStreaming(
-          options.modelId,
-          context,
-          options.prompt,
-          options.phase,
-          allocation
-        );
+        finalAnswer = context
+          ? await this.generateWithStreaming(
+            options.modelId,
+            context,
+            options.prompt,
+            options.phase,
+            allocation
+          )
+          : await this.generateWithRemoteStreaming(
+            options.modelId,
+            options.prompt,
+            options.phase,
+            allocation
+          );
 
         // Ensure completion signal is sent
         this.sendCompletionSignal(options.modelId, options.phase, options.routeToSynthesis);
@@ -128,8 +141,8 @@ export class FinalAnswerService {
         const generationTime = endTime - startTime;
         
         // Calculate metrics
-        const promptTokens = this.tokenCounter.countTokens(options.prompt);
-        const generatedTokens = this.tokenCounter.countTokens(finalAnswer);
+        const promptTokens = tokenCounter.countTokens(options.prompt);
+        const generatedTokens = tokenCounter.countTokens(finalAnswer);
         const totalTokens = promptTokens + generatedTokens;
         const tokensPerSecond = Math.round((generatedTokens / generationTime) * 1000);
 
@@ -278,7 +291,11 @@ export class FinalAnswerService {
         topK: modelConfig.settings.topK,
         minP: modelConfig.settings.minP,
         maxTokens: allocation.maxGenerationTokens,
+        signal: this.signal,
+        stopOnAbortSignal: true, // Resolve with the partial response instead of throwing
         onToken: (tokens: Token[]): void => {
+          if (this.signal?.aborted) return;
+
           // Add new tokens to buffer
           tokenBuffer.push(...tokens);
           
@@ -323,6 +340,52 @@ export class FinalAnswerService {
     }
   }
 
+  /**
+   * Generate content with streaming from an OpenAI-compatible endpoint
+   */
+  private async generateWithRemoteStreaming(
+    modelId: string,
+    prompt: string,
+    phase: CollaborationPhase,
+    allocation: TokenAllocation
+  ): Promise<string> {
+    const modelConfig = this.modelService.getModelConfig(modelId);
+    if (!modelConfig) {
+      throw new Error(`Model config not found for ${modelId}`);
+    }
+
+    this.logger.info('🚀 Starting remote streaming generation', {
+      modelId,
+      phase,
+      maxTokens: allocation.maxGenerationTokens
+    });
+
+    const response = await this.modelService.generateRemote(
+      modelId,
+      {
+        prompt,
+        maxTokens: allocation.maxGenerationTokens,
+        temperature: modelConfig.settings.temperature,
+        topP: modelConfig.settings.topP,
+        topK: modelConfig.settings.topK,
+        minP: modelConfig.settings.minP,
+        phase
+      },
+      (text) => {
+        if (!this.isAborted()) {
+          this.streamingService.addToken(modelId, phase, text);
+        }
+      },
+      () => this.isAborted()
+    );
+
+    this.logger.info('📝 Generation completed', {
+      responseLength: response.length
+    });
+
+    return response;
+  }
+
   /**
    * Send completion signal
    */
@@ -374,6 +437,10 @@ export class FinalAnswerService {
     this.streamingService.completeStream(targetModelId, phase);
   }
 
+  private isAborted(): boolean {
+    return this.signal?.aborted ?? false;
+  }
+
   /**
    * Generate fallback response when main generation fails
    */
@@ -384,6 +451,7 @@ export class FinalAnswerService {
     });
 
     const fallbackContent = "I apologize, but I encountered an issue generating the final response. Please try again.";
+    const fallbackTokens = this.modelService.getTokenCounter(options.modelId).countTokens(fallbackContent);
     
     // Stream the fallback content
     if (options.routeToSynthesis) {
@@ -400,8 +468,8 @@ export class FinalAnswerService {
       success: false,
       tokenMetrics: {
         promptTokens: 0,
-        generatedTokens: this.tokenCounter.countTokens(fallbackContent),
-        totalTokens: this.tokenCounter.countTokens(fallbackContent),
+        generatedTokens: fallbackTokens,
+        totalTokens: fallbackTokens,
         generationTimeMs: 0,
         tokensPerSecond: 0
       }
@@ -8,7 +8,7 @@
 
 import { ModelService } from './modelService.js';
 import { ConversationCompressor } from './conversationCompressor.js';
-import { RedisVectorStore } from './redisVectorStore.js';
+import { VectorStore } from '../models/vectorStoreTypes.js';
 import { TokenCounter } from './tokenCounter.js';
 import { CollaborationPhase } from '../models/types.js';
 import { ConversationTurn } from '../models/conversationTypes.js';
@@ -51,7 +51,7 @@ export class HistoryOptimizationService {
   constructor(
     _modelService: ModelService,
     private conversationCompressor: ConversationCompressor,
-    private vectorStore: RedisVectorStore,
+    private vectorStore: VectorStore,
     private tokenCounter: TokenCounter
   ) {
     this.logger.info('🔄 HistoryOptimizationService initialized - ready for GEMMA3 optimization');
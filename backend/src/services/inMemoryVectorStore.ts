@@ -0,0 +1,276 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+import { EmbeddingService } from './embeddingService.js';
+import { createLogger } from '../utils/logger.js';
+import { isNodeError } from '../utils/typeGuards.js';
+import { config } from '../config.js';
+import {
+  RelevantExchange,
+  VectorDocument,
+  VectorDocumentMetadata,
+  VectorSearchFilters,
+  VectorSearchResult,
+  VectorStore
+} from '../models/vectorStoreTypes.js';
+
+/**
+ * Delay before changes are written, so a burst of stored turns is saved once
+ */
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Documents outlive their conversation state no longer than a Redis key would
+ */
+const DOCUMENT_TTL_MS = config.redis.ttl * 1000;
+
+/**
+ * A document and when it expires - written, updated or copied documents get a full TTL again
+ */
+interface StoredDocument extends VectorDocument {
+  expiresAt: number;
+}
+
+/**
+ * IN-MEMORY VECTOR STORE
+ *
+ * Keeps conversation embeddings in process and ranks them by cosine similarity,
+ * for Redis servers without the search module or no Redis at all. Filters match
+ * exactly, like RediSearch TAG fields. With a persist path the documents are
+ * written to a JSON file and reloaded at startup. Documents expire after the
+ * Redis TTL; expired ones are swept whenever documents are stored or loaded.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private readonly documents = new Map<string, StoredDocument>();
+  private readonly embeddingService = new EmbeddingService();
+  private readonly logger = createLogger('InMemoryVectorStore');
+  private readonly persistPath: string | null;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+
+  /**
+   * @param persistPath JSON file to save documents to, empty to keep them in memory only
+   */
+  constructor(persistPath: string = '') {
+    this.persistPath = persistPath ? path.resolve(persistPath) : null;
+  }
+
+  async initialize(): Promise<void> {
+    await this.embeddingService.initialize();
+    await this.load();
+    this.logger.info('✅ In-memory vector store initialized', {
+      documents: this.documents.size,
+      persistPath: this.persistPath ?? 'none'
+    });
+  }
+
+  async storeDocument(id: string, content: string, metadata: VectorDocumentMetadata): Promise<void> {
+    const vector = await this.embeddingService.embed(content);
+    this.sweepExpired();
+    this.documents.set(id, { id, content, vector, metadata, expiresAt: Date.now() + DOCUMENT_TTL_MS });
+    this.schedulePersist();
+  }
+
+  async updateDocument(
+    id: string,
+    content: string,
+    additionalMetadata: Record<string, unknown>
+  ): Promise<void> {
+    const doc = this.getLiveDocument(id);
+    if (!doc) {
+      throw new Error(`Document ${id} not found`);
+    }
+
+    doc.content = content;
+    doc.vector = await this.embeddingService.embed(content);
+    doc.metadata = {
+      ...doc.metadata,
+      ...additionalMetadata
+    };
+    doc.expiresAt = Date.now() + DOCUMENT_TTL_MS;
+
+    this.logger.debug(`Updated document ${id} with compressed content`);
+    this.schedulePersist();
+  }
+
+  async copyDocument(sourceId: string, targetId: string, sessionId: string): Promise<boolean> {
+    const doc = this.getLiveDocument(sourceId);
+    if (!doc) return false;
+
+    this.documents.set(targetId, {
+      ...doc,
+      id: targetId,
+      metadata: { ...doc.metadata, sessionId },
+      expiresAt: Date.now() + DOCUMENT_TTL_MS
+    });
+    this.schedulePersist();
+    return true;
+  }
+
+  async search(
+    query: string,
+    filters: VectorSearchFilters = {},
+    topK: number = 5
+  ): Promise<VectorSearchResult[]> {
+    try {
+      const now = Date.now();
+      const candidates = Array.from(this.documents.values())
+        .filter(doc => doc.expiresAt > now && this.matchesFilters(doc, filters));
+      if (candidates.length === 0) return [];
+
+      const queryVector = await this.embeddingService.embed(query);
+
+      return candidates
+        .map(doc => ({
+          id: doc.id,
+          content: doc.content,
+          // Same scale as the Redis store: 1 = identical, 0 = opposite
+          score: (1 + this.cosineSimilarity(queryVector, doc.vector)) / 2,
+          metadata: { ...doc.metadata } as Record<string, unknown>
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    } catch (error) {
+      this.logger.error('Failed to search documents:', error);
+      return [];
+    }
+  }
+
+  async getRelevantExchanges(
+    sessionId: string,
+    _currentPhase: string,
+    modelId: string,
+    query: string,
+    limit: number = config.context.relevantExchanges
+  ): Promise<RelevantExchange[]> {
+    // Search both models' turns, then keep the best of each side
+    const results = await this.search(query, { sessionId }, limit * 2);
+    const ownResults = results.filter(r => r.metadata.modelId === modelId);
+    const otherModelResults = results.filter(r => r.metadata.modelId !== modelId);
+
+    return [...ownResults.slice(0, limit), ...otherModelResults.slice(0, limit)].map(result => ({
+      phase: result.metadata.phase as string,
+      modelId: result.metadata.modelId as string,
+      content: result.content,
+    }));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    let deleted = 0;
+    for (const [id, doc] of this.documents) {
+      if (this.matchesTag(doc.metadata.sessionId, sessionId)) {
+        this.documents.delete(id);
+        deleted++;
+      }
+    }
+
+    if (deleted > 0) this.schedulePersist();
+    this.logger.info(`Deleted ${deleted} documents for session ${sessionId}`);
+  }
+
+  async clear(): Promise<void> {
+    this.documents.clear();
+    this.schedulePersist();
+  }
+
+  private getLiveDocument(id: string): StoredDocument | undefined {
+    const doc = this.documents.get(id);
+    return doc && doc.expiresAt > Date.now() ? doc : undefined;
+  }
+
+  /**
+   * Drop expired documents, returning how many were removed
+   */
+  private sweepExpired(): number {
+    const now = Date.now();
+    let expired = 0;
+    for (const [id, doc] of this.documents) {
+      if (doc.expiresAt <= now) {
+        this.documents.delete(id);
+        expired++;
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.info(`🧹 Expired ${expired} vector documents`);
+      this.schedulePersist();
+    }
+    return expired;
+  }
+
+  private matchesFilters(doc: VectorDocument, filters: VectorSearchFilters): boolean {
+    return (!filters.sessionId || this.matchesTag(doc.metadata.sessionId, filters.sessionId)) &&
+      (!filters.phase || this.matchesTag(doc.metadata.phase, filters.phase)) &&
+      (!filters.modelId || this.matchesTag(doc.metadata.modelId, filters.modelId));
+  }
+
+  /**
+   * TAG fields match whole values, ignoring case
+   */
+  private matchesTag(value: string, filter: string): boolean {
+    return value.toLowerCase() === filter.toLowerCase();
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    const length = Math.min(a.length, b.length);
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / Math.sqrt(normA * normB);
+  }
+
+  private async load(): Promise<void> {
+    if (!this.persistPath) return;
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.persistPath, 'utf-8');
+    } catch (error) {
+      if (isNodeError(error) && error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    try {
+      // Files written before expiry was tracked fall back to the turn's timestamp
+      const documents = JSON.parse(raw) as Array<VectorDocument & { expiresAt?: number }>;
+      for (const doc of documents) {
+        this.documents.set(doc.id, { ...doc, expiresAt: doc.expiresAt ?? doc.metadata.timestamp + DOCUMENT_TTL_MS });
+      }
+      const expired = this.sweepExpired();
+      this.logger.info(`📂 Loaded ${documents.length - expired} vector documents`, { persistPath: this.persistPath, expired });
+    } catch (error) {
+      this.logger.error(`Failed to parse vector store file ${this.persistPath}:`, error);
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.persistPath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persisting = this.persisting
+        .then(() => this.persist())
+        .catch(error => this.logger.error('Failed to save vector store:', error));
+    }, PERSIST_DELAY_MS);
+  }
+
+  /**
+   * Write to a temporary file first so a crash never leaves a truncated store
+   */
+  private async persist(): Promise<void> {
+    if (!this.persistPath) return;
+
+    const tempPath = `${this.persistPath}.tmp`;
+    await fs.mkdir(path.dirname(this.persistPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(this.documents.values())), 'utf-8');
+    await fs.rename(tempPath, this.persistPath);
+  }
+}
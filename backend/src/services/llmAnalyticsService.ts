@@ -5,6 +5,7 @@ import { TokenCounter } from './tokenCounter.js';
 import { createLogger } from '../utils/logger.js';
 import { CollaborationPhase } from '../models/types.js';
 import { ConversationTurn } from '../models/conversationTypes.js';
+import { ModelRole } from '../models/curatedConversationTypes.js';
 import { LlamaChatSession } from 'node-llama-cpp';
 import crypto from 'crypto';
 
@@ -18,19 +19,31 @@ import crypto from 'crypto';
  * - Intelligent summarization - createSynthesisSummary()
  * 
  * All methods are actively used by ConversationStateManager.
- * All operations are cached in Redis for performance.
+ * All operations are cached in Redis for performance. They run on a CURATOR model,
+ * preferably one of the session's participants.
  */
 export class LLMAnalyticsService {
   private readonly logger = createLogger('LLMAnalytics');
   private readonly CACHE_TTL = 3600; // 1 hour cache
-  private readonly GEMMA_MODEL_ID = 'gemma-3-12b-it-q4-0';
-  private readonly tokenCounter: TokenCounter;
+  private readonly estimatingCounter = new TokenCounter();
 
   constructor(
     private modelService: ModelService,
     private redisService: RedisService
-  ) {
-    this.tokenCounter = new TokenCounter();
+  ) {}
+
+  /**
+   * Analytics model for a task, preferring the given participants
+   */
+  private resolveModel(preferred: readonly string[]): string | undefined {
+    return this.modelService.resolveRoleModel(ModelRole.CURATOR, preferred);
+  }
+
+  /**
+   * Excerpts are budgeted in the analytics model's own tokens
+   */
+  private getTokenCounter(modelId: string | undefined): TokenCounter {
+    return modelId ? this.modelService.getTokenCounter(modelId) : this.estimatingCounter;
   }
 
   /**
@@ -79,7 +92,8 @@ export class LLMAnalyticsService {
   async generateHypotheticalDocument(
     query: string, 
     context?: string,
-    phase?: CollaborationPhase
+    phase?: CollaborationPhase,
+    participants: readonly string[] = []
   ): Promise<string> {
     const cacheKey = this.generateCacheKey('hyde', query, context || '', phase || '');
     
@@ -104,7 +118,7 @@ Generate a comprehensive document that would be the PERFECT match for this query
 Make the document rich with relevant keywords while remaining natural and coherent.
 Aim for 150-200 words.`;
 
-      const result = await this.executeLLMTask(prompt, 300);
+      const result = await this.executeLLMTask(this.resolveModel(participants), prompt, 300);
       await this.cacheResult(cacheKey, result);
       
       this.logger.info(`🔍 Generated HyDE document for query: "${query.substring(0, 50)}..."`);
@@ -121,9 +135,13 @@ Aim for 150-200 words.`;
   async rerankDocuments(
     query: string,
     documents: { id: string; content: string }[],
-    topK: number = 5
+    topK: number = 5,
+    participants: readonly string[] = []
   ): Promise<{ id: string; score: number; reason?: string }[]> {
     if (documents.length === 0) return [];
+
+    const modelId = this.resolveModel(participants);
+    const tokenCounter = this.getTokenCounter(modelId);
     
     const cacheKey = this.generateCacheKey(
       'rerank', 
@@ -149,7 +167,7 @@ Aim for 150-200 words.`;
 **Documents to Score:**
 ${batch.map((doc, idx) => `
 Document ${idx + 1} (ID: ${doc.id}):
-${this.tokenCounter.truncateToTokenLimit(doc.content, 200)}
+${tokenCounter.truncateToTokenLimit(doc.content, 200)}
 `).join('\n')}
 
 **Your Task:**
@@ -166,7 +184,7 @@ Focus on:
 - Specificity of answer
 - Recency/phase of information`;
 
-        const response = await this.executeLLMTask(prompt, 400);
+        const response = await this.executeLLMTask(modelId, prompt, 400);
         
         // Parse JSON response
         try {
@@ -251,14 +269,17 @@ Focus on:
     }>(cacheKey);
     if (cached) return cached;
 
+    const modelId = this.resolveModel([turnA.modelId, turnB.modelId]);
+    const tokenCounter = this.getTokenCounter(modelId);
+
     try {
       const prompt = `You are an expert at analyzing AI collaboration. Extract key information from these two model responses.
 
 **${turnA.modelId} Response (${turnA.phase}):**
-${this.tokenCounter.truncateToTokenLimit(turnA.content, 400)}
+${tokenCounter.truncateToTokenLimit(turnA.content, 400)}
 
 **${turnB.modelId} Response (${turnB.phase}):**
-${this.tokenCounter.truncateToTokenLimit(turnB.content, 400)}
+${tokenCounter.truncateToTokenLimit(turnB.content, 400)}
 
 **Your Task:**
 Analyze both responses and extract:
@@ -277,7 +298,7 @@ Return ONLY a JSON object in this exact format:
 
 Be concise - each item should be a single, clear statement.`;
 
-      const response = await this.executeLLMTask(prompt, 500);
+      const response = await this.executeLLMTask(modelId, prompt, 500);
       
       // Parse JSON response
       let result = {
@@ -332,6 +353,9 @@ Be concise - each item should be a single, clear statement.`;
     const cached = await this.getCached<string>(cacheKey);
     if (cached) return cached;
 
+    const modelId = this.resolveModel(turns.map(t => t.modelId));
+    const tokenCounter = this.getTokenCounter(modelId);
+
     try {
       const prompt = `You are a summarization expert preparing content for final synthesis.
 
@@ -340,7 +364,7 @@ Be concise - each item should be a single, clear statement.`;
 **Conversation Turns to Summarize:**
 ${turns.map(turn => `
 ### ${turn.modelId} (${turn.phase}):
-${this.tokenCounter.truncateToTokenLimit(turn.content, 300)}
+${tokenCounter.truncateToTokenLimit(turn.content, 300)}
 `).join('\n')}
 
 **Your Task:**
@@ -359,16 +383,16 @@ Create a concise, information-dense summary optimized for synthesis that include
 
 Generate the summary:`;
 
-      const result = await this.executeLLMTask(prompt, targetTokens + 100);
+      const result = await this.executeLLMTask(modelId, prompt, targetTokens + 100);
       await this.cacheResult(cacheKey, result);
       
-      this.logger.info(`📝 Created synthesis summary (${this.tokenCounter.countTokens(result)} tokens)`);
+      this.logger.info(`📝 Created synthesis summary (${tokenCounter.countTokens(result)} tokens)`);
       return result;
     } catch (error) {
       this.logger.error('Synthesis summary creation failed:', error);
       // Fallback to simple concatenation
       return turns.map(t => 
-        `${t.modelId}: ${this.tokenCounter.truncateToTokenLimit(t.content, 100)}...`
+        `${t.modelId}: ${tokenCounter.truncateToTokenLimit(t.content, 100)}...`
       ).join('\n\n');
     }
   }
@@ -376,18 +400,28 @@ Generate the summary:`;
   /**
    * Execute LLM task with proper error handling
    */
-  private async executeLLMTask(prompt: string, maxTokens: number): Promise<string> {
-    const context = await this.modelService.acquireContext(this.GEMMA_MODEL_ID);
+  private async executeLLMTask(modelId: string | undefined, prompt: string, maxTokens: number): Promise<string> {
+    if (!modelId) {
+      throw new Error(`No model available for the ${ModelRole.CURATOR} role`);
+    }
+
+    const systemPrompt = 'You are an AI assistant specialized in data analysis and optimization.';
+    if (this.modelService.isRemoteModel(modelId)) {
+      const response = await this.modelService.generateRemote(
+        modelId,
+        { systemPrompt, prompt, maxTokens, temperature: 0.3 },
+        () => undefined
+      );
+      return response.trim();
+    }
+
+    const context = await this.modelService.acquireContext(modelId);
     
     try {
-      const modelConfig = this.modelService.getModelConfig(this.GEMMA_MODEL_ID);
-      if (!modelConfig) throw new Error('Gemma model not found');
+      const modelConfig = this.modelService.getModelConfig(modelId);
+      if (!modelConfig) throw new Error(`Model config not found for ${modelId}`);
 
-      const formatted = PromptFormatter.formatPrompt(
-        modelConfig,
-        'You are an AI assistant specialized in data analysis and optimization.',
-        prompt
-      );
+      const formatted = PromptFormatter.formatPrompt(modelConfig, systemPrompt, prompt);
 
       const sequence = context.getSequence();
       try {
@@ -406,7 +440,7 @@ Generate the summary:`;
         sequence.dispose();
       }
     } finally {
-      this.modelService.releaseContext(this.GEMMA_MODEL_ID, context);
+      this.modelService.releaseContext(modelId, context);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,181 @@
+import fs from 'fs/promises';
+
+import { CollaborationPhase, ModelConfig } from '../models/types.js';
+import { ChatCompletionRequest } from './openAICompatibleProvider.js';
+import { createLogger } from '../utils/logger.js';
+import { config } from '../config.js';
+
+/**
+ * One scripted response. Every key is optional; the first rule whose keys all
+ * match the request wins. `{{model}}`, `{{phase}}` and `{{answer}}` are substituted.
+ */
+export interface MockScriptRule {
+  model?: string;
+  phase?: CollaborationPhase;
+  pattern?: string; // Regular expression tested against the system prompt and prompt
+  response: string;
+}
+
+export interface MockScript {
+  answer?: string | number; // Answer used by the default responses
+  rules: MockScriptRule[];
+}
+
+const DEFAULT_ANSWER = 42;
+
+/**
+ * MOCK MODEL PROVIDER
+ *
+ * Deterministic stand-in for a model backend: responses come from a script
+ * (or built-in defaults) and are streamed word by word with configurable
+ * latency. Structured requests from the agreement analyst get valid JSON, so
+ * complete collaborations run without GGUF files or an endpoint.
+ */
+export class MockModelProvider {
+  private readonly logger = createLogger('MockModelProvider');
+  private script: MockScript = { rules: [] };
+
+  /**
+   * Load response rules from a JSON script file
+   */
+  async loadScript(scriptPath: string): Promise<void> {
+    const raw = await fs.readFile(scriptPath, 'utf-8');
+    const script = JSON.parse(raw) as Partial<MockScript>;
+    if (!Array.isArray(script.rules) || script.rules.some(rule => typeof rule.response !== 'string')) {
+      throw new Error(`Invalid mock script ${scriptPath}: expected { "rules": [{ "response": string, ... }] }`);
+    }
+
+    this.setScript({ answer: script.answer, rules: script.rules });
+    this.logger.info(`📜 Loaded mock script with ${script.rules.length} rules`, { scriptPath });
+  }
+
+  setScript(script: MockScript): void {
+    this.script = script;
+  }
+
+  /**
+   * Same contract as OpenAICompatibleProvider.streamChatCompletion
+   */
+  async streamChatCompletion(
+    modelConfig: ModelConfig,
+    request: ChatCompletionRequest,
+    onText: (text: string) => void,
+    shouldStop?: () => boolean
+  ): Promise<string> {
+    const response = this.resolveResponse(modelConfig.id, request);
+    const tokens = response.match(/\s*\S+/g) ?? [];
+    let fullResponse = '';
+
+    this.logger.debug(`🎭 Mock completion for ${modelConfig.id}`, {
+      phase: request.phase,
+      tokens: tokens.length
+    });
+
+    await this.delay(config.mockModels.latencyMs);
+
+    for (const token of tokens.slice(0, request.maxTokens)) {
+      if (shouldStop?.()) break;
+      fullResponse += token;
+      onText(token);
+      await this.delay(config.mockModels.tokenDelayMs);
+    }
+
+    return fullResponse;
+  }
+
+  private resolveResponse(modelId: string, request: ChatCompletionRequest): string {
+    const text = `${request.systemPrompt ?? ''}\n${request.prompt}`;
+    const answer = String(this.script.answer ?? DEFAULT_ANSWER);
+
+    const rule = this.script.rules.find(candidate =>
+      (!candidate.model || candidate.model === modelId) &&
+      (!candidate.phase || candidate.phase === request.phase) &&
+      (!candidate.pattern || new RegExp(candidate.pattern, 'i').test(text))
+    );
+
+    const response = rule?.response ?? this.defaultResponse(modelId, request, answer);
+    return response
+      .replace(/\{\{model\}\}/g, modelId)
+      .replace(/\{\{phase\}\}/g, request.phase ?? '')
+      .replace(/\{\{answer\}\}/g, answer);
+  }
+
+  /**
+   * Built-in responses: ReAct tool calls and extraction JSON for the agreement
+   * analyst, a formatted curation for the curator, otherwise a short phase-specific answer
+   */
+  private defaultResponse(modelId: string, request: ChatCompletionRequest, answer: string): string {
+    const systemPrompt = request.systemPrompt ?? '';
+
+    if (systemPrompt.includes('ReAct framework')) {
+      // Follow the prompt's suggested workflow: extract_data → compare_answers → finish,
+      // jumping to CONSENSUS only when the compared answers match
+      if (request.prompt.includes('Use extract_data first')) {
+        return JSON.stringify({ thought: 'I need to extract data from all models first', tool: 'extract_data', params: {} });
+      }
+      if (request.prompt.includes('Data extracted, now compare')) {
+        return JSON.stringify({ thought: 'Compare the extracted answers', tool: 'compare_answers', params: {} });
+      }
+      if (this.answersMatch(request.prompt)) {
+        return JSON.stringify({
+          thought: 'All models report the same answer',
+          tool: 'finish',
+          params: {
+            nextPhase: 'CONSENSUS',
+            reasoning: 'Models agree on the final answer',
+            confidence: 0.9,
+            isPhaseJump: true,
+            jumpReason: 'Identical answers with high confidence'
+          }
+        });
+      }
+      return JSON.stringify({
+        thought: 'The models report different answers',
+        tool: 'finish',
+        params: {
+          nextPhase: 'CRITIQUE',
+          reasoning: 'Models disagree on the final answer',
+          confidence: 0.8,
+          isPhaseJump: false
+        }
+      });
+    }
+
+    if (systemPrompt.includes('"finalAnswer"')) {
+      const found = request.prompt.match(/answer is\s*\**\s*([-\d.,]+)/i);
+      return JSON.stringify({
+        finalAnswer: found ? Number(found[1].replace(/,/g, '').replace(/\.$/, '')) : null,
+        confidenceScore: 0.9,
+        confidenceKeywords: ['confident'],
+        reasoningSteps: ['Computed the result directly'],
+        errorFlags: [],
+        hasExplicitAnswer: found !== null,
+        answerLocation: found ? found[0] : ''
+      });
+    }
+
+    if (request.prompt.includes('## Curation Notes')) {
+      return `## Curation Notes\nThe response reaches ${answer} with a clear derivation.\n\n` +
+        `## Key Insights\n- The answer is ${answer}\n\n## Agreements\n- none\n\n## Gaps\n- none\n\n` +
+        `## Arguments\n- The derivation is complete\n\n## Next Steps\n- Double-check the result\n\nConfidence: 0.9`;
+    }
+
+    const phase = request.phase ?? 'RESPONSE';
+    return `${modelId} (${phase}): I worked through the problem step by step and I am confident in the result. ` +
+      `Final Answer: The answer is ${answer}.`;
+  }
+
+  /**
+   * Read the compare_answers observation from the ReAct scratchpad - every pair must be a perfect match
+   */
+  private answersMatch(prompt: string): boolean {
+    const observation = prompt.match(/Action: compare_answers\(.*\)\nObservation: (.*)/)?.[1];
+    return observation !== undefined && observation.split(' | ').every(pair => pair.includes('Perfect match'));
+  }
+
+  private async delay(ms: number): Promise<void> {
+    if (ms > 0) {
+      await new Promise(resolve => setTimeout(resolve, ms));
+    }
+  }
+}
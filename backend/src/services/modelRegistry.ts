@@ -0,0 +1,206 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+import { ModelConfig, ModelProviderType } from '../models/types.js';
+import { ModelRole } from '../models/curatedConversationTypes.js';
+import { ModelManifest, ModelManifestEntry } from '../models/modelRegistryTypes.js';
+import { CHAT_TEMPLATE_NAMES } from './promptFormatter.js';
+import { createLogger } from '../utils/logger.js';
+import { isNodeError } from '../utils/typeGuards.js';
+import { config } from '../config.js';
+import { DEFAULT_MODEL_SETTINGS, MODEL_SETTING_KEYS } from '../constants/index.js';
+
+const VALID_PROVIDERS = new Set<string>(['llama-cpp', 'openai-compatible', 'mock'] satisfies ModelProviderType[]);
+const VALID_TEMPLATES = new Set<string>(CHAT_TEMPLATE_NAMES);
+const VALID_ROLES = new Set<string>(Object.values(ModelRole));
+const VALID_SETTINGS = new Set<string>(MODEL_SETTING_KEYS);
+
+/**
+ * MODEL REGISTRY
+ *
+ * Loads the models.json manifest from the models directory at startup.
+ * Every entry is validated up front and the whole manifest is rejected with
+ * a list of all problems, so a typo never surfaces halfway through a session.
+ */
+export class ModelRegistry {
+  private readonly manifestPath: string;
+  private readonly logger = createLogger('ModelRegistry');
+
+  constructor(private readonly modelsPath: string) {
+    this.manifestPath = path.resolve(modelsPath, config.paths.modelsManifest);
+  }
+
+  /**
+   * Read and validate the manifest - an absent manifest declares no models
+   */
+  async load(): Promise<ModelConfig[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.manifestPath, 'utf-8');
+    } catch (error) {
+      if (isNodeError(error) && error.code === 'ENOENT') {
+        this.logger.info('📂 No model manifest found - models will be discovered by scanning', {
+          manifestPath: this.manifestPath
+        });
+        return [];
+      }
+      throw error;
+    }
+
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid model manifest ${this.manifestPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const models = await this.dropMissingFiles(this.validate(manifest));
+
+    this.logger.info(`📋 Loaded model manifest with ${models.length} models`, {
+      manifestPath: this.manifestPath,
+      models: models.map(model => model.id)
+    });
+
+    return models;
+  }
+
+  /**
+   * Validate an untrusted manifest and return its models with defaults applied
+   */
+  validate(candidate: unknown): ModelConfig[] {
+    if (typeof candidate !== 'object' || candidate === null || !Array.isArray((candidate as Partial<ModelManifest>).models)) {
+      throw new Error('Invalid model manifest: "models" must be an array');
+    }
+
+    const entries = (candidate as ModelManifest).models;
+    const errors: string[] = [];
+    const seenIds = new Set<string>();
+
+    entries.forEach((entry, index) => {
+      if (typeof entry !== 'object' || entry === null) {
+        errors.push(`models[${index}] must be an object`);
+        return;
+      }
+
+      const label = typeof entry.id === 'string' && entry.id ? `models[${index}] "${entry.id}"` : `models[${index}]`;
+      errors.push(...this.validateEntry(entry).map(error => `${label}: ${error}`));
+
+      if (typeof entry.id === 'string') {
+        if (seenIds.has(entry.id)) errors.push(`${label}: id is declared more than once`);
+        seenIds.add(entry.id);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid model manifest: ${errors.join('; ')}`);
+    }
+
+    return entries.map(entry => this.toModelConfig(entry));
+  }
+
+  private validateEntry(entry: ModelManifestEntry): string[] {
+    const errors: string[] = [];
+    const provider = entry.provider ?? 'llama-cpp';
+
+    if (typeof entry.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(entry.id)) {
+      errors.push('id must be lowercase letters, digits and hyphens');
+    }
+    if (typeof entry.name !== 'string' || !entry.name.trim()) errors.push('name is required');
+    if (!VALID_PROVIDERS.has(provider)) errors.push(`provider "${provider}" is not supported`);
+
+    if (provider === 'llama-cpp' && (typeof entry.path !== 'string' || !entry.path.endsWith('.gguf'))) {
+      errors.push('path must point to a .gguf file');
+    }
+    if (provider === 'openai-compatible' &&
+      (typeof entry.endpoint?.baseUrl !== 'string' || typeof entry.endpoint.model !== 'string')) {
+      errors.push('endpoint.baseUrl and endpoint.model are required for openai-compatible models');
+    }
+
+    if (entry.contextSize !== undefined && (!Number.isInteger(entry.contextSize) || entry.contextSize < 1)) {
+      errors.push('contextSize must be a positive integer');
+    }
+    if (entry.settings !== undefined) {
+      if (typeof entry.settings !== 'object' || entry.settings === null || Array.isArray(entry.settings)) {
+        errors.push('settings must be an object');
+      } else {
+        for (const [key, value] of Object.entries(entry.settings)) {
+          if (!VALID_SETTINGS.has(key)) errors.push(`settings.${key} is not a sampling setting`);
+          else if (!Number.isFinite(value)) errors.push(`settings.${key} must be a number`);
+        }
+      }
+    }
+
+    if (entry.chatTemplate !== undefined && !VALID_TEMPLATES.has(entry.chatTemplate)) {
+      errors.push(`chatTemplate "${entry.chatTemplate}" is not one of ${CHAT_TEMPLATE_NAMES.join(', ')}`);
+    }
+    if (entry.stopTokens !== undefined &&
+      (!Array.isArray(entry.stopTokens) || entry.stopTokens.some(token => typeof token !== 'string' || !token))) {
+      errors.push('stopTokens must be an array of non-empty strings');
+    }
+    if (entry.supportsThinking !== undefined && typeof entry.supportsThinking !== 'boolean') {
+      errors.push('supportsThinking must be a boolean');
+    }
+    if (entry.roles !== undefined) {
+      if (!Array.isArray(entry.roles) || entry.roles.length === 0) {
+        errors.push('roles must be a non-empty array');
+      } else {
+        for (const role of entry.roles) {
+          if (!VALID_ROLES.has(role)) errors.push(`role "${role}" is not a model role`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private toModelConfig(entry: ModelManifestEntry): ModelConfig {
+    const provider = entry.provider ?? 'llama-cpp';
+    return {
+      id: entry.id,
+      name: entry.name,
+      path: this.resolvePath(entry),
+      contextSize: entry.contextSize ?? (provider === 'openai-compatible' ? config.openAICompatible.contextSize : config.model.contextSize),
+      autoContextSize: provider === 'llama-cpp' && entry.contextSize === undefined,
+      provider: entry.provider,
+      endpoint: entry.endpoint,
+      chatTemplate: entry.chatTemplate,
+      stopTokens: entry.stopTokens,
+      supportsThinking: entry.supportsThinking,
+      roles: entry.roles,
+      settings: entry.settings ?? { ...DEFAULT_MODEL_SETTINGS }
+    };
+  }
+
+  /**
+   * GGUF paths resolve against the models directory; other providers record where they are served
+   */
+  private resolvePath(entry: ModelManifestEntry): string {
+    switch (entry.provider ?? 'llama-cpp') {
+      case 'llama-cpp':
+        return path.resolve(this.modelsPath, entry.path ?? '');
+      case 'mock':
+        return 'mock';
+      default:
+        return entry.endpoint?.baseUrl ?? '';
+    }
+  }
+
+  /**
+   * Declared GGUF files that have not been downloaded are skipped rather than failing startup
+   */
+  private async dropMissingFiles(models: ModelConfig[]): Promise<ModelConfig[]> {
+    const present: ModelConfig[] = [];
+    for (const model of models) {
+      if (model.provider === undefined || model.provider === 'llama-cpp') {
+        try {
+          await fs.access(model.path);
+        } catch {
+          this.logger.warn(`⚠️ Skipping ${model.id}: model file not found`, { modelPath: model.path });
+          continue;
+        }
+      }
+      present.push(model);
+    }
+    return present;
+  }
+}
@@ -1,21 +1,81 @@
+import os from 'os';
 import path from 'path';
 import fs from 'fs/promises';
 import { fileURLToPath } from 'url';
-import { getLlama, LlamaModel, LlamaContext, LlamaContextOptions, Llama } from 'node-llama-cpp';
+import { getLlama, LlamaModel, LlamaContext, LlamaContextOptions, LlamaContextSequence, Llama, Token } from 'node-llama-cpp';
 
 import { ModelConfig } from '../models/types.js';
+import { ModelRole } from '../models/curatedConversationTypes.js';
+import { ModelDetails, ModelMemoryUsage, ModelRescanResult, ModelSource, ModelState } from '../models/modelRegistryTypes.js';
+import { ContextMemoryStatus, ContextPoolStats, ContextPoolStatus, ContextPoolsStatus, PrefixCacheStats } from '../models/queueTypes.js';
+import { ModelRegistry } from './modelRegistry.js';
+import { OpenAICompatibleProvider, ChatCompletionRequest } from './openAICompatibleProvider.js';
+import { MockModelProvider } from './mockModelProvider.js';
+import { PromptFormatter } from './promptFormatter.js';
+import { TokenCounter } from './tokenCounter.js';
 import { createLogger } from '../utils/logger.js';
 import { config } from '../config.js';
-import { MODEL_DEFAULTS } from '../constants/index.js';
+import { DEFAULT_MODEL_SETTINGS, ERROR_MESSAGES, MODEL_DEFAULTS } from '../constants/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Owner recorded for contexts acquired outside a collaboration session
+const SHARED_CONTEXT_OWNER = 'shared';
+
+const toMB = (bytes: number): number => Math.round(bytes / 1024 / 1024);
+
+interface ContextWaiter {
+  sessionId: string;
+  enqueuedAt: number;
+  resolve: (context: LlamaContext) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Sequence kept on an idle context so its evaluated prefix stays in the KV cache
+interface RetainedSequence {
+  sequence: LlamaContextSequence;
+  sessionId: string;
+  prefixKey: string;
+}
+
 interface ModelInstance {
   config: ModelConfig;
   model: LlamaModel;
   availableContexts: LlamaContext[];
-  busyContexts: Set<LlamaContext>;
+  busyContexts: Map<LlamaContext, string>; // Context -> owning session
+  waiters: ContextWaiter[];
+  draining: boolean;                       // Unload requested - no new acquisitions
+  onDrained?: () => void;                  // Called when the last busy context is released
+  retainedSequences: Map<LlamaContext, RetainedSequence>;
+  prefixCache: PrefixCacheStats;
+  idleSince: Map<LlamaContext, number>;   // When each available context was last released
+  creatingContexts: number;                // Contexts being created - counted against the memory budget
+  contextBytes: number;                    // Estimated memory of one context
+  poolStats: ContextPoolStats;
+}
+
+/**
+ * A context and its sequence leased for one collaboration turn
+ */
+export interface SequenceLease {
+  context: LlamaContext;
+  sequence: LlamaContextSequence;
+  reuse: 'session' | 'prefix' | 'fresh';
+  sessionId: string;
+  prefixKey: string;
+  startTokens: Token[];                    // Evaluated tokens when the lease began
+}
+
+export interface SequenceUsage {
+  promptTokens: number;
+  reusedTokens: number;                    // Prompt tokens already in the KV cache
+}
+
+interface DiscoveredModel {
+  modelConfig: ModelConfig;
+  source: ModelSource;
 }
 
 /**
@@ -26,17 +86,34 @@ interface ModelInstance {
  */
 export class ModelService {
   private readonly models = new Map<string, ModelConfig>();
+  private readonly modelSources = new Map<string, ModelSource>();
+  private readonly loadingModels = new Set<string>();
   private readonly modelInstances = new Map<string, ModelInstance>();
+  private readonly tokenCounters = new Map<string, TokenCounter>();
+  private evictionTimer: NodeJS.Timeout | null = null;
   private readonly modelsPath: string;
   private readonly logger = createLogger('ModelService');
   private llama: Llama | null = null;
+  private readonly remoteProvider = new OpenAICompatibleProvider();
+  private readonly mockProvider = new MockModelProvider();
+  private readonly registry: ModelRegistry;
 
   constructor() {
     this.modelsPath = path.join(__dirname, config.paths.modelsDirectory);
+    this.registry = new ModelRegistry(this.modelsPath);
   }
 
   async initialize(): Promise<void> {
     try {
+      // Mock mode replaces every backend with scripted models
+      if (config.mockModels.enabled) {
+        await this.registerMockModels();
+        this.logger.info(`🎭 Model service initialized with mock models`, {
+          totalModels: this.models.size
+        });
+        return;
+      }
+
       // Initialize LLama library
       this.llama = await getLlama();
       this.logger.info('🦙 LLama library initialized', {
@@ -47,21 +124,34 @@ export class ModelService {
       // Ensure models directory exists
       await fs.mkdir(this.modelsPath, { recursive: true });
       
-      // Scan for GGUF models
-      await this.scanForModels();
+      // Register declared models and any GGUF files the manifest does not list
+      for (const { modelConfig, source } of (await this.discoverLocalModels()).values()) {
+        this.registerModel(modelConfig, source);
+      }
+      if (this.models.size === 0) {
+        this.logger.warn('⚠️  No GGUF models found in models directory');
+      }
+      
+      // Register models served over an OpenAI-compatible endpoint
+      this.registerRemoteModels();
       
-      // Load each model and create context pools
-      for (const [modelId, modelConfig] of this.models) {
-        await this.loadModel(modelId, modelConfig);
+      // Load each local model and create context pools - the models still to load share what is free
+      const localModels = Array.from(this.models).filter(([modelId]) => !this.isRemoteModel(modelId));
+      for (const [index, [modelId, modelConfig]] of localModels.entries()) {
+        await this.loadModel(modelId, modelConfig, localModels.length - index);
       }
+
+      this.startIdleEviction();
       
       this.logger.info(`✅ Model service initialized`, {
         totalModels: this.models.size,
-        totalContexts: this.models.size * config.model.contextsPerModel,
+        totalContexts: Array.from(this.modelInstances.values()).reduce((sum, instance) => sum + instance.availableContexts.length, 0),
         contextConfig: {
-          contextSize: config.model.contextSize,
+          contextSizes: Object.fromEntries(Array.from(this.models.values(), model => [model.id, model.contextSize])),
           batchSize: config.model.batchSize,
-          contextsPerModel: config.model.contextsPerModel,
+          contextsPerModel: { min: config.model.minContextsPerModel, max: config.model.contextsPerModel },
+          idleTimeoutMs: config.model.contextIdleTimeout,
+          poolMemoryMB: config.model.poolMemoryMB || 'unlimited',
           threads: config.model.threads
         }
       });
@@ -71,10 +161,15 @@ export class ModelService {
     }
   }
 
-  private async loadModel(modelId: string, modelConfig: ModelConfig): Promise<void> {
+  /**
+   * @param modelsToLoad - Models, this one included, still to be loaded from the same free memory
+   */
+  private async loadModel(modelId: string, modelConfig: ModelConfig, modelsToLoad: number = 1): Promise<void> {
     const loadStartTime = Date.now();
     const fileStats = await fs.stat(modelConfig.path);
     const fileSizeMB = Math.round(fileStats.size / 1024 / 1024);
+    let model: LlamaModel | undefined;
+    const availableContexts: LlamaContext[] = [];
     
     try {
       this.logger.info(`🔄 Loading model`, {
@@ -90,32 +185,56 @@ export class ModelService {
       }
 
       // Load the model with correct parameters
-      const model = await this.llama.loadModel({
+      model = await this.llama.loadModel({
         modelPath: modelConfig.path,
         gpuLayers: config.model.gpuLayers,
       });
 
-      // Create context pool for this model
-      const availableContexts: LlamaContext[] = [];
-      const busyContexts = new Set<LlamaContext>();
+      this.registerChatTemplate(modelId, modelConfig, model);
 
-      // Pre-create contexts for better performance
-      for (let i = 0; i < config.model.contextsPerModel; i++) {
-        const contextOptions: LlamaContextOptions = {
-          contextSize: modelConfig.contextSize,
-          batchSize: config.model.batchSize,
-          threads: config.model.threads,
-        };
-        
-        const context = await model.createContext(contextOptions);
-        availableContexts.push(context);
+      // Budgets are computed against the registered config, so it carries the size actually used
+      modelConfig.contextSize = await this.resolveContextSize(modelId, modelConfig, model, modelsToLoad);
+      const contextBytes = this.estimateContextBytes(model, modelConfig.contextSize);
+
+      // The pool starts at its minimum and grows on demand - as far as the memory budget allows
+      const minContexts = Math.min(config.model.minContextsPerModel, config.model.contextsPerModel);
+      const warmContexts = config.model.poolMemoryMB > 0
+        ? Math.min(minContexts, Math.floor(this.getFreePoolBytes() / Math.max(contextBytes, 1)))
+        : minContexts;
+      if (warmContexts < minContexts) {
+        this.logger.warn(`⚠️ Context memory budget only fits ${warmContexts} of ${minContexts} warm contexts for ${modelId}`);
       }
 
+      for (let i = 0; i < warmContexts; i++) {
+        availableContexts.push(await model.createContext(this.getContextOptions(modelConfig)));
+      }
+
+      const now = Date.now();
       const modelInstance: ModelInstance = {
         config: modelConfig,
         model,
         availableContexts,
-        busyContexts,
+        busyContexts: new Map(),
+        waiters: [],
+        draining: false,
+        retainedSequences: new Map(),
+        prefixCache: { leases: 0, sessionHits: 0, prefixHits: 0, freshSequences: 0, promptTokens: 0, reusedTokens: 0, savedPercent: 0 },
+        idleSince: new Map(availableContexts.map(context => [context, now])),
+        creatingContexts: 0,
+        contextBytes,
+        poolStats: {
+          minContexts,
+          maxContexts: config.model.contextsPerModel,
+          creatingContexts: 0,
+          created: availableContexts.length,
+          evicted: 0,
+          refused: 0,
+          waits: 0,
+          totalWaitMs: 0,
+          avgWaitMs: 0,
+          maxWaitMs: 0,
+          contextMB: toMB(contextBytes)
+        },
       };
 
       this.modelInstances.set(modelId, modelInstance);
@@ -128,6 +247,8 @@ export class ModelService {
         modelName: modelConfig.name,
         loadTimeMs,
         contextPoolSize: availableContexts.length,
+        maxContexts: config.model.contextsPerModel,
+        contextMB: toMB(contextBytes),
         memoryUsage: {
           heapUsedMB: Math.round(memoryUsage.heapUsed / 1024 / 1024),
           heapTotalMB: Math.round(memoryUsage.heapTotal / 1024 / 1024),
@@ -137,34 +258,147 @@ export class ModelService {
 
     } catch (error) {
       this.logger.error(`Failed to load model ${modelId}:`, error);
+      // Free whatever was allocated so a failed hot load does not leak memory
+      for (const context of availableContexts) {
+        await context.dispose();
+      }
+      PromptFormatter.unregisterEmbeddedTemplate(modelId);
+      await model?.dispose();
       throw error;
     }
   }
 
-  async scanForModels(): Promise<void> {
+  /**
+   * CONTEXT SIZE FOR A MODEL'S POOL
+   *
+   * A declared contextSize is used as given. Otherwise the GGUF's own context_length
+   * is the default, stepped down until every context in the pool fits the model's memory budget.
+   */
+  private async resolveContextSize(modelId: string, modelConfig: ModelConfig, model: LlamaModel, modelsToLoad: number): Promise<number> {
+    if (!modelConfig.autoContextSize) return modelConfig.contextSize;
+
+    const trainContextSize = model.trainContextSize || config.model.contextSize;
+    const budgetBytes = await this.getContextMemoryBudget(model, modelsToLoad);
+    const poolBytes = (contextSize: number): number =>
+      this.estimateContextBytes(model, contextSize) * config.model.contextsPerModel;
+
+    let contextSize = trainContextSize;
+    const minContextSize = Math.min(trainContextSize, MODEL_DEFAULTS.MIN_CONTEXT_SIZE);
+    while (contextSize > minContextSize && poolBytes(contextSize) > budgetBytes) {
+      contextSize = Math.max(minContextSize, (Math.ceil(contextSize / MODEL_DEFAULTS.CONTEXT_SIZE_STEP) - 1) * MODEL_DEFAULTS.CONTEXT_SIZE_STEP);
+    }
+
+    const details = {
+      trainContextSize,
+      contextSize,
+      contextsPerModel: config.model.contextsPerModel,
+      poolMB: toMB(poolBytes(contextSize)),
+      budgetMB: toMB(budgetBytes),
+      modelsToLoad,
+      memory: model.gpuLayers > 0 ? 'vram' : 'ram'
+    };
+    if (poolBytes(contextSize) > budgetBytes) {
+      this.logger.warn(`⚠️ ${modelId} context pool exceeds the memory budget even at ${contextSize} tokens`, details);
+    } else if (contextSize < trainContextSize) {
+      this.logger.info(`📐 ${modelId} context reduced to ${contextSize} tokens to fit the memory budget`, details);
+    } else {
+      this.logger.info(`📐 ${modelId} uses its full ${contextSize} token context`, details);
+    }
+
+    return contextSize;
+  }
+
+  /**
+   * Estimated memory of one context, on the device the model runs on
+   */
+  private estimateContextBytes(model: LlamaModel, contextSize: number): number {
+    const { cpuRam, gpuVram } = model.fileInsights.estimateContextResourceRequirements({
+      contextSize,
+      modelGpuLayers: model.gpuLayers,
+      batchSize: config.model.batchSize
+    });
+    return model.gpuLayers > 0 ? gpuVram : cpuRam;
+  }
+
+  private getContextOptions(modelConfig: ModelConfig): LlamaContextOptions {
+    return {
+      contextSize: modelConfig.contextSize,
+      batchSize: config.model.batchSize,
+      threads: config.model.threads,
+    };
+  }
+
+  /**
+   * Bytes one model's context pool may use - MODEL_CONTEXT_MEMORY_MB, or its share of most of the
+   * VRAM (offloaded models) or RAM free at load time, split evenly with the models still to load.
+   * CONTEXT_POOL_MEMORY_MB, when set, caps what is shared out in the same way
+   */
+  private async getContextMemoryBudget(model: LlamaModel, modelsToLoad: number): Promise<number> {
+    if (config.model.contextMemoryMB > 0) return config.model.contextMemoryMB * 1024 * 1024;
+
+    const free = model.gpuLayers > 0 && this.llama ? (await this.llama.getVramState()).free : os.freemem();
+    let sharedBytes = free * MODEL_DEFAULTS.CONTEXT_MEMORY_HEADROOM;
+    if (config.model.poolMemoryMB > 0) sharedBytes = Math.min(sharedBytes, Math.max(this.getFreePoolBytes(), 0));
+    return Math.floor(sharedBytes / Math.max(modelsToLoad, 1));
+  }
+
+  /**
+   * Prompt with the chat template embedded in the GGUF, falling back to the declared template
+   */
+  private registerChatTemplate(modelId: string, modelConfig: ModelConfig, model: LlamaModel): void {
+    const fallback = modelConfig.chatTemplate ?? 'generic';
+    try {
+      if (PromptFormatter.registerEmbeddedTemplate(modelId, model)) {
+        this.logger.info(`🧩 Using embedded chat template for ${modelId}`);
+      } else {
+        this.logger.info(`🧩 No embedded chat template in ${modelId} - using the ${fallback} template`);
+      }
+    } catch (error) {
+      this.logger.warn(`⚠️ Embedded chat template for ${modelId} is unusable - using the ${fallback} template`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Models declared in the manifest plus GGUF files in the models directory that it does not list
+   */
+  private async discoverLocalModels(): Promise<Map<string, DiscoveredModel>> {
+    const discovered = new Map<string, DiscoveredModel>();
+    for (const modelConfig of await this.registry.load()) {
+      discovered.set(modelConfig.id, { modelConfig, source: 'manifest' });
+    }
+    await this.scanForModels(discovered);
+    return discovered;
+  }
+
+  private async scanForModels(discovered: Map<string, DiscoveredModel>): Promise<void> {
     try {
       const files = await fs.readdir(this.modelsPath);
       const ggufFiles = files.filter(f => f.endsWith('.gguf'));
+      const declaredPaths = new Set(Array.from(discovered.values(), ({ modelConfig }) => modelConfig.path));
       
       for (const file of ggufFiles) {
         const modelPath = path.join(this.modelsPath, file);
+        if (declaredPaths.has(modelPath)) continue;
+
         const modelName = path.basename(file, '.gguf');
-        
-        // Detect model type from filename
         const modelConfig: ModelConfig = {
           id: modelName.toLowerCase().replace(/[^a-z0-9]/g, '-'),
           name: modelName,
           path: modelPath,
           contextSize: config.model.contextSize,
-          settings: this.getModelSettings(modelName),
+          autoContextSize: true,
+          settings: { ...DEFAULT_MODEL_SETTINGS },
         };
+
+        if (discovered.has(modelConfig.id)) {
+          this.logger.warn(`⚠️ ${file} conflicts with declared model id ${modelConfig.id} - skipping`);
+          continue;
+        }
         
-        this.models.set(modelConfig.id, modelConfig);
-        this.logger.info(`📦 Found model: ${modelConfig.name} (${modelConfig.id})`);
-      }
-      
-      if (this.models.size === 0) {
-        this.logger.warn('⚠️  No GGUF models found in models directory');
+        discovered.set(modelConfig.id, { modelConfig, source: 'scan' });
+        this.logger.warn(`📦 Found undeclared model: ${modelConfig.name} (${modelConfig.id}) - add it to ${config.paths.modelsManifest} for its chat template and sampling defaults`);
       }
     } catch (error) {
       this.logger.error('Error scanning for models:', error);
@@ -172,75 +406,642 @@ export class ModelService {
     }
   }
 
-  private getModelSettings(modelName: string): ModelConfig['settings'] {
-    // Customize settings based on model type
-    if (modelName.toLowerCase().includes('qwen')) {
-      return {
-        temperature: 0.7,
-        topP: 0.8,
-        topK: 20,
-        minP: 0,
-        repeatPenalty: 1.1,
+  /**
+   * Register OpenAI-compatible endpoint models from configuration
+   */
+  private registerRemoteModels(): void {
+    const { baseUrl, apiKey, models, contextSize } = config.openAICompatible;
+    if (!baseUrl || models.length === 0) return;
+
+    for (const model of models) {
+      const modelConfig: ModelConfig = {
+        id: model.toLowerCase().replace(/[^a-z0-9]/g, '-'),
+        name: `${model} (remote)`,
+        path: baseUrl,
+        contextSize,
+        provider: 'openai-compatible',
+        endpoint: { baseUrl, model, apiKey: apiKey || undefined },
+        settings: { ...DEFAULT_MODEL_SETTINGS },
       };
-    } else if (modelName.toLowerCase().includes('gemma')) {
-      return {
-        temperature: 1.0,
-        topP: 0.95,
-        topK: 64,
-        minP: 0.0,
-        repeatPenalty: 1.0,
+
+      if (this.models.has(modelConfig.id)) {
+        this.logger.warn(`⚠️ Remote model ${model} conflicts with local model id ${modelConfig.id} - skipping`);
+        continue;
+      }
+
+      this.registerModel(modelConfig, 'remote');
+      this.logger.info(`🌐 Registered remote model: ${modelConfig.name} (${modelConfig.id}) at ${baseUrl}`);
+    }
+  }
+
+  /**
+   * Register scripted mock models from configuration
+   */
+  private async registerMockModels(): Promise<void> {
+    const { models, scriptPath, contextSize } = config.mockModels;
+
+    if (scriptPath) {
+      await this.mockProvider.loadScript(scriptPath);
+    }
+
+    for (const model of models) {
+      const modelConfig: ModelConfig = {
+        id: model.toLowerCase().replace(/[^a-z0-9]/g, '-'),
+        name: `${model} (mock)`,
+        path: 'mock',
+        contextSize,
+        provider: 'mock',
+        settings: { ...DEFAULT_MODEL_SETTINGS },
       };
+
+      this.registerModel(modelConfig, 'mock');
+      this.logger.info(`🎭 Registered mock model: ${modelConfig.name} (${modelConfig.id})`);
     }
-    
-    // Default settings
-    return {
-      temperature: 0.7,
-      topP: 0.9,
-      topK: 40,
-      repeatPenalty: 1.1,
-    };
+  }
+
+  private registerModel(modelConfig: ModelConfig, source: ModelSource): void {
+    this.models.set(modelConfig.id, modelConfig);
+    this.modelSources.set(modelConfig.id, source);
+  }
+
+  /**
+   * Whether the model may take the role - models without declared roles may take any
+   */
+  hasRole(modelId: string, role: ModelRole): boolean {
+    const roles = this.models.get(modelId)?.roles;
+    return roles === undefined || roles.includes(role);
+  }
+
+  /**
+   * Model to run a helper task for the role: the first of the preferred models (the session's
+   * participants) that may take it and is serving, otherwise any other registered one.
+   * A local model is picked over a remote one when both qualify.
+   */
+  resolveRoleModel(role: ModelRole, preferred: readonly string[] = []): string | undefined {
+    const candidates = [...new Set([...preferred, ...this.models.keys()])]
+      .filter(modelId => this.models.has(modelId) && this.hasRole(modelId, role) && this.isModelLoaded(modelId));
+    return candidates.find(modelId => !this.isRemoteModel(modelId)) ?? candidates[0];
+  }
+
+  /**
+   * Whether the model is served without a local context pool (OpenAI-compatible endpoint or mock)
+   */
+  isRemoteModel(modelId: string): boolean {
+    const provider = this.models.get(modelId)?.provider;
+    return provider !== undefined && provider !== 'llama-cpp';
+  }
+
+  /**
+   * Mock provider, exposed so tests can swap the response script
+   */
+  getMockProvider(): MockModelProvider {
+    return this.mockProvider;
+  }
+
+  /**
+   * GENERATE WITH A REMOTE MODEL
+   * 
+   * Streams text deltas through onText; returns the full response.
+   * Dispatches to the OpenAI-compatible or mock provider.
+   */
+  async generateRemote(
+    modelId: string,
+    request: ChatCompletionRequest,
+    onText: (text: string) => void,
+    shouldStop?: () => boolean
+  ): Promise<string> {
+    const modelConfig = this.models.get(modelId);
+    if (!modelConfig || !this.isRemoteModel(modelId)) {
+      throw new Error(`Model ${modelId} is not a remote model`);
+    }
+    const provider = modelConfig.provider === 'mock' ? this.mockProvider : this.remoteProvider;
+    return provider.streamChatCompletion(modelConfig, request, onText, shouldStop);
   }
 
   async getAvailableModels(): Promise<ModelConfig[]> {
     return Array.from(this.models.values());
   }
 
+  /**
+   * Registered models for GET /api/models - endpoint API keys are left out
+   */
+  getModelDetails(): ModelDetails[] {
+    return Array.from(this.models.values()).map(({ endpoint, ...modelConfig }) => ({
+      ...modelConfig,
+      endpoint: endpoint && { baseUrl: endpoint.baseUrl, model: endpoint.model },
+      source: this.modelSources.get(modelConfig.id) ?? 'scan',
+      embeddedTemplate: PromptFormatter.hasEmbeddedTemplate(modelConfig.id),
+      loaded: this.getModelState(modelConfig.id) === 'loaded',
+      state: this.getModelState(modelConfig.id)
+    }));
+  }
+
+  getModelState(modelId: string): ModelState {
+    if (this.isRemoteModel(modelId)) return 'loaded';
+    if (this.loadingModels.has(modelId)) return 'loading';
+    const modelInstance = this.modelInstances.get(modelId);
+    if (!modelInstance) return 'unloaded';
+    return modelInstance.draining ? 'draining' : 'loaded';
+  }
+
+  /**
+   * HOT LOAD A REGISTERED MODEL
+   *
+   * Loads the GGUF and creates its context pool while other models keep serving.
+   * Callers check getModelState first - only unloaded local models can be loaded.
+   */
+  async loadRegisteredModel(modelId: string): Promise<void> {
+    const modelConfig = this.models.get(modelId);
+    if (!modelConfig) {
+      throw new Error(`${ERROR_MESSAGES.MODEL_NOT_FOUND}: ${modelId}`);
+    }
+
+    this.loadingModels.add(modelId);
+    try {
+      this.llama ??= await getLlama();
+      await this.loadModel(modelId, modelConfig);
+    } finally {
+      this.loadingModels.delete(modelId);
+    }
+  }
+
+  /**
+   * HOT UNLOAD A MODEL
+   *
+   * Stops handing out contexts, fails queued requests and waits for busy
+   * contexts to be released before disposing anything, so in-flight
+   * generations finish. Returns false when the model is still busy after
+   * timeoutMs - the unload is then called off and the model keeps serving.
+   */
+  async unloadModel(modelId: string, timeoutMs: number = config.model.drainTimeout): Promise<boolean> {
+    const modelInstance = this.modelInstances.get(modelId);
+    if (!modelInstance) {
+      throw new Error(`Model ${modelId} not found or not loaded`);
+    }
+
+    modelInstance.draining = true;
+    for (const waiter of modelInstance.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error(`Model ${modelId} is being unloaded`));
+    }
+    modelInstance.waiters = [];
+
+    if (modelInstance.busyContexts.size > 0 || modelInstance.creatingContexts > 0) {
+      this.logger.info(`⏳ Draining ${modelId}`, {
+        busyContexts: modelInstance.busyContexts.size,
+        sessions: Array.from(new Set(modelInstance.busyContexts.values())),
+        timeoutMs
+      });
+
+      const drained = await new Promise<boolean>((resolve) => {
+        const timer = setTimeout(() => resolve(false), timeoutMs);
+        modelInstance.onDrained = (): void => {
+          clearTimeout(timer);
+          resolve(true);
+        };
+      });
+      modelInstance.onDrained = undefined;
+
+      if (!drained) {
+        modelInstance.draining = false;
+        this.logger.warn(`⚠️ Unload of ${modelId} called off - ${modelInstance.busyContexts.size} contexts still busy after ${timeoutMs}ms`);
+        return false;
+      }
+    }
+
+    await this.disposeModelInstance(modelId, modelInstance);
+    this.modelInstances.delete(modelId);
+    this.logger.info(`✅ Unloaded model: ${modelId}`);
+    return true;
+  }
+
+  /**
+   * RESCAN THE MODELS DIRECTORY
+   *
+   * Re-reads the manifest and the GGUF files on disk. New models are registered
+   * (not loaded), unloaded models pick up manifest changes, and models whose
+   * files are gone are dropped once they are no longer loaded.
+   */
+  async rescan(): Promise<ModelRescanResult> {
+    const discovered = await this.discoverLocalModels();
+    const result: ModelRescanResult = { added: [], updated: [], removed: [] };
+
+    for (const [modelId, { modelConfig, source }] of discovered) {
+      const existing = this.models.get(modelId);
+      if (!existing) {
+        this.registerModel(modelConfig, source);
+        result.added.push(modelId);
+        continue;
+      }
+
+      if (this.isRemoteModel(modelId)) {
+        this.logger.warn(`⚠️ ${modelConfig.path} conflicts with remote model id ${modelId} - skipping`);
+        continue;
+      }
+
+      if (JSON.stringify(existing) === JSON.stringify(modelConfig)) continue;
+      if (this.getModelState(modelId) !== 'unloaded') {
+        this.logger.warn(`⚠️ ${modelId} changed on disk - unload and load it to apply the new configuration`);
+        continue;
+      }
+      this.registerModel(modelConfig, source);
+      result.updated.push(modelId);
+    }
+
+    for (const modelId of Array.from(this.models.keys())) {
+      const source = this.modelSources.get(modelId);
+      if ((source === 'manifest' || source === 'scan') && !discovered.has(modelId) && this.getModelState(modelId) === 'unloaded') {
+        this.models.delete(modelId);
+        this.modelSources.delete(modelId);
+        result.removed.push(modelId);
+      }
+    }
+
+    this.logger.info(`🔍 Rescanned models directory`, { ...result, totalModels: this.models.size });
+    return result;
+  }
+
+  /**
+   * Process and GPU memory, reported after admin load/unload/rescan
+   */
+  async getMemoryUsage(): Promise<ModelMemoryUsage> {
+    const memory = process.memoryUsage();
+    const usage: ModelMemoryUsage = {
+      rssMB: toMB(memory.rss),
+      heapUsedMB: toMB(memory.heapUsed),
+      externalMB: toMB(memory.external),
+      loadedModels: Array.from(this.modelInstances.keys())
+    };
+
+    if (this.llama) {
+      const vram = await this.llama.getVramState();
+      usage.vram = { totalMB: toMB(vram.total), usedMB: toMB(vram.used), freeMB: toMB(vram.free) };
+    }
+
+    return usage;
+  }
+
   /**
    * ACQUIRE CONTEXT FOR MODEL GENERATION
    * 
-   * Professional context management with automatic availability checking
+   * Takes a free context immediately, otherwise queues until one is released.
+   * Pass the collaboration sessionId so contended pools are shared fairly.
+   */
+  async acquireContext(
+    modelId: string,
+    sessionId: string = SHARED_CONTEXT_OWNER,
+    timeoutMs: number = MODEL_DEFAULTS.CONTEXT_WAIT_TIMEOUT
+  ): Promise<LlamaContext> {
+    // Prefer contexts that hold no retained prefix
+    const context = await this.takeContext(modelId, sessionId, timeoutMs, (modelInstance, candidate) =>
+      modelInstance.retainedSequences.has(candidate) ? 0 : 1
+    );
+
+    // The caller opens its own sequence, so a kept prefix has to go
+    const modelInstance = this.modelInstances.get(modelId);
+    modelInstance?.retainedSequences.get(context)?.sequence.dispose();
+    modelInstance?.retainedSequences.delete(context);
+    return context;
+  }
+
+  /**
+   * ACQUIRE A SESSION-AFFINE SEQUENCE
+   * 
+   * Prefers the idle context whose kept sequence was last evaluated with the same
+   * system prompt - by this session first, then by any session - so the matching
+   * prefix is served from the KV cache instead of being evaluated again.
+   * A kept sequence with a different prefix is dropped for a fresh one.
+   */
+  async acquireSequence(
+    modelId: string,
+    sessionId: string = SHARED_CONTEXT_OWNER,
+    prefixKey: string,
+    timeoutMs: number = MODEL_DEFAULTS.CONTEXT_WAIT_TIMEOUT
+  ): Promise<SequenceLease> {
+    const context = await this.takeContext(modelId, sessionId, timeoutMs, (modelInstance, candidate) => {
+      const retained = modelInstance.retainedSequences.get(candidate);
+      if (!retained) return 1;
+      if (retained.prefixKey !== prefixKey) return 0;
+      return retained.sessionId === sessionId ? 3 : 2;
+    });
+
+    const modelInstance = this.modelInstances.get(modelId);
+    const retained = modelInstance?.retainedSequences.get(context);
+    modelInstance?.retainedSequences.delete(context);
+
+    let lease: SequenceLease;
+    if (retained && retained.prefixKey === prefixKey && !retained.sequence.disposed) {
+      const reuse = retained.sessionId === sessionId ? 'session' : 'prefix';
+      lease = { context, sequence: retained.sequence, reuse, sessionId, prefixKey, startTokens: retained.sequence.contextTokens };
+    } else {
+      retained?.sequence.dispose();
+      lease = { context, sequence: context.getSequence(), reuse: 'fresh', sessionId, prefixKey, startTokens: [] };
+    }
+
+    if (modelInstance) {
+      const stats = modelInstance.prefixCache;
+      stats.leases++;
+      if (lease.reuse === 'session') stats.sessionHits++;
+      else if (lease.reuse === 'prefix') stats.prefixHits++;
+      else stats.freshSequences++;
+    }
+
+    return lease;
+  }
+
+  /**
+   * Count the prompt tokens a leased sequence served from the KV cache
+   * Call after generation; generatedTokens is the number of tokens the model produced.
+   */
+  recordSequenceUsage(modelId: string, lease: SequenceLease, generatedTokens: number): SequenceUsage {
+    const tokens = lease.sequence.contextTokens;
+    const promptTokens = Math.max(0, tokens.length - generatedTokens);
+
+    let reusedTokens = 0;
+    const limit = Math.min(lease.startTokens.length, promptTokens);
+    while (reusedTokens < limit && lease.startTokens[reusedTokens] === tokens[reusedTokens]) {
+      reusedTokens++;
+    }
+
+    const stats = this.modelInstances.get(modelId)?.prefixCache;
+    if (stats) {
+      stats.promptTokens += promptTokens;
+      stats.reusedTokens += reusedTokens;
+      stats.savedPercent = stats.promptTokens > 0 ? Math.round((stats.reusedTokens / stats.promptTokens) * 100) : 0;
+    }
+
+    return { promptTokens, reusedTokens };
+  }
+
+  /**
+   * Return a leased sequence to the pool
+   * A completed turn keeps its sequence on the context for the next turn with the
+   * same prefix; a failed one leaves the KV state unknown, so the sequence is disposed.
    */
-  async acquireContext(modelId: string): Promise<LlamaContext> {
+  releaseSequence(modelId: string, lease: SequenceLease, keep: boolean): void {
+    const modelInstance = this.modelInstances.get(modelId);
+    if (keep && config.model.reusePrefixes && modelInstance && !modelInstance.draining && !lease.sequence.disposed) {
+      modelInstance.retainedSequences.set(lease.context, {
+        sequence: lease.sequence,
+        sessionId: lease.sessionId,
+        prefixKey: lease.prefixKey
+      });
+    } else {
+      lease.sequence.dispose();
+    }
+    this.releaseContext(modelId, lease.context);
+  }
+
+  /**
+   * Take a free context - the highest-scoring one when several are free - or grow the pool,
+   * or queue for one. A pool that holds no context and cannot grow within the memory budget
+   * refuses, since nothing it could wait for would ever be released.
+   */
+  private async takeContext(
+    modelId: string,
+    sessionId: string,
+    timeoutMs: number,
+    score: (modelInstance: ModelInstance, context: LlamaContext) => number
+  ): Promise<LlamaContext> {
+    if (this.isRemoteModel(modelId)) {
+      throw new Error(`Model ${modelId} is served by the ${this.models.get(modelId)?.provider} provider and has no local context`);
+    }
+
     const modelInstance = this.modelInstances.get(modelId);
     if (!modelInstance) {
       throw new Error(`Model ${modelId} not found or not loaded`);
     }
+    if (modelInstance.draining) {
+      throw new Error(`Model ${modelId} is being unloaded`);
+    }
 
-    // Check for available context
-    if (modelInstance.availableContexts.length === 0) {
-      // Wait for a context to become available
-      await this.waitForAvailableContext(modelId);
+    // Queued requests go first so a burst cannot starve them
+    const context = modelInstance.waiters.length === 0 ? this.pickContext(modelInstance, score) : undefined;
+    if (context) {
+      modelInstance.busyContexts.set(context, sessionId);
+      this.logContextAcquired(modelId, modelInstance, sessionId, 0);
+      return context;
     }
 
-    const context = modelInstance.availableContexts.pop();
-    if (!context) {
-      throw new Error(`No contexts available for model ${modelId}`);
+    const poolSize = modelInstance.busyContexts.size + modelInstance.availableContexts.length + modelInstance.creatingContexts;
+    if (poolSize < config.model.contextsPerModel) {
+      const evictions = this.reservePoolMemory(modelInstance);
+      if (evictions) {
+        return this.growPool(modelId, modelInstance, sessionId, evictions);
+      }
+      if (poolSize === 0) {
+        modelInstance.poolStats.refused++;
+        this.logger.warn(`🚫 Context refused for ${modelId} - memory budget exhausted`, {
+          sessionId,
+          contextMB: toMB(modelInstance.contextBytes),
+          ...this.getContextMemoryStatus()
+        });
+        throw new Error(`${ERROR_MESSAGES.CONTEXT_MEMORY_EXHAUSTED} for model ${modelId}`);
+      }
     }
 
-    modelInstance.busyContexts.add(context);
-    
-    this.logger.info(`📤 Context acquired`, {
-      modelId,
-      availableContexts: modelInstance.availableContexts.length,
-      busyContexts: modelInstance.busyContexts.size,
-      totalContexts: config.model.contextsPerModel,
-      utilizationPercent: Math.round((modelInstance.busyContexts.size / config.model.contextsPerModel) * 100)
+    return new Promise<LlamaContext>((resolve, reject) => {
+      const waiter: ContextWaiter = {
+        sessionId,
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          modelInstance.waiters = modelInstance.waiters.filter(entry => entry !== waiter);
+          reject(new Error(`${ERROR_MESSAGES.CONTEXT_TIMEOUT} for model ${modelId} after ${timeoutMs}ms`));
+        }, timeoutMs)
+      };
+      modelInstance.waiters.push(waiter);
+
+      this.logger.info(`⏳ Waiting for context`, {
+        modelId,
+        sessionId,
+        waitingRequests: modelInstance.waiters.length,
+        busyContexts: modelInstance.busyContexts.size
+      });
     });
+  }
+
+  private pickContext(
+    modelInstance: ModelInstance,
+    score: (modelInstance: ModelInstance, context: LlamaContext) => number
+  ): LlamaContext | undefined {
+    const { availableContexts } = modelInstance;
+    if (availableContexts.length === 0) return undefined;
+
+    // Most recently released first among equals
+    let best = availableContexts.length - 1;
+    for (let i = availableContexts.length - 2; i >= 0; i--) {
+      if (score(modelInstance, availableContexts[i]) > score(modelInstance, availableContexts[best])) {
+        best = i;
+      }
+    }
+    const context = availableContexts.splice(best, 1)[0];
+    modelInstance.idleSince.delete(context);
     return context;
   }
 
+  /**
+   * Make room in the memory budget for one more context of this model
+   * Idle contexts of any pool are evicted, longest idle first, when that is what it takes.
+   * Returns the evicted contexts to dispose (empty when nothing had to go), or undefined
+   * when the context cannot fit.
+   */
+  private reservePoolMemory(requester: ModelInstance): LlamaContext[] | undefined {
+    if (config.model.poolMemoryMB <= 0) return [];
+
+    let shortfall = requester.contextBytes - this.getFreePoolBytes();
+    if (shortfall <= 0) return [];
+
+    const idle = Array.from(this.modelInstances.values())
+      .filter(modelInstance => !modelInstance.draining)
+      .flatMap(modelInstance => modelInstance.availableContexts.map(context => ({
+        modelInstance,
+        context,
+        idleSince: modelInstance.idleSince.get(context) ?? 0
+      })))
+      .sort((a, b) => a.idleSince - b.idleSince);
+
+    const victims: typeof idle = [];
+    for (const candidate of idle) {
+      if (shortfall <= 0) break;
+      victims.push(candidate);
+      shortfall -= candidate.modelInstance.contextBytes;
+    }
+    if (shortfall > 0) return undefined;
+
+    return victims.map(({ modelInstance, context }) => {
+      this.removeIdleContext(modelInstance, context);
+      return context;
+    });
+  }
+
+  /**
+   * Create a context for the caller - counted as creating from the start so concurrent
+   * acquisitions see its memory as taken
+   */
+  private async growPool(
+    modelId: string,
+    modelInstance: ModelInstance,
+    sessionId: string,
+    evictions: LlamaContext[]
+  ): Promise<LlamaContext> {
+    modelInstance.creatingContexts++;
+    try {
+      for (const context of evictions) {
+        await context.dispose();
+      }
+      if (evictions.length > 0) {
+        this.logger.info(`♻️ Evicted ${evictions.length} idle contexts to make room for ${modelId}`);
+      }
+
+      const context = await modelInstance.model.createContext(this.getContextOptions(modelInstance.config));
+      if (modelInstance.draining || this.modelInstances.get(modelId) !== modelInstance) {
+        await context.dispose();
+        throw new Error(`Model ${modelId} is being unloaded`);
+      }
+
+      modelInstance.poolStats.created++;
+      modelInstance.busyContexts.set(context, sessionId);
+      this.logger.info(`🆕 Created context for ${modelId}`, {
+        sessionId,
+        totalContexts: modelInstance.busyContexts.size + modelInstance.availableContexts.length,
+        maxContexts: config.model.contextsPerModel,
+        ...this.getContextMemoryStatus()
+      });
+      this.logContextAcquired(modelId, modelInstance, sessionId, 0);
+      return context;
+    } finally {
+      modelInstance.creatingContexts--;
+      if (modelInstance.draining && modelInstance.busyContexts.size === 0 && modelInstance.creatingContexts === 0) {
+        modelInstance.onDrained?.();
+      }
+    }
+  }
+
+  /**
+   * Take an idle context out of its pool for disposal, with any prefix it still holds
+   */
+  private removeIdleContext(modelInstance: ModelInstance, context: LlamaContext): void {
+    modelInstance.availableContexts = modelInstance.availableContexts.filter(entry => entry !== context);
+    modelInstance.idleSince.delete(context);
+    modelInstance.retainedSequences.delete(context);
+    modelInstance.poolStats.evicted++;
+  }
+
+  private startIdleEviction(): void {
+    if (config.model.contextIdleTimeout <= 0 || this.evictionTimer) return;
+
+    this.evictionTimer = setInterval(() => {
+      this.evictIdleContexts().catch((error: unknown) => {
+        this.logger.error('Idle context eviction failed:', error);
+      });
+    }, Math.min(config.model.contextIdleTimeout, 60000));
+    this.evictionTimer.unref();
+  }
+
+  /**
+   * Dispose contexts idle longer than the idle timeout, down to each pool's minimum
+   */
+  private async evictIdleContexts(): Promise<void> {
+    const cutoff = Date.now() - config.model.contextIdleTimeout;
+
+    for (const [modelId, modelInstance] of this.modelInstances) {
+      if (modelInstance.draining) continue;
+
+      const expired = modelInstance.availableContexts
+        .filter(context => (modelInstance.idleSince.get(context) ?? 0) <= cutoff)
+        .sort((a, b) => (modelInstance.idleSince.get(a) ?? 0) - (modelInstance.idleSince.get(b) ?? 0));
+      const poolSize = modelInstance.busyContexts.size + modelInstance.availableContexts.length + modelInstance.creatingContexts;
+      const evictions = expired.slice(0, Math.max(0, poolSize - modelInstance.poolStats.minContexts));
+      if (evictions.length === 0) continue;
+
+      for (const context of evictions) {
+        this.removeIdleContext(modelInstance, context);
+      }
+      for (const context of evictions) {
+        await context.dispose();
+      }
+
+      this.logger.info(`🧹 Evicted ${evictions.length} idle contexts for ${modelId}`, {
+        totalContexts: modelInstance.busyContexts.size + modelInstance.availableContexts.length,
+        idleTimeoutMs: config.model.contextIdleTimeout
+      });
+    }
+  }
+
+  /**
+   * Estimated memory of every live and creating context
+   */
+  private getUsedPoolBytes(): number {
+    let used = 0;
+    for (const modelInstance of this.modelInstances.values()) {
+      const contexts = modelInstance.busyContexts.size + modelInstance.availableContexts.length + modelInstance.creatingContexts;
+      used += contexts * modelInstance.contextBytes;
+    }
+    return used;
+  }
+
+  private getFreePoolBytes(): number {
+    return config.model.poolMemoryMB * 1024 * 1024 - this.getUsedPoolBytes();
+  }
+
+  private getContextMemoryStatus(): ContextMemoryStatus {
+    return { budgetMB: config.model.poolMemoryMB, usedMB: toMB(this.getUsedPoolBytes()) };
+  }
+
+  private recordWait(modelInstance: ModelInstance, waitedMs: number): void {
+    const stats = modelInstance.poolStats;
+    stats.waits++;
+    stats.totalWaitMs += waitedMs;
+    stats.avgWaitMs = Math.round(stats.totalWaitMs / stats.waits);
+    stats.maxWaitMs = Math.max(stats.maxWaitMs, waitedMs);
+  }
+
   /**
    * RELEASE CONTEXT BACK TO POOL
+   * 
+   * Hands the context straight to the fairest waiter, if any
    */
   releaseContext(modelId: string, context: LlamaContext): void {
     const modelInstance = this.modelInstances.get(modelId);
@@ -249,75 +1050,164 @@ export class ModelService {
       return;
     }
 
-    if (modelInstance.busyContexts.has(context)) {
-      modelInstance.busyContexts.delete(context);
-      modelInstance.availableContexts.push(context);
-      
-      this.logger.debug(`📥 Released context for ${modelId} (${modelInstance.availableContexts.length} available)`);
-    } else {
+    if (!modelInstance.busyContexts.has(context)) {
       this.logger.warn(`Attempted to release context not acquired from ${modelId}`);
+      return;
+    }
+
+    modelInstance.busyContexts.delete(context);
+
+    if (modelInstance.draining) {
+      modelInstance.availableContexts.push(context);
+      this.logger.info(`📥 Drained context for ${modelId} (${modelInstance.busyContexts.size} still busy)`);
+      if (modelInstance.busyContexts.size === 0 && modelInstance.creatingContexts === 0) modelInstance.onDrained?.();
+      return;
+    }
+
+    const waiter = this.takeNextWaiter(modelInstance);
+    if (waiter) {
+      const waitedMs = Date.now() - waiter.enqueuedAt;
+      clearTimeout(waiter.timer);
+      modelInstance.busyContexts.set(context, waiter.sessionId);
+      this.recordWait(modelInstance, waitedMs);
+      this.logContextAcquired(modelId, modelInstance, waiter.sessionId, waitedMs);
+      waiter.resolve(context);
+      return;
     }
+
+    modelInstance.availableContexts.push(context);
+    modelInstance.idleSince.set(context, Date.now());
+    this.logger.debug(`📥 Released context for ${modelId} (${modelInstance.availableContexts.length} available)`);
+  }
+
+  /**
+   * Fair hand-off: the waiting session holding the fewest contexts of this model goes next,
+   * oldest request first among equals
+   */
+  private takeNextWaiter(modelInstance: ModelInstance): ContextWaiter | undefined {
+    if (modelInstance.waiters.length === 0) return undefined;
+
+    const held = new Map<string, number>();
+    for (const owner of modelInstance.busyContexts.values()) {
+      held.set(owner, (held.get(owner) ?? 0) + 1);
+    }
+
+    let next = modelInstance.waiters[0];
+    for (const waiter of modelInstance.waiters) {
+      if ((held.get(waiter.sessionId) ?? 0) < (held.get(next.sessionId) ?? 0)) {
+        next = waiter;
+      }
+    }
+
+    modelInstance.waiters = modelInstance.waiters.filter(waiter => waiter !== next);
+    return next;
+  }
+
+  private logContextAcquired(modelId: string, modelInstance: ModelInstance, sessionId: string, waitedMs: number): void {
+    this.logger.info(`📤 Context acquired`, {
+      modelId,
+      sessionId,
+      waitedMs,
+      availableContexts: modelInstance.availableContexts.length,
+      busyContexts: modelInstance.busyContexts.size,
+      waitingRequests: modelInstance.waiters.length,
+      totalContexts: config.model.contextsPerModel,
+      utilizationPercent: Math.round((modelInstance.busyContexts.size / config.model.contextsPerModel) * 100)
+    });
   }
 
   /**
    * Check if a model is loaded and available (for health checks)
+   * Pools grow on demand, so a loaded model may hold no idle context
    */
   isModelLoaded(modelId: string): boolean {
+    if (this.isRemoteModel(modelId)) return true;
     const modelInstance = this.modelInstances.get(modelId);
-    return modelInstance !== undefined && modelInstance.availableContexts.length > 0;
+    return modelInstance !== undefined && !modelInstance.draining;
   }
 
   /**
-   * WAIT FOR AVAILABLE CONTEXT - Fixed to prevent resource leaks
+   * Context pool occupancy per local model (for GET /api/queue)
+   * Session IDs are enough to control a session, so only admin callers get the per-session breakdown
    */
-  private async waitForAvailableContext(modelId: string, timeoutMs: number = MODEL_DEFAULTS.CONTEXT_WAIT_TIMEOUT): Promise<void> {
-    const startTime = Date.now();
-    const checkInterval = MODEL_DEFAULTS.CONTEXT_CHECK_INTERVAL;
-    
-    while (Date.now() - startTime < timeoutMs) {
-      const modelInstance = this.modelInstances.get(modelId);
-      
-      // Check if model was removed (edge case)
-      if (!modelInstance) {
-        throw new Error(`Model ${modelId} no longer exists`);
+  getContextPoolStatus(includeSessions: boolean = false): ContextPoolStatus[] {
+    return Array.from(this.modelInstances.entries()).map(([modelId, modelInstance]) => {
+      const contextsBySession: Record<string, number> = {};
+      for (const owner of modelInstance.busyContexts.values()) {
+        contextsBySession[owner] = (contextsBySession[owner] ?? 0) + 1;
       }
-      
-      // Check if context is available
-      if (modelInstance.availableContexts.length > 0) {
-        return; // Success!
-      }
-      
-      // Wait before next check
-      await new Promise(resolve => setTimeout(resolve, checkInterval));
-    }
-    
-    // Timeout reached
-    throw new Error(`Timeout waiting for available context for model ${modelId} after ${timeoutMs}ms`);
+
+      return {
+        modelId,
+        totalContexts: modelInstance.availableContexts.length + modelInstance.busyContexts.size,
+        availableContexts: modelInstance.availableContexts.length,
+        busyContexts: modelInstance.busyContexts.size,
+        waitingRequests: modelInstance.waiters.length,
+        sessions: Object.keys(contextsBySession).length,
+        ...(includeSessions ? { contextsBySession } : {}),
+        retainedSequences: modelInstance.retainedSequences.size,
+        prefixCache: { ...modelInstance.prefixCache },
+        pool: { ...modelInstance.poolStats, creatingContexts: modelInstance.creatingContexts }
+      };
+    });
+  }
+
+  /**
+   * Elastic pool stats and context memory across models (for GET /api/admin/pools and /api/health)
+   */
+  getContextPoolsStatus(includeSessions: boolean = false): ContextPoolsStatus {
+    return {
+      memory: this.getContextMemoryStatus(),
+      pools: this.getContextPoolStatus(includeSessions)
+    };
   }
 
   getModelConfig(modelId: string): ModelConfig | undefined {
     return this.models.get(modelId);
   }
 
+  /**
+   * Context length to budget a model's prompts against - resolved per model when it loads
+   */
+  getContextSize(modelId: string): number {
+    return this.models.get(modelId)?.contextSize ?? config.model.contextSize;
+  }
+
+  /**
+   * Token counter for a model, cached per model ID
+   * Counts with the model's own tokenizer while it is loaded and estimates otherwise,
+   * so a counter stays valid across hot loads and unloads.
+   */
+  getTokenCounter(modelId: string): TokenCounter {
+    let tokenCounter = this.tokenCounters.get(modelId);
+    if (!tokenCounter) {
+      tokenCounter = new TokenCounter(() => this.modelInstances.get(modelId)?.model);
+      this.tokenCounters.set(modelId, tokenCounter);
+    }
+    return tokenCounter;
+  }
+
   /**
    * PROFESSIONAL SHUTDOWN WITH PROPER CLEANUP
    */
   async shutdown(): Promise<void> {
     this.logger.info('🔄 Shutting down model service...');
 
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+
     for (const [modelId, modelInstance] of this.modelInstances) {
       try {
-        // Dispose all contexts
-        for (const context of modelInstance.availableContexts) {
-          context.dispose();
-        }
-        
-        for (const context of modelInstance.busyContexts) {
-          context.dispose();
+        // Fail anything still queued for a context
+        for (const waiter of modelInstance.waiters) {
+          clearTimeout(waiter.timer);
+          waiter.reject(new Error(`Model ${modelId} is shutting down`));
         }
+        modelInstance.waiters = [];
 
-        // Dispose model
-        modelInstance.model.dispose();
+        await this.disposeModelInstance(modelId, modelInstance);
         
         this.logger.info(`✅ Cleaned up model: ${modelId}`);
       } catch (error) {
@@ -327,10 +1217,29 @@ export class ModelService {
 
     this.modelInstances.clear();
     this.models.clear();
+    this.modelSources.clear();
     
     this.logger.info('✅ Model service shutdown complete');
   }
 
+  private async disposeModelInstance(modelId: string, modelInstance: ModelInstance): Promise<void> {
+    // Dispose all contexts
+    for (const context of modelInstance.availableContexts) {
+      await context.dispose();
+    }
+    
+    for (const context of modelInstance.busyContexts.keys()) {
+      await context.dispose();
+    }
+
+    // Kept sequences go with their contexts
+    modelInstance.retainedSequences.clear();
+
+    // Dispose model
+    PromptFormatter.unregisterEmbeddedTemplate(modelId);
+    await modelInstance.model.dispose();
+  }
+
   /**
    * GET LLAMA INSTANCE FOR GRAMMAR CREATION
    */
@@ -0,0 +1,181 @@
+import { CollaborationPhase, ModelConfig } from '../models/types.js';
+import { createLogger } from '../utils/logger.js';
+import { getErrorMessage } from '../utils/typeGuards.js';
+import { config } from '../config.js';
+
+export interface ChatCompletionRequest {
+  systemPrompt?: string;
+  prompt: string;
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  minP?: number;
+  repeatPenalty?: number;
+  stop?: string[];
+  phase?: CollaborationPhase; // Not sent to the endpoint; lets the mock provider key responses by phase
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  error?: { message?: string };
+}
+
+/**
+ * OPENAI-COMPATIBLE PROVIDER
+ *
+ * Streams completions from any server exposing /v1/chat/completions
+ * (llama-server, vLLM, LM Studio, ...). The server applies the chat template,
+ * so prompts are sent as plain system/user messages.
+ */
+export class OpenAICompatibleProvider {
+  private readonly logger = createLogger('OpenAICompatibleProvider');
+
+  /**
+   * Stream a chat completion, invoking onText for every content delta
+   * Returns the full response text
+   */
+  async streamChatCompletion(
+    modelConfig: ModelConfig,
+    request: ChatCompletionRequest,
+    onText: (text: string) => void,
+    shouldStop?: () => boolean
+  ): Promise<string> {
+    const endpoint = modelConfig.endpoint;
+    if (!endpoint) {
+      throw new Error(`Model ${modelConfig.id} has no endpoint configured`);
+    }
+
+    const url = `${endpoint.baseUrl.replace(/\/+$/, '')}/v1/chat/completions`;
+    const messages = [
+      ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    // llama-server and vLLM accept the sampling extensions beyond the OpenAI spec
+    const body = {
+      model: endpoint.model,
+      messages,
+      stream: true,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      top_k: request.topK,
+      min_p: request.minP,
+      repeat_penalty: request.repeatPenalty,
+      stop: request.stop && request.stop.length > 0 ? request.stop : undefined
+    };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.openAICompatible.requestTimeout);
+    const startTime = Date.now();
+
+    this.logger.info(`🌐 Requesting chat completion`, {
+      modelId: modelConfig.id,
+      url,
+      model: endpoint.model,
+      maxTokens: request.maxTokens
+    });
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...(endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {})
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(`Endpoint returned ${response.status} ${response.statusText}: ${errorText.substring(0, 200)}`);
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let fullResponse = '';
+      let done = false;
+
+      for await (const chunk of response.body) {
+        if (shouldStop?.()) {
+          controller.abort();
+          break;
+        }
+
+        buffer += decoder.decode(chunk as Uint8Array, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const text = this.parseEventLine(line);
+          if (text === null) {
+            done = true;
+            break;
+          }
+          if (text) {
+            fullResponse += text;
+            onText(text);
+          }
+        }
+
+        if (done) break;
+      }
+
+      // Flush a trailing event without newline
+      if (!done && buffer.trim()) {
+        const text = this.parseEventLine(buffer);
+        if (text) {
+          fullResponse += text;
+          onText(text);
+        }
+      }
+
+      this.logger.info(`✅ Chat completion finished`, {
+        modelId: modelConfig.id,
+        responseLength: fullResponse.length,
+        durationMs: Date.now() - startTime
+      });
+
+      return fullResponse;
+    } catch (error) {
+      if (shouldStop?.()) {
+        return '';
+      }
+      this.logger.error(`Chat completion failed for ${modelConfig.id}:`, error, { url });
+      throw new Error(`OpenAI-compatible request failed for ${modelConfig.id}: ${getErrorMessage(error)}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Parse one SSE line: returns content delta, '' for non-content lines, or null at [DONE]
+   */
+  private parseEventLine(line: string): string | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return '';
+
+    const data = trimmed.slice(5).trim();
+    if (data === '[DONE]') return null;
+
+    try {
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.error) {
+        throw new Error(chunk.error.message || 'Unknown streaming error');
+      }
+      return chunk.choices?.[0]?.delta?.content ?? '';
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        this.logger.warn('⚠️ Skipping malformed stream chunk', { data: data.substring(0, 100) });
+        return '';
+      }
+      throw error;
+    }
+  }
+}
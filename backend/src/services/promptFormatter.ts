@@ -1,72 +1,150 @@
-import { ModelConfig } from '../models/types.js';
+import { ChatHistoryItem, JinjaTemplateChatWrapper, LlamaModel, LlamaText } from 'node-llama-cpp';
+
+import { ChatTemplateName, ModelConfig } from '../models/types.js';
+import { createLogger } from '../utils/logger.js';
 
 export interface FormattedPrompt {
   prompt: string;
   stopTokens: string[];
 }
 
+interface ChatTemplate {
+  format: (systemPrompt: string, userPrompt: string) => string;
+  stopTokens: string[];  // Sequences that end generation
+  markers: string[];     // Control tokens stripped from output and caught in the token stream
+}
+
+/**
+ * A model's own tokenizer.chat_template, rendered through node-llama-cpp's Jinja wrapper
+ */
+interface EmbeddedTemplate {
+  wrapper: JinjaTemplateChatWrapper;
+  model: LlamaModel;
+  stopTokens: string[];
+  markers: string[];
+}
+
+const logger = createLogger('PromptFormatter');
+
+// Keyed by model ID - registered when a local model is loaded
+const embeddedTemplates = new Map<string, EmbeddedTemplate>();
+
+/**
+ * Chat templates selected by the model's chatTemplate setting
+ */
+const CHAT_TEMPLATES: Record<ChatTemplateName, ChatTemplate> = {
+  /**
+   * ChatML (Qwen and most instruction-tuned models)
+   * Uses: <|im_start|>system\n{system_prompt}<|im_end|>\n<|im_start|>user\n{prompt}<|im_end|>\n<|im_start|>assistant\n
+   */
+  chatml: {
+    format: (systemPrompt, userPrompt) => `<|im_start|>system
+${systemPrompt}<|im_end|>
+<|im_start|>user
+${userPrompt}<|im_end|>
+<|im_start|>assistant
+`,
+    stopTokens: ['<|im_end|>', '<|im_start|>user', '<|im_start|>system'],
+    markers: ['<|im_end|>', '<|im_start|>', '<|im_start|>user', '<|im_start|>assistant', '<|im_start|>system']
+  },
+
+  /**
+   * Gemma - no system role, so the system prompt leads the user turn
+   * Uses: <bos><start_of_turn>user\n{system_prompt}\n\n{prompt}<end_of_turn>\n<start_of_turn>model\n
+   */
+  gemma: {
+    format: (systemPrompt, userPrompt) => `<bos><start_of_turn>user
+${systemPrompt}
+
+${userPrompt}<end_of_turn>
+<start_of_turn>model
+`,
+    stopTokens: ['<end_of_turn>', '<start_of_turn>user'],
+    markers: ['<end_of_turn>', '<start_of_turn>', '<start_of_turn>user', '<start_of_turn>model']
+  },
+
+  /**
+   * Plain-text fallback for models without a declared template
+   */
+  generic: {
+    format: (systemPrompt, userPrompt) => `System: ${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`,
+    stopTokens: [],
+    markers: []
+  }
+};
+
+export const CHAT_TEMPLATE_NAMES = Object.keys(CHAT_TEMPLATES) as ChatTemplateName[];
+
 export class PromptFormatter {
   /**
-   * Format prompt according to model-specific requirements
+   * Format prompt with the model's chat template
+   * The template embedded in the GGUF wins; the declared chatTemplate is the fallback.
+   * Thinking models get /no_think appended unless skipNoThink is set (verification)
    */
   static formatPrompt(
-    modelConfig: ModelConfig, 
-    systemPrompt: string, 
+    modelConfig: ModelConfig,
+    systemPrompt: string,
     userPrompt: string,
     skipNoThink: boolean = false
   ): FormattedPrompt {
-    const modelName = modelConfig.name.toLowerCase();
-    
-    if (modelName.includes('gemma')) {
-      return this.formatGemmaPrompt(systemPrompt, userPrompt);
-    } else if (modelName.includes('qwen')) {
-      return this.formatQwenPrompt(systemPrompt, userPrompt, skipNoThink);
+    const modifiedUserPrompt = modelConfig.supportsThinking && !skipNoThink ? userPrompt + ' /no_think' : userPrompt;
+
+    const embedded = embeddedTemplates.get(modelConfig.id);
+    if (embedded) {
+      try {
+        return {
+          prompt: this.renderEmbedded(embedded, systemPrompt, modifiedUserPrompt),
+          stopTokens: modelConfig.stopTokens ?? embedded.stopTokens,
+        };
+      } catch (error) {
+        logger.warn(`⚠️ Embedded chat template failed for ${modelConfig.id} - using the ${modelConfig.chatTemplate ?? 'generic'} template`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
     }
-    
-    // Default format for unknown models
+
+    const template = this.getTemplate(modelConfig);
     return {
-      prompt: `System: ${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`,
-      stopTokens: [],
+      prompt: template.format(systemPrompt, modifiedUserPrompt),
+      stopTokens: modelConfig.stopTokens ?? template.stopTokens,
     };
   }
 
   /**
-   * Format prompt for Gemma models
-   * Uses: <bos><start_of_turn>user\n{system_prompt}\n\n{prompt}<end_of_turn>\n<start_of_turn>model\n
+   * Use the tokenizer.chat_template embedded in a loaded GGUF for this model
+   * Returns false when the file has no template; throws when the template cannot be rendered
    */
-  private static formatGemmaPrompt(systemPrompt: string, userPrompt: string): FormattedPrompt {
-    const formattedPrompt = `<bos><start_of_turn>user
-${systemPrompt}
+  static registerEmbeddedTemplate(modelId: string, model: LlamaModel): boolean {
+    const template = model.fileInfo.metadata.tokenizer.chat_template;
+    if (!template) return false;
 
-${userPrompt}<end_of_turn>
-<start_of_turn>model
-`;
+    const wrapper = new JinjaTemplateChatWrapper({ template });
+    const state = wrapper.generateContextState({ chatHistory: this.buildChatHistory('system', 'user') });
 
-    return {
-      prompt: formattedPrompt,
-      stopTokens: ['<end_of_turn>', '<start_of_turn>user'],
-    };
+    // Stop triggers come from the template itself, e.g. <|im_end|> or <end_of_turn>
+    const stopTokens = state.stopGenerationTriggers
+      .map(trigger => model.detokenize(LlamaText(trigger).tokenize(model.tokenizer), true).trim())
+      .filter(Boolean);
+
+    // Every line of template markup around the messages is a control marker
+    const markup = state.contextText.values.filter(value => typeof value !== 'string');
+    const markers = new Set<string>(stopTokens);
+    for (const value of markup) {
+      for (const line of model.detokenize(LlamaText(value).tokenize(model.tokenizer), true).split('\n')) {
+        if (line.trim()) markers.add(line.trim());
+      }
+    }
+
+    embeddedTemplates.set(modelId, { wrapper, model, stopTokens, markers: Array.from(markers) });
+    return true;
   }
 
-  /**
-   * Format prompt for Qwen models (ChatML format)
-   * Uses: <|im_start|>system\n{system_prompt}<|im_end|>\n<|im_start|>user\n{prompt}<|im_end|>\n<|im_start|>assistant\n
-   */
-  private static formatQwenPrompt(systemPrompt: string, userPrompt: string, skipNoThink: boolean = false): FormattedPrompt {
-    // Append /no_think to the user prompt for Qwen models (unless skipped for verification)
-    const modifiedUserPrompt = skipNoThink ? userPrompt : userPrompt + ' /no_think';
-    
-    const formattedPrompt = `<|im_start|>system
-${systemPrompt}<|im_end|>
-<|im_start|>user
-${modifiedUserPrompt}<|im_end|>
-<|im_start|>assistant
-`;
+  static unregisterEmbeddedTemplate(modelId: string): void {
+    embeddedTemplates.delete(modelId);
+  }
 
-    return {
-      prompt: formattedPrompt,
-      stopTokens: ['<|im_end|>', '<|im_start|>user', '<|im_start|>system'],
-    };
+  static hasEmbeddedTemplate(modelId: string): boolean {
+    return embeddedTemplates.has(modelId);
   }
 
   /**
@@ -75,22 +153,13 @@ ${modifiedUserPrompt}<|im_end|>
   static extractResponse(modelConfig: ModelConfig, rawOutput: string): string {
     // Clean up any stop tokens that might have leaked through
     let cleaned = rawOutput.trim();
-    
-    const modelName = modelConfig.name.toLowerCase();
-    
-    if (modelName.includes('gemma')) {
-      // Remove Gemma stop tokens
-      cleaned = cleaned.replace(/<end_of_turn>/g, '');
-      cleaned = cleaned.replace(/<start_of_turn>user/g, '');
-      cleaned = cleaned.replace(/<start_of_turn>model/g, '');
-    } else if (modelName.includes('qwen')) {
-      // Remove Qwen stop tokens
-      cleaned = cleaned.replace(/<\|im_end\|>/g, '');
-      cleaned = cleaned.replace(/<\|im_start\|>user/g, '');
-      cleaned = cleaned.replace(/<\|im_start\|>assistant/g, '');
-      cleaned = cleaned.replace(/<\|im_start\|>system/g, '');
+
+    // Longest first so '<|im_start|>user' is not left behind as 'user'
+    const markers = [...this.getMarkers(modelConfig)].sort((a, b) => b.length - a.length);
+    for (const marker of markers) {
+      cleaned = cleaned.split(marker).join('');
     }
-    
+
     return cleaned.trim();
   }
 
@@ -98,18 +167,32 @@ ${modifiedUserPrompt}<|im_end|>
    * Check if a token is a stop token for the given model
    */
   static isStopToken(modelConfig: ModelConfig, token: string): boolean {
-    const modelName = modelConfig.name.toLowerCase();
-    
-    if (modelName.includes('gemma')) {
-      // Check for exact matches and partial tokens that contain stop sequences
-      const stopTokens = ['<end_of_turn>', '<start_of_turn>', '<start_of_turn>user', '<start_of_turn>model'];
-      return stopTokens.some(stop => token === stop || token.includes(stop));
-    } else if (modelName.includes('qwen')) {
-      // Check for exact matches and partial tokens that contain stop sequences
-      const stopTokens = ['<|im_end|>', '<|im_start|>', '<|im_start|>user', '<|im_start|>assistant', '<|im_start|>system'];
-      return stopTokens.some(stop => token === stop || token.includes(stop));
-    }
-    
-    return false;
+    // Check for exact matches and partial tokens that contain stop sequences
+    return this.getMarkers(modelConfig).some(stop => token === stop || token.includes(stop));
+  }
+
+  private static renderEmbedded(embedded: EmbeddedTemplate, systemPrompt: string, userPrompt: string): string {
+    const { contextText } = embedded.wrapper.generateContextState({
+      chatHistory: this.buildChatHistory(systemPrompt, userPrompt)
+    });
+    // Detokenizing keeps special tokens such as BOS as the model's own text
+    return embedded.model.detokenize(contextText.tokenize(embedded.model.tokenizer), true);
   }
-}
\ No newline at end of file
+
+  private static buildChatHistory(systemPrompt: string, userPrompt: string): ChatHistoryItem[] {
+    return [
+      { type: 'system', text: systemPrompt },
+      { type: 'user', text: userPrompt },
+      { type: 'model', response: [] }
+    ];
+  }
+
+  private static getTemplate(modelConfig: ModelConfig): ChatTemplate {
+    return CHAT_TEMPLATES[modelConfig.chatTemplate ?? 'generic'];
+  }
+
+  private static getMarkers(modelConfig: ModelConfig): string[] {
+    const markers = embeddedTemplates.get(modelConfig.id)?.markers ?? this.getTemplate(modelConfig).markers;
+    return modelConfig.stopTokens ? [...markers, ...modelConfig.stopTokens] : markers;
+  }
+}
@@ -24,10 +24,10 @@ import {
 } from '../models/types.js';
 import { LlamaContext, Token } from 'node-llama-cpp';
 import { createLogger } from '../utils/logger.js';
-import { config } from '../config.js';
 
 export interface QwenThinkingOptions {
   sessionId: string;
+  modelId: string;
   prompt: string;
   systemPrompt?: string;
   phase: CollaborationPhase;
@@ -78,15 +78,18 @@ export class QwenThinkingService {
   private logger = createLogger('QwenThinkingService');
   private contextAllocator: ContextAllocator;
   private tokenCounter: TokenCounter;
-  private qwenModelId = 'qwen3-14b-ud-q4-k-xl';
 
+  /**
+   * @param signal Aborted when the collaboration is cancelled - generation stops with what it has
+   */
   constructor(
     private modelService: ModelService,
     private streamingService: StreamingService,
-    _sendMessage: (message: SSEMessage) => void
+    _sendMessage: (message: SSEMessage) => void,
+    private signal?: AbortSignal
   ) {
     this.tokenCounter = new TokenCounter();
-    this.contextAllocator = new ContextAllocator(this.tokenCounter);
+    this.contextAllocator = new ContextAllocator(this.tokenCounter, modelService);
     
     this.logger.info('🧠 QwenThinkingService initialized with optimal thinking mode settings', {
       settings: THINKING_MODE_SETTINGS
@@ -99,35 +102,40 @@ export class QwenThinkingService {
    */
   async executeWithThinking(options: QwenThinkingOptions): Promise<QwenThinkingResult> {
     const startTime = Date.now();
+    const modelId = options.modelId;
+    const tokenCounter = this.modelService.getTokenCounter(modelId);
     let context: LlamaContext | null = null;
     
     try {
       this.logger.info('🤔 Starting Qwen3 thinking mode execution', {
         sessionId: options.sessionId,
+        modelId,
         phase: options.phase,
         promptLength: options.prompt.length,
         stream: options.stream ?? true
       });
 
       // Verify Qwen3 model is available
-      const modelConfig = this.modelService.getModelConfig(this.qwenModelId);
+      const modelConfig = this.modelService.getModelConfig(modelId);
       if (!modelConfig) {
-        throw new Error(`Qwen3 model ${this.qwenModelId} not found`);
+        throw new Error(`Thinking model ${modelId} not found`);
       }
 
-      // Acquire model context
-      context = await this.modelService.acquireContext(this.qwenModelId);
-      this.logger.info('🧠 Qwen3 context acquired for thinking mode');
+      // Acquire model context (remote models stream over HTTP instead)
+      if (!this.modelService.isRemoteModel(modelId)) {
+        context = await this.modelService.acquireContext(modelId);
+        this.logger.info('🧠 Qwen3 context acquired for thinking mode');
+      }
 
       // Calculate token allocation if not provided
       let allocation = options.tokenAllocation;
       if (!allocation) {
-        const promptTokens = this.tokenCounter.countTokens(options.prompt);
+        const promptTokens = tokenCounter.countTokens(options.prompt);
         allocation = this.contextAllocator.calculateAllocation(
           options.phase,
-          config.model.contextSize || 8192,
+          this.modelService.getContextSize(modelId),
           '',
-          this.qwenModelId,
+          modelId,
           'verification',
           0
         );
@@ -154,23 +162,29 @@ export class QwenThinkingService {
       });
 
       // Generate response with thinking mode settings
-      const response = await this.generateWithThinkingMode(
-        modelConfig,
-        context,
-        formatted,
-        allocation,
-        options
-      );
+      const response = context
+        ? await this.generateWithThinkingMode(
+          modelConfig,
+          context,
+          formatted,
+          allocation,
+          options
+        )
+        : await this.generateRemoteWithThinkingMode(
+          modelConfig,
+          allocation,
+          options
+        );
 
       // Extract thinking content if present
-      const { content, thinkingTokens, outputTokens } = this.extractThinkingContent(response);
+      const { content, thinkingTokens, outputTokens } = this.extractThinkingContent(response, tokenCounter);
 
       const endTime = Date.now();
       const generationTime = endTime - startTime;
       
       // Calculate metrics
-      const promptTokens = this.tokenCounter.countTokens(formatted.prompt);
-      const generatedTokens = this.tokenCounter.countTokens(response);
+      const promptTokens = tokenCounter.countTokens(formatted.prompt);
+      const generatedTokens = tokenCounter.countTokens(response);
       const totalTokens = promptTokens + generatedTokens;
       const tokensPerSecond = Math.round((generatedTokens / generationTime) * 1000);
 
@@ -226,7 +240,7 @@ export class QwenThinkingService {
     } finally {
       // Always release context
       if (context) {
-        this.modelService.releaseContext(this.qwenModelId, context);
+        this.modelService.releaseContext(modelId, context);
         this.logger.info('🧠 Qwen3 context released');
       }
     }
@@ -239,12 +253,14 @@ export class QwenThinkingService {
   async performFinalVerification(
     sessionId: string,
     synthesisContent: string,
-    conversationHistory: string
+    conversationHistory: string,
+    modelId: string
   ): Promise<QwenThinkingResult> {
     const verificationPrompt = this.buildVerificationPrompt(synthesisContent, conversationHistory);
     
     return this.executeWithThinking({
       sessionId,
+      modelId,
       prompt: verificationPrompt,
       systemPrompt: this.getVerificationSystemPrompt(),
       phase: CollaborationPhase.SYNTHESIZE,
@@ -257,12 +273,14 @@ export class QwenThinkingService {
    * Generate content with thinking mode settings
    */
   private async generateWithThinkingMode(
-    _modelConfig: ModelConfig,
+    modelConfig: ModelConfig,
     context: LlamaContext,
     formatted: FormattedPrompt,
     allocation: TokenAllocation,
     options: QwenThinkingOptions
   ): Promise<string> {
+    const streamId = options.routeToSynthesis ? 'synthesis' : modelConfig.id;
+
     this.logger.info('🚀 Starting generation with thinking mode settings', {
       temperature: THINKING_MODE_SETTINGS.temperature,
       topP: THINKING_MODE_SETTINGS.topP,
@@ -296,14 +314,17 @@ export class QwenThinkingService {
         },
         maxTokens: options.maxTokens || allocation.maxGenerationTokens,
         customStopTriggers: formatted.stopTokens,
+        signal: this.signal,
+        stopOnAbortSignal: true, // Resolve with the partial response instead of throwing
         onToken: options.stream !== false ? (tokens: Token[]): void => {
+          if (this.signal?.aborted) return;
+
           // Detokenize tokens
           const tokenText = context.model.detokenize(tokens, false);
           
           if (tokenText) {
             // CRITICAL: Filter out stop tokens to prevent HTML rendering issues
-            const modelConfig = this.modelService.getModelConfig(this.qwenModelId);
-            if (modelConfig && PromptFormatter.isStopToken(modelConfig, tokenText)) {
+            if (PromptFormatter.isStopToken(modelConfig, tokenText)) {
               this.logger.debug('Filtered stop token from Qwen thinking stream', {
                 stopToken: tokenText
               });
@@ -315,7 +336,7 @@ export class QwenThinkingService {
             // Stream the token if enabled
             if (options.stream !== false) {
               this.streamingService.addToken(
-                options.routeToSynthesis ? 'synthesis' : this.qwenModelId, 
+                streamId, 
                 options.phase, 
                 tokenText
               );
@@ -330,7 +351,7 @@ export class QwenThinkingService {
       if (options.stream !== false) {
         // Complete the stream
         this.streamingService.completeStream(
-          options.routeToSynthesis ? 'synthesis' : this.qwenModelId,
+          streamId,
           options.phase
         );
       }
@@ -347,11 +368,58 @@ export class QwenThinkingService {
     }
   }
 
+  /**
+   * Generate with thinking mode settings against an OpenAI-compatible endpoint
+   * The server applies the chat template, so the raw system and user prompts are sent
+   */
+  private async generateRemoteWithThinkingMode(
+    modelConfig: ModelConfig,
+    allocation: TokenAllocation,
+    options: QwenThinkingOptions
+  ): Promise<string> {
+    const streamId = options.routeToSynthesis ? 'synthesis' : modelConfig.id;
+
+    const response = await this.modelService.generateRemote(
+      modelConfig.id,
+      {
+        systemPrompt: options.systemPrompt || this.getDefaultSystemPrompt(options.phase),
+        prompt: options.prompt,
+        maxTokens: options.maxTokens || allocation.maxGenerationTokens,
+        temperature: THINKING_MODE_SETTINGS.temperature,
+        topP: THINKING_MODE_SETTINGS.topP,
+        topK: THINKING_MODE_SETTINGS.topK,
+        minP: THINKING_MODE_SETTINGS.minP,
+        repeatPenalty: THINKING_MODE_SETTINGS.repeatPenalty,
+        phase: options.phase
+      },
+      (text) => {
+        if (options.stream !== false && !this.isAborted()) {
+          this.streamingService.addToken(streamId, options.phase, text);
+        }
+      },
+      () => this.isAborted()
+    );
+
+    if (options.stream !== false) {
+      this.streamingService.completeStream(streamId, options.phase);
+    }
+
+    this.logger.info('📝 Remote thinking mode generation completed', {
+      responseLength: response.length
+    });
+
+    return response;
+  }
+
+  private isAborted(): boolean {
+    return this.signal?.aborted ?? false;
+  }
+
   /**
    * Extract thinking content from response
    * Qwen3's thinking appears between <think> and </think> tags
    */
-  private extractThinkingContent(response: string): {
+  private extractThinkingContent(response: string, tokenCounter: TokenCounter): {
     content: string;
     thinkingTokens: number;
     outputTokens: number;
@@ -365,8 +433,8 @@ export class QwenThinkingService {
       
       return {
         content: outputContent || response, // Fallback to full response if no output after thinking
-        thinkingTokens: this.tokenCounter.countTokens(thinkingContent),
-        outputTokens: this.tokenCounter.countTokens(outputContent)
+        thinkingTokens: tokenCounter.countTokens(thinkingContent),
+        outputTokens: tokenCounter.countTokens(outputContent)
       };
     }
     
@@ -374,7 +442,7 @@ export class QwenThinkingService {
     return {
       content: response,
       thinkingTokens: 0,
-      outputTokens: this.tokenCounter.countTokens(response)
+      outputTokens: tokenCounter.countTokens(response)
     };
   }
 
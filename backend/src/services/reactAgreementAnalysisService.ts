@@ -2,8 +2,9 @@
  * REACT AGREEMENT ANALYSIS SERVICE - INTELLIGENT LLM-DRIVEN ANALYSIS
  * 
  * Revolutionary agreement analysis using the ReAct (Reasoning + Acting) pattern.
- * Gemma LLM acts as the intelligence engine, dynamically choosing which analysis
- * tools to use and interpreting results to make sophisticated agreement decisions.
+ * The lead participant acts as the intelligence engine, dynamically choosing which
+ * analysis tools to use and interpreting results to make sophisticated agreement
+ * decisions across every participant response (2..N).
  */
 
 import { ModelService } from './modelService.js';
@@ -19,14 +20,14 @@ import {
   AgreementLevel
 } from '../models/agreementAnalysisTypes.js';
 import { CollaborationPhase, SSEMessage, SSEMessageType } from '../models/types.js';
+import { ModelRole } from '../models/curatedConversationTypes.js';
 
 export interface ReActState {
   sessionId: string;
   iteration: number;
   maxIterations: number;
   scratchpad: string;
-  extractionA: ExtractedData | null;
-  extractionB: ExtractedData | null;
+  extractions: Array<ExtractedData | null>; // Parallel to input.responses
   toolResults: Map<string, ToolResult>;
   finalDecision: {
     nextPhase: CollaborationPhase;
@@ -43,23 +44,85 @@ export interface ToolCall {
   thought: string;
 }
 
+// JSON schemas for grammar-constrained (local) and prompted (context-less) structured output
+const REACT_ACTION_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    thought: {
+      type: "string" as const,
+      description: "Your reasoning about what to do next"
+    },
+    tool: {
+      type: "string" as const,
+      enum: ["extract_data", "compare_answers", "analyze_confidence", "compare_reasoning", "assess_errors", "detect_phase_signals", "finish"] as const
+    },
+    params: {
+      type: "object" as const,
+      description: "Parameters for the chosen tool"
+    }
+  },
+  required: ["thought", "tool", "params"] as const
+};
+
+const EXTRACTION_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    finalAnswer: {
+      oneOf: [
+        { type: "string" as const },
+        { type: "number" as const },
+        { type: "null" as const }
+      ]
+    },
+    confidenceScore: {
+      type: "number" as const,
+      minimum: 0,
+      maximum: 1
+    },
+    confidenceKeywords: {
+      type: "array" as const,
+      items: { type: "string" as const }
+    },
+    reasoningSteps: {
+      type: "array" as const,
+      items: { type: "string" as const }
+    },
+    errorFlags: {
+      type: "array" as const, 
+      items: { type: "string" as const }
+    },
+    hasExplicitAnswer: {
+      type: "boolean" as const
+    },
+    answerLocation: {
+      type: "string" as const
+    }
+  },
+  required: ["finalAnswer", "confidenceScore", "confidenceKeywords", "reasoningSteps", "errorFlags", "hasExplicitAnswer", "answerLocation"] as const
+};
+
 /**
- * ReAct-based agreement analysis engine powered by Gemma LLM
+ * ReAct-based agreement analysis engine powered by the lead participant LLM
  */
 export class ReActAgreementAnalysisService {
   private logger = createLogger('ReActAgreementAnalysisService');
   private toolbox: AnalysisToolbox;
   private contextAllocator: ContextAllocator;
   private tokenCounter: TokenCounter;
-  private gemmaModelId = 'gemma-3-12b-it-q4-0';
+  private analystModelId = '';
+  private generatedTokens = 0; // Spent by the analyst during the current analysis
 
+  /**
+   * @param signal Aborted when the collaboration is cancelled - the analysis stops at its next LLM call
+   */
   constructor(
     private modelService: ModelService,
-    private sendMessage?: (message: SSEMessage) => void
+    private sendMessage?: (message: SSEMessage) => void,
+    private signal?: AbortSignal
   ) {
     this.toolbox = new AnalysisToolbox();
     this.tokenCounter = new TokenCounter();
-    this.contextAllocator = new ContextAllocator(this.tokenCounter);
+    this.contextAllocator = new ContextAllocator(this.tokenCounter, modelService);
   }
 
   async initialize(): Promise<void> {
@@ -72,17 +135,32 @@ export class ReActAgreementAnalysisService {
    */
   async analyze(input: AgreementAnalysisInput): Promise<AgreementAnalysisResult> {
     const startTime = Date.now();
-    this.logger.info(`🚀 Starting ReAct agreement analysis for session ${input.sessionId}`);
+    this.generatedTokens = 0;
+    this.logger.info(`🚀 Starting ReAct agreement analysis for session ${input.sessionId}`, {
+      participants: input.responses.map(r => r.modelId)
+    });
 
     try {
+      if (input.responses.length < 2) {
+        throw new Error(`Agreement analysis requires at least two responses, got ${input.responses.length}`);
+      }
+
+      // Prefer participants declared as analysts, and among them a local model for
+      // grammar-constrained generation; models without a llama context (endpoint or mock)
+      // fall back to prompting for JSON
+      const analysts = input.responses.filter(r => this.modelService.hasRole(r.modelId, ModelRole.ANALYST));
+      const candidates = analysts.length > 0 ? analysts : input.responses;
+      const analyst = candidates.find(r => !this.modelService.isRemoteModel(r.modelId)) ?? candidates[0];
+      this.analystModelId = analyst.modelId;
+      this.tokenCounter = this.modelService.getTokenCounter(analyst.modelId);
+
       // Initialize ReAct state with intelligent summarization
       const state: ReActState = {
         sessionId: input.sessionId,
         iteration: 0,
         maxIterations: 6, // Sufficient for thorough analysis
         scratchpad: await this.initializeScratchpad(input),
-        extractionA: null,
-        extractionB: null,
+        extractions: input.responses.map(() => null),
         toolResults: new Map(),
         finalDecision: null
       };
@@ -107,16 +185,16 @@ export class ReActAgreementAnalysisService {
    * Uses intelligent summarization instead of crude truncation
    */
   private async initializeScratchpad(input: AgreementAnalysisInput): Promise<string> {
-    // Use GEMMA to intelligently summarize responses if they're too long
+    // Use the analyst LLM to intelligently summarize responses if they're too long
     const targetSummaryTokens = 300;
     
-    const summaryA = this.tokenCounter.countTokens(input.responseA.content) > targetSummaryTokens 
-      ? await this.intelligentContentSummarization(input.responseA.content, targetSummaryTokens)
-      : input.responseA.content;
-      
-    const summaryB = this.tokenCounter.countTokens(input.responseB.content) > targetSummaryTokens
-      ? await this.intelligentContentSummarization(input.responseB.content, targetSummaryTokens)
-      : input.responseB.content;
+    const responseSections: string[] = [];
+    for (const [index, response] of input.responses.entries()) {
+      const summary = this.tokenCounter.countTokens(response.content) > targetSummaryTokens
+        ? await this.intelligentContentSummarization(response.content, targetSummaryTokens)
+        : response.content;
+      responseSections.push(`Model ${this.getModelLabel(index)} (${response.modelId}) Response:\n${summary}`);
+    }
 
     return `AGREEMENT ANALYSIS TASK
 ======================
@@ -125,13 +203,9 @@ Original Query: ${input.originalQuery}
 Current Phase: ${input.currentPhase}
 Session: ${input.sessionId}
 
-Model A (${input.responseA.modelId}) Response:
-${summaryA}
+${responseSections.join('\n\n')}
 
-Model B (${input.responseB.modelId}) Response:
-${summaryB}
-
-MISSION: Determine if both models agree sufficiently to jump directly to final phase or if further collaboration is needed.
+MISSION: Determine if all ${input.responses.length} models agree sufficiently to jump directly to final phase or if further collaboration is needed.
 
 ANALYSIS BEGINS:
 `;
@@ -144,13 +218,13 @@ ANALYSIS BEGINS:
     // Send initial analysis start message
     this.sendStatusUpdate(`🔬 Starting ReAct agreement analysis...`);
     
-    while (state.iteration < state.maxIterations && !state.finalDecision) {
+    while (state.iteration < state.maxIterations && !state.finalDecision && !this.isAborted()) {
       state.iteration++;
       
       this.logger.info(`🔄 ReAct iteration ${state.iteration}/${state.maxIterations}`);
       this.sendStatusUpdate(`🧠 ReAct Iteration ${state.iteration}: AI reasoning about agreement...`);
 
-      // REASONING: Get next action from Gemma
+      // REASONING: Get next action from the analyst LLM
       const action = await this.getNextActionFromLLM(input, state);
       
       if (!action) {
@@ -218,103 +292,124 @@ ANALYSIS BEGINS:
   }
 
   /**
-   * Get next action from Gemma LLM using ReAct prompting
+   * Get next action from the analyst LLM using ReAct prompting
    */
   private async getNextActionFromLLM(input: AgreementAnalysisInput, state: ReActState): Promise<ToolCall | null> {
     let context = null;
     try {
-      context = await this.modelService.acquireContext(this.gemmaModelId);
-      const sequence = context.getSequence();
+      const prompt = this.buildReActPrompt(input, state);
       
-      try {
-        // Create JSON schema for structured tool calling
-        const llama = this.modelService.getLlamaInstance();
-        const actionSchema = {
-          type: "object" as const,
-          properties: {
-            thought: {
-              type: "string" as const,
-              description: "Your reasoning about what to do next"
-            },
-            tool: {
-              type: "string" as const,
-              enum: ["extract_data", "compare_answers", "analyze_confidence", "compare_reasoning", "assess_errors", "detect_phase_signals", "finish"] as const
-            },
-            params: {
-              type: "object" as const,
-              description: "Parameters for the chosen tool"
-            }
-          },
-          required: ["thought", "tool", "params"] as const
-        };
-        
-        const grammar = await llama.createGrammarForJsonSchema(actionSchema);
-        
-        const session = new LlamaChatSession({
-          contextSequence: sequence,
-          systemPrompt: this.buildSystemPrompt()
-        });
-
-        const prompt = this.buildReActPrompt(input, state);
+      // Use sophisticated token allocation for ReAct reasoning
+      const modelConfig = this.modelService.getModelConfig(this.analystModelId);
+      if (!modelConfig) {
+        throw new Error(`Model config not found for ${this.analystModelId}`);
+      }
+      const allocation = this.contextAllocator.calculateAllocation(
+        CollaborationPhase.CRITIQUE,
+        modelConfig.contextSize,
+        state.scratchpad,
+        this.analystModelId,
+        'react_analysis',
+        state.iteration
+      );
+      const maxTokens = allocation.maxGenerationTokens - this.tokenCounter.countTokens(prompt) - 100;
+
+      let action: ToolCall;
+      if (this.modelService.isRemoteModel(this.analystModelId)) {
+        action = await this.generateJsonWithoutGrammar<ToolCall>(
+          this.buildSystemPrompt(), prompt, REACT_ACTION_SCHEMA, 0.2, maxTokens
+        );
+      } else {
+        context = await this.modelService.acquireContext(this.analystModelId);
+        const sequence = context.getSequence();
         
-        // Use sophisticated token allocation for ReAct reasoning
-        const modelConfig = this.modelService.getModelConfig(this.gemmaModelId);
-        if (!modelConfig) {
-          throw new Error(`Model config not found for ${this.gemmaModelId}`);
+        try {
+          // Create JSON schema grammar for structured tool calling
+          const llama = this.modelService.getLlamaInstance();
+          const grammar = await llama.createGrammarForJsonSchema(REACT_ACTION_SCHEMA);
+          
+          const session = new LlamaChatSession({
+            contextSequence: sequence,
+            systemPrompt: this.buildSystemPrompt()
+          });
+
+          const response = this.countGenerated(await session.prompt(prompt, {
+            grammar,
+            temperature: 0.2, // Low temperature for consistent reasoning
+            maxTokens,
+            signal: this.signal,
+            stopOnAbortSignal: true
+          }));
+
+          action = JSON.parse(response) as ToolCall;
+        } finally {
+          sequence.dispose();
         }
-        const allocation = this.contextAllocator.calculateAllocation(
-          CollaborationPhase.CRITIQUE,
-          modelConfig.contextSize,
-          state.scratchpad,
-          this.gemmaModelId,
-          'react_analysis',
-          state.iteration
-        );
-
-        const response = await session.prompt(prompt, {
-          grammar,
-          temperature: 0.2, // Low temperature for consistent reasoning
-          maxTokens: allocation.maxGenerationTokens - this.tokenCounter.countTokens(prompt) - 100
-        });
-
-        const action = JSON.parse(response) as ToolCall;
+      }
         
-        this.logger.info('🧠 LLM action received', {
-          tool: action.tool,
-          thought: action.thought.substring(0, 100)
-        });
+      this.logger.info('🧠 LLM action received', {
+        tool: action.tool,
+        thought: action.thought.substring(0, 100)
+      });
 
-        return action;
-        
-      } finally {
-        sequence.dispose();
-      }
+      return action;
     } catch (error) {
       this.logger.error('❌ Failed to get action from LLM', { error });
       return null;
     } finally {
       if (context) {
-        this.modelService.releaseContext(this.gemmaModelId, context);
+        this.modelService.releaseContext(this.analystModelId, context);
       }
     }
   }
 
+  /**
+   * Structured generation for analysts without a llama context (endpoint or mock models):
+   * the schema is described in the system prompt and the first JSON object in the reply is parsed
+   */
+  private async generateJsonWithoutGrammar<T>(
+    systemPrompt: string,
+    prompt: string,
+    schema: object,
+    temperature: number,
+    maxTokens: number
+  ): Promise<T> {
+    const response = this.countGenerated(await this.modelService.generateRemote(
+      this.analystModelId,
+      {
+        systemPrompt: `${systemPrompt}\n\nRespond with a single JSON object matching this JSON schema and nothing else:\n${JSON.stringify(schema)}`,
+        prompt,
+        maxTokens,
+        temperature
+      },
+      () => undefined,
+      () => this.isAborted()
+    ));
+
+    const start = response.indexOf('{');
+    const end = response.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error(`No JSON object in response from ${this.analystModelId}`);
+    }
+    return JSON.parse(response.slice(start, end + 1)) as T;
+  }
+
   /**
    * Build comprehensive system prompt for ReAct analysis
    */
   private buildSystemPrompt(): string {
-    return `You are an expert AI collaboration analyst using the ReAct framework. Your mission is to determine if two AI models agree sufficiently to skip directly to the final answer phase.
+    return `You are an expert AI collaboration analyst using the ReAct framework. Your mission is to determine if the participating AI models (labelled Model A, Model B, ...) agree sufficiently to skip directly to the final answer phase.
 
 AVAILABLE TOOLS:
 1. extract_data: Extract structured data from model responses
-   - Use FIRST to get structured data from both responses
-   - Params: {} (extracts from both models automatically)
+   - Use FIRST to get structured data from all responses
+   - Params: {} (extracts from all models automatically) or { model: "A" } for a single model
 
 2. compare_answers: Compare final answers between models
    - Use after data extraction to check answer agreement
    - Params: {} (uses previously extracted data)
 
-3. analyze_confidence: Analyze confidence levels of both models
+3. analyze_confidence: Analyze confidence levels of all models
    - Determines if models are confident enough for phase jumping
    - Params: {} (uses previously extracted data)
 
@@ -335,15 +430,15 @@ AVAILABLE TOOLS:
    - Params: { nextPhase: "COMPLETE"|"CONSENSUS"|"CRITIQUE"|"REVISE", reasoning: string, confidence: number, isPhaseJump: boolean, jumpReason?: string }
 
 DECISION LOGIC:
-- If both models have EXACT_MATCH answers with HIGH confidence and NO errors → jump to COMPLETE
+- If all models have EXACT_MATCH answers with HIGH confidence and NO errors → jump to COMPLETE
 - If models have equivalent answers with good confidence → jump to CONSENSUS  
-- If explicit phase jump signals detected from both models → consider phase jump
+- If explicit phase jump signals detected from all models → consider phase jump
 - If significant disagreement or errors → continue with CRITIQUE or REVISE
 
 IMPORTANT: 
-1. Start with extract_data (no parameters needed - extracts both models)
+1. Start with extract_data (no parameters needed - extracts all models)
 2. Then use comparison tools to analyze agreement
-3. If both models agree with high confidence, jump to COMPLETE
+3. If all models agree with high confidence, jump to COMPLETE
 4. If disagreement or low confidence, continue current phase
 
 WORKFLOW: extract_data → compare_answers → analyze_confidence → finish`;
@@ -357,9 +452,9 @@ WORKFLOW: extract_data → compare_answers → analyze_confidence → finish`;
     let nextAction = "Choose the most appropriate tool";
     
     // Adjust available tools based on current state
-    if (!state.extractionA || !state.extractionB) {
-      availableTools = "Use extract_data first to analyze both model responses";
-      nextAction = "Start with: {\"thought\": \"I need to extract data from both models first\", \"tool\": \"extract_data\", \"params\": {}}";
+    if (!this.getCompleteExtractions(state)) {
+      availableTools = "Use extract_data first to analyze all model responses";
+      nextAction = "Start with: {\"thought\": \"I need to extract data from all models first\", \"tool\": \"extract_data\", \"params\": {}}";
     } else if (state.toolResults.size <= 1) {
       availableTools = "Data extracted, now compare the models";
       nextAction = "Use compare_answers or analyze_confidence to check agreement";
@@ -372,7 +467,7 @@ WORKFLOW: extract_data → compare_answers → analyze_confidence → finish`;
 
 Current Status: ${availableTools}
 Iteration: ${state.iteration}/${state.maxIterations}
-Data Status: extractionA=${state.extractionA ? 'ready' : 'missing'}, extractionB=${state.extractionB ? 'ready' : 'missing'}
+Data Status: ${state.extractions.map((e, i) => `extraction${this.getModelLabel(i)}=${e ? 'ready' : 'missing'}`).join(', ')}
 
 What should I do next to determine if the models agree sufficiently for a phase jump?
 
@@ -386,38 +481,40 @@ Response format: {"thought": "...", "tool": "...", "params": {...}}`;
    */
   private async executeTool(toolName: string, params: Record<string, unknown>, input: AgreementAnalysisInput, state: ReActState): Promise<ToolResult | null> {
     try {
+      const extractions = this.getCompleteExtractions(state);
+      
       switch (toolName) {
         case 'extract_data':
           return await this.executeDataExtraction(params, input, state);
           
         case 'compare_answers':
-          if (state.extractionA && state.extractionB) {
-            return await this.toolbox.compareFinalAnswers(state.extractionA, state.extractionB);
+          if (extractions) {
+            return await this.runPairwiseTool(extractions, (a, b) => this.toolbox.compareFinalAnswers(a, b));
           }
           return { success: false, data: null, reasoning: 'Data not extracted yet' };
           
         case 'analyze_confidence':
-          if (state.extractionA && state.extractionB) {
-            return await this.toolbox.analyzeConfidenceLevels(state.extractionA, state.extractionB);
+          if (extractions) {
+            return await this.runPairwiseTool(extractions, (a, b) => this.toolbox.analyzeConfidenceLevels(a, b));
           }
           return { success: false, data: null, reasoning: 'Data not extracted yet' };
           
         case 'compare_reasoning':
-          if (state.extractionA && state.extractionB) {
-            return await this.toolbox.compareReasoningPaths(state.extractionA, state.extractionB);
+          if (extractions) {
+            return await this.runPairwiseTool(extractions, (a, b) => this.toolbox.compareReasoningPaths(a, b));
           }
           return { success: false, data: null, reasoning: 'Data not extracted yet' };
           
         case 'assess_errors':
-          if (state.extractionA && state.extractionB) {
-            return await this.toolbox.assessErrorFlags(state.extractionA, state.extractionB);
+          if (extractions) {
+            return await this.runPairwiseTool(extractions, (a, b) => this.toolbox.assessErrorFlags(a, b));
           }
           return { success: false, data: null, reasoning: 'Data not extracted yet' };
           
         case 'detect_phase_signals':
-          return await this.toolbox.detectPhaseJumpSignals(
-            input.responseA.content,
-            input.responseB.content
+          return await this.runPairwiseTool(
+            input.responses.map(r => r.content),
+            (a, b) => this.toolbox.detectPhaseJumpSignals(a, b)
           );
           
         default:
@@ -433,32 +530,29 @@ Response format: {"thought": "...", "tool": "...", "params": {...}}`;
    * Execute data extraction for a specific model
    */
   private async executeDataExtraction(params: Record<string, unknown>, input: AgreementAnalysisInput, state: ReActState): Promise<ToolResult> {
-    // Handle missing model parameter - extract both if not specified
-    const model = params.model as 'A' | 'B' | undefined;
+    // Handle missing model parameter - extract all if not specified
+    const model = typeof params.model === 'string' ? params.model.toUpperCase() : undefined;
+    const modelIndex = model ? model.charCodeAt(0) - 65 : -1;
     
-    if (!model || (model !== 'A' && model !== 'B')) {
-      // Extract both models if parameter is missing or invalid
-      const extractionA = await this.extractAllDataWithLLM(input.responseA.content);
-      const extractionB = await this.extractAllDataWithLLM(input.responseB.content);
+    if (!model || model.length !== 1 || modelIndex < 0 || modelIndex >= input.responses.length) {
+      // Extract all models if parameter is missing or invalid
+      for (const [index, response] of input.responses.entries()) {
+        state.extractions[index] = await this.extractAllDataWithLLM(response.content);
+      }
       
-      state.extractionA = extractionA;
-      state.extractionB = extractionB;
+      const summaries = state.extractions.map((extraction, index) =>
+        `${this.getModelLabel(index)}="${extraction?.finalAnswer}" (conf=${extraction?.confidenceScore})`
+      );
       
       return {
         success: true,
-        data: { extractionA, extractionB },
-        reasoning: `Extracted data from both models: A="${extractionA.finalAnswer}" (conf=${extractionA.confidenceScore}), B="${extractionB.finalAnswer}" (conf=${extractionB.confidenceScore})`
+        data: { extractions: state.extractions },
+        reasoning: `Extracted data from all ${input.responses.length} models: ${summaries.join(', ')}`
       };
     }
     
-    const response = model === 'A' ? input.responseA : input.responseB;
-    const extractedData = await this.extractAllDataWithLLM(response.content);
-    
-    if (model === 'A') {
-      state.extractionA = extractedData;
-    } else {
-      state.extractionB = extractedData;
-    }
+    const extractedData = await this.extractAllDataWithLLM(input.responses[modelIndex].content);
+    state.extractions[modelIndex] = extractedData;
     
     return {
       success: true,
@@ -473,80 +567,31 @@ Response format: {"thought": "...", "tool": "...", "params": {...}}`;
   private async extractAllDataWithLLM(content: string): Promise<ExtractedData> {
     let context = null;
     try {
-      context = await this.modelService.acquireContext(this.gemmaModelId);
-      const sequence = context.getSequence();
+      // Calculate how much content we can process based on context allocation
+      const modelConfig = this.modelService.getModelConfig(this.analystModelId);
+      if (!modelConfig) {
+        throw new Error(`Model config not found for ${this.analystModelId}`);
+      }
+      const allocation = this.contextAllocator.calculateAllocation(
+        CollaborationPhase.CRITIQUE, // Using CRITIQUE phase for analysis
+        modelConfig.contextSize,
+        '', // No history for data extraction
+        this.analystModelId,
+        'analysis',
+        1
+      );
+
+      // If content exceeds available space, use the analyst LLM to intelligently summarize
+      const contentTokens = this.tokenCounter.countTokens(content);
+      const availableContentTokens = allocation.maxGenerationTokens - 200; // Reserve space for response
       
-      try {
-        const llama = this.modelService.getLlamaInstance();
-        const extractionSchema = {
-          type: "object" as const,
-          properties: {
-            finalAnswer: {
-              oneOf: [
-                { type: "string" as const },
-                { type: "number" as const },
-                { type: "null" as const }
-              ]
-            },
-            confidenceScore: {
-              type: "number" as const,
-              minimum: 0,
-              maximum: 1
-            },
-            confidenceKeywords: {
-              type: "array" as const,
-              items: { type: "string" as const }
-            },
-            reasoningSteps: {
-              type: "array" as const,
-              items: { type: "string" as const }
-            },
-            errorFlags: {
-              type: "array" as const, 
-              items: { type: "string" as const }
-            },
-            hasExplicitAnswer: {
-              type: "boolean" as const
-            },
-            answerLocation: {
-              type: "string" as const
-            }
-          },
-          required: ["finalAnswer", "confidenceScore", "confidenceKeywords", "reasoningSteps", "errorFlags", "hasExplicitAnswer", "answerLocation"] as const
-        };
-        
-        const grammar = await llama.createGrammarForJsonSchema(extractionSchema);
-        
-        const session = new LlamaChatSession({
-          contextSequence: sequence,
-          systemPrompt: 'You are an expert at finding final answers in mathematical text. Extract numerical values from phrases like "Final Answer:", "The sum is", "The answer is", or "= X". DO NOT return null if a FINAL ANSWER is present!'
-        });
-
-        // Calculate how much content we can process based on context allocation
-        const modelConfig = this.modelService.getModelConfig(this.gemmaModelId);
-        if (!modelConfig) {
-          throw new Error(`Model config not found for ${this.gemmaModelId}`);
-        }
-        const allocation = this.contextAllocator.calculateAllocation(
-          CollaborationPhase.CRITIQUE, // Using CRITIQUE phase for analysis
-          modelConfig.contextSize,
-          '', // No history for data extraction
-          this.gemmaModelId,
-          'analysis',
-          1
-        );
-
-        // If content exceeds available space, use GEMMA to intelligently summarize
-        const contentTokens = this.tokenCounter.countTokens(content);
-        const availableContentTokens = allocation.maxGenerationTokens - 200; // Reserve space for response
-        
-        let processedContent = content;
-        if (contentTokens > availableContentTokens) {
-          this.logger.info(`📄 Content too large (${contentTokens} tokens), using GEMMA for intelligent summarization`);
-          processedContent = await this.intelligentContentSummarization(content, availableContentTokens);
-        }
+      let processedContent = content;
+      if (contentTokens > availableContentTokens) {
+        this.logger.info(`📄 Content too large (${contentTokens} tokens), using ${this.analystModelId} for intelligent summarization`);
+        processedContent = await this.intelligentContentSummarization(content, availableContentTokens);
+      }
 
-        const prompt = `Find the final numerical answer in this text:
+      const prompt = `Find the final numerical answer in this text:
 
 "${processedContent}"
 
@@ -568,11 +613,32 @@ Return JSON with:
 - hasExplicitAnswer: true if final answer exists
 - answerLocation: where you found it`;
 
-        const response = await session.prompt(prompt, {
+      const systemPrompt = 'You are an expert at finding final answers in mathematical text. Extract numerical values from phrases like "Final Answer:", "The sum is", "The answer is", or "= X". DO NOT return null if a FINAL ANSWER is present!';
+      const maxTokens = allocation.maxGenerationTokens - this.tokenCounter.countTokens(prompt) - 100; // Dynamic allocation minus prompt minus safety margin
+
+      if (this.modelService.isRemoteModel(this.analystModelId)) {
+        return await this.generateJsonWithoutGrammar<ExtractedData>(systemPrompt, prompt, EXTRACTION_SCHEMA, 0.3, maxTokens);
+      }
+
+      context = await this.modelService.acquireContext(this.analystModelId);
+      const sequence = context.getSequence();
+      
+      try {
+        const llama = this.modelService.getLlamaInstance();
+        const grammar = await llama.createGrammarForJsonSchema(EXTRACTION_SCHEMA);
+        
+        const session = new LlamaChatSession({
+          contextSequence: sequence,
+          systemPrompt
+        });
+
+        const response = this.countGenerated(await session.prompt(prompt, {
           grammar,
           temperature: 0.3, // Higher temp for better extraction
-          maxTokens: allocation.maxGenerationTokens - this.tokenCounter.countTokens(prompt) - 100 // Dynamic allocation minus prompt minus safety margin
-        });
+          maxTokens,
+          signal: this.signal,
+          stopOnAbortSignal: true
+        }));
 
         return JSON.parse(response) as ExtractedData;
         
@@ -592,7 +658,7 @@ Return JSON with:
       };
     } finally {
       if (context) {
-        this.modelService.releaseContext(this.gemmaModelId, context);
+        this.modelService.releaseContext(this.analystModelId, context);
       }
     }
   }
@@ -604,12 +670,13 @@ Return JSON with:
     this.logger.warn('🔄 Generating fallback decision');
     
     // Simple heuristic based on available data
-    if (state.extractionA && state.extractionB) {
-      const answersMatch = state.extractionA.finalAnswer === state.extractionB.finalAnswer;
-      const bothHaveAnswers = state.extractionA.hasExplicitAnswer && state.extractionB.hasExplicitAnswer;
-      const averageConfidence = (state.extractionA.confidenceScore + state.extractionB.confidenceScore) / 2;
+    const extractions = this.getCompleteExtractions(state);
+    if (extractions) {
+      const answersMatch = extractions.every(e => e.finalAnswer === extractions[0].finalAnswer);
+      const allHaveAnswers = extractions.every(e => e.hasExplicitAnswer);
+      const averageConfidence = this.getAverageConfidence(extractions);
       
-      if (answersMatch && bothHaveAnswers && averageConfidence > 0.8) {
+      if (answersMatch && allHaveAnswers && averageConfidence > 0.8) {
         return {
           nextPhase: CollaborationPhase.CONSENSUS,
           reasoning: 'Fallback decision: Models appear to agree on answer with good confidence',
@@ -636,11 +703,14 @@ Return JSON with:
     
     // Determine agreement level
     let agreementLevel: AgreementLevel = 'INSUFFICIENT_DATA';
-    if (state.extractionA && state.extractionB) {
-      if (state.extractionA.finalAnswer === state.extractionB.finalAnswer && state.extractionA.finalAnswer !== null) {
-        const avgConfidence = (state.extractionA.confidenceScore + state.extractionB.confidenceScore) / 2;
+    const extractions = this.getCompleteExtractions(state);
+    if (extractions) {
+      const leadAnswer = extractions[0].finalAnswer;
+      const answersMatch = extractions.every(e => e.finalAnswer === leadAnswer);
+      if (answersMatch && leadAnswer !== null) {
+        const avgConfidence = this.getAverageConfidence(extractions);
         agreementLevel = avgConfidence > 0.8 ? 'PERFECT_CONSENSUS' : 'STRONG_AGREEMENT';
-      } else if (state.extractionA.finalAnswer !== state.extractionB.finalAnswer) {
+      } else if (!answersMatch) {
         agreementLevel = 'CONFLICTED';
       }
     }
@@ -649,9 +719,12 @@ Return JSON with:
       sessionId: input.sessionId,
       analysisTimestamp: Date.now(),
       processingTimeMs: Date.now() - startTime,
+      generatedTokens: this.generatedTokens,
       
-      extractionA: state.extractionA || this.createEmptyExtraction(),
-      extractionB: state.extractionB || this.createEmptyExtraction(),
+      extractions: input.responses.map((response, index) => ({
+        modelId: response.modelId,
+        extraction: state.extractions[index] || this.createEmptyExtraction()
+      })),
       
       semanticAnalysis: {
         overallSimilarity: 0.5, // Simplified for ReAct version
@@ -670,13 +743,63 @@ Return JSON with:
       },
       
       analysisQuality: {
-        dataCompleteness: state.extractionA && state.extractionB ? 1.0 : 0.5,
+        dataCompleteness: extractions ? 1.0 : 0.5,
         confidenceInRecommendation: decision.confidence,
         stageUsed: 'LLM_ARBITER' // ReAct is LLM-driven
       }
     };
   }
 
+  /**
+   * Return every extraction once all participants have been extracted
+   */
+  private getCompleteExtractions(state: ReActState): ExtractedData[] | null {
+    if (state.extractions.length === 0 || state.extractions.some(e => e === null)) {
+      return null;
+    }
+    return state.extractions as ExtractedData[];
+  }
+
+  private getAverageConfidence(extractions: ExtractedData[]): number {
+    return extractions.reduce((sum, e) => sum + e.confidenceScore, 0) / extractions.length;
+  }
+
+  /**
+   * Prompt label for a participant by turn order ("A", "B", "C", ...)
+   */
+  private getModelLabel(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
+  /**
+   * Run a pairwise toolbox tool across every participant pair
+   * Two participants keep the original single-result shape
+   */
+  private async runPairwiseTool<T>(
+    items: T[],
+    tool: (a: T, b: T) => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    if (items.length === 2) {
+      return tool(items[0], items[1]);
+    }
+
+    const pairResults: Array<{ pair: string; result: ToolResult }> = [];
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        pairResults.push({
+          pair: `${this.getModelLabel(i)}-${this.getModelLabel(j)}`,
+          result: await tool(items[i], items[j])
+        });
+      }
+    }
+
+    return {
+      success: pairResults.every(p => p.result.success),
+      data: { pairs: pairResults.map(p => ({ pair: p.pair, data: p.result.data })) },
+      reasoning: pairResults.map(p => `[${p.pair}] ${p.result.reasoning}`).join(' | ')
+    };
+  }
+
   /**
    * Create empty extraction for fallback
    */
@@ -694,32 +817,44 @@ Return JSON with:
 
 
   /**
-   * INTELLIGENT CONTENT SUMMARIZATION using GEMMA LLM
+   * INTELLIGENT CONTENT SUMMARIZATION using the analyst LLM
    * Instead of crude truncation, use AI to extract key information
    */
   private async intelligentContentSummarization(content: string, targetTokens: number): Promise<string> {
     let context = null;
     try {
-      context = await this.modelService.acquireContext(this.gemmaModelId);
+      const systemPrompt = 'You are an expert at summarizing mathematical text while preserving ALL final answers, conclusions, and key calculations. Extract the essential information concisely.';
+      const prompt = `Summarize this mathematical text, keeping ALL final answers, conclusions, and key calculations:
+
+"${content}"
+
+Target length: approximately ${targetTokens} tokens
+CRITICAL: Preserve any "Final Answer:", "The sum is", "= X" statements exactly as written.`;
+
+      if (this.modelService.isRemoteModel(this.analystModelId)) {
+        return this.countGenerated(await this.modelService.generateRemote(
+          this.analystModelId,
+          { systemPrompt, prompt, maxTokens: targetTokens, temperature: 0.1 },
+          () => undefined,
+          () => this.isAborted()
+        ));
+      }
+
+      context = await this.modelService.acquireContext(this.analystModelId);
       const sequence = context.getSequence();
       
       try {
         const session = new LlamaChatSession({
           contextSequence: sequence,
-          systemPrompt: 'You are an expert at summarizing mathematical text while preserving ALL final answers, conclusions, and key calculations. Extract the essential information concisely.'
+          systemPrompt
         });
 
-        const prompt = `Summarize this mathematical text, keeping ALL final answers, conclusions, and key calculations:
-
-"${content}"
-
-Target length: approximately ${targetTokens} tokens
-CRITICAL: Preserve any "Final Answer:", "The sum is", "= X" statements exactly as written.`;
-
-        const summary = await session.prompt(prompt, {
+        const summary = this.countGenerated(await session.prompt(prompt, {
           temperature: 0.1,
-          maxTokens: targetTokens
-        });
+          maxTokens: targetTokens,
+          signal: this.signal,
+          stopOnAbortSignal: true
+        }));
 
         this.logger.info(`✅ Intelligent summarization: ${this.tokenCounter.countTokens(content)} → ${this.tokenCounter.countTokens(summary)} tokens`);
         return summary;
@@ -732,11 +867,23 @@ CRITICAL: Preserve any "Final Answer:", "The sum is", "= X" statements exactly a
       return this.tokenCounter.truncateToTokenLimit(content, targetTokens);
     } finally {
       if (context) {
-        this.modelService.releaseContext(this.gemmaModelId, context);
+        this.modelService.releaseContext(this.analystModelId, context);
       }
     }
   }
 
+  private isAborted(): boolean {
+    return this.signal?.aborted ?? false;
+  }
+
+  /**
+   * Add an analyst response to the tokens generated during this analysis
+   */
+  private countGenerated(response: string): string {
+    this.generatedTokens += this.tokenCounter.countTokens(response);
+    return response;
+  }
+
   /**
    * Create failsafe result when analysis completely fails
    */
@@ -747,9 +894,12 @@ CRITICAL: Preserve any "Final Answer:", "The sum is", "= X" statements exactly a
       sessionId: input.sessionId,
       analysisTimestamp: Date.now(),
       processingTimeMs: Date.now() - startTime,
+      generatedTokens: this.generatedTokens,
       
-      extractionA: emptyExtraction,
-      extractionB: emptyExtraction,
+      extractions: input.responses.map(response => ({
+        modelId: response.modelId,
+        extraction: emptyExtraction
+      })),
       
       semanticAnalysis: {
         overallSimilarity: 0,
@@ -802,9 +952,9 @@ CRITICAL: Preserve any "Final Answer:", "The sum is", "= X" statements exactly a
    */
   private getToolDescription(tool: string): string {
     const descriptions: Record<string, string> = {
-      'extract_data': 'Extracting final answers and confidence from both models',
+      'extract_data': 'Extracting final answers and confidence from all models',
       'compare_answers': 'Comparing final answers between models',
-      'analyze_confidence': 'Analyzing confidence levels of both models',
+      'analyze_confidence': 'Analyzing confidence levels of all models',
       'compare_reasoning': 'Comparing reasoning paths and logical flow',
       'assess_errors': 'Evaluating error flags and critical issues',
       'detect_phase_signals': 'Detecting explicit phase jump suggestions',
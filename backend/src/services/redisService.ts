@@ -1,6 +1,7 @@
 import { Redis } from 'ioredis';
 
-import { CollaborationSession } from '../models/types.js';
+import { CollaborationSession, SSEEvent } from '../models/types.js';
+import { REDIS_KEYS } from '../constants/index.js';
 import { createLogger } from '../utils/logger.js';
 import { config } from '../config.js';
 
@@ -113,6 +114,62 @@ export class RedisService {
     await this.storeSession(sessionId, updated);
   }
 
+  /**
+   * Append an event to the session's SSE replay buffer, keeping only the newest events
+   */
+  async appendStreamEvent(sessionId: string, event: SSEEvent): Promise<void> {
+    if (!this.client) {
+      throw new Error('Redis not connected');
+    }
+
+    const key = `${REDIS_KEYS.SSE_EVENTS}${sessionId}`;
+    await this.client
+      .multi()
+      .rpush(key, JSON.stringify(event))
+      .ltrim(key, -config.sse.replayBufferSize, -1)
+      .expire(key, config.redis.ttl)
+      .exec();
+  }
+
+  /**
+   * Get buffered SSE events with an id greater than afterId, oldest first
+   */
+  async getStreamEvents(sessionId: string, afterId: number): Promise<SSEEvent[]> {
+    if (!this.client) {
+      throw new Error('Redis not connected');
+    }
+
+    const startTime = Date.now();
+    const key = `${REDIS_KEYS.SSE_EVENTS}${sessionId}`;
+    const raw = await this.client.lrange(key, 0, -1);
+    const events = raw
+      .map(entry => JSON.parse(entry) as SSEEvent)
+      .filter(event => event.id > afterId);
+
+    this.logger.info('Stream events retrieved', {
+      sessionId,
+      afterId,
+      bufferedEvents: raw.length,
+      replayEvents: events.length,
+      operationTimeMs: Date.now() - startTime
+    });
+
+    return events;
+  }
+
+  /**
+   * Id of the newest buffered SSE event, 0 when nothing is buffered
+   * A follow-up run on the same session continues numbering from here
+   */
+  async getLastStreamEventId(sessionId: string): Promise<number> {
+    if (!this.client) {
+      throw new Error('Redis not connected');
+    }
+
+    const last = await this.client.lindex(`${REDIS_KEYS.SSE_EVENTS}${sessionId}`, -1);
+    return last ? (JSON.parse(last) as SSEEvent).id : 0;
+  }
+
   async storeVector(key: string, vector: number[], metadata: unknown): Promise<void> {
     if (!this.client) {
       throw new Error('Redis not connected');
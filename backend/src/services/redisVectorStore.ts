@@ -2,29 +2,17 @@ import { Redis } from 'ioredis';
 import { EmbeddingService } from './embeddingService.js';
 import { createLogger } from '../utils/logger.js';
 import { config } from '../config.js';
+import {
+  RelevantExchange,
+  VectorDocument,
+  VectorDocumentMetadata,
+  VectorSearchFilters,
+  VectorSearchResult,
+  VectorStore
+} from '../models/vectorStoreTypes.js';
 
-interface VectorDocument {
-  id: string;
-  content: string;
-  vector: number[];
-  metadata: {
-    sessionId: string;
-    phase: string;
-    modelId: string;
-    timestamp: number;
-    tokens: number;
-  };
-}
 
-interface SearchResult {
-  id: string;
-  content: string;
-  score: number;
-  metadata: Record<string, unknown>;
-}
-
-
-export class RedisVectorStore {
+export class RedisVectorStore implements VectorStore {
   private redis: Redis;
   private embeddingService: EmbeddingService;
   private readonly logger = createLogger('RedisVectorStore');
@@ -43,8 +31,18 @@ export class RedisVectorStore {
     this.logger.info('✅ Redis vector store initialized');
   }
 
+  /**
+   * Whether Redis has the search and JSON modules the vector index needs
+   */
+  isSearchAvailable(): boolean {
+    return this.indexCreated;
+  }
+
   private async createIndex(): Promise<void> {
     try {
+      // Fails with an unknown command error when the RedisJSON module is missing
+      await this.redis.call('JSON.TYPE', `${this.keyPrefix}probe`);
+
       // CRITICAL FIX: Drop and recreate index to ensure correct schema
       // This was the root cause of TAG search returning 0 results
       try {
@@ -91,7 +89,7 @@ export class RedisVectorStore {
   async storeDocument(
     id: string,
     content: string,
-    metadata: VectorDocument['metadata']
+    metadata: VectorDocumentMetadata
   ): Promise<void> {
     try {
       // VERBOSE LOGGING: Show raw input
@@ -219,15 +217,32 @@ export class RedisVectorStore {
     }
   }
 
+  /**
+   * Copy a stored document under a new ID and session, reusing its embedding
+   * Returns false when the source document does not exist
+   */
+  async copyDocument(sourceId: string, targetId: string, sessionId: string): Promise<boolean> {
+    try {
+      const existingDoc = await this.redis.call('JSON.GET', `${this.keyPrefix}${sourceId}`);
+      if (!existingDoc) return false;
+
+      const doc = JSON.parse(existingDoc as string) as VectorDocument;
+      doc.id = targetId;
+      doc.metadata = { ...doc.metadata, sessionId };
+
+      await this.redis.call('JSON.SET', `${this.keyPrefix}${targetId}`, '$', JSON.stringify(doc));
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to copy document ${sourceId} to ${targetId}:`, error);
+      throw error;
+    }
+  }
+
   async search(
     query: string,
-    filters: {
-      sessionId?: string;
-      phase?: string;
-      modelId?: string;
-    } = {},
+    filters: VectorSearchFilters = {},
     topK: number = 5
-  ): Promise<SearchResult[]> {
+  ): Promise<VectorSearchResult[]> {
     if (!this.indexCreated) {
       this.logger.warn('Vector index not available, falling back to basic search');
       return [];
@@ -372,7 +387,7 @@ export class RedisVectorStore {
       }
       
       // Safely parse results with type checking
-      const searchResults: SearchResult[] = [];
+      const searchResults: VectorSearchResult[] = [];
       
       if (!Array.isArray(rawResults) || rawResults.length === 0) {
         this.logger.warn('Invalid Redis search response format');
@@ -445,7 +460,7 @@ export class RedisVectorStore {
     modelId: string,
     query: string,
     limit: number = config.context.relevantExchanges
-  ): Promise<Array<{ phase: string; modelId: string; content: string }>> {
+  ): Promise<RelevantExchange[]> {
     try {
       // Search for relevant content from BOTH models
       const results = await this.search(
@@ -459,7 +474,7 @@ export class RedisVectorStore {
       const otherModelResults = results.filter(r => r.metadata.modelId !== modelId);
       
       // Get the most relevant exchanges
-      const exchanges: Array<{ phase: string; modelId: string; content: string }> = [];
+      const exchanges: RelevantExchange[] = [];
       
       // Add own model's relevant content
       ownResults.slice(0, limit).forEach(result => {
@@ -0,0 +1,159 @@
+import { RedisService } from './redisService.js';
+import { ForkTreeNode, SessionRecord, SessionSummary } from '../models/sessionHistoryTypes.js';
+import { ConversationTurn, ForkOrigin } from '../models/conversationTypes.js';
+import { createLogger } from '../utils/logger.js';
+import { REDIS_KEYS } from '../constants/index.js';
+
+/**
+ * SESSION HISTORY SERVICE
+ *
+ * Durable archive of finished collaborations. Records are stored without a TTL
+ * next to a summary hash and an index sorted by completion time, so listing
+ * never has to parse full transcripts.
+ */
+export class SessionHistoryService {
+  private readonly logger = createLogger('SessionHistory');
+
+  constructor(private readonly redisService: RedisService) {}
+
+  async saveSession(record: SessionRecord): Promise<void> {
+    const summary: SessionSummary = {
+      sessionId: record.sessionId,
+      originalQuery: record.originalQuery,
+      participants: record.participants,
+      workflowName: record.workflow?.name,
+      forkedFrom: record.forkedFrom?.sessionId,
+      status: record.status,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt,
+      turnCount: record.turns.length
+    };
+
+    await this.redisService.getClient()
+      .multi()
+      .set(`${REDIS_KEYS.HISTORY_SESSION}${record.sessionId}`, JSON.stringify(record))
+      .hset(REDIS_KEYS.HISTORY_SUMMARIES, record.sessionId, JSON.stringify(summary))
+      .zadd(REDIS_KEYS.HISTORY_INDEX, record.completedAt, record.sessionId)
+      .exec();
+
+    this.logger.info(`🗄️ Session archived`, {
+      sessionId: record.sessionId,
+      status: record.status,
+      turns: record.turns.length,
+      agreementAnalyses: record.agreementAnalyses.length,
+      synthesisLength: record.finalSynthesis.length
+    });
+  }
+
+  /**
+   * List archived sessions, newest first
+   */
+  async listSessions(limit: number = 50, offset: number = 0): Promise<{ sessions: SessionSummary[]; total: number }> {
+    const client = this.redisService.getClient();
+    const [sessionIds, total] = await Promise.all([
+      client.zrevrange(REDIS_KEYS.HISTORY_INDEX, offset, offset + limit - 1),
+      client.zcard(REDIS_KEYS.HISTORY_INDEX)
+    ]);
+
+    if (sessionIds.length === 0) {
+      return { sessions: [], total };
+    }
+
+    const summaries = await client.hmget(REDIS_KEYS.HISTORY_SUMMARIES, ...sessionIds);
+    const sessions = summaries
+      .filter((summary): summary is string => summary !== null)
+      .map(summary => JSON.parse(summary) as SessionSummary);
+
+    return { sessions, total };
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    const data = await this.redisService.getClient().get(`${REDIS_KEYS.HISTORY_SESSION}${sessionId}`);
+    return data ? JSON.parse(data) as SessionRecord : null;
+  }
+
+  /**
+   * Replace one turn of an archived session, e.g. after it was regenerated
+   * Returns false when the session is not archived or has no such turn
+   */
+  async updateTurn(turn: ConversationTurn): Promise<boolean> {
+    const record = await this.getSession(turn.sessionId);
+    const index = record?.turns.findIndex(candidate => candidate.id === turn.id) ?? -1;
+    if (!record || index === -1) return false;
+
+    record.turns[index] = turn;
+    await this.redisService.getClient().set(`${REDIS_KEYS.HISTORY_SESSION}${record.sessionId}`, JSON.stringify(record));
+    return true;
+  }
+
+  /**
+   * Link a fork to its parent session - kept without a TTL like the archive
+   */
+  async recordFork(sessionId: string, origin: ForkOrigin): Promise<void> {
+    await this.redisService.getClient()
+      .multi()
+      .sadd(`${REDIS_KEYS.HISTORY_FORKS}${origin.sessionId}`, sessionId)
+      .hset(REDIS_KEYS.HISTORY_FORK_ORIGINS, sessionId, JSON.stringify(origin))
+      .exec();
+
+    this.logger.info(`🌿 Fork recorded`, { sessionId, parentSessionId: origin.sessionId, turnId: origin.turnId });
+  }
+
+  /**
+   * The whole fork tree a session belongs to, starting from its root session
+   */
+  async getForkTree(sessionId: string): Promise<ForkTreeNode> {
+    const client = this.redisService.getClient();
+    const getOrigin = async (id: string): Promise<ForkOrigin | undefined> => {
+      const origin = await client.hget(REDIS_KEYS.HISTORY_FORK_ORIGINS, id);
+      return origin ? JSON.parse(origin) as ForkOrigin : undefined;
+    };
+
+    // Walk up to the root; the visited set guards against corrupt links
+    let rootId = sessionId;
+    const visited = new Set<string>([rootId]);
+    for (let origin = await getOrigin(rootId); origin && !visited.has(origin.sessionId); origin = await getOrigin(rootId)) {
+      rootId = origin.sessionId;
+      visited.add(rootId);
+    }
+
+    const seen = new Set<string>();
+    const buildNode = async (id: string): Promise<ForkTreeNode> => {
+      seen.add(id);
+      const [summary, forkedFrom, childIds] = await Promise.all([
+        client.hget(REDIS_KEYS.HISTORY_SUMMARIES, id),
+        getOrigin(id),
+        client.smembers(`${REDIS_KEYS.HISTORY_FORKS}${id}`)
+      ]);
+      const children = await Promise.all(childIds.filter(childId => !seen.has(childId)).map(buildNode));
+
+      return {
+        sessionId: id,
+        summary: summary ? JSON.parse(summary) as SessionSummary : undefined,
+        forkedFrom,
+        children: children.sort((a, b) => (a.forkedFrom?.createdAt ?? 0) - (b.forkedFrom?.createdAt ?? 0))
+      };
+    };
+
+    return buildNode(rootId);
+  }
+
+  /**
+   * Delete an archived session
+   * Returns false when the session does not exist
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const results = await this.redisService.getClient()
+      .multi()
+      .del(`${REDIS_KEYS.HISTORY_SESSION}${sessionId}`)
+      .hdel(REDIS_KEYS.HISTORY_SUMMARIES, sessionId)
+      .zrem(REDIS_KEYS.HISTORY_INDEX, sessionId)
+      .exec();
+
+    const deleted = results?.[0]?.[1] === 1;
+    if (deleted) {
+      this.logger.info(`🗑️ Archived session deleted`, { sessionId });
+    }
+    return deleted;
+  }
+}
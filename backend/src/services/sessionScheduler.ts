@@ -0,0 +1,131 @@
+import { QueuePosition, QueueStatus } from '../models/queueTypes.js';
+import { ModelService } from './modelService.js';
+import { createLogger } from '../utils/logger.js';
+
+interface QueuedSession {
+  sessionId: string;
+  enqueuedAt: number;
+  onUpdate: (position: QueuePosition) => void;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface RunningSession {
+  sessionId: string;
+  enqueuedAt: number;
+  admittedAt: number;
+}
+
+/**
+ * SESSION SCHEDULER
+ *
+ * Admission control for collaborations: at most maxConcurrentSessions run at
+ * once, the rest wait in FIFO order and are told their position whenever the
+ * queue moves. Context pool slots between admitted sessions are shared fairly
+ * by ModelService.
+ */
+export class SessionScheduler {
+  private readonly logger = createLogger('SessionScheduler');
+  private readonly running = new Map<string, RunningSession>();
+  private queue: QueuedSession[] = [];
+
+  constructor(
+    private readonly modelService: ModelService,
+    private readonly maxConcurrentSessions: number
+  ) {}
+
+  /**
+   * Resolve once the session may start; onUpdate reports queue position changes.
+   * Rejects if the session is released while still queued.
+   */
+  admit(sessionId: string, onUpdate: (position: QueuePosition) => void): Promise<void> {
+    if (this.running.has(sessionId)) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueuedSession = { sessionId, enqueuedAt: Date.now(), onUpdate, resolve, reject };
+      this.queue.push(entry);
+
+      if (this.running.size < this.maxConcurrentSessions) {
+        this.admitNext();
+        return;
+      }
+
+      this.logger.info(`⏳ Session queued`, {
+        sessionId,
+        position: this.queue.length,
+        running: this.running.size,
+        maxConcurrentSessions: this.maxConcurrentSessions
+      });
+      this.notifyPositions();
+    });
+  }
+
+  /**
+   * Free a running slot or drop a queued session
+   */
+  release(sessionId: string): void {
+    if (this.running.delete(sessionId)) {
+      this.logger.info(`✅ Session released`, { sessionId, running: this.running.size, waiting: this.queue.length });
+      this.admitNext();
+      return;
+    }
+
+    const queued = this.queue.find(entry => entry.sessionId === sessionId);
+    if (queued) {
+      this.queue = this.queue.filter(entry => entry !== queued);
+      this.logger.info(`🚪 Session left the queue`, { sessionId, waiting: this.queue.length });
+      queued.reject(new Error(`Session ${sessionId} left the queue before it was admitted`));
+      this.notifyPositions();
+    }
+  }
+
+  getStatus(): QueueStatus {
+    return {
+      maxConcurrentSessions: this.maxConcurrentSessions,
+      running: Array.from(this.running.values()).map(session => ({
+        sessionId: session.sessionId,
+        admittedAt: session.admittedAt,
+        waitedMs: session.admittedAt - session.enqueuedAt
+      })),
+      waiting: this.queue.map((entry, index) => ({
+        sessionId: entry.sessionId,
+        position: index + 1,
+        enqueuedAt: entry.enqueuedAt
+      })),
+      contextPools: this.modelService.getContextPoolStatus()
+    };
+  }
+
+  private admitNext(): void {
+    let admitted = false;
+
+    while (this.running.size < this.maxConcurrentSessions && this.queue.length > 0) {
+      const entry = this.queue.shift() as QueuedSession;
+      const admittedAt = Date.now();
+      this.running.set(entry.sessionId, { sessionId: entry.sessionId, enqueuedAt: entry.enqueuedAt, admittedAt });
+      admitted = true;
+
+      this.logger.info(`🚀 Session admitted`, {
+        sessionId: entry.sessionId,
+        waitedMs: admittedAt - entry.enqueuedAt,
+        running: this.running.size,
+        waiting: this.queue.length
+      });
+
+      entry.onUpdate({ status: 'admitted', position: 0, queueLength: this.queue.length });
+      entry.resolve();
+    }
+
+    if (admitted) {
+      this.notifyPositions();
+    }
+  }
+
+  private notifyPositions(): void {
+    this.queue.forEach((entry, index) => {
+      entry.onUpdate({ status: 'queued', position: index + 1, queueLength: this.queue.length });
+    });
+  }
+}
@@ -3,6 +3,7 @@ import { PromptFormatter } from './promptFormatter.js';
 import { createLogger } from '../utils/logger.js';
 import { StructuredSolution, ConversationTurn } from '../models/conversationTypes.js';
 import { CollaborationPhase } from '../models/types.js';
+import { ModelRole } from '../models/curatedConversationTypes.js';
 import { LlamaChatSession } from 'node-llama-cpp';
 
 /**
@@ -11,7 +12,7 @@ import { LlamaChatSession } from 'node-llama-cpp';
  */
 export class SolutionExtractionService {
   private readonly logger = createLogger('SolutionExtraction');
-  private readonly EXTRACTION_MODEL_ID = 'gemma-3-12b-it-q4-0'; // Use Gemma for extraction
+  private readonly SYSTEM_PROMPT = 'You are a JSON extraction expert. Extract structured data from text.';
 
   constructor(private modelService: ModelService) {}
 
@@ -121,63 +122,32 @@ Return JSON in this exact format:
 
 If no clear solution is found, return: {"value": null, "confidence": "low", "status": "error"}`;
 
+    // An ANALYST model extracts, preferably the turn's own author
+    const extractionModelId = this.modelService.resolveRoleModel(ModelRole.ANALYST, [turn.modelId]);
+    if (!extractionModelId) {
+      this.logger.warn(`No model available for the ${ModelRole.ANALYST} role - skipping LLM extraction`);
+      return null;
+    }
+
     try {
-      // Add timeout to prevent hanging
-      const contextPromise = this.modelService.acquireContext(this.EXTRACTION_MODEL_ID);
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Context acquisition timeout')), 5000)
-      );
-      
-      const context = await Promise.race([contextPromise, timeoutPromise]).catch(error => {
-        this.logger.warn('Could not acquire context for LLM extraction:', error);
-        return null;
-      });
-      
-      if (!context) return null;
+      const response = await this.generate(extractionModelId, extractionPrompt);
+      if (response === null) return null;
 
-      try {
-        const modelConfig = this.modelService.getModelConfig(this.EXTRACTION_MODEL_ID);
-        if (!modelConfig) throw new Error('Extraction model not found');
-
-        const formatted = PromptFormatter.formatPrompt(
-          modelConfig,
-          'You are a JSON extraction expert. Extract structured data from text.',
-          extractionPrompt
-        );
-
-        const sequence = context.getSequence();
-        try {
-          const session = new LlamaChatSession({
-            contextSequence: sequence,
-            systemPrompt: ''
-          });
-
-          const response = await session.prompt(formatted.prompt, {
-            temperature: 0.1, // Low temperature for consistent extraction
-            maxTokens: 200
-          });
-
-          // Parse JSON from response
-          const jsonMatch = response.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            
-            // Validate and clean the extracted data
-            if (parsed.value !== null && parsed.value !== undefined) {
-              return {
-                value: parsed.value,
-                confidence: parsed.confidence || 'medium',
-                status: parsed.status || 'tentative',
-                reasoning: parsed.reasoning,
-                metadata: parsed.metadata || {}
-              };
-            }
-          }
-        } finally {
-          sequence.dispose();
+      // Parse JSON from response
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        const parsed = JSON.parse(jsonMatch[0]);
+        
+        // Validate and clean the extracted data
+        if (parsed.value !== null && parsed.value !== undefined) {
+          return {
+            value: parsed.value,
+            confidence: parsed.confidence || 'medium',
+            status: parsed.status || 'tentative',
+            reasoning: parsed.reasoning,
+            metadata: parsed.metadata || {}
+          };
         }
-      } finally {
-        this.modelService.releaseContext(this.EXTRACTION_MODEL_ID, context);
       }
     } catch (error) {
       this.logger.error('LLM extraction failed:', error);
@@ -186,6 +156,56 @@ If no clear solution is found, return: {"value": null, "confidence": "low", "sta
     return null;
   }
 
+  /**
+   * Run the extraction prompt - returns null when no local context frees up in time
+   */
+  private async generate(modelId: string, extractionPrompt: string): Promise<string | null> {
+    if (this.modelService.isRemoteModel(modelId)) {
+      return this.modelService.generateRemote(
+        modelId,
+        { systemPrompt: this.SYSTEM_PROMPT, prompt: extractionPrompt, maxTokens: 200, temperature: 0.1 },
+        () => undefined
+      );
+    }
+
+    // Add timeout to prevent hanging
+    const contextPromise = this.modelService.acquireContext(modelId);
+    const timeoutPromise = new Promise<never>((_, reject) => 
+      setTimeout(() => reject(new Error('Context acquisition timeout')), 5000)
+    );
+    
+    const context = await Promise.race([contextPromise, timeoutPromise]).catch(error => {
+      this.logger.warn('Could not acquire context for LLM extraction:', error);
+      return null;
+    });
+    
+    if (!context) return null;
+
+    try {
+      const modelConfig = this.modelService.getModelConfig(modelId);
+      if (!modelConfig) throw new Error('Extraction model not found');
+
+      const formatted = PromptFormatter.formatPrompt(modelConfig, this.SYSTEM_PROMPT, extractionPrompt);
+
+      const sequence = context.getSequence();
+      try {
+        const session = new LlamaChatSession({
+          contextSequence: sequence,
+          systemPrompt: ''
+        });
+
+        return await session.prompt(formatted.prompt, {
+          temperature: 0.1, // Low temperature for consistent extraction
+          maxTokens: 200
+        });
+      } finally {
+        sequence.dispose();
+      }
+    } finally {
+      this.modelService.releaseContext(modelId, context);
+    }
+  }
+
   /**
    * Mark turns as final answers based on phase and content analysis
    */
@@ -0,0 +1,66 @@
+import { LlamaModel } from 'node-llama-cpp';
+
+/**
+ * Characters per token assumed when no tokenizer is available.
+ * Deliberately low so estimates run high and budgets never overflow.
+ */
+const ESTIMATED_CHARS_PER_TOKEN = 3;
+
+/**
+ * Counters cached per model ID - see ModelService.getTokenCounter
+ */
+export interface TokenCounterSource {
+  getTokenCounter(modelId: string): TokenCounter;
+}
+
+/**
+ * TOKEN COUNTER
+ *
+ * Token counting and truncation used for context budgeting. Counts come from the
+ * model's own tokenizer while it is loaded, so Gemma and Qwen budgets match what
+ * their contexts actually hold; otherwise a fast character estimate is used.
+ */
+export class TokenCounter {
+  /**
+   * @param resolveModel Returns the loaded model, or undefined to estimate
+   */
+  constructor(private readonly resolveModel: () => LlamaModel | undefined = () => undefined) {}
+
+  /**
+   * Whether counts currently come from a model tokenizer
+   */
+  isExact(): boolean {
+    return this.getModel() !== undefined;
+  }
+
+  /**
+   * Count tokens in text
+   */
+  countTokens(text: string): number {
+    if (!text) return 0;
+
+    const model = this.getModel();
+    if (!model) return Math.ceil(text.length / ESTIMATED_CHARS_PER_TOKEN);
+    return model.tokenize(text).length;
+  }
+
+  /**
+   * Truncate text to fit within a token limit
+   */
+  truncateToTokenLimit(text: string, maxTokens: number): string {
+    if (!text || maxTokens <= 0) return '';
+
+    const model = this.getModel();
+    if (!model) return text.slice(0, maxTokens * ESTIMATED_CHARS_PER_TOKEN);
+
+    const tokens = model.tokenize(text);
+    if (tokens.length <= maxTokens) return text;
+
+    return model.detokenize(tokens.slice(0, maxTokens));
+  }
+
+  private getModel(): LlamaModel | undefined {
+    const model = this.resolveModel();
+    return model && !model.disposed ? model : undefined;
+  }
+}
@@ -0,0 +1,270 @@
+import MarkdownIt from 'markdown-it';
+
+import { CollaborationPhase } from '../models/types.js';
+import { ConversationTurn } from '../models/conversationTypes.js';
+import { SessionAgreementRecord, SessionRecord, TranscriptFormat } from '../models/sessionHistoryTypes.js';
+
+export interface ExportedTranscript {
+  content: string;
+  contentType: string;
+  filename: string;
+}
+
+interface PhaseSegment {
+  phase: CollaborationPhase;
+  turns: ConversationTurn[];
+  analyses: SessionAgreementRecord[];
+}
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+};
+
+const HTML_STYLE = `
+  body { max-width: 960px; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.5; color: #1f2328; }
+  header, section { margin-bottom: 2rem; }
+  .turn { border: 1px solid #d0d7de; border-radius: 6px; padding: 0 1rem; margin: 1rem 0; }
+  .turn.verification { border-color: #bf8700; }
+  .analysis { background: #f6f8fa; border-radius: 6px; padding: 0.25rem 1rem; margin: 1rem 0; }
+  pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; }
+  blockquote { border-left: 4px solid #d0d7de; margin-left: 0; padding-left: 1rem; color: #59636e; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.5rem; }`;
+
+/**
+ * TRANSCRIPT EXPORTER
+ *
+ * Renders an archived session as Markdown, JSON or a standalone HTML page.
+ * Model output is emitted verbatim so LaTeX math survives. The HTML page
+ * renders that Markdown with raw HTML escaped and loads nothing external,
+ * so math stays as TeX source.
+ */
+export class TranscriptExporter {
+  // Model output is untrusted - raw HTML in it is escaped, not rendered
+  private readonly markdown = new MarkdownIt({ html: false, linkify: true });
+
+  static isFormat(format: string): format is TranscriptFormat {
+    return format in CONTENT_TYPES;
+  }
+
+  export(record: SessionRecord, format: TranscriptFormat): ExportedTranscript {
+    const content = format === 'json'
+      ? JSON.stringify(record, null, 2)
+      : format === 'html'
+        ? this.toHtml(record)
+        : this.toMarkdown(record);
+
+    return {
+      content,
+      contentType: CONTENT_TYPES[format],
+      filename: `synergize-${record.sessionId}.${format}`
+    };
+  }
+
+  toMarkdown(record: SessionRecord): string {
+    const lines: string[] = [
+      `# Synergize Transcript`,
+      '',
+      ...this.headerToMarkdown(record)
+    ];
+
+    if (record.queryHistory && record.queryHistory.length > 0) {
+      lines.push('## Earlier Questions', '', ...this.queryHistoryToMarkdown(record));
+    }
+
+    if (record.finalSynthesis) {
+      lines.push('## Final Synthesis', '', record.finalSynthesis.trim(), '');
+    }
+
+    for (const segment of this.buildSegments(record)) {
+      lines.push(`## Phase: ${segment.phase}`, '');
+
+      for (const turn of segment.turns) {
+        lines.push(`### ${this.turnTitle(turn)}`, '', turn.content.trim(), '');
+      }
+
+      for (const { analysis } of segment.analyses) {
+        lines.push(...this.analysisToMarkdown(analysis));
+      }
+    }
+
+    const transitions = this.transitionsToMarkdown(record);
+    if (transitions.length > 0) {
+      lines.push('## Phase Transitions', '', ...transitions);
+    }
+
+    return lines.join('\n');
+  }
+
+  toHtml(record: SessionRecord): string {
+    const sections: string[] = [
+      `<header>\n<h1>Synergize Transcript</h1>\n${this.renderMarkdown(this.headerToMarkdown(record))}</header>`
+    ];
+
+    if (record.queryHistory && record.queryHistory.length > 0) {
+      sections.push(this.htmlSection('Earlier Questions', this.renderMarkdown(this.queryHistoryToMarkdown(record))));
+    }
+
+    if (record.finalSynthesis) {
+      sections.push(this.htmlSection('Final Synthesis', this.markdown.render(record.finalSynthesis.trim()), 'synthesis'));
+    }
+
+    for (const segment of this.buildSegments(record)) {
+      const turns = segment.turns.map(turn => {
+        const className = turn.metadata?.isVerification ? 'turn verification' : 'turn';
+        return `<article class="${className}">\n<h3>${this.escapeHtml(this.turnTitle(turn))}</h3>\n` +
+          `${this.markdown.render(turn.content.trim())}</article>`;
+      });
+      const analyses = segment.analyses.map(({ analysis }) =>
+        `<aside class="analysis">\n${this.renderMarkdown(this.analysisToMarkdown(analysis))}</aside>`
+      );
+      sections.push(this.htmlSection(`Phase: ${segment.phase}`, [...turns, ...analyses].join('\n'), 'phase'));
+    }
+
+    const transitions = this.transitionsToMarkdown(record);
+    if (transitions.length > 0) {
+      sections.push(this.htmlSection('Phase Transitions', this.renderMarkdown(transitions)));
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Synergize Transcript - ${this.escapeHtml(record.originalQuery.substring(0, 80))}</title>
+<style>${HTML_STYLE}
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+  }
+
+  private headerToMarkdown(record: SessionRecord): string[] {
+    const lines: string[] = [
+      `**Query:** ${record.originalQuery}`,
+      '',
+      `- **Session:** ${record.sessionId}`,
+      `- **Participants:** ${record.participants.join(', ')}`,
+      ...(record.workflow ? [`- **Workflow:** ${record.workflow.name}`] : []),
+      ...(record.forkedFrom ? [`- **Forked from:** ${record.forkedFrom.sessionId} at turn ${record.forkedFrom.turnNumber}`] : []),
+      `- **Status:** ${record.status}`,
+      ...(record.budgetExceeded ? [`- **Budget reached:** ${record.budgetExceeded.budget} (${record.budgetExceeded.used} of ${record.budgetExceeded.limit})`] : []),
+      `- **Started:** ${new Date(record.startedAt).toISOString()}`,
+      `- **Completed:** ${new Date(record.completedAt).toISOString()}`,
+      ''
+    ];
+
+    if (record.error) {
+      lines.push(`> **Error:** ${record.error}`, '');
+    }
+
+    return lines;
+  }
+
+  private queryHistoryToMarkdown(record: SessionRecord): string[] {
+    return (record.queryHistory ?? []).flatMap(entry => [`**Q:** ${entry.query}`, '', entry.finalAnswer.trim(), '']);
+  }
+
+  private transitionsToMarkdown(record: SessionRecord): string[] {
+    const transitions = record.agreementAnalyses.filter(({ analysis }) => analysis.finalRecommendation);
+    if (transitions.length === 0) return [];
+
+    const lines = transitions.map(({ phase, analysis }) => {
+      const recommendation = analysis.finalRecommendation;
+      const jump = recommendation.isPhaseJump ? ' (jump)' : '';
+      return `- **${phase} → ${recommendation.nextPhase}**${jump}, confidence ${Math.round(recommendation.confidence * 100)}%: ` +
+        `${recommendation.reasoning}${recommendation.jumpReason ? ` ${recommendation.jumpReason}` : ''}`;
+    });
+    lines.push('');
+    return lines;
+  }
+
+  private turnTitle(turn: ConversationTurn): string {
+    const label = turn.metadata?.isVerification ? ' (verification)' : '';
+    return `${turn.modelId} - turn ${turn.turnNumber}${label}`;
+  }
+
+  private htmlSection(title: string, body: string, className?: string): string {
+    const classAttribute = className ? ` class="${className}"` : '';
+    return `<section${classAttribute}>\n<h2>${this.escapeHtml(title)}</h2>\n${body}\n</section>`;
+  }
+
+  private renderMarkdown(lines: string[]): string {
+    return this.markdown.render(lines.join('\n'));
+  }
+
+  private analysisToMarkdown(analysis: SessionAgreementRecord['analysis']): string[] {
+    const lines = [
+      '#### Agreement Analysis',
+      '',
+      `- **Agreement level:** ${analysis.agreementLevel}`,
+      `- **Stage used:** ${analysis.analysisQuality?.stageUsed ?? 'unknown'}`
+    ];
+
+    if (analysis.finalRecommendation) {
+      lines.push(
+        `- **Recommended next phase:** ${analysis.finalRecommendation.nextPhase} ` +
+        `(confidence ${Math.round(analysis.finalRecommendation.confidence * 100)}%)`,
+        `- **Reasoning:** ${analysis.finalRecommendation.reasoning}`
+      );
+    }
+
+    const findings = analysis.keyFindings;
+    if (findings) {
+      const sections: Array<[string, string[]]> = [
+        ['Agreements', findings.agreements],
+        ['Conflicts', findings.conflicts],
+        ['Complementary ideas', findings.complementaryIdeas],
+        ['Critical issues', findings.criticalIssues]
+      ];
+      for (const [title, items] of sections) {
+        if (items && items.length > 0) {
+          lines.push(`- **${title}:**`, ...items.map(item => `  - ${item}`));
+        }
+      }
+    }
+
+    lines.push('');
+    return lines;
+  }
+
+  /**
+   * Group consecutive turns by phase and attach the analyses made during each run
+   */
+  private buildSegments(record: SessionRecord): PhaseSegment[] {
+    const segments: PhaseSegment[] = [];
+    const turns = [...record.turns].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const turn of turns) {
+      const current = segments[segments.length - 1];
+      if (current && current.phase === turn.phase) {
+        current.turns.push(turn);
+      } else {
+        segments.push({ phase: turn.phase, turns: [turn], analyses: [] });
+      }
+    }
+
+    segments.forEach((segment, index) => {
+      const start = segment.turns[0].timestamp;
+      const end = segments[index + 1]?.turns[0].timestamp ?? Infinity;
+      segment.analyses = record.agreementAnalyses.filter(({ phase, timestamp }) =>
+        phase === segment.phase && timestamp >= start && timestamp < end
+      );
+    });
+
+    return segments;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,112 @@
+import { Redis } from 'ioredis';
+import { RedisVectorStore } from './redisVectorStore.js';
+import { InMemoryVectorStore } from './inMemoryVectorStore.js';
+import { createLogger } from '../utils/logger.js';
+import { config } from '../config.js';
+import {
+  RelevantExchange,
+  VectorDocumentMetadata,
+  VectorSearchFilters,
+  VectorSearchResult,
+  VectorStore,
+  VectorStoreBackend
+} from '../models/vectorStoreTypes.js';
+
+const VALID_BACKENDS = new Set<string>(['auto', 'redis', 'memory']);
+
+/**
+ * SELECTING VECTOR STORE
+ *
+ * Picks the backend once, on first use: RediSearch when Redis has the search and
+ * JSON modules, otherwise the in-memory store, so retrieval keeps working on plain
+ * Redis. VECTOR_STORE=redis or memory skips the probe.
+ */
+class SelectingVectorStore implements VectorStore {
+  private readonly logger = createLogger('VectorStore');
+  private backend: Promise<VectorStore> | null = null;
+
+  constructor(private readonly redis: Redis) {}
+
+  async initialize(): Promise<void> {
+    await this.getBackend();
+  }
+
+  async storeDocument(id: string, content: string, metadata: VectorDocumentMetadata): Promise<void> {
+    return (await this.getBackend()).storeDocument(id, content, metadata);
+  }
+
+  async updateDocument(id: string, content: string, additionalMetadata: Record<string, unknown>): Promise<void> {
+    return (await this.getBackend()).updateDocument(id, content, additionalMetadata);
+  }
+
+  async copyDocument(sourceId: string, targetId: string, sessionId: string): Promise<boolean> {
+    return (await this.getBackend()).copyDocument(sourceId, targetId, sessionId);
+  }
+
+  async search(query: string, filters?: VectorSearchFilters, topK?: number): Promise<VectorSearchResult[]> {
+    return (await this.getBackend()).search(query, filters, topK);
+  }
+
+  async getRelevantExchanges(
+    sessionId: string,
+    currentPhase: string,
+    modelId: string,
+    query: string,
+    limit?: number
+  ): Promise<RelevantExchange[]> {
+    return (await this.getBackend()).getRelevantExchanges(sessionId, currentPhase, modelId, query, limit);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    return (await this.getBackend()).deleteSession(sessionId);
+  }
+
+  async clear(): Promise<void> {
+    return (await this.getBackend()).clear();
+  }
+
+  private getBackend(): Promise<VectorStore> {
+    this.backend ??= this.selectBackend().catch(error => {
+      // Let the next call try again, e.g. once the embedding model downloads
+      this.backend = null;
+      throw error;
+    });
+    return this.backend;
+  }
+
+  private async selectBackend(): Promise<VectorStore> {
+    let backend = config.vectorStore.backend as VectorStoreBackend;
+    if (!VALID_BACKENDS.has(backend)) {
+      this.logger.warn(`⚠️ Unknown VECTOR_STORE "${backend}", using auto`);
+      backend = 'auto';
+    }
+
+    if (backend !== 'memory') {
+      const redisStore = new RedisVectorStore(this.redis);
+      await redisStore.initialize();
+
+      if (redisStore.isSearchAvailable() || backend === 'redis') {
+        this.logger.info('🔎 Using Redis vector store');
+        return redisStore;
+      }
+
+      this.logger.warn('⚠️ Redis has no search or JSON module - falling back to the in-memory vector store');
+    }
+
+    const memoryStore = new InMemoryVectorStore(config.vectorStore.persistPath);
+    await memoryStore.initialize();
+    this.logger.info('🔎 Using in-memory vector store');
+    return memoryStore;
+  }
+}
+
+let sharedStore: SelectingVectorStore | null = null;
+
+/**
+ * The process-wide vector store - every conversation manager shares it, so turns
+ * stored by one session's manager are found by the others
+ */
+export function getVectorStore(redis: Redis): VectorStore {
+  sharedStore ??= new SelectingVectorStore(redis);
+  return sharedStore;
+}
@@ -0,0 +1,210 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+import { CollaborationPhase } from '../models/types.js';
+import { CurationTaskType } from '../models/curatedConversationTypes.js';
+import { WorkflowDefinition, WorkflowSummary } from '../models/workflowTypes.js';
+import { createLogger } from '../utils/logger.js';
+import { isNodeError } from '../utils/typeGuards.js';
+import { config } from '../config.js';
+import { DEFAULT_WORKFLOW, DEFAULT_WORKFLOW_ID } from '../constants/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const VALID_PHASES = new Set<string>(
+  Object.values(CollaborationPhase).filter(phase => phase !== CollaborationPhase.IDLE)
+);
+
+const VALID_CURATION_TASKS = new Set<string>(Object.values(CurationTaskType));
+
+/**
+ * WORKFLOW REGISTRY
+ *
+ * Loads declarative workflow definitions (*.json) from the workflows directory
+ * at startup and validates definitions sent inline with a session request.
+ */
+export class WorkflowRegistry {
+  private readonly workflows = new Map<string, WorkflowDefinition>();
+  private readonly workflowsPath: string;
+  private readonly logger = createLogger('WorkflowRegistry');
+
+  constructor() {
+    this.workflowsPath = path.join(__dirname, config.paths.workflowsDirectory);
+    this.workflows.set(DEFAULT_WORKFLOW_ID, DEFAULT_WORKFLOW);
+  }
+
+  async initialize(): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.workflowsPath)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      if (isNodeError(error) && error.code === 'ENOENT') {
+        this.logger.info('📂 No workflows directory found - using built-in workflow only', {
+          workflowsPath: this.workflowsPath
+        });
+        return;
+      }
+      throw error;
+    }
+
+    for (const file of files) {
+      try {
+        const raw = await fs.readFile(path.join(this.workflowsPath, file), 'utf-8');
+        const workflow = this.validate(JSON.parse(raw));
+
+        if (workflow.id === DEFAULT_WORKFLOW_ID) {
+          this.logger.warn(`⚠️ Skipping ${file}: workflow id "${DEFAULT_WORKFLOW_ID}" is reserved`);
+          continue;
+        }
+
+        this.workflows.set(workflow.id, workflow);
+        this.logger.info(`📋 Loaded workflow "${workflow.id}"`, {
+          file,
+          phases: workflow.phases.map(p => p.phase)
+        });
+      } catch (error) {
+        this.logger.error(`Failed to load workflow ${file}:`, error);
+      }
+    }
+
+    this.logger.info(`✅ Workflow registry initialized with ${this.workflows.size} workflows`);
+  }
+
+  get(workflowId: string): WorkflowDefinition | undefined {
+    return this.workflows.get(workflowId);
+  }
+
+  list(): WorkflowSummary[] {
+    return Array.from(this.workflows.values()).map(workflow => ({
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      phases: workflow.phases.map(({ phase, name }) => ({ phase, name }))
+    }));
+  }
+
+  /**
+   * Resolve the workflow for a session: an inline definition wins over an id,
+   * and the built-in workflow is used when neither is provided
+   */
+  resolve(workflowId?: string, inline?: unknown): WorkflowDefinition {
+    if (inline !== undefined) {
+      return this.validate(inline);
+    }
+
+    if (workflowId) {
+      const workflow = this.workflows.get(workflowId);
+      if (!workflow) {
+        throw new Error(`Unknown workflow: ${workflowId}`);
+      }
+      return workflow;
+    }
+
+    return DEFAULT_WORKFLOW;
+  }
+
+  /**
+   * Validate an untrusted definition and return it with defaults applied
+   */
+  validate(candidate: unknown): WorkflowDefinition {
+    const errors: string[] = [];
+
+    if (typeof candidate !== 'object' || candidate === null) {
+      throw new Error('Invalid workflow: definition must be an object');
+    }
+
+    const definition = candidate as Partial<WorkflowDefinition>;
+    if (typeof definition.id !== 'string' || !definition.id.trim()) errors.push('id is required');
+    if (typeof definition.name !== 'string' || !definition.name.trim()) errors.push('name is required');
+    if (!Array.isArray(definition.phases) || definition.phases.length === 0) {
+      errors.push('phases must be a non-empty array');
+    }
+    if (!definition.terminal || !Array.isArray(definition.terminal.phases) || definition.terminal.phases.length === 0) {
+      errors.push('terminal.phases must be a non-empty array');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow: ${errors.join('; ')}`);
+    }
+
+    const phases = definition.phases ?? [];
+    if (phases.some(phaseDefinition => typeof phaseDefinition !== 'object' || phaseDefinition === null)) {
+      throw new Error('Invalid workflow: every phase must be an object');
+    }
+
+    const terminalPhases = definition.terminal?.phases ?? [];
+    const declaredPhases = new Set<CollaborationPhase>();
+
+    phases.forEach((phaseDefinition, index) => {
+      const label = `phases[${index}]`;
+
+      if (!VALID_PHASES.has(phaseDefinition.phase)) {
+        errors.push(`${label}.phase "${phaseDefinition.phase}" is not a collaboration phase`);
+      } else if (declaredPhases.has(phaseDefinition.phase)) {
+        errors.push(`${label}.phase "${phaseDefinition.phase}" is declared more than once`);
+      }
+      declaredPhases.add(phaseDefinition.phase);
+
+      if (typeof phaseDefinition.instruction !== 'string' || !phaseDefinition.instruction.trim()) {
+        errors.push(`${label}.instruction is required`);
+      }
+
+      const minTurns = phaseDefinition.minTurns ?? 1;
+      const maxTurns = phaseDefinition.maxTurns ?? Math.max(1, minTurns);
+      if (!Number.isInteger(minTurns) || minTurns < 1) errors.push(`${label}.minTurns must be a positive integer`);
+      if (!Number.isInteger(maxTurns) || maxTurns < minTurns) errors.push(`${label}.maxTurns must be an integer >= minTurns`);
+      if (phaseDefinition.curationTask !== undefined && !VALID_CURATION_TASKS.has(phaseDefinition.curationTask)) {
+        errors.push(`${label}.curationTask "${phaseDefinition.curationTask}" is not a curation task`);
+      }
+    });
+
+    for (const terminalPhase of terminalPhases) {
+      if (!VALID_PHASES.has(terminalPhase)) {
+        errors.push(`terminal phase "${terminalPhase}" is not a collaboration phase`);
+      }
+    }
+
+    // Jumps may only target phases the workflow declares or terminal phases
+    const reachable = new Set<CollaborationPhase>([...declaredPhases, ...terminalPhases]);
+    phases.forEach((phaseDefinition, index) => {
+      for (const target of phaseDefinition.transitions ?? []) {
+        if (!reachable.has(target)) {
+          errors.push(`phases[${index}].transitions target "${target}" is not part of the workflow`);
+        }
+      }
+    });
+
+    const maxTotalTurns = definition.terminal?.maxTotalTurns;
+    if (maxTotalTurns !== undefined && (!Number.isInteger(maxTotalTurns) || maxTotalTurns < 1)) {
+      errors.push('terminal.maxTotalTurns must be a positive integer');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow "${definition.id}": ${errors.join('; ')}`);
+    }
+
+    return {
+      id: definition.id as string,
+      name: definition.name as string,
+      description: definition.description,
+      phases: phases.map(phaseDefinition => {
+        const minTurns = phaseDefinition.minTurns ?? 1;
+        return {
+          phase: phaseDefinition.phase,
+          name: phaseDefinition.name,
+          instruction: phaseDefinition.instruction,
+          transitions: phaseDefinition.transitions,
+          minTurns,
+          maxTurns: phaseDefinition.maxTurns ?? Math.max(1, minTurns),
+          curationTask: phaseDefinition.curationTask
+        };
+      }),
+      terminal: {
+        phases: terminalPhases,
+        maxTotalTurns
+      }
+    };
+  }
+}
@@ -0,0 +1,276 @@
+#!/usr/bin/env tsx
+
+/**
+ * End-to-end test: full collaborations through SSEController with scripted mock models
+ * Requires Redis. Run with: npm run test:e2e (sets MOCK_MODELS=true)
+ */
+
+/* eslint-disable no-console */
+
+import { randomUUID } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+import { ModelService } from './services/modelService.js';
+import { RedisService } from './services/redisService.js';
+import { WorkflowRegistry } from './services/workflowRegistry.js';
+import { SessionScheduler } from './services/sessionScheduler.js';
+import { SSEController } from './controllers/sseController.js';
+import { MockScript } from './services/mockModelProvider.js';
+import { CollaborationPhase, SessionBudget, SessionBudgetLimit, SSEMessage, SSEMessageType, TokenChunk } from './models/types.js';
+import { config } from './config.js';
+
+const COLLABORATION_TIMEOUT_MS = 120000;
+
+interface ReceivedEvent {
+  id: number;
+  message: SSEMessage;
+}
+
+interface Scenario {
+  name: string;
+  prompt: string;
+  script: MockScript;
+  expectedAnswer: string;
+  expectedPhases?: CollaborationPhase[]; // Phases that must be announced with a PHASE_UPDATE
+  budget?: SessionBudget;
+  expectedBudgetExceeded?: SessionBudgetLimit; // Budget that must run out before the final synthesis
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'agreeing models (built-in responses)',
+    prompt: 'What is 6 times 7?',
+    script: { answer: 42, rules: [] },
+    expectedAnswer: '42'
+  },
+  {
+    name: 'scripted disagreement resolved in revision',
+    prompt: 'What is the sum of the first 10 positive integers?',
+    script: {
+      answer: 55,
+      rules: [
+        { model: 'mock-beta', phase: CollaborationPhase.BRAINSTORM, response: 'Adding 1 through 10 pairwise gives 11 five times. The answer is 50.' }
+      ]
+    },
+    expectedAnswer: '55',
+    expectedPhases: [CollaborationPhase.CRITIQUE]
+  },
+  {
+    name: 'turn budget spent before the disagreement is resolved',
+    prompt: 'What is the sum of the first 10 positive integers?',
+    script: {
+      answer: 55,
+      rules: [
+        { model: 'mock-beta', phase: CollaborationPhase.BRAINSTORM, response: 'Adding 1 through 10 pairwise gives 11 five times. The answer is 50.' }
+      ]
+    },
+    expectedAnswer: '55',
+    budget: { maxTurns: 2 },
+    expectedBudgetExceeded: 'maxTurns'
+  },
+  {
+    // A built-in response is 44 estimated tokens, so the limit is hit by the second turn
+    name: 'token budget spent by the first round',
+    prompt: 'What is 6 times 7?',
+    script: { answer: 42, rules: [] },
+    expectedAnswer: '42',
+    budget: { maxTokens: 50 },
+    expectedBudgetExceeded: 'maxTokens'
+  }
+];
+
+/**
+ * Read one SSE stream to the end, collecting `id:` / `data:` events
+ */
+async function readStream(baseUrl: string, sessionId: string, lastEventId?: number): Promise<ReceivedEvent[]> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), COLLABORATION_TIMEOUT_MS);
+  const events: ReceivedEvent[] = [];
+
+  try {
+    const response = await fetch(`${baseUrl}/stream/${sessionId}`, {
+      headers: lastEventId !== undefined ? { 'Last-Event-ID': String(lastEventId) } : {},
+      signal: controller.signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Stream request failed with ${response.status}`);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk as Uint8Array, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const idLine = block.split('\n').find(line => line.startsWith('id:'));
+        const dataLine = block.split('\n').find(line => line.startsWith('data:'));
+        if (!idLine || !dataLine) continue;
+
+        const message = JSON.parse(dataLine.slice(5).trim()) as SSEMessage;
+        events.push({ id: parseInt(idLine.slice(3).trim(), 10), message });
+
+        if (message.type === SSEMessageType.COLLABORATION_COMPLETE || message.type === SSEMessageType.ERROR) {
+          controller.abort();
+          return events;
+        }
+      }
+    }
+    return events;
+  } catch (error) {
+    if (controller.signal.aborted && events.length > 0) return events;
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * A spent budget is reported once, before the synthesis it skips ahead to
+ */
+function assertBudget(events: ReceivedEvent[], expected: SessionBudgetLimit | undefined): void {
+  const exceeded = events.filter(event => event.message.type === SSEMessageType.BUDGET_EXCEEDED);
+  if (!expected) {
+    assert(exceeded.length === 0, 'no BUDGET_EXCEEDED events');
+    return;
+  }
+
+  assert(exceeded.length === 1, `one BUDGET_EXCEEDED event (got ${exceeded.length})`);
+  assert(exceeded[0].message.payload.budget === expected, `the ${expected} budget is exceeded`);
+
+  const firstSynthesisChunk = events.findIndex(event =>
+    event.message.type === SSEMessageType.TOKEN_CHUNK && (event.message.payload as TokenChunk).modelId === 'synthesis');
+  assert(firstSynthesisChunk > events.indexOf(exceeded[0]), 'the final synthesis follows BUDGET_EXCEEDED');
+}
+
+/**
+ * Check the SSE contract: connection first, monotonic ids, every model streams,
+ * agreement analysis and synthesis reported, completion last
+ */
+function assertEventSequence(events: ReceivedEvent[], models: string[], expectedAnswer: string): void {
+  const types = events.map(event => event.message.type);
+
+  assert(types[0] === SSEMessageType.CONNECTION, 'first event is CONNECTION');
+  assert(types[types.length - 1] === SSEMessageType.COLLABORATION_COMPLETE,
+    `last event is COLLABORATION_COMPLETE (got ${types[types.length - 1]})`);
+  assert(!types.includes(SSEMessageType.ERROR), 'no ERROR events');
+  assert(events.every((event, index) => event.id === index + 1), 'event ids are 1..n without gaps');
+
+  const firstPhaseUpdate = types.indexOf(SSEMessageType.PHASE_UPDATE);
+  const firstToken = types.indexOf(SSEMessageType.TOKEN_CHUNK);
+  assert(firstPhaseUpdate > 0 && firstPhaseUpdate < firstToken, 'a PHASE_UPDATE precedes the first TOKEN_CHUNK');
+  assert(types.includes(SSEMessageType.MODEL_STATUS), 'MODEL_STATUS events are sent');
+  assert(types.includes(SSEMessageType.SYNTHESIS_UPDATE), 'SYNTHESIS_UPDATE events are sent');
+
+  const chunks = events
+    .filter(event => event.message.type === SSEMessageType.TOKEN_CHUNK)
+    .map(event => event.message.payload as TokenChunk);
+  for (const model of models) {
+    assert(chunks.some(chunk => chunk.modelId === model && chunk.tokens.length > 0), `${model} streamed tokens`);
+  }
+
+  const synthesis = chunks.filter(chunk => chunk.modelId === 'synthesis').flatMap(chunk => chunk.tokens).join('');
+  const finalOutput = String(events[events.length - 1].message.payload.finalOutput ?? '');
+  assert(`${synthesis}\n${finalOutput}`.includes(expectedAnswer), `final output contains ${expectedAnswer}`);
+}
+
+async function runTest(): Promise<void> {
+  console.log('🚀 Starting end-to-end mock collaboration test\n');
+
+  if (!config.mockModels.enabled) {
+    throw new Error('MOCK_MODELS=true is required (use npm run test:e2e)');
+  }
+
+  const redisService = new RedisService();
+  const modelService = new ModelService();
+  const workflowRegistry = new WorkflowRegistry();
+  let server: Server | null = null;
+
+  try {
+    await redisService.connect();
+    await modelService.initialize();
+    await workflowRegistry.initialize();
+
+    const models = config.mockModels.models.slice(0, 2);
+    const sseController = new SSEController(
+      modelService,
+      redisService,
+      new SessionScheduler(modelService, config.session.maxConcurrentSessions)
+    );
+    const app = express();
+    app.get('/stream/:sessionId', (req, res) => {
+      sseController.handleStream(req, res).catch(() => res.status(500).end());
+    });
+
+    const listening = app.listen(0, '127.0.0.1');
+    server = listening;
+    await new Promise<void>(resolve => listening.once('listening', () => resolve()));
+    const baseUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}`;
+    console.log(`✅ SSE server listening at ${baseUrl}\n`);
+
+    for (const scenario of SCENARIOS) {
+      console.log(`🎬 Scenario: ${scenario.name}`);
+      modelService.getMockProvider().setScript(scenario.script);
+
+      const sessionId = `e2e-${randomUUID()}`;
+      await redisService.storeSession(sessionId, {
+        prompt: scenario.prompt,
+        models,
+        workflow: workflowRegistry.resolve(),
+        budget: scenario.budget,
+        status: 'initiated',
+        createdAt: new Date().toISOString()
+      });
+
+      const events = await readStream(baseUrl, sessionId);
+      const counts = events.reduce<Record<string, number>>((acc, event) => {
+        acc[event.message.type] = (acc[event.message.type] ?? 0) + 1;
+        return acc;
+      }, {});
+      console.log(`📨 Received ${events.length} events`, counts);
+
+      assertEventSequence(events, models, scenario.expectedAnswer);
+      assertBudget(events, scenario.expectedBudgetExceeded);
+
+      // Disagreeing answers must not jump straight to consensus
+      const announcedPhases = events
+        .filter(event => event.message.type === SSEMessageType.PHASE_UPDATE)
+        .map(event => event.message.payload.phase);
+      for (const phase of scenario.expectedPhases ?? []) {
+        assert(announcedPhases.includes(phase), `a PHASE_UPDATE for ${phase} is sent`);
+      }
+
+      // A late reconnect replays only the events after Last-Event-ID
+      const resumeFrom = Math.floor(events.length / 2);
+      const replayed = await readStream(baseUrl, sessionId, resumeFrom);
+      assert(replayed.length === events.length - resumeFrom, 'replay returns exactly the missed events');
+      assert(replayed[0]?.id === resumeFrom + 1, 'replay starts after Last-Event-ID');
+
+      console.log(`✅ ${scenario.name}\n`);
+    }
+
+    console.log('✅ Test completed!');
+  } finally {
+    server?.close();
+    await modelService.shutdown().catch(() => undefined);
+    await redisService.disconnect().catch(() => undefined);
+  }
+}
+
+// Run the test
+runTest()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  });
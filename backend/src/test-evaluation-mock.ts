@@ -0,0 +1,132 @@
+#!/usr/bin/env tsx
+
+/**
+ * Evaluation harness test: answer scoring, then evals/math-basic.jsonl through the
+ * EvaluationRunner with scripted mock models
+ * Requires Redis. Run with: npm run test:eval (sets MOCK_MODELS=true)
+ */
+
+/* eslint-disable no-console */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { ModelService } from './services/modelService.js';
+import { RedisService } from './services/redisService.js';
+import { WorkflowRegistry } from './services/workflowRegistry.js';
+import { EvaluationRunner } from './services/evaluationRunner.js';
+import { EvaluationItem } from './models/evaluationTypes.js';
+import { config } from './config.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATASET_PATH = path.join(__dirname, '../../evals/math-basic.jsonl');
+const ITEM_TIMEOUT_MS = 120000;
+
+// [actual, expected, tolerance, correct]
+const SCORING_CASES: Array<[string | number, string | number, number | undefined, boolean]> = [
+  [391, 391, undefined, true],
+  ['391', 391, undefined, true],
+  ['5,050', 5050, undefined, true],
+  ['$120', 120, undefined, true],
+  ['\\boxed{29}', 29, undefined, true],
+  ['0.3333', '1/3', undefined, false],
+  [0.3333, 0.3334, 0.001, true],
+  [0.3333, 0.3334, undefined, false],
+  ['1e3', 1000, undefined, true],
+  [Number.NaN, 0, undefined, false],
+  ['Fifteen.', 'fifteen', undefined, true],
+  ['x = 15', 15, undefined, false]
+];
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function testScoring(): void {
+  for (const [actual, expected, tolerance, correct] of SCORING_CASES) {
+    assert(EvaluationRunner.isCorrect(actual, expected, tolerance) === correct,
+      `isCorrect(${JSON.stringify(actual)}, ${JSON.stringify(expected)}) is ${correct}`);
+  }
+  console.log(`✅ ${SCORING_CASES.length} scoring cases\n`);
+}
+
+async function runTest(): Promise<void> {
+  console.log('🚀 Starting evaluation harness test\n');
+
+  if (!config.mockModels.enabled) {
+    throw new Error('MOCK_MODELS=true is required (use npm run test:eval)');
+  }
+
+  testScoring();
+
+  const items = await EvaluationRunner.loadDataset(DATASET_PATH);
+  assert(items.length > 0, 'the dataset has items');
+  console.log(`📂 Loaded ${items.length} items from ${DATASET_PATH}\n`);
+
+  const redisService = new RedisService();
+  const modelService = new ModelService();
+  const workflowRegistry = new WorkflowRegistry();
+
+  try {
+    await redisService.connect();
+    await modelService.initialize();
+    await workflowRegistry.initialize();
+
+    const models = config.mockModels.models.slice(0, 2);
+    const workflow = workflowRegistry.resolve();
+    const runner = new EvaluationRunner(modelService, redisService);
+    const mockProvider = modelService.getMockProvider();
+    const answerWith = (item: EvaluationItem): void => mockProvider.setScript({ answer: item.expected, rules: [] });
+
+    // The models answer each item correctly - the script moves on to the next item as one completes
+    answerWith(items[0]);
+    const report = await runner.run(DATASET_PATH, items, {
+      models,
+      workflow,
+      itemTimeoutMs: ITEM_TIMEOUT_MS,
+      onItemComplete: (result, index) => {
+        console.log(`[${index + 1}/${items.length}] ${result.id}: expected ${result.expected}, got ${result.actual} (${result.status})`);
+        if (items[index + 1]) answerWith(items[index + 1]);
+      }
+    });
+
+    assert(report.summary.total === items.length, 'every item is reported');
+    assert(report.summary.errors === 0, 'no item errors or times out');
+    assert(report.summary.accuracy === 1, `accuracy is 100% (got ${report.summary.correct}/${report.summary.total})`);
+    for (const result of report.items) {
+      assert(result.turns > 0 && result.tokens > 0, `${result.id} reports turns and tokens`);
+      assert(result.phasesUsed.length > 0, `${result.id} reports the phases used`);
+    }
+    console.log('✅ Correct answers score 100%\n');
+
+    // A wrong answer is scored as such
+    mockProvider.setScript({ answer: 7, rules: [] });
+    const wrong = await runner.run(DATASET_PATH, items.slice(0, 1), { models, workflow, itemTimeoutMs: ITEM_TIMEOUT_MS });
+    assert(wrong.items[0].status === 'completed' && !wrong.items[0].correct, 'a wrong answer is completed but not correct');
+    assert(String(wrong.items[0].actual) === '7', `the wrong answer is reported (got ${wrong.items[0].actual})`);
+    console.log('✅ Wrong answers are scored incorrect\n');
+
+    // A timed-out item is cancelled and the next item still runs
+    answerWith(items[0]);
+    const timedOut = await runner.run(DATASET_PATH, items.slice(0, 1), { models, workflow, itemTimeoutMs: 1 });
+    assert(timedOut.items[0].status === 'timeout' && !timedOut.items[0].correct, 'an item past its timeout is reported as timeout');
+    const afterTimeout = await runner.run(DATASET_PATH, items.slice(0, 1), { models, workflow, itemTimeoutMs: ITEM_TIMEOUT_MS });
+    assert(afterTimeout.items[0].correct, 'the next run after a timeout completes correctly');
+    console.log('✅ Timed-out items are cancelled before the next one starts\n');
+
+    console.log('✅ Test completed!');
+  } finally {
+    await modelService.shutdown().catch(() => undefined);
+    await redisService.disconnect().catch(() => undefined);
+  }
+}
+
+// Run the test
+runTest()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌ Test failed:', error);
+    process.exit(1);
+  });
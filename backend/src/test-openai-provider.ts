@@ -0,0 +1,86 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test script for the OpenAI-compatible provider against a local stub server
+ * Run with: npm run test:openai
+ */
+
+/* eslint-disable no-console */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from './services/openAICompatibleProvider.js';
+import { ModelConfig } from './models/types.js';
+
+const STUB_TOKENS = ['The ', 'answer ', 'is ', '42', '.'];
+
+/**
+ * Minimal /v1/chat/completions stub that streams STUB_TOKENS as SSE deltas
+ */
+function handleStubRequest(req: IncomingMessage, res: ServerResponse): void {
+  if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const request = JSON.parse(body) as { model: string; stream: boolean; messages: unknown[] };
+    console.log(`📨 Stub received request for model "${request.model}" with ${request.messages.length} messages`);
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const token of STUB_TOKENS) {
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: token }, finish_reason: null }] })}\n\n`);
+    }
+    res.write(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] })}\n\n`);
+    res.end('data: [DONE]\n\n');
+  });
+}
+
+async function runTest(): Promise<void> {
+  console.log('🚀 Starting OpenAI-compatible provider test\n');
+
+  const server = createServer(handleStubRequest);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  console.log(`✅ Stub server listening on port ${port}\n`);
+
+  const modelConfig: ModelConfig = {
+    id: 'stub-model',
+    name: 'Stub Model (remote)',
+    path: `http://127.0.0.1:${port}`,
+    contextSize: 4096,
+    provider: 'openai-compatible',
+    endpoint: { baseUrl: `http://127.0.0.1:${port}`, model: 'stub-model' },
+    settings: { temperature: 0.7 }
+  };
+
+  try {
+    const provider = new OpenAICompatibleProvider();
+    const streamed: string[] = [];
+
+    const response = await provider.streamChatCompletion(
+      modelConfig,
+      { systemPrompt: 'You are a test.', prompt: 'What is the answer?', maxTokens: 32 },
+      text => streamed.push(text)
+    );
+
+    console.log(`📝 Streamed ${streamed.length} chunks: ${JSON.stringify(streamed)}`);
+    console.log(`📝 Full response: "${response}"`);
+
+    if (response !== STUB_TOKENS.join('') || streamed.length !== STUB_TOKENS.length) {
+      throw new Error('Streamed content does not match stub tokens');
+    }
+
+    console.log('\n✅ Test completed!');
+  } finally {
+    server.close();
+  }
+}
+
+// Run the test
+runTest().catch(error => {
+  console.error('\n❌ Test failed:', error);
+  process.exit(1);
+});
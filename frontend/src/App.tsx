@@ -4,6 +4,8 @@ import { useCollaborationStore } from '@/store/collaborationStore';
 import { SynergizerArena } from '@/components/SynergizerArena';
 import { ConnectionStatus } from '@/components/ConnectionStatus';
 import { PhaseIndicator } from '@/components/PhaseIndicator';
+import { SessionHistory } from '@/components/SessionHistory';
+import { canParticipate } from '@/components/ModelSelector';
 import { SSEService } from '@/services/sseService';
 import { createLogger } from '@/utils/logger';
 import { ModelConfig } from '@/types';
@@ -23,6 +25,7 @@ const logger = createLogger('App');
 
 function App(): JSX.Element {
   const [sseService] = useState(() => new SSEService());
+  const [historyOpen, setHistoryOpen] = useState(false);
   const { isConnected, error, models } = useCollaborationStore();
   const initializationRef = useRef(false);
 
@@ -50,6 +53,7 @@ function App(): JSX.Element {
     store.setStatusMessage(null);
     
     // STEP 3: Clear all browser storage to prevent any client-side persistence
+    // (past collaborations are archived server-side and reopened from the history sidebar)
     try {
       localStorage.clear();
       sessionStorage.clear();
@@ -174,24 +178,25 @@ function App(): JSX.Element {
               store.setModels(data.models);
               
               // Auto-select models with Gemma on the left
-              if (data.models.length >= 2) {
+              const participants: ModelConfig[] = data.models.filter(canParticipate);
+              if (participants.length >= 2) {
                 // Find Gemma and Qwen models
-                const gemmaModel = data.models.find((m: ModelConfig) => m.id.includes('gemma'));
-                const qwenModel = data.models.find((m: ModelConfig) => m.id.includes('qwen'));
+                const gemmaModel = participants.find((m: ModelConfig) => m.id.includes('gemma'));
+                const qwenModel = participants.find((m: ModelConfig) => m.id.includes('qwen'));
                 
-                let selectedIds: [string, string];
+                let selectedIds: string[];
                 if (gemmaModel && qwenModel) {
                   // Gemma left, Qwen right
                   selectedIds = [gemmaModel.id, qwenModel.id];
                 } else {
                   // Fallback to first two models
-                  selectedIds = [data.models[0].id, data.models[1].id];
+                  selectedIds = [participants[0].id, participants[1].id];
                 }
                 
                 logger.info('Auto-selecting models', { selectedIds });
                 store.selectModels(selectedIds);
               } else {
-                logger.error('Not enough models found', undefined, { modelCount: data.models.length });
+                logger.error('Not enough models found', undefined, { modelCount: participants.length });
               }
             } else {
               logger.error('Invalid models data', undefined, { data });
@@ -257,6 +262,12 @@ function App(): JSX.Element {
               SYNERGIZE
             </h1>
             <div className="flex items-center gap-4">
+              <button
+                onClick={() => setHistoryOpen(true)}
+                className="px-4 py-2 rounded-lg bg-synergy-dark/50 border border-synergy-primary/20 text-synergy-muted hover:text-synergy-primary transition-colors"
+              >
+                History
+              </button>
               <PhaseIndicator />
               <ConnectionStatus connected={isConnected} />
             </div>
@@ -285,6 +296,8 @@ function App(): JSX.Element {
           )}
         </div>
       </main>
+
+      <SessionHistory open={historyOpen} onClose={() => setHistoryOpen(false)} />
     </div>
   );
 }
@@ -1,74 +1,99 @@
 import { useCollaborationStore } from '@/store/collaborationStore';
 import { ModelConfig } from '@/types';
 
+const MIN_PARTICIPANTS = 2;
+
+/**
+ * Models without declared roles may take any role
+ */
+export function canParticipate(model: ModelConfig): boolean {
+  return !model.roles || model.roles.includes('PARTICIPANT');
+}
+
 export function ModelSelector(): JSX.Element {
-  const { models, selectedModels, selectModels, isStreaming } = useCollaborationStore();
+  const { models: allModels, selectedModels, selectModels, isStreaming } = useCollaborationStore();
+  const models = allModels.filter(canParticipate);
+  const current = selectedModels && selectedModels.length >= MIN_PARTICIPANTS
+    ? selectedModels
+    : ['', ''];
 
-  const handleModelSelect = (index: 0 | 1, modelId: string): void => {
-    const current = selectedModels || ['', ''];
-    const updated: [string, string] = [...current] as [string, string];
+  const handleModelSelect = (index: number, modelId: string): void => {
+    const updated = [...current];
     updated[index] = modelId;
-    
-    if (updated[0] && updated[1] && updated[0] !== updated[1]) {
+
+    // Only commit complete selections without duplicates
+    if (updated.every(Boolean) && new Set(updated).size === updated.length) {
       selectModels(updated);
     }
   };
 
+  const handleAddParticipant = (): void => {
+    const available = models.find((model: ModelConfig) => !current.includes(model.id));
+    if (available) {
+      selectModels([...current, available.id]);
+    }
+  };
+
+  const handleRemoveParticipant = (index: number): void => {
+    if (current.length <= MIN_PARTICIPANTS) return;
+    selectModels(current.filter((_, i) => i !== index));
+  };
+
   return (
     <div className="mb-8 space-y-4">
       <h2 className="text-xl font-tech text-synergy-primary">Select Models for Collaboration</h2>
-      
-      <div className="grid grid-cols-2 gap-4">
-        {/* Model 1 Selector */}
-        <div>
-          <label className="block text-sm text-synergy-muted mb-2">Model 1</label>
-          <select
-            value={selectedModels?.[0] || ''}
-            onChange={(e) => handleModelSelect(0, e.target.value)}
-            disabled={isStreaming}
-            className="synergy-input"
-          >
-            <option value="">Select a model...</option>
-            {models.map((model: ModelConfig) => (
-              <option 
-                key={model.id} 
-                value={model.id}
-                disabled={selectedModels?.[1] === model.id}
-              >
-                {model.name}
-              </option>
-            ))}
-          </select>
-        </div>
 
-        {/* Model 2 Selector */}
-        <div>
-          <label className="block text-sm text-synergy-muted mb-2">Model 2</label>
-          <select
-            value={selectedModels?.[1] || ''}
-            onChange={(e) => handleModelSelect(1, e.target.value)}
-            disabled={isStreaming}
-            className="synergy-input"
-          >
-            <option value="">Select a model...</option>
-            {models.map((model: ModelConfig) => (
-              <option 
-                key={model.id} 
-                value={model.id}
-                disabled={selectedModels?.[0] === model.id}
-              >
-                {model.name}
-              </option>
-            ))}
-          </select>
-        </div>
+      <div className="grid grid-cols-2 gap-4">
+        {current.map((selectedId, index) => (
+          <div key={index}>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm text-synergy-muted">Model {index + 1}</label>
+              {current.length > MIN_PARTICIPANTS && (
+                <button
+                  onClick={() => handleRemoveParticipant(index)}
+                  disabled={isStreaming}
+                  className="text-xs text-synergy-muted hover:text-synergy-primary transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            <select
+              value={selectedId}
+              onChange={(e) => handleModelSelect(index, e.target.value)}
+              disabled={isStreaming}
+              className="synergy-input"
+            >
+              <option value="">Select a model...</option>
+              {models.map((model: ModelConfig) => (
+                <option
+                  key={model.id}
+                  value={model.id}
+                  disabled={current.includes(model.id) && model.id !== selectedId}
+                >
+                  {model.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
       </div>
 
-      {selectedModels && selectedModels.length >= 2 && selectedModels[0] && selectedModels[1] && (
+      {current.length < models.length && (
+        <button
+          onClick={handleAddParticipant}
+          disabled={isStreaming || !current.every(Boolean)}
+          className="text-sm text-synergy-accent hover:text-synergy-primary transition-colors"
+        >
+          + Add participant
+        </button>
+      )}
+
+      {selectedModels && selectedModels.length >= MIN_PARTICIPANTS && selectedModels.every(Boolean) && (
         <div className="text-sm text-synergy-accent text-center animate-pulse-glow">
-          {selectedModels[0]} ⚡ {selectedModels[1]}
+          {selectedModels.join(' ⚡ ')}
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,491 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { MathAwareRenderer, SynthesisMathRenderer } from '@/components/MathAwareRenderer';
+import { useCollaborationStore } from '@/store/collaborationStore';
+import { ForkOrigin, ForkTreeNode, SessionRecord, SessionSummary, SessionTurn } from '@/types';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('SessionHistory');
+
+const EXPORT_FORMATS = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' }
+] as const;
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+// User messages, carried-forward answers and verification turns have no model turn to re-run
+function isRegenerable(turn: SessionTurn, participants: string[]): boolean {
+  const { isUserInterjection, isCarriedForward, isVerification } = turn.metadata ?? {};
+  return !isUserInterjection && !isCarriedForward && !isVerification && participants.includes(turn.modelId);
+}
+
+interface ForkTreeProps {
+  node: ForkTreeNode;
+  currentSessionId: string;
+  onOpen: (sessionId: string) => void;
+}
+
+function ForkTree({ node, currentSessionId, onOpen }: ForkTreeProps): JSX.Element {
+  const isCurrent = node.sessionId === currentSessionId;
+  const label = node.summary?.originalQuery ?? 'Not finished yet';
+
+  return (
+    <li>
+      <button
+        onClick={() => onOpen(node.sessionId)}
+        disabled={isCurrent || !node.summary}
+        className={`text-left text-sm transition-colors ${
+          isCurrent ? 'text-synergy-primary' : 'text-synergy-muted hover:text-synergy-primary disabled:hover:text-synergy-muted'
+        }`}
+      >
+        <span className="line-clamp-1">{label}</span>
+        {node.forkedFrom && (
+          <span className="text-xs"> · from turn {node.forkedFrom.turnNumber} ({node.forkedFrom.phase})</span>
+        )}
+      </button>
+      {node.children.length > 0 && (
+        <ul className="ml-4 pl-3 border-l border-synergy-primary/20 space-y-1 mt-1">
+          {node.children.map(child => (
+            <ForkTree key={child.sessionId} node={child} currentSessionId={currentSessionId} onOpen={onOpen} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function SessionHistory({ open, onClose }: Props): JSX.Element | null {
+  const isStreaming = useCollaborationStore(state => state.isStreaming);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+  const [forkTree, setForkTree] = useState<ForkTreeNode | null>(null);
+  // Fork form for one turn of the selected session
+  const [forkTurnId, setForkTurnId] = useState<string | null>(null);
+  const [forkPrompt, setForkPrompt] = useState('');
+  const [forkPhase, setForkPhase] = useState('');
+  const [forking, setForking] = useState(false);
+  // Turn being regenerated, and the optional temperature override for it
+  const [regeneratingTurnId, setRegeneratingTurnId] = useState<string | null>(null);
+  const [regenTemperature, setRegenTemperature] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/sessions');
+      if (!response.ok) {
+        throw new Error(`Failed to load sessions (${response.status})`);
+      }
+      const data = await response.json();
+      setSessions(data.sessions as SessionSummary[]);
+    } catch (err) {
+      logger.error('Failed to load session history', err);
+      setError('Could not load session history.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      void loadSessions();
+    } else {
+      setSelected(null);
+    }
+  }, [open, loadSessions]);
+
+  useEffect(() => {
+    setForkTurnId(null);
+    setForkTree(null);
+    if (!selected) return;
+
+    fetch(`/api/sessions/${selected.sessionId}/forks`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load fork tree (${response.status})`);
+        }
+        const data = await response.json();
+        setForkTree(data.tree as ForkTreeNode);
+      })
+      .catch((err) => {
+        logger.error('Failed to load fork tree', err, { sessionId: selected.sessionId });
+      });
+  }, [selected]);
+
+  const openForkForm = (turn: SessionTurn): void => {
+    setForkTurnId(turn.id);
+    setForkPrompt(selected?.originalQuery ?? '');
+    setForkPhase('');
+  };
+
+  const handleFork = async (turn: SessionTurn): Promise<void> => {
+    if (!selected) return;
+
+    const prompt = forkPrompt.trim();
+    setForking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sessions/${selected.sessionId}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fromTurnId: turn.id,
+          overrides: {
+            ...(prompt && prompt !== selected.originalQuery ? { prompt } : {}),
+            ...(forkPhase ? { phase: forkPhase } : {})
+          },
+          createdAt: new Date().toISOString()
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? `Fork failed (${response.status})`);
+      }
+
+      logger.info('Session forked', { sessionId: data.sessionId, parentSessionId: selected.sessionId, turnId: turn.id });
+      useCollaborationStore.getState().setPendingFork({
+        sessionId: data.sessionId as string,
+        prompt: prompt || selected.originalQuery,
+        forkedFrom: data.forkedFrom as ForkOrigin
+      });
+      onClose();
+    } catch (err) {
+      logger.error('Failed to fork session', err, { sessionId: selected.sessionId, turnId: turn.id });
+      setError(err instanceof Error ? err.message : 'Could not fork that session.');
+    } finally {
+      setForking(false);
+    }
+  };
+
+  const replaceTurn = (turn: SessionTurn): void => {
+    setSelected(current => current && {
+      ...current,
+      turns: current.turns.map(existing => existing.id === turn.id ? turn : existing)
+    });
+  };
+
+  const handleRegenerate = async (turn: SessionTurn): Promise<void> => {
+    if (!selected) return;
+
+    const temperature = parseFloat(regenTemperature);
+    setRegeneratingTurnId(turn.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sessions/${selected.sessionId}/turns/${turn.id}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(Number.isFinite(temperature) ? { settings: { temperature } } : {})
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? `Regenerate failed (${response.status})`);
+      }
+
+      logger.info('Turn regenerated', { sessionId: selected.sessionId, turnId: turn.id });
+      replaceTurn(data.turn as SessionTurn);
+    } catch (err) {
+      logger.error('Failed to regenerate turn', err, { sessionId: selected.sessionId, turnId: turn.id });
+      setError(err instanceof Error ? err.message : 'Could not regenerate that turn.');
+    } finally {
+      setRegeneratingTurnId(null);
+    }
+  };
+
+  const handleSelectVersion = async (turn: SessionTurn, version: number): Promise<void> => {
+    if (!selected) return;
+
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/sessions/${selected.sessionId}/turns/${turn.id}/versions/${version}/select`,
+        { method: 'POST' }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? `Version switch failed (${response.status})`);
+      }
+      replaceTurn(data.turn as SessionTurn);
+    } catch (err) {
+      logger.error('Failed to select turn version', err, { sessionId: selected.sessionId, turnId: turn.id, version });
+      setError(err instanceof Error ? err.message : 'Could not switch to that version.');
+    }
+  };
+
+  const handleOpen = async (sessionId: string): Promise<void> => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load session (${response.status})`);
+      }
+      const data = await response.json();
+      setSelected(data.session as SessionRecord);
+    } catch (err) {
+      logger.error('Failed to load session', err, { sessionId });
+      setError('Could not load that session.');
+    }
+  };
+
+  const handleDelete = async (sessionId: string): Promise<void> => {
+    if (!window.confirm('Delete this session from history?')) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to delete session (${response.status})`);
+      }
+      setSessions(current => current.filter(session => session.sessionId !== sessionId));
+      if (selected?.sessionId === sessionId) {
+        setSelected(null);
+      }
+    } catch (err) {
+      logger.error('Failed to delete session', err, { sessionId });
+      setError('Could not delete that session.');
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      <div className="flex-1 bg-black/60" onClick={onClose} />
+
+      {selected && (
+        <div className="w-[55vw] h-full overflow-y-auto bg-synergy-darker border-l border-synergy-primary/20 p-6">
+          <div className="flex justify-between items-start mb-4 gap-4">
+            <div>
+              <h2 className="text-xl font-tech text-synergy-primary">{selected.originalQuery}</h2>
+              <p className="text-sm text-synergy-muted mt-1">
+                {selected.participants.join(' ⚡ ')}
+                {selected.workflow && ` · ${selected.workflow.name}`}
+                {` · ${formatTimestamp(selected.completedAt)}`}
+              </p>
+              <div className="flex gap-3 mt-2 text-sm">
+                <span className="text-synergy-muted">Export:</span>
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <a
+                    key={format}
+                    href={`/api/sessions/${selected.sessionId}/export?format=${format}`}
+                    download
+                    className="text-synergy-accent hover:text-synergy-primary transition-colors"
+                  >
+                    {label}
+                  </a>
+                ))}
+              </div>
+            </div>
+            <button
+              onClick={() => setSelected(null)}
+              className="text-sm text-synergy-muted hover:text-synergy-primary transition-colors"
+            >
+              Close
+            </button>
+          </div>
+
+          {selected.error && (
+            <div className="mb-4 p-3 bg-red-900/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+              {selected.error}
+            </div>
+          )}
+
+          {forkTree && (forkTree.children.length > 0 || selected.forkedFrom) && (
+            <section className="mb-6">
+              <h3 className="phase-header text-synergy-accent mb-2">Fork Tree</h3>
+              <ul className="space-y-1">
+                <ForkTree node={forkTree} currentSessionId={selected.sessionId} onOpen={(id) => void handleOpen(id)} />
+              </ul>
+            </section>
+          )}
+
+          {selected.finalSynthesis && (
+            <section className="mb-6">
+              <h3 className="phase-header text-synergy-accent mb-2">Final Synthesis</h3>
+              <SynthesisMathRenderer content={selected.finalSynthesis} />
+            </section>
+          )}
+
+          <section className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="phase-header text-synergy-accent">Conversation</h3>
+              <label className="text-xs text-synergy-muted">
+                Regenerate temperature{' '}
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={regenTemperature}
+                  onChange={(e) => setRegenTemperature(e.target.value)}
+                  placeholder="model default"
+                  className="w-28 bg-synergy-dark border border-synergy-primary/20 rounded px-2 py-1 text-synergy-text"
+                />
+              </label>
+            </div>
+            {selected.turns.map(turn => (
+              <div key={turn.id} className="model-panel p-4">
+                <div className="flex justify-between items-center text-xs text-synergy-muted mb-2">
+                  <span>{turn.modelId} · {turn.phase} · turn {turn.turnNumber}</span>
+                  <div className="flex gap-3">
+                    {isRegenerable(turn, selected.participants) && (
+                      <button
+                        onClick={() => void handleRegenerate(turn)}
+                        disabled={isStreaming || regeneratingTurnId !== null}
+                        title={isStreaming ? 'Wait for the running collaboration to finish' : 'Generate this turn again from the same context'}
+                        className="text-synergy-accent hover:text-synergy-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {regeneratingTurnId === turn.id ? 'Regenerating...' : 'Regenerate'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => openForkForm(turn)}
+                      disabled={isStreaming}
+                      title={isStreaming ? 'Wait for the running collaboration to finish' : 'Continue from this turn in a new session'}
+                      className="text-synergy-accent hover:text-synergy-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Fork from here
+                    </button>
+                  </div>
+                </div>
+                {turn.versions && turn.versions.length > 1 && (
+                  <div className="flex items-center gap-2 text-xs text-synergy-muted mb-2">
+                    <span>Version:</span>
+                    {turn.versions.map((version, index) => (
+                      <button
+                        key={version.timestamp}
+                        onClick={() => void handleSelectVersion(turn, index)}
+                        disabled={index === turn.selectedVersion || isStreaming || regeneratingTurnId !== null}
+                        title={version.settings?.temperature !== undefined ? `temperature ${version.settings.temperature}` : undefined}
+                        className={`px-2 rounded border transition-colors ${
+                          index === turn.selectedVersion
+                            ? 'border-synergy-primary text-synergy-primary'
+                            : 'border-synergy-primary/20 hover:text-synergy-primary'
+                        }`}
+                      >
+                        {index + 1}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <MathAwareRenderer content={turn.content} phase={turn.phase} modelId={turn.modelId} />
+                {forkTurnId === turn.id && (
+                  <div className="mt-3 p-3 rounded border border-synergy-primary/30 space-y-2">
+                    <textarea
+                      value={forkPrompt}
+                      onChange={(e) => setForkPrompt(e.target.value)}
+                      rows={3}
+                      className="synergy-input resize-y w-full text-sm"
+                    />
+                    <div className="flex items-center gap-3 text-sm">
+                      <label className="text-synergy-muted">
+                        Resume in{' '}
+                        <select
+                          value={forkPhase}
+                          onChange={(e) => setForkPhase(e.target.value)}
+                          className="bg-synergy-dark border border-synergy-primary/20 rounded px-2 py-1 text-synergy-text"
+                        >
+                          <option value="">{turn.phase} (this turn&apos;s phase)</option>
+                          {[...new Set(selected.turns.map(t => t.phase))]
+                            .filter(phase => phase !== turn.phase)
+                            .map(phase => <option key={phase} value={phase}>{phase}</option>)}
+                        </select>
+                      </label>
+                      <button
+                        onClick={() => void handleFork(turn)}
+                        disabled={forking || !forkPrompt.trim()}
+                        className="synergy-button disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {forking ? 'Forking...' : 'Start Fork'}
+                      </button>
+                      <button
+                        onClick={() => setForkTurnId(null)}
+                        className="text-synergy-muted hover:text-synergy-primary transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+
+          {selected.agreementAnalyses.length > 0 && (
+            <section className="mt-6">
+              <h3 className="phase-header text-synergy-accent mb-2">Agreement Analyses</h3>
+              <ul className="text-sm text-synergy-muted space-y-1">
+                {selected.agreementAnalyses.map((record, index) => (
+                  <li key={index}>
+                    {record.phase} · {formatTimestamp(record.timestamp)}
+                    {typeof record.analysis.agreementLevel === 'string' && ` · ${record.analysis.agreementLevel}`}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      )}
+
+      <aside className="w-96 h-full overflow-y-auto bg-synergy-dark border-l border-synergy-primary/20 p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-tech text-synergy-primary">Session History</h2>
+          <button
+            onClick={onClose}
+            className="text-sm text-synergy-muted hover:text-synergy-primary transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+        {loading && <p className="text-sm text-synergy-muted">Loading...</p>}
+        {!loading && sessions.length === 0 && (
+          <p className="text-sm text-synergy-muted">No archived sessions yet.</p>
+        )}
+
+        <ul className="space-y-2">
+          {sessions.map(session => (
+            <li
+              key={session.sessionId}
+              className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                selected?.sessionId === session.sessionId
+                  ? 'border-synergy-primary bg-synergy-primary/10'
+                  : 'border-synergy-primary/20 hover:border-synergy-primary/50'
+              }`}
+              onClick={() => void handleOpen(session.sessionId)}
+            >
+              <p className="text-sm text-synergy-text line-clamp-2">{session.originalQuery}</p>
+              <div className="flex justify-between items-center mt-2 text-xs text-synergy-muted">
+                <span>
+                  {formatTimestamp(session.completedAt)} · {session.turnCount} turns
+                  {session.status === 'error' && <span className="text-red-400"> · failed</span>}
+                  {session.status === 'cancelled' && <span className="text-synergy-muted"> · cancelled</span>}
+                  {session.forkedFrom && <span> · fork</span>}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void handleDelete(session.sessionId);
+                  }}
+                  className="hover:text-red-400 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+}
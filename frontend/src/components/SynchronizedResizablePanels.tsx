@@ -1,34 +1,26 @@
 import { useState, useRef, useCallback, ReactNode } from 'react';
 
+export interface PanelConfig {
+  key: string;
+  title: string;
+  content: ReactNode;
+  onCopy: () => void;
+  onFocus?: () => void;
+  onResizeStart?: () => void;
+  onResizeEnd?: () => void;
+  onScroll?: React.UIEventHandler<HTMLDivElement>;
+  scrollRef?: React.RefObject<HTMLDivElement>;
+}
+
 interface SynchronizedResizablePanelsProps {
-  leftPanel: {
-    title: string;
-    content: ReactNode;
-    onCopy: () => void;
-    onFocus?: () => void;
-    onResizeStart?: () => void;
-    onResizeEnd?: () => void;
-    onScroll?: React.UIEventHandler<HTMLDivElement>;
-    scrollRef?: React.RefObject<HTMLDivElement>;
-  };
-  rightPanel: {
-    title: string;
-    content: ReactNode;
-    onCopy: () => void;
-    onFocus?: () => void;
-    onResizeStart?: () => void;
-    onResizeEnd?: () => void;
-    onScroll?: React.UIEventHandler<HTMLDivElement>;
-    scrollRef?: React.RefObject<HTMLDivElement>;
-  };
+  panels: PanelConfig[];
   minHeight?: number;
   maxHeight?: number;
   defaultHeight?: number;
 }
 
 export function SynchronizedResizablePanels({
-  leftPanel,
-  rightPanel,
+  panels,
   minHeight = 200,
   maxHeight = 600,
   defaultHeight = 300
@@ -60,8 +52,7 @@ export function SynchronizedResizablePanels({
     startHeightRef.current = height;
 
     // Notify stream managers that resize is starting
-    leftPanel.onResizeStart?.();
-    rightPanel.onResizeStart?.();
+    panels.forEach(panel => panel.onResizeStart?.());
 
     // Add event listeners to document for smooth dragging
     const handleMouseMove = (e: MouseEvent): void => {
@@ -81,13 +72,12 @@ export function SynchronizedResizablePanels({
       document.removeEventListener('mouseup', handleMouseUp);
       
       // Notify stream managers that resize has ended
-      leftPanel.onResizeEnd?.();
-      rightPanel.onResizeEnd?.();
+      panels.forEach(panel => panel.onResizeEnd?.());
     };
 
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
-  }, [height, minHeight, maxHeight, leftPanel, rightPanel, isMaximized]);
+  }, [height, minHeight, maxHeight, panels, isMaximized]);
 
   const resizeHandleClass = `
     absolute bottom-0 left-0 right-0 h-4 cursor-ns-resize
@@ -100,79 +90,51 @@ export function SynchronizedResizablePanels({
     }
   `;
 
+  // Tailwind needs literal class names, so map panel counts explicitly
+  const gridColumnsClass = panels.length >= 4
+    ? 'grid-cols-1 md:grid-cols-2 xl:grid-cols-4'
+    : panels.length === 3
+      ? 'grid-cols-1 lg:grid-cols-3'
+      : 'grid-cols-2';
+
   return (
-    <div className="grid grid-cols-2 gap-4">
-      {/* Left Model Panel */}
-      <div className="model-panel relative">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-synergy-primary font-tech">{leftPanel.title}</h3>
-          <button
-            onClick={leftPanel.onCopy}
-            className="text-synergy-accent hover:text-synergy-primary transition-colors p-2"
-            title="Copy to clipboard"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-            </svg>
-          </button>
-        </div>
-        <div className="relative">
-          <div 
-            ref={leftPanel.scrollRef}
-            style={{ height: `${height}px` }}
-            className="overflow-y-auto overflow-x-hidden bg-synergy-darker rounded"
-            onClick={leftPanel.onFocus}
-            onFocus={leftPanel.onFocus}
-            onScroll={leftPanel.onScroll}
-            tabIndex={0}
-          >
-            <div className="h-full">
-              {leftPanel.content}
-            </div>
-          </div>
-          
-          {/* Resize Handle */}
-          <div className={resizeHandleClass} onMouseDown={handleMouseDown} onDoubleClick={handleDoubleClick}>
-            <div className="w-20 h-1.5 bg-synergy-primary/80 rounded-full shadow-sm" />
+    <div className={`grid ${gridColumnsClass} gap-4`}>
+      {panels.map(panel => (
+        <div key={panel.key} className="model-panel relative">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-synergy-primary font-tech">{panel.title}</h3>
+            <button
+              onClick={panel.onCopy}
+              className="text-synergy-accent hover:text-synergy-primary transition-colors p-2"
+              title="Copy to clipboard"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+            </button>
           </div>
-        </div>
-      </div>
-
-      {/* Right Model Panel */}
-      <div className="model-panel relative">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-synergy-primary font-tech">{rightPanel.title}</h3>
-          <button
-            onClick={rightPanel.onCopy}
-            className="text-synergy-accent hover:text-synergy-primary transition-colors p-2"
-            title="Copy to clipboard"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-            </svg>
-          </button>
-        </div>
-        <div className="relative">
-          <div 
-            ref={rightPanel.scrollRef}
-            style={{ height: `${height}px` }}
-            className="overflow-y-auto overflow-x-hidden bg-synergy-darker rounded"
-            onClick={rightPanel.onFocus}
-            onFocus={rightPanel.onFocus}
-            onScroll={rightPanel.onScroll}
-            tabIndex={0}
-          >
-            <div className="h-full">
-              {rightPanel.content}
+          <div className="relative">
+            <div 
+              ref={panel.scrollRef}
+              style={{ height: `${height}px` }}
+              className="overflow-y-auto overflow-x-hidden bg-synergy-darker rounded"
+              onClick={panel.onFocus}
+              onFocus={panel.onFocus}
+              onScroll={panel.onScroll}
+              tabIndex={0}
+            >
+              <div className="h-full">
+                {panel.content}
+              </div>
+            </div>
+            
+            {/* Resize Handle */}
+            <div className={resizeHandleClass} onMouseDown={handleMouseDown} onDoubleClick={handleDoubleClick}>
+              <div className="w-20 h-1.5 bg-synergy-primary/80 rounded-full shadow-sm" />
             </div>
-          </div>
-          
-          {/* Resize Handle */}
-          <div className={resizeHandleClass} onMouseDown={handleMouseDown} onDoubleClick={handleDoubleClick}>
-            <div className="w-20 h-1.5 bg-synergy-primary/80 rounded-full shadow-sm" />
           </div>
         </div>
-      </div>
+      ))}
     </div>
   );
 }
\ No newline at end of file
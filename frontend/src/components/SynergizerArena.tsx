@@ -1,4 +1,4 @@
-import { useRef, useState, useCallback, useEffect } from 'react';
+import { useRef, useState, useCallback, useEffect, createRef } from 'react';
 
 import { useCollaborationStore } from '@/store/collaborationStore';
 import { useStreamManager } from '@/hooks/useStreamManager';
@@ -31,14 +31,16 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
     selectedModels,
     models, 
     isStreaming, 
+    isPaused,
+    sessionId: activeSessionId,
+    pendingFork,
     setPrompt, 
     setStreaming,
     setSessionId, 
   } = useCollaborationStore();
 
-  // Container refs for panels
-  const leftPanelScrollRef = useRef<HTMLDivElement>(null);
-  const rightPanelScrollRef = useRef<HTMLDivElement>(null);
+  // Container refs for panels, one per participating model
+  const panelScrollRefs = useRef<Map<string, React.RefObject<HTMLDivElement>>>(new Map());
   const synthesisRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -50,9 +52,12 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
   const [promptInput, setPromptInput] = useState('');
   const [hasScrolledToSynthesis, setHasScrolledToSynthesis] = useState(false);
   const [isSynthesisActive, setIsSynthesisActive] = useState(false);
-  const [userQueries, setUserQueries] = useState<Array<{ id: string; query: string; timestamp: Date }>>([]);
-  const [leftPanelAutoScroll, setLeftPanelAutoScroll] = useState(true);
-  const [rightPanelAutoScroll, setRightPanelAutoScroll] = useState(true);
+  const [userQueries, setUserQueries] = useState<Array<{ id: string; query: string; timestamp: Date; isInterjection?: boolean; isFollowUp?: boolean; forkedFromTurn?: number }>>([]);
+  // A completed session can be continued with a follow-up question
+  const [canFollowUp, setCanFollowUp] = useState(false);
+  const [followUpMode, setFollowUpMode] = useState(true);
+  // Autoscroll per model panel - missing entries default to engaged
+  const [panelAutoScroll, setPanelAutoScroll] = useState<Record<string, boolean>>({});
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const beforeUnloadHandlerRef = useRef<((e: BeforeUnloadEvent) => string) | null>(null);
 
@@ -150,8 +155,17 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
     }
   }, [hasScrolledToSynthesis, isSynthesisActive]);
 
+  const getPanelScrollRef = useCallback((modelId: string): React.RefObject<HTMLDivElement> => {
+    let ref = panelScrollRefs.current.get(modelId);
+    if (!ref) {
+      ref = createRef<HTMLDivElement>();
+      panelScrollRefs.current.set(modelId, ref);
+    }
+    return ref;
+  }, []);
+
   // Handle manual scroll to detect when user wants to disengage autoscroll
-  const handlePanelScroll = useCallback((panelType: 'left' | 'right'): React.UIEventHandler<HTMLDivElement> => {
+  const handlePanelScroll = useCallback((modelId: string): React.UIEventHandler<HTMLDivElement> => {
     return (event: React.UIEvent<HTMLDivElement>): void => {
       const container = event.currentTarget;
       const scrollHeight = container.scrollHeight;
@@ -159,33 +173,25 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
       const clientHeight = container.clientHeight;
       const isAtBottom = Math.abs(scrollHeight - scrollTop - clientHeight) < 5;
       
-      logger.info(`🔵 SCROLL EVENT ${panelType}`, {
+      logger.info(`🔵 SCROLL EVENT ${modelId}`, {
         scrollHeight,
         scrollTop,
         clientHeight,
         isAtBottom,
-        currentAutoScroll: panelType === 'left' ? leftPanelAutoScroll : rightPanelAutoScroll
+        currentAutoScroll: panelAutoScroll[modelId] ?? true
       });
       
       // If user scrolled up (not at bottom), disengage autoscroll
       if (!isAtBottom) {
-        logger.info(`🔴 DISENGAGING AUTOSCROLL ${panelType}`);
-        if (panelType === 'left') {
-          setLeftPanelAutoScroll(false);
-        } else {
-          setRightPanelAutoScroll(false);
-        }
+        logger.info(`🔴 DISENGAGING AUTOSCROLL ${modelId}`);
+        setPanelAutoScroll(prev => ({ ...prev, [modelId]: false }));
       } else {
         // Re-engage autoscroll when manually scrolled to bottom
-        logger.info(`🟢 RE-ENGAGING AUTOSCROLL ${panelType}`);
-        if (panelType === 'left') {
-          setLeftPanelAutoScroll(true);
-        } else {
-          setRightPanelAutoScroll(true);
-        }
+        logger.info(`🟢 RE-ENGAGING AUTOSCROLL ${modelId}`);
+        setPanelAutoScroll(prev => ({ ...prev, [modelId]: true }));
       }
     };
-  }, [leftPanelAutoScroll, rightPanelAutoScroll]);
+  }, [panelAutoScroll]);
 
   // Simple token processing - just updates state and scrolls after DOM update
   const processTokens = useCallback((chunk: TokenChunk): void => {
@@ -201,25 +207,29 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
     // Double RAF to ensure React has completed render cycle
     requestAnimationFrame(() => {
       requestAnimationFrame(() => {
-        if (chunk.modelId === selectedModels?.[0] && leftPanelScrollRef.current && leftPanelAutoScroll) {
-          // Scroll the container directly
-          leftPanelScrollRef.current.scrollTop = leftPanelScrollRef.current.scrollHeight;
-        } else if (chunk.modelId === selectedModels?.[1] && rightPanelScrollRef.current && rightPanelAutoScroll) {
+        if (!selectedModels?.includes(chunk.modelId) || !(panelAutoScroll[chunk.modelId] ?? true)) return;
+        
+        const container = panelScrollRefs.current.get(chunk.modelId)?.current;
+        if (container) {
           // Scroll the container directly
-          rightPanelScrollRef.current.scrollTop = rightPanelScrollRef.current.scrollHeight;
+          container.scrollTop = container.scrollHeight;
         }
       });
     });
-  }, [streamManager, selectedModels, leftPanelAutoScroll, rightPanelAutoScroll]);
+  }, [streamManager, selectedModels, panelAutoScroll]);
 
   const handleSSEMessage = useCallback((message: SSEMessage) => {
-    // Remove beforeunload warning when collaboration completes
-    if (message.type === SSEMessageType.COLLABORATION_COMPLETE) {
+    // Remove beforeunload warning when collaboration completes or is cancelled
+    if (message.type === SSEMessageType.COLLABORATION_COMPLETE ||
+        (message.type === SSEMessageType.SESSION_STATUS && message.payload.status === 'cancelled')) {
       if (beforeUnloadHandlerRef.current) {
         window.removeEventListener('beforeunload', beforeUnloadHandlerRef.current);
         beforeUnloadHandlerRef.current = null;
       }
     }
+    if (message.type === SSEMessageType.COLLABORATION_COMPLETE) {
+      setCanFollowUp(true);
+    }
     
     if (message.type === SSEMessageType.TOKEN_CHUNK && isTokenChunk(message.payload)) {
       const chunk = message.payload;
@@ -240,6 +250,44 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
     }
   }, [processTokens, hasScrolledToSynthesis, isSynthesisActive, scrollToSynthesis]);
 
+  // Reattach to a collaboration left paused (or still running) by a closed tab
+  useEffect(() => {
+    const rememberedSessionId = SSEService.getRememberedSessionId();
+    if (!rememberedSessionId) return;
+
+    logger.info('Reattaching to remembered session', { sessionId: rememberedSessionId });
+    setSessionId(rememberedSessionId);
+    setStreaming(true);
+    sseService.enableUserInitiatedConnection();
+    sseService.connect(rememberedSessionId, handleSSEMessage, '0');
+  }, []); // Only on first mount - later sessions are started from the prompt
+
+
+  // Stream a fork created from the session history; the copied turns stay in its parent's transcript
+  useEffect(() => {
+    if (!pendingFork || isStreaming) return;
+
+    logger.info('Starting fork', { sessionId: pendingFork.sessionId, forkedFrom: pendingFork.forkedFrom });
+    useCollaborationStore.getState().setPendingFork(null);
+    warnBeforeUnload();
+    streamManager.clear();
+    setCanFollowUp(false);
+    setHasScrolledToSynthesis(false);
+    setIsSynthesisActive(false);
+    setUserQueries([{
+      id: crypto.randomUUID(),
+      query: pendingFork.prompt,
+      timestamp: new Date(),
+      forkedFromTurn: pendingFork.forkedFrom.turnNumber
+    }]);
+
+    setPrompt(pendingFork.prompt);
+    setSessionId(pendingFork.sessionId);
+    setStreaming(true);
+    sseService.enableUserInitiatedConnection();
+    sseService.connect(pendingFork.sessionId, handleSSEMessage);
+  }, [pendingFork]); // Runs once per fork - the handlers read current state when called
+
 
   // Updated copy function to work with streamContents
   const handleCopyContent = async (modelId: string, panelName: string): Promise<void> => {
@@ -299,26 +347,68 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault(); // Prevent new line
       
-      // Only submit if not streaming and prompt is not empty
-      if (!isStreaming && promptInput.trim()) {
-        handleSubmit();
+      // Submit a new collaboration, or steer the running one
+      if (promptInput.trim()) {
+        if (isStreaming) {
+          void handleInterject();
+        } else {
+          handleSubmit();
+        }
       }
     }
     // Shift+Enter will naturally create a new line
   };
 
-  const handleSubmit = async (): Promise<void> => {
-    logger.info('Submit button clicked');
-    logger.debug('Selected models', { selectedModels });
-    logger.debug('Prompt input', { promptInput });
-    
-    if (!selectedModels || selectedModels.length < 2 || !promptInput.trim()) {
-      logger.error('Validation failed - models or prompt missing');
-      return;
+  const handleInterject = async (): Promise<void> => {
+    const message = promptInput.trim();
+    if (!activeSessionId || !message) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${activeSessionId}/interject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message }),
+      });
+      if (!response.ok) {
+        throw new Error(`Interjection rejected (${response.status})`);
+      }
+
+      setUserQueries(prev => [...prev, {
+        id: crypto.randomUUID(),
+        query: message,
+        timestamp: new Date(),
+        isInterjection: true
+      }]);
+      setPromptInput('');
+      logger.info('Interjection sent', { sessionId: activeSessionId });
+    } catch (error) {
+      logger.error('Failed to send interjection:', error);
+      useCollaborationStore.getState().setError('Could not send your message to the running collaboration');
+    }
+  };
+
+  const handleRunControl = async (action: 'pause' | 'resume' | 'cancel'): Promise<void> => {
+    if (!activeSessionId) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${activeSessionId}/${action}`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`${action} rejected (${response.status})`);
+      }
+      logger.info(`Collaboration ${action} requested`, { sessionId: activeSessionId });
+    } catch (error) {
+      logger.error(`Failed to ${action} collaboration:`, error);
+      useCollaborationStore.getState().setError(`Could not ${action} the running collaboration`);
     }
+  };
 
-    // Warn user about not refreshing during generation
+  // Warn user about not refreshing during generation (a paused collaboration survives it)
+  const warnBeforeUnload = (): void => {
+    if (beforeUnloadHandlerRef.current) {
+      window.removeEventListener('beforeunload', beforeUnloadHandlerRef.current);
+    }
     beforeUnloadHandlerRef.current = (e: BeforeUnloadEvent): string => {
+      if (useCollaborationStore.getState().isPaused) return '';
       const message = 'AI models are still generating. Are you sure you want to leave?';
       e.preventDefault();
       e.returnValue = message;
@@ -326,11 +416,30 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
     };
     
     window.addEventListener('beforeunload', beforeUnloadHandlerRef.current);
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    logger.info('Submit button clicked');
+    logger.debug('Selected models', { selectedModels });
+    logger.debug('Prompt input', { promptInput });
+    
+    if (!selectedModels || selectedModels.length < 2 || !promptInput.trim()) {
+      logger.error('Validation failed - models or prompt missing');
+      return;
+    }
+
+    // Continue the finished conversation instead of starting from zero
+    const followUpSessionId = canFollowUp && followUpMode ? activeSessionId : null;
+
+    warnBeforeUnload();
 
     try {
-      logger.debug('Clearing previous content');
-      // Clear previous content
-      streamManager.clear();
+      // A follow-up keeps the earlier answers on screen; new responses are appended below them
+      if (!followUpSessionId) {
+        logger.debug('Clearing previous content');
+        streamManager.clear();
+      }
+      setCanFollowUp(false);
 
       // Reset scroll flags for new collaboration
       setHasScrolledToSynthesis(false);
@@ -350,29 +459,40 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
       const newQuery = {
         id: crypto.randomUUID(),
         query: promptInput,
-        timestamp: new Date()
+        timestamp: new Date(),
+        isFollowUp: followUpSessionId !== null
       };
       setUserQueries(prev => [...prev, newQuery]);
       
       // Clear the input
       setPromptInput('');
 
-      const sessionId = crypto.randomUUID();
-      const requestBody = {
-        prompt: promptInput,
-        models: selectedModels,
-        sessionId: sessionId,
-        createdAt: new Date().toISOString(), // Add timestamp for session validation
-      };
-      
-      logger.info('Initiating collaboration with:', requestBody);
+      let response: Response;
+      if (followUpSessionId) {
+        logger.info('Asking follow-up question', { sessionId: followUpSessionId });
+        response = await fetch(`/api/sessions/${followUpSessionId}/follow-up`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt: promptInput, createdAt: new Date().toISOString() }),
+        });
+      } else {
+        const sessionId = crypto.randomUUID();
+        const requestBody = {
+          prompt: promptInput,
+          models: selectedModels,
+          sessionId: sessionId,
+          createdAt: new Date().toISOString(), // Add timestamp for session validation
+        };
+        
+        logger.info('Initiating collaboration with:', requestBody);
 
-      // Initiate collaboration
-      const response = await fetch('/api/synergize/initiate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-      });
+        // Initiate collaboration
+        response = await fetch('/api/synergize/initiate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestBody),
+        });
+      }
 
       logger.debug('Response status', { status: response.status });
       logger.debug('Response headers', { headers: Array.from(response.headers.entries()) });
@@ -388,6 +508,8 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
         sseService.connect(data.sessionId, handleSSEMessage);
       } else {
         logger.error('No sessionId in response');
+        useCollaborationStore.getState().setError(data.error ?? 'Failed to start collaboration');
+        setStreaming(false);
       }
     } catch (error) {
       logger.error('Failed to start collaboration:', error);
@@ -396,6 +518,8 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
     }
   };
 
+  const curatorEntries = Array.from(streamContents.entries()).filter(([key]) => key.endsWith('-curator'));
+
   return (
     <div className="flex flex-col h-full">
       {/* Scrollable content area */}
@@ -407,7 +531,13 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
               {userQueries.map((query) => (
                 <div key={query.id} className="model-panel relative">
                   <div className="flex justify-between items-center mb-2">
-                    <h3 className="text-synergy-accent font-tech text-sm uppercase">User Query</h3>
+                    <h3 className="text-synergy-accent font-tech text-sm uppercase">
+                      {query.isInterjection
+                        ? 'User Interjection'
+                        : query.isFollowUp
+                          ? 'Follow-up Question'
+                          : query.forkedFromTurn !== undefined ? `Fork from Turn ${query.forkedFromTurn}` : 'User Query'}
+                    </h3>
                     <span className="text-synergy-muted text-xs">
                       {query.timestamp.toLocaleTimeString()}
                     </span>
@@ -426,66 +556,21 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
 
           {/* Model Response Panels */}
           <SynchronizedResizablePanels
-        leftPanel={{
-          title: models.find(m => m.id === selectedModels?.[0])?.name || selectedModels?.[0] || 'Model 1',
-          content: (
-            <div className="h-full">
-              <div className="p-4 pb-8">
-                {((): JSX.Element[] => {
-                  const entries = Array.from(streamContents.entries());
-                  const filtered = entries.filter(([key]) => selectedModels && key.endsWith(`-${selectedModels[0]}`));
-                  
-                  logger.info('LEFT PANEL RENDER', {
-                    totalEntries: entries.length,
-                    filteredEntries: filtered.length,
-                    keys: entries.map(([k]) => k),
-                    selectedModel: selectedModels?.[0]
-                  });
-                  
-                  return filtered.map(([key, content]): JSX.Element => (
-                    <MathAwareRenderer
-                      key={key}
-                      content={content.content}
-                      phase={content.phase}
-                      modelId={content.modelId}
-                      className="mb-4"
-                    />
-                  ));
-                })()}
-              </div>
-            </div>
-          ),
-          onCopy: () => handleCopyContent(selectedModels?.[0] || '', 'Left Panel'),
-          onScroll: handlePanelScroll('left'),
-          scrollRef: leftPanelScrollRef,
-        }}
-        rightPanel={{
-          title: models.find(m => m.id === selectedModels?.[1])?.name || selectedModels?.[1] || 'Model 2',
+        panels={(selectedModels || []).map((modelId, index) => ({
+          key: modelId,
+          title: models.find(m => m.id === modelId)?.name || modelId || `Model ${index + 1}`,
           content: (
             <div className="h-full">
               <div className="p-4 pb-8">
                 {((): JSX.Element[] => {
                   const entries = Array.from(streamContents.entries());
-                  const filtered = entries.filter(([key]) => selectedModels && key.endsWith(`-${selectedModels[1]}`));
+                  const filtered = entries.filter(([key]) => key.endsWith(`-${modelId}`));
                   
-                  logger.error('🟡 RIGHT PANEL RENDER', {
+                  logger.debug('PANEL RENDER', {
                     totalEntries: entries.length,
                     filteredEntries: filtered.length,
                     keys: entries.map(([k]) => k),
-                    selectedModel: selectedModels?.[1],
-                    contentLengths: filtered.map(([k, c]) => ({ 
-                      key: k, 
-                      len: c.content.length,
-                      first20: c.content.substring(0, 20),
-                      last20: c.content.slice(-20)
-                    }))
-                  });
-                  
-                  // Check if content is actually there
-                  filtered.forEach(([key, content]): void => {
-                    if (!content.content) {
-                      logger.error('🔴 EMPTY CONTENT IN RENDER', { key });
-                    }
+                    selectedModel: modelId
                   });
                   
                   return filtered.map(([key, content]): JSX.Element => (
@@ -501,12 +586,41 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
               </div>
             </div>
           ),
-          onCopy: () => handleCopyContent(selectedModels?.[1] || '', 'Right Panel'),
-          onScroll: handlePanelScroll('right'),
-          scrollRef: rightPanelScrollRef,
-        }}
+          onCopy: () => handleCopyContent(modelId, `Model ${index + 1} Panel`),
+          onScroll: handlePanelScroll(modelId),
+          scrollRef: getPanelScrollRef(modelId),
+        }))}
       />
 
+        {/* Curator Panel - Only show once a curator has streamed between turns */}
+        {curatorEntries.length > 0 && (
+          <div className="model-panel relative">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-synergy-accent font-tech">Curator</h3>
+              <button
+                onClick={() => void handleCopyContent('curator', 'Curator')}
+                className="text-synergy-accent hover:text-synergy-primary transition-colors p-2"
+                title="Copy to clipboard"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+              </button>
+            </div>
+            <div className="max-h-[300px] p-4 bg-synergy-darker rounded overflow-y-auto">
+              {curatorEntries.map(([key, content]) => (
+                <MathAwareRenderer
+                  key={key}
+                  content={content.content}
+                  phase={content.phase}
+                  modelId={content.modelId}
+                  className="mb-4"
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Synthesis Panel - Only show when synthesis is active */}
         {isSynthesisActive && (
           <div className="model-panel relative">
@@ -550,14 +664,15 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
               value={promptInput}
               onChange={(e) => setPromptInput(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Enter your prompt here... (Press Enter to submit, Shift+Enter for new line)"
+              placeholder={isStreaming
+                ? 'Steer the models... (Press Enter to send, it is added before the next model turn)'
+                : 'Enter your prompt here... (Press Enter to submit, Shift+Enter for new line)'}
               className="synergy-input resize-none overflow-y-auto transition-height duration-150 w-full"
               style={{
                 minHeight: '80px',
                 maxHeight: '200px',
                 lineHeight: '1.5rem'
               }}
-              disabled={isStreaming}
             />
             {/* Copy button */}
             {promptInput.trim() && (
@@ -576,17 +691,53 @@ export function SynergizerArena({ sseService }: Props): JSX.Element {
               {promptInput.length > 0 && `${promptInput.split('\n').length} line${promptInput.split('\n').length !== 1 ? 's' : ''}`}
             </div>
           </div>
-          {!isStreaming && (
-            <div className="flex justify-center">
-              <button
-                onClick={handleSubmit}
-                disabled={!promptInput.trim()}
-                className="synergy-button disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Initiate Collaboration
-              </button>
-            </div>
-          )}
+          <div className="flex justify-center gap-3">
+            {isStreaming ? (
+              <>
+                <button
+                  onClick={() => void handleInterject()}
+                  disabled={!promptInput.trim() || !activeSessionId}
+                  className="synergy-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Interject
+                </button>
+                <button
+                  onClick={() => void handleRunControl(isPaused ? 'resume' : 'pause')}
+                  disabled={!activeSessionId}
+                  className="synergy-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={() => void handleRunControl('cancel')}
+                  disabled={!activeSessionId}
+                  className="synergy-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                {canFollowUp && (
+                  <label className="flex items-center gap-2 text-sm text-synergy-muted cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={followUpMode}
+                      onChange={(e) => setFollowUpMode(e.target.checked)}
+                    />
+                    Follow up on this conversation
+                  </label>
+                )}
+                <button
+                  onClick={handleSubmit}
+                  disabled={!promptInput.trim()}
+                  className="synergy-button disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {canFollowUp && followUpMode ? 'Ask Follow-up' : 'Initiate Collaboration'}
+                </button>
+              </>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -4,9 +4,22 @@ import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('SSEService');
 
+// Manual resume attempts after the browser gives up; the server keeps the
+// collaboration running for a grace period, so a handful of retries suffices
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 3000;
+
+// The running session is kept in the page URL (browser storage is wiped on load)
+// so a reopened tab can reattach to a paused or still running collaboration
+const SESSION_URL_PARAM = 'session';
+
 export class SSEService {
   private eventSource: EventSource | null = null;
   private userInitiated: boolean = false;
+  private sessionId: string | null = null;
+  private lastEventId: string | null = null;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Enable user-initiated connections (must be called before connect)
@@ -16,7 +29,11 @@ export class SSEService {
     logger.info('SSE connections enabled for user-initiated actions');
   }
 
-  connect(sessionId: string, onMessage: (message: SSEMessage) => void): void {
+  /**
+   * Pass resumeFromEventId ('0' replays everything) to reattach to a collaboration
+   * started by an earlier page
+   */
+  connect(sessionId: string, onMessage: (message: SSEMessage) => void, resumeFromEventId: string | null = null): void {
     // Prevent any connections unless explicitly enabled by user action
     if (!this.userInitiated) {
       logger.warn('SSE connection blocked - not user initiated', {
@@ -27,33 +44,60 @@ export class SSEService {
     }
 
     if (this.eventSource) {
-      this.disconnect();
+      this.closeEventSource();
     }
 
-    const url = `/api/synergize/stream/${sessionId}`;
+    this.sessionId = sessionId;
+    this.lastEventId = resumeFromEventId;
+    this.reconnectAttempts = 0;
+    this.rememberSession(sessionId);
+    this.open(sessionId, onMessage);
+  }
+
+  /**
+   * Session id left in the URL by a previous page, if any
+   */
+  static getRememberedSessionId(): string | null {
+    return new URLSearchParams(window.location.search).get(SESSION_URL_PARAM);
+  }
+
+  private open(sessionId: string, onMessage: (message: SSEMessage) => void): void {
+    // Resume after the last delivered event when reconnecting manually
+    const url = this.lastEventId
+      ? `/api/synergize/stream/${sessionId}?lastEventId=${encodeURIComponent(this.lastEventId)}`
+      : `/api/synergize/stream/${sessionId}`;
     const connectionStartTime = Date.now();
     
     logger.info('SSE connection initiated by user action', {
       sessionId,
-      url
+      url,
+      reconnectAttempt: this.reconnectAttempts
     });
     
-    this.eventSource = new EventSource(url);
+    const eventSource = new EventSource(url);
+    this.eventSource = eventSource;
 
-    this.eventSource.onopen = (): void => {
+    eventSource.onopen = (): void => {
       const connectionTime = Date.now() - connectionStartTime;
       logger.info('SSE connection established', {
         sessionId,
-        connectionTimeMs: connectionTime
+        connectionTimeMs: connectionTime,
+        resumedFromEventId: this.lastEventId
       });
+      this.reconnectAttempts = 0;
       useCollaborationStore.getState().setConnected(true);
     };
 
-    this.eventSource.onmessage = (event): void => {
+    eventSource.onmessage = (event): void => {
+      if (event.lastEventId) {
+        this.lastEventId = event.lastEventId;
+      }
+
       try {
         const message: SSEMessage = JSON.parse(event.data);
         logger.debug('Message received', {
           type: message.type,
+          eventId: event.lastEventId,
           payloadSize: JSON.stringify(message.payload).length,
           hasTokens: message.type === SSEMessageType.TOKEN_CHUNK
         });
@@ -67,25 +111,55 @@ export class SSEService {
       }
     };
 
-    this.eventSource.onerror = (error): void => {
-      const readyState = this.eventSource?.readyState;
-      logger.error('SSE connection error', error, {
+    eventSource.onerror = (error): void => {
+      const readyState = eventSource.readyState;
+      const canReconnect = this.reconnectAttempts < MAX_RECONNECT_ATTEMPTS;
+      logger.warn('SSE connection error', {
         sessionId,
         readyState,
-        willReconnect: false, // No automatic reconnection
-        connectionDuration: Date.now() - connectionStartTime
+        lastEventId: this.lastEventId,
+        reconnectAttempts: this.reconnectAttempts,
+        connectionDuration: Date.now() - connectionStartTime,
+        error
       });
       
       useCollaborationStore.getState().setConnected(false);
-      
-      // No automatic reconnection - user must initiate new session
-      if (readyState === EventSource.CLOSED) {
-        logger.info('SSE connection closed, no automatic reconnection attempted', {
+
+      // CONNECTING: the browser retries on its own and sends Last-Event-ID
+      if (readyState !== EventSource.CLOSED) {
+        return;
+      }
+
+      eventSource.close();
+      if (this.eventSource !== eventSource) {
+        return;
+      }
+      this.eventSource = null;
+
+      // The server keeps the collaboration alive for a grace period - resume from the last event
+      if (this.userInitiated && this.lastEventId && canReconnect) {
+        this.reconnectAttempts++;
+        logger.info('SSE connection closed, scheduling resume', {
           sessionId,
-          reason: 'automatic_reconnection_disabled'
+          lastEventId: this.lastEventId,
+          attempt: this.reconnectAttempts,
+          delayMs: RECONNECT_DELAY_MS
         });
-        useCollaborationStore.getState().setError('Connection lost. Please start a new collaboration.');
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          if (this.userInitiated && this.sessionId === sessionId) {
+            this.open(sessionId, onMessage);
+          }
+        }, RECONNECT_DELAY_MS);
+        return;
       }
+
+      logger.info('SSE connection closed, giving up on reconnection', {
+        sessionId,
+        reconnectAttempts: this.reconnectAttempts
+      });
+      this.rememberSession(null);
+      useCollaborationStore.getState().setError('Connection lost. Please start a new collaboration.');
     };
   }
 
@@ -116,21 +190,91 @@ export class SSEService {
       if (message.payload.models) {
         store.setModels(message.payload.models as ModelConfig[]);
       }
+      // A reattached page learns the panel layout from the session itself
+      if (message.payload.conversation) {
+        const { participants } = message.payload.conversation as { participants?: string[] };
+        if (participants) {
+          store.selectModels(participants);
+        }
+      }
+      break;
+
+    case SSEMessageType.QUEUE_UPDATE:
+      // Server is at its session limit - show our place in line until admitted
+      if (message.payload.status === 'queued') {
+        store.setStatusMessage(
+          `⏳ Waiting for a free slot - position ${message.payload.position as number} of ${message.payload.queueLength as number}`
+        );
+      } else {
+        store.setStatusMessage(null);
+      }
+      break;
+
+    case SSEMessageType.SESSION_STATUS:
+      store.setPaused(message.payload.status === 'paused');
+      store.setStatusMessage((message.payload.message as string | undefined) ?? null);
+      if (message.payload.status === 'cancelled') {
+        store.setStreaming(false);
+        this.rememberSession(null);
+        this.closeEventSource();
+      }
+      break;
+
+    case SSEMessageType.CURATION_UPDATE:
+      // Curator finished preparing the last turn for the next participant
+      store.setStatusMessage(
+        `🧹 ${message.payload.curatorModelId as string} curated the last turn (${message.payload.task as string})`
+      );
+      break;
+
+    case SSEMessageType.BUDGET_EXCEEDED:
+      // Stays up while the collaboration wraps up with its final synthesis
+      store.setStatusMessage(message.payload.message as string);
       break;
 
     case SSEMessageType.ERROR:
       store.setError(message.payload.error as string | null);
+      this.rememberSession(null);
+      this.closeEventSource();
       break;
 
     case SSEMessageType.COLLABORATION_COMPLETE:
       store.setStreaming(false);
+      store.setPaused(false);
+      this.rememberSession(null);
       store.setPhase((message.payload.phase as CollaborationPhase) || CollaborationPhase.COMPLETE);
+      // The stream is over - a lingering EventSource would keep reconnecting to it
+      this.closeEventSource();
       break;
     }
   }
 
 
+  private rememberSession(sessionId: string | null): void {
+    const url = new URL(window.location.href);
+    if (sessionId) {
+      url.searchParams.set(SESSION_URL_PARAM, sessionId);
+    } else {
+      url.searchParams.delete(SESSION_URL_PARAM);
+    }
+    window.history.replaceState(null, '', url);
+  }
+
   disconnect(): void {
+    this.closeEventSource();
+    this.sessionId = null;
+    this.lastEventId = null;
+    
+    // Reset user-initiated flag to prevent automatic reconnections
+    this.userInitiated = false;
+  }
+
+  private closeEventSource(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.eventSource) {
       logger.info('Disconnecting SSE', {
         readyState: this.eventSource.readyState
@@ -139,9 +283,6 @@ export class SSEService {
       this.eventSource = null;
       useCollaborationStore.getState().setConnected(false);
     }
-    
-    // Reset user-initiated flag to prevent automatic reconnections
-    this.userInitiated = false;
   }
 
   isConnected(): boolean {
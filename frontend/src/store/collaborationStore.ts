@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 
-import { CollaborationState, CollaborationPhase, ModelConfig } from '@/types';
+import { CollaborationState, CollaborationPhase, ModelConfig, PendingFork } from '@/types';
 
 interface CollaborationStore extends CollaborationState {
   // Actions
@@ -8,11 +8,13 @@ interface CollaborationStore extends CollaborationState {
   setConnected: (connected: boolean) => void;
   setPhase: (phase: CollaborationPhase) => void;
   setModels: (models: ModelConfig[]) => void;
-  selectModels: (models: [string, string]) => void;
+  selectModels: (models: string[]) => void;
   setPrompt: (prompt: string) => void;
   setStreaming: (streaming: boolean) => void;
+  setPaused: (paused: boolean) => void;
   setError: (error: string | null) => void;
   setStatusMessage: (message: string | null) => void;
+  setPendingFork: (fork: PendingFork | null) => void;
   reset: () => void;
 }
 
@@ -24,8 +26,10 @@ const initialState: CollaborationState = {
   selectedModels: null,
   prompt: '',
   isStreaming: false,
+  isPaused: false,
   error: null,
   statusMessage: null,
+  pendingFork: null,
 };
 
 export const useCollaborationStore = create<CollaborationStore>((set) => ({
@@ -35,11 +39,13 @@ export const useCollaborationStore = create<CollaborationStore>((set) => ({
   setConnected: (connected: boolean): void => set({ isConnected: connected }),
   setPhase: (phase: CollaborationPhase): void => set({ currentPhase: phase }),
   setModels: (models: ModelConfig[]): void => set({ models }),
-  selectModels: (models: [string, string]): void => set({ selectedModels: models }),
+  selectModels: (models: string[]): void => set({ selectedModels: models }),
   setPrompt: (prompt: string): void => set({ prompt }),
   setStreaming: (streaming: boolean): void => set({ isStreaming: streaming }),
+  setPaused: (paused: boolean): void => set({ isPaused: paused }),
   setError: (error: string | null): void => set({ error }),
   setStatusMessage: (message: string | null): void => set({ statusMessage: message }),
+  setPendingFork: (fork: PendingFork | null): void => set({ pendingFork: fork }),
   
   reset: (): void => set(initialState),
 }));
\ No newline at end of file
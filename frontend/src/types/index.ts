@@ -15,6 +15,10 @@ export enum SSEMessageType {
   MODEL_STATUS = 'MODEL_STATUS',
   SYNTHESIS_UPDATE = 'SYNTHESIS_UPDATE',
   COLLABORATION_COMPLETE = 'COLLABORATION_COMPLETE',
+  QUEUE_UPDATE = 'QUEUE_UPDATE',
+  SESSION_STATUS = 'SESSION_STATUS',
+  CURATION_UPDATE = 'CURATION_UPDATE',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
   ERROR = 'ERROR'
 }
 
@@ -30,9 +34,27 @@ export interface TokenChunk {
   isComplete: boolean;
 }
 
+export type ModelRole = 'PARTICIPANT' | 'CURATOR' | 'SYNTHESIZER' | 'VERIFIER' | 'ANALYST';
+
 export interface ModelConfig {
   id: string;
   name: string;
+  contextSize?: number;
+  provider?: 'llama-cpp' | 'openai-compatible' | 'mock';
+  chatTemplate?: string;
+  supportsThinking?: boolean;
+  roles?: ModelRole[];             // Every role when unset
+  source?: 'manifest' | 'scan' | 'remote' | 'mock';
+  embeddedTemplate?: boolean;      // Prompts use the GGUF's own chat template
+  loaded?: boolean;
+  state?: 'unloaded' | 'loading' | 'loaded' | 'draining';
+  settings?: {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    minP?: number;
+    repeatPenalty?: number;
+  };
 }
 
 export interface CollaborationState {
@@ -40,9 +62,88 @@ export interface CollaborationState {
   isConnected: boolean;
   currentPhase: CollaborationPhase;
   models: ModelConfig[];
-  selectedModels: [string, string] | null;
+  selectedModels: string[] | null;
   prompt: string;
   isStreaming: boolean;
+  isPaused: boolean;
   error: string | null;
   statusMessage: string | null;
-}
\ No newline at end of file
+  pendingFork: PendingFork | null;
+}
+export interface SessionSummary {
+  sessionId: string;
+  originalQuery: string;
+  participants: string[];
+  workflowName?: string;
+  forkedFrom?: string; // Parent session ID
+  status: 'active' | 'paused' | 'completed' | 'cancelled' | 'error';
+  startedAt: number;
+  completedAt: number;
+  turnCount: number;
+}
+
+export interface TurnVersion {
+  content: string;
+  timestamp: number;
+  tokenCount: number;
+  processingTime: number;
+  settings?: { temperature?: number; topP?: number; topK?: number; minP?: number; repeatPenalty?: number };
+}
+
+export interface SessionTurn {
+  id: string;
+  modelId: string;
+  phase: CollaborationPhase;
+  content: string;
+  timestamp: number;
+  turnNumber: number;
+  versions?: TurnVersion[]; // Present once the turn was regenerated
+  selectedVersion?: number;
+  metadata?: {
+    isUserInterjection?: boolean;
+    isCarriedForward?: boolean;
+    isVerification?: boolean;
+  };
+}
+
+export interface ForkOrigin {
+  sessionId: string; // Parent session
+  turnId: string;    // Last parent turn carried into the fork
+  turnNumber: number;
+  phase: CollaborationPhase;
+  createdAt: number;
+}
+
+export interface ForkTreeNode {
+  sessionId: string;
+  summary?: SessionSummary; // Absent until the fork has been archived
+  forkedFrom?: ForkOrigin;
+  children: ForkTreeNode[];
+}
+
+// Fork created from the history panel, waiting for the arena to stream it
+export interface PendingFork {
+  sessionId: string;
+  prompt: string;
+  forkedFrom: ForkOrigin;
+}
+
+export interface SessionRecord extends Omit<SessionSummary, 'workflowName' | 'turnCount' | 'forkedFrom'> {
+  workflow?: { id: string; name: string };
+  forkedFrom?: ForkOrigin;
+  error?: string;
+  turns: SessionTurn[];
+  phaseHistory: Array<{
+    phase: CollaborationPhase;
+    completed: boolean;
+    outcome: string;
+    consensus: number;
+    timestamp: number;
+  }>;
+  agreementAnalyses: Array<{
+    phase: CollaborationPhase;
+    analysis: Record<string, unknown>;
+    timestamp: number;
+  }>;
+  finalSynthesis: string;
+}